@@ -0,0 +1,14 @@
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+  experimental: {
+    // Tesseract spawns its own worker script and loads wasm from disk, so keep it out of the server bundle.
+    // zxing-wasm is given its wasm binary from node_modules at runtime for the same reason,
+    // and pdfkit reads its font metrics from its own package directory. heic-convert's libheif build is
+    // a large emscripten bundle that gains nothing from being re-bundled.
+    serverComponentsExternalPackages: ["tesseract.js", "zxing-wasm", "pdfkit", "heic-convert"],
+    // Starts the daily expiry alert scheduler (src/instrumentation.ts).
+    instrumentationHook: true,
+  },
+};
+
+export default nextConfig;
@@ -0,0 +1,79 @@
+// Keeps the dashboard usable offline: the app shell and item photos are
+// served from cache when the network is gone. Item data and queued changes
+// live in IndexedDB (src/lib/offline), so API responses are not cached here.
+// Photos are private to the account: signing out deletes their cache
+// (src/lib/accounts/client.ts).
+
+const VERSION = "v1";
+const SHELL_CACHE = `expiry-shell-${VERSION}`;
+const PHOTO_CACHE = `expiry-photos-${VERSION}`;
+const ASSET_URLS = ["/manifest.webmanifest", "/icons/icon.svg", "/icons/icon-192.png", "/icons/icon-512.png"];
+const MAX_PHOTOS = 500;
+const PHOTO_PATH = /^\/api\/items\/[^/]+\/image$/;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(["/", ...ASSET_URLS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== SHELL_CACHE && k !== PHOTO_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+/** Oldest photos go first once the cache holds more than MAX_PHOTOS. */
+async function trimPhotos(cache) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_PHOTOS)).map((k) => cache.delete(k)));
+}
+
+/** The network's answer, kept for next time; the cached one when the network cannot be reached. */
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      if (cacheName === PHOTO_CACHE) await trimPhotos(cache);
+    }
+    return response;
+  } catch (err) {
+    const cached = (await cache.match(request)) ?? (fallbackUrl ? await cache.match(fallbackUrl) : undefined);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+/** Build output under /_next/static is content-hashed, so a cached copy never goes stale. */
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    // Any page falls back to the dashboard, which reads its rows from IndexedDB.
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+  } else if (url.pathname.startsWith("/_next/static/") || ASSET_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (PHOTO_PATH.test(url.pathname)) {
+    event.respondWith(networkFirst(request, PHOTO_CACHE));
+  }
+});
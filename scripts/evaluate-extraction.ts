@@ -0,0 +1,70 @@
+/**
+ * Scores label extraction against a labeled fixture set.
+ *
+ *   npm run eval                          # fixtures/eval, replaying recorded replies offline
+ *   npm run eval -- --provider mock       # any provider name the app accepts
+ *   npm run eval -- --provider gemini --record   # live run; saves its replies for offline runs
+ *   npm run eval -- path/to/dataset --locale en-US --fail-on-regression
+ *
+ * Prints per-field exact-match rates, date errors in days, every mismatch and
+ * what changed since the previous run over the same dataset.
+ */
+import { parseArgs } from "util";
+import { getExtractionProvider, ProviderConfigError } from "@/lib/extraction";
+import { DEFAULT_DATASET, diffRuns, formatReport, lastRunPath, loadDataset, loadRun, repliesPath, runEvaluation, saveReplies, saveRun } from "@/lib/evaluation";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    provider: { type: "string", default: "recorded" },
+    locale: { type: "string" },
+    record: { type: "boolean", default: false },
+    out: { type: "string" },
+    "fail-on-regression": { type: "boolean", default: false },
+  },
+});
+
+async function main(): Promise<number> {
+  const dataset = await loadDataset(positionals[0] ?? DEFAULT_DATASET);
+  if (values.provider === "recorded") process.env.RECORDED_REPLIES_FILE = repliesPath(dataset);
+  if (values.record && values.provider !== "gemini") {
+    console.error("--record saves model replies and needs a live model provider (--provider gemini)");
+    return 2;
+  }
+  let provider;
+  try {
+    provider = getExtractionProvider(values.provider);
+  } catch (err) {
+    if (err instanceof ProviderConfigError) {
+      console.error(err.message);
+      return 2;
+    }
+    throw err;
+  }
+
+  const run = await runEvaluation(dataset, provider, {
+    locale: values.locale,
+    onCase: (c) => process.stderr.write(c.error ? "x" : "."),
+  });
+  process.stderr.write("\n");
+
+  const runFile = values.out ?? lastRunPath(dataset);
+  const previous = await loadRun(runFile);
+  const diff = previous ? diffRuns(previous, run) : null;
+  console.log(formatReport(run, diff));
+  await saveRun(runFile, run);
+  console.log(`\nRun saved to ${runFile}`);
+  if (values.record) {
+    const recorded = await saveReplies(dataset, run);
+    console.log(`Saved ${Object.keys(recorded.replies).length} replies to ${repliesPath(dataset)}`);
+  }
+  return values["fail-on-regression"] && diff?.regressed.length ? 1 : 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err);
+    process.exit(1);
+  }
+);
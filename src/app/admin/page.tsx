@@ -0,0 +1,486 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { fetchMe, type Me } from "@/lib/accounts/client";
+import { locationPath, sortedTree } from "@/lib/accounts/locations";
+import { MIN_PASSWORD_LENGTH, ROLES, type Organization, type PublicUser, type Role, type StorageLocation } from "@/lib/accounts/types";
+import { API_KEY_ROLES, type ApiKeyRole, type PublicApiKey } from "@/lib/api-keys/types";
+
+const INPUT = "rounded-md border border-white/20 bg-white/10 px-3 py-2 text-white outline-none focus:ring-2 focus:ring-white/30 [&>option]:text-black";
+const BUTTON = "rounded-md bg-white/20 px-4 py-2 text-sm font-medium text-white shadow hover:bg-white/30 disabled:opacity-50";
+const LINK_BUTTON = "text-xs underline disabled:opacity-50";
+
+const CHILD_KIND: Record<StorageLocation["kind"], string | null> = { site: "room", room: "shelf", shelf: null };
+
+type UserForm = { username: string; displayName: string; password: string; role: Role; locationId: string };
+
+const EMPTY_USER: UserForm = { username: "", displayName: "", password: "", role: "scanner", locationId: "" };
+
+type KeyForm = { name: string; role: ApiKeyRole; locationId: string; rateLimit: string };
+
+const EMPTY_KEY: KeyForm = { name: "", role: "viewer", locationId: "", rateLimit: "" };
+
+/** Users, the site → room → shelf tree, API keys, the audit log and, for the owner, further organizations. */
+export default function AdminPage() {
+  const [me, setMe] = useState<Me | null>(null);
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [locations, setLocations] = useState<StorageLocation[]>([]);
+  const [orgs, setOrgs] = useState<Organization[]>([]);
+  const [userForm, setUserForm] = useState<UserForm>(EMPTY_USER);
+  const [siteName, setSiteName] = useState("");
+  const [childNames, setChildNames] = useState<Record<string, string>>({});
+  const [orgForm, setOrgForm] = useState({ name: "", username: "", password: "" });
+  const [apiKeys, setApiKeys] = useState<PublicApiKey[]>([]);
+  const [keyForm, setKeyForm] = useState<KeyForm>(EMPTY_KEY);
+  /** The key just issued; shown until the page is left, since it cannot be fetched again. */
+  const [newSecret, setNewSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [auditRange, setAuditRange] = useState({ from: "", to: "" });
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const account = await fetchMe();
+      setMe(account);
+      if (!account?.user || account.user.role !== "admin") return;
+      const [usersRes, locationsRes, orgsRes, keysRes] = await Promise.all([
+        fetch("/api/users"),
+        fetch("/api/locations"),
+        fetch("/api/orgs"),
+        fetch("/api/api-keys"),
+      ]);
+      if (usersRes.ok) setUsers(((await usersRes.json()) as { users: PublicUser[] }).users);
+      if (keysRes.ok) setApiKeys(((await keysRes.json()) as { keys: PublicApiKey[] }).keys);
+      if (locationsRes.ok) setLocations(((await locationsRes.json()) as { locations: StorageLocation[] }).locations);
+      if (orgsRes.ok) setOrgs(((await orgsRes.json()) as { orgs: Organization[] }).orgs);
+    } catch {
+      setMessage({ text: "Could not load accounts", error: true });
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  /** Sends a request, shows its error or `success`, and reloads everything. */
+  const call = async (url: string, init: RequestInit, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } });
+      const data = res.status === 204 ? {} : ((await res.json()) as { error?: string; message?: string });
+      setMessage(res.ok ? { text: success, error: false } : { text: data.message ?? data.error ?? `Request failed (${res.status})`, error: true });
+      if (res.ok) await load();
+      return res.ok;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const patchUser = (u: PublicUser, body: Record<string, unknown>, success: string) =>
+    call(`/api/users/${u.id}`, { method: "PATCH", body: JSON.stringify(body) }, success);
+
+  const addUser = async () => {
+    const { locationId, ...rest } = userForm;
+    const added = await call("/api/users", { method: "POST", body: JSON.stringify({ ...rest, locationIds: locationId ? [locationId] : [] }) }, "User added");
+    if (added) setUserForm(EMPTY_USER);
+  };
+
+  const resetPassword = (u: PublicUser) => {
+    const password = window.prompt(`New password for ${u.username} (at least ${MIN_PASSWORD_LENGTH} characters)`);
+    if (password) void patchUser(u, { password }, "Password changed; the user was signed out");
+  };
+
+  const addLocation = async (name: string, parentId: string | null) => {
+    const added = await call("/api/locations", { method: "POST", body: JSON.stringify({ name, parentId }) }, "Location added");
+    if (added) {
+      if (parentId) setChildNames((prev) => ({ ...prev, [parentId]: "" }));
+      else setSiteName("");
+    }
+  };
+
+  const renameLocation = (l: StorageLocation) => {
+    const name = window.prompt("New name", l.name);
+    if (name && name !== l.name) void call(`/api/locations/${l.id}`, { method: "PATCH", body: JSON.stringify({ name }) }, "Location renamed");
+  };
+
+  const addApiKey = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const { locationId, rateLimit, ...rest } = keyForm;
+      const res = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...rest, locationIds: locationId ? [locationId] : [], rateLimit: rateLimit ? Number(rateLimit) : null }),
+      });
+      const data = (await res.json()) as { key?: PublicApiKey; secret?: string; error?: string; message?: string };
+      if (!res.ok || !data.key || !data.secret) {
+        setMessage({ text: data.message ?? data.error ?? `Request failed (${res.status})`, error: true });
+        return;
+      }
+      setNewSecret({ name: data.key.name, secret: data.secret });
+      setKeyForm(EMPTY_KEY);
+      await load();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revokeApiKey = (key: PublicApiKey) => {
+    if (window.confirm(`Revoke the key for ${key.name}? Requests using it will fail at once.`)) {
+      void call(`/api/api-keys/${key.id}`, { method: "DELETE" }, "API key revoked");
+    }
+  };
+
+  const addOrg = async () => {
+    const added = await call(
+      "/api/orgs",
+      { method: "POST", body: JSON.stringify({ name: orgForm.name, admin: { username: orgForm.username, password: orgForm.password } }) },
+      "Organization added"
+    );
+    if (added) setOrgForm({ name: "", username: "", password: "" });
+  };
+
+  const tree = sortedTree(locations);
+  const auditHref = (format: string) =>
+    `/api/audit?${new URLSearchParams({ format, download: "1", ...(auditRange.from ? { from: auditRange.from } : {}), ...(auditRange.to ? { to: auditRange.to } : {}) })}`;
+
+  return (
+    <div className="min-h-screen w-full soft-gradient bg-fixed p-6 sm:p-10">
+      <div className="mx-auto max-w-5xl rounded-2xl border border-white/20 bg-white/10 backdrop-blur-xl p-6 sm:p-10 text-white shadow-2xl">
+        <div className="mb-8 flex items-center justify-between gap-4">
+          <h1 className="text-xl sm:text-2xl font-semibold">Admin{me?.org && ` · ${me.org.name}`}</h1>
+          <Link href="/" className="text-sm text-white/80 underline hover:text-white">Back to results</Link>
+        </div>
+
+        {message && <p className={`mb-6 text-sm ${message.error ? "text-red-300" : "text-green-300"}`}>{message.text}</p>}
+        {me && me.user?.role !== "admin" && (
+          <p className="text-sm text-white/80">
+            {me.setupRequired ? (
+              <>
+                No accounts yet. <Link href="/login" className="underline">Set them up</Link> first.
+              </>
+            ) : (
+              "Only admins can manage users and locations."
+            )}
+          </p>
+        )}
+
+        {me?.user?.role === "admin" && (
+          <>
+            <section className="mb-10 space-y-3">
+              <h2 className="text-lg font-semibold">Locations</h2>
+              <p className="text-sm text-white/75">Sites hold rooms (wards, stock rooms), and rooms hold shelves. Items and phone sessions are filed under one of them.</p>
+              <ul className="space-y-1 text-sm">
+                {tree.map((l) => (
+                  <li key={l.id} className={l.kind === "room" ? "pl-6" : l.kind === "shelf" ? "pl-12" : ""}>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="font-medium">{l.name}</span>
+                      <span className="text-xs text-white/60">{l.kind}</span>
+                      <button type="button" className={LINK_BUTTON} disabled={busy} onClick={() => renameLocation(l)}>
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        className={`${LINK_BUTTON} text-red-200`}
+                        disabled={busy}
+                        onClick={() => void call(`/api/locations/${l.id}`, { method: "DELETE" }, "Location removed")}
+                      >
+                        Remove
+                      </button>
+                      {CHILD_KIND[l.kind] && (
+                        <span className="flex items-center gap-2">
+                          <input
+                            value={childNames[l.id] ?? ""}
+                            onChange={(e) => setChildNames((prev) => ({ ...prev, [l.id]: e.target.value }))}
+                            placeholder={`New ${CHILD_KIND[l.kind]}`}
+                            className={`${INPUT} py-1 text-xs`}
+                          />
+                          <button
+                            type="button"
+                            className={LINK_BUTTON}
+                            disabled={busy || !childNames[l.id]?.trim()}
+                            onClick={() => void addLocation(childNames[l.id], l.id)}
+                          >
+                            Add
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex flex-wrap items-center gap-3">
+                <input value={siteName} onChange={(e) => setSiteName(e.target.value)} placeholder="New site, e.g. Main hospital" className={INPUT} />
+                <button type="button" className={BUTTON} disabled={busy || !siteName.trim()} onClick={() => void addLocation(siteName, null)}>
+                  Add site
+                </button>
+              </div>
+            </section>
+
+            <section className="mb-10 space-y-3">
+              <h2 className="text-lg font-semibold">Users</h2>
+              <p className="text-sm text-white/75">
+                Viewers see results and stock, scanners also capture, import and edit items, and admins also manage users, locations, status rules and
+                alerts. A user limited to a location sees only what is kept there.
+              </p>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/80">
+                    <th className="py-2 pr-4 font-medium">User</th>
+                    <th className="py-2 pr-4 font-medium">Role</th>
+                    <th className="py-2 pr-4 font-medium">Works at</th>
+                    <th className="py-2 pr-4 font-medium">Last sign-in</th>
+                    <th className="py-2 pr-4 font-medium" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map((u) => (
+                    <tr key={u.id} className={`border-t border-white/10 ${u.disabled ? "opacity-60" : ""}`}>
+                      <td className="py-2 pr-4">
+                        {u.displayName || u.username}
+                        {u.displayName && <span className="ml-1 text-xs text-white/60">{u.username}</span>}
+                        {u.disabled && <span className="ml-2 text-xs text-amber-200">disabled</span>}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <select
+                          value={u.role}
+                          disabled={busy}
+                          onChange={(e) => void patchUser(u, { role: e.target.value }, "Role changed")}
+                          className={`${INPUT} py-1`}
+                        >
+                          {ROLES.map((r) => (
+                            <option key={r} value={r}>
+                              {r}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <select
+                          value={u.locationIds[0] ?? ""}
+                          disabled={busy}
+                          onChange={(e) => void patchUser(u, { locationIds: e.target.value ? [e.target.value] : [] }, "Location changed")}
+                          className={`${INPUT} max-w-[16rem] py-1`}
+                        >
+                          <option value="">Everywhere</option>
+                          {tree.map((l) => (
+                            <option key={l.id} value={l.id}>
+                              {locationPath(locations, l.id)}
+                            </option>
+                          ))}
+                        </select>
+                        {u.locationIds.length > 1 && <span className="ml-1 text-xs text-white/60">+{u.locationIds.length - 1} more</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-white/70">{u.lastLoginAt ? new Date(u.lastLoginAt).toLocaleString() : "never"}</td>
+                      <td className="py-2 pr-4">
+                        <div className="flex gap-3">
+                          <button type="button" className={LINK_BUTTON} disabled={busy} onClick={() => resetPassword(u)}>
+                            Reset password
+                          </button>
+                          {u.id !== me.user?.id && (
+                            <>
+                              <button
+                                type="button"
+                                className={LINK_BUTTON}
+                                disabled={busy}
+                                onClick={() => void patchUser(u, { disabled: !u.disabled }, u.disabled ? "User enabled" : "User disabled")}
+                              >
+                                {u.disabled ? "Enable" : "Disable"}
+                              </button>
+                              <button
+                                type="button"
+                                className={`${LINK_BUTTON} text-red-200`}
+                                disabled={busy}
+                                onClick={() => void call(`/api/users/${u.id}`, { method: "DELETE" }, "User removed")}
+                              >
+                                Remove
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex flex-wrap items-center gap-3">
+                <input value={userForm.username} onChange={(e) => setUserForm({ ...userForm, username: e.target.value })} placeholder="Username" className={INPUT} />
+                <input
+                  value={userForm.displayName}
+                  onChange={(e) => setUserForm({ ...userForm, displayName: e.target.value })}
+                  placeholder="Name (optional)"
+                  className={INPUT}
+                />
+                <input
+                  type="password"
+                  value={userForm.password}
+                  onChange={(e) => setUserForm({ ...userForm, password: e.target.value })}
+                  placeholder={`Password (${MIN_PASSWORD_LENGTH}+ characters)`}
+                  autoComplete="new-password"
+                  className={INPUT}
+                />
+                <select value={userForm.role} onChange={(e) => setUserForm({ ...userForm, role: e.target.value as Role })} className={INPUT}>
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {r}
+                    </option>
+                  ))}
+                </select>
+                <select value={userForm.locationId} onChange={(e) => setUserForm({ ...userForm, locationId: e.target.value })} className={INPUT}>
+                  <option value="">Everywhere</option>
+                  {tree.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {locationPath(locations, l.id)}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className={BUTTON} disabled={busy || !userForm.username || !userForm.password} onClick={() => void addUser()}>
+                  Add user
+                </button>
+              </div>
+            </section>
+
+            <section className="mb-10 space-y-3">
+              <h2 className="text-lg font-semibold">API keys</h2>
+              <p className="text-sm text-white/75">
+                Other systems read labels and sync items through{" "}
+                <a href="/api/v1/openapi.json" className="underline">
+                  /api/v1
+                </a>{" "}
+                with a key of their own. Viewer keys read items and exports, scanner keys also analyze and add items. Revoke a key when the
+                integration is retired or the key leaks.
+              </p>
+              {newSecret && (
+                <div className="rounded-md border border-amber-200/40 bg-amber-200/10 p-3 text-sm">
+                  <p className="mb-1">Key for {newSecret.name}; copy it now, it is not shown again:</p>
+                  <code className="break-all font-mono text-xs">{newSecret.secret}</code>
+                </div>
+              )}
+              {apiKeys.length > 0 && (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-white/80">
+                      <th className="py-2 pr-4 font-medium">Integration</th>
+                      <th className="py-2 pr-4 font-medium">Role</th>
+                      <th className="py-2 pr-4 font-medium">Works at</th>
+                      <th className="py-2 pr-4 font-medium">Per minute</th>
+                      <th className="py-2 pr-4 font-medium">Last used</th>
+                      <th className="py-2 pr-4 font-medium" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {apiKeys.map((k) => (
+                      <tr key={k.id} className={`border-t border-white/10 ${k.revokedAt ? "opacity-60" : ""}`}>
+                        <td className="py-2 pr-4">
+                          {k.name}
+                          <span className="ml-1 font-mono text-xs text-white/60">{k.hint}…</span>
+                          {k.revokedAt && <span className="ml-2 text-xs text-amber-200">revoked</span>}
+                        </td>
+                        <td className="py-2 pr-4">{k.role}</td>
+                        <td className="py-2 pr-4">{k.locationIds.length ? k.locationIds.map((id) => locationPath(locations, id)).join(", ") : "Everywhere"}</td>
+                        <td className="py-2 pr-4">{k.rateLimit ?? "default"}</td>
+                        <td className="py-2 pr-4 text-white/70">{k.lastUsedAt ? new Date(k.lastUsedAt).toLocaleString() : "never"}</td>
+                        <td className="py-2 pr-4">
+                          {!k.revokedAt && (
+                            <button type="button" className={`${LINK_BUTTON} text-red-200`} disabled={busy} onClick={() => revokeApiKey(k)}>
+                              Revoke
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <div className="flex flex-wrap items-center gap-3">
+                <input value={keyForm.name} onChange={(e) => setKeyForm({ ...keyForm, name: e.target.value })} placeholder="Integration, e.g. ERP sync" className={INPUT} />
+                <select value={keyForm.role} onChange={(e) => setKeyForm({ ...keyForm, role: e.target.value as ApiKeyRole })} className={INPUT}>
+                  {API_KEY_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {r}
+                    </option>
+                  ))}
+                </select>
+                <select value={keyForm.locationId} onChange={(e) => setKeyForm({ ...keyForm, locationId: e.target.value })} className={INPUT}>
+                  <option value="">Everywhere</option>
+                  {tree.map((l) => (
+                    <option key={l.id} value={l.id}>
+                      {locationPath(locations, l.id)}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  value={keyForm.rateLimit}
+                  onChange={(e) => setKeyForm({ ...keyForm, rateLimit: e.target.value })}
+                  placeholder="Requests/minute"
+                  className={`${INPUT} w-40`}
+                />
+                <button type="button" className={BUTTON} disabled={busy || !keyForm.name.trim()} onClick={() => void addApiKey()}>
+                  Create key
+                </button>
+              </div>
+            </section>
+
+            <section className="mb-10 space-y-3">
+              <h2 className="text-lg font-semibold">Audit log</h2>
+              <p className="text-sm text-white/75">
+                Every analysis, edit, status change, deletion and restore, with who made it. Each item&apos;s history is also under History on the results page.
+              </p>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2">
+                  From
+                  <input type="date" value={auditRange.from} onChange={(e) => setAuditRange({ ...auditRange, from: e.target.value })} className={INPUT} />
+                </label>
+                <label className="flex items-center gap-2">
+                  To
+                  <input type="date" value={auditRange.to} onChange={(e) => setAuditRange({ ...auditRange, to: e.target.value })} className={INPUT} />
+                </label>
+                <a href={auditHref("csv")} download className={BUTTON}>
+                  Download CSV
+                </a>
+                <a href={auditHref("jsonl")} download className={BUTTON}>
+                  Download JSON lines
+                </a>
+              </div>
+            </section>
+
+            {me.user.owner && (
+              <section className="space-y-3">
+                <h2 className="text-lg font-semibold">Organizations</h2>
+                <p className="text-sm text-white/75">Each organization has its own users, locations, items and alerts. Its first admin manages the rest.</p>
+                <ul className="list-disc pl-5 text-sm">
+                  {orgs.map((o) => (
+                    <li key={o.id}>
+                      {o.name}
+                      {o.id === me.org?.id && <span className="ml-2 text-xs text-white/60">yours</span>}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input value={orgForm.name} onChange={(e) => setOrgForm({ ...orgForm, name: e.target.value })} placeholder="Organization" className={INPUT} />
+                  <input value={orgForm.username} onChange={(e) => setOrgForm({ ...orgForm, username: e.target.value })} placeholder="Admin username" className={INPUT} />
+                  <input
+                    type="password"
+                    value={orgForm.password}
+                    onChange={(e) => setOrgForm({ ...orgForm, password: e.target.value })}
+                    placeholder="Admin password"
+                    autoComplete="new-password"
+                    className={INPUT}
+                  />
+                  <button type="button" className={BUTTON} disabled={busy || !orgForm.name.trim() || !orgForm.username} onClick={() => void addOrg()}>
+                    Add organization
+                  </button>
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
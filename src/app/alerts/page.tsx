@@ -0,0 +1,211 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { AlertChannel, AlertRunResult, AlertSubscription } from "@/lib/alerts";
+import { describeDays } from "@/lib/alerts/digest";
+
+const INPUT = "rounded-md border border-white/20 bg-white/10 px-3 py-2 text-white outline-none focus:ring-2 focus:ring-white/30";
+const BUTTON = "rounded-md bg-white/20 px-4 py-2 text-sm font-medium text-white shadow hover:bg-white/30 disabled:opacity-50";
+const LINK_BUTTON = "text-xs underline disabled:opacity-50";
+
+type Form = { name: string; channel: AlertChannel; target: string; thresholds: string; categories: string };
+
+const EMPTY_FORM: Form = { name: "", channel: "email", target: "", thresholds: "30, 7, 0", categories: "" };
+
+type Overview = {
+  subscriptions: AlertSubscription[];
+  lastRunDate: string | null;
+  scheduler: { enabled: boolean; hour: number };
+  smtpConfigured: boolean;
+};
+
+function splitList(text: string): string[] {
+  return text.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
+export default function AlertsPage() {
+  const [overview, setOverview] = useState<Overview | null>(null);
+  const [form, setForm] = useState<Form>(EMPTY_FORM);
+  const [preview, setPreview] = useState<AlertRunResult | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = async () => {
+    try {
+      const res = await fetch("/api/alerts");
+      if (res.ok) setOverview((await res.json()) as Overview);
+    } catch {
+      setMessage({ text: "Could not load alert subscriptions", error: true });
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  /** Sends a request, shows its error or `success`, and reloads the list. */
+  const call = async (url: string, init: RequestInit, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(url, { ...init, headers: { "Content-Type": "application/json" } });
+      const data = res.status === 204 ? {} : ((await res.json()) as { error?: string });
+      setMessage(res.ok ? { text: success, error: false } : { text: data.error ?? `Request failed (${res.status})`, error: true });
+      if (res.ok) await load();
+      return res.ok ? data : null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addSubscription = async () => {
+    const thresholds = splitList(form.thresholds).map(Number);
+    const created = await call(
+      "/api/alerts/subscriptions",
+      {
+        method: "POST",
+        body: JSON.stringify({ name: form.name, channel: form.channel, target: form.target, thresholds, categories: splitList(form.categories) }),
+      },
+      "Subscription added"
+    );
+    if (created) setForm(EMPTY_FORM);
+  };
+
+  const patch = (s: AlertSubscription, body: Record<string, unknown>, success: string) =>
+    call(`/api/alerts/subscriptions/${s.id}`, { method: "PATCH", body: JSON.stringify(body) }, success);
+
+  const runNow = async (dryRun: boolean) => {
+    const result = await call("/api/alerts/run", { method: "POST", body: JSON.stringify({ dryRun }) }, dryRun ? "Preview ready" : "Alerts checked");
+    if (result) setPreview(result as AlertRunResult);
+  };
+
+  return (
+    <div className="min-h-screen w-full soft-gradient bg-fixed p-6 sm:p-10">
+      <div className="mx-auto max-w-4xl rounded-2xl border border-white/20 bg-white/10 backdrop-blur-xl p-6 sm:p-10 text-white shadow-2xl">
+        <div className="mb-8 flex items-center justify-between gap-4">
+          <h1 className="text-xl sm:text-2xl font-semibold">Expiry alerts</h1>
+          <Link href="/" className="text-sm text-white/80 underline hover:text-white">Back to results</Link>
+        </div>
+
+        {overview && (
+          <p className="mb-6 text-sm text-white/75">
+            {overview.scheduler.enabled
+              ? `Checked daily from ${String(overview.scheduler.hour).padStart(2, "0")}:00 on the status rules' time zone.`
+              : "The daily scheduler is off (ALERTS_SCHEDULER=off); use Run now or call POST /api/alerts/run."}{" "}
+            {overview.lastRunDate ? `Last run ${overview.lastRunDate}.` : "Not run yet."}
+            {!overview.smtpConfigured && " Email needs SMTP_URL on the server."}
+          </p>
+        )}
+
+        <section className="mb-8 space-y-3">
+          <h2 className="text-lg font-semibold">Subscriptions</h2>
+          {overview?.subscriptions.length === 0 && <p className="text-sm text-white/70">No subscriptions yet.</p>}
+          <ul className="space-y-3">
+            {overview?.subscriptions.map((s) => (
+              <li key={s.id} className="rounded-lg border border-white/15 p-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <span className="font-medium">{s.name}</span>{" "}
+                    <span className="text-white/70">
+                      {s.channel === "email" ? "✉" : "⇢"} {s.target} · at {s.thresholds.join("/")} days
+                      {s.categories.length ? ` · ${s.categories.join(", ")}` : " · all categories"}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1 text-xs">
+                      <input type="checkbox" checked={s.enabled} disabled={busy} onChange={() => void patch(s, { enabled: !s.enabled }, s.enabled ? "Paused" : "Resumed")} />
+                      Enabled
+                    </label>
+                    <button type="button" className={LINK_BUTTON} disabled={busy} onClick={() => void call(`/api/alerts/subscriptions/${s.id}/test`, { method: "POST" }, "Test sent")}>
+                      Send test
+                    </button>
+                    <button type="button" className={`${LINK_BUTTON} text-red-200`} disabled={busy} onClick={() => void call(`/api/alerts/subscriptions/${s.id}`, { method: "DELETE" }, "Subscription removed")}>
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                {s.secret && (
+                  <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-white/70">
+                    <span>
+                      Signing secret <code className="rounded bg-black/30 px-1">{s.secret}</code>
+                    </span>
+                    <button type="button" className={LINK_BUTTON} disabled={busy} onClick={() => void patch(s, { rotateSecret: true }, "Secret rotated")}>
+                      Rotate
+                    </button>
+                  </div>
+                )}
+                <div className="mt-1 text-xs text-white/60">
+                  {s.lastSentAt ? `Last sent ${new Date(s.lastSentAt).toLocaleString()}` : "Nothing sent yet"}
+                  {s.lastError && <span className="ml-2 text-red-300">Last delivery failed: {s.lastError}</span>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="mb-8 space-y-3">
+          <h2 className="text-lg font-semibold">Add subscription</h2>
+          <div className="grid gap-3 text-sm sm:grid-cols-2">
+            <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Name, e.g. Pharmacy team" className={INPUT} />
+            <div className="flex gap-3">
+              <select value={form.channel} onChange={(e) => setForm({ ...form, channel: e.target.value as AlertChannel })} className={`${INPUT} [&>option]:text-black`} aria-label="Channel">
+                <option value="email">Email</option>
+                <option value="webhook">Webhook</option>
+              </select>
+              <input
+                value={form.target}
+                onChange={(e) => setForm({ ...form, target: e.target.value })}
+                placeholder={form.channel === "email" ? "team@example.com" : "https://example.com/hooks/expiry"}
+                className={`${INPUT} flex-1`}
+              />
+            </div>
+            <label className="flex flex-col gap-1">
+              <span className="text-white/80">Alert at (days before expiry)</span>
+              <input value={form.thresholds} onChange={(e) => setForm({ ...form, thresholds: e.target.value })} className={INPUT} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-white/80">Categories (blank for all)</span>
+              <input value={form.categories} onChange={(e) => setForm({ ...form, categories: e.target.value })} placeholder="vaccines, reagents" className={INPUT} />
+            </label>
+          </div>
+          <button type="button" className={BUTTON} disabled={busy} onClick={() => void addSubscription()}>
+            Add subscription
+          </button>
+        </section>
+
+        <div className="mb-6 flex flex-wrap items-center gap-4">
+          <button type="button" className={BUTTON} disabled={busy} onClick={() => void runNow(true)}>
+            Preview next digest
+          </button>
+          <button type="button" onClick={() => void runNow(false)} disabled={busy} className="rounded-md bg-emerald-500/80 px-4 py-2 text-sm font-medium shadow hover:bg-emerald-500 disabled:opacity-50">
+            Run now
+          </button>
+          {message && <span className={`text-sm ${message.error ? "text-red-300" : "text-green-300"}`}>{message.text}</span>}
+        </div>
+
+        {preview && (
+          <section className="space-y-3 text-sm">
+            <h2 className="text-lg font-semibold">{preview.dryRun ? "Would send" : "Sent"} for {preview.date}</h2>
+            {preview.digests.length === 0 && <p className="text-white/70">No item has crossed a threshold since its last alert.</p>}
+            {preview.digests.map((d) => (
+              <div key={d.subscription.id}>
+                <div className="font-medium">{d.subscription.name}</div>
+                <ul className="ml-4 list-disc text-white/85">
+                  {d.entries.map((e) => (
+                    <li key={e.itemId}>
+                      {e.product || "Unnamed item"} — {e.expiryDate}, {describeDays(e.days)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            {preview.deliveries.filter((r) => !r.sent).map((r) => (
+              <p key={r.subscriptionId} className="text-red-300">{r.name}: {r.error}</p>
+            ))}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { getAlertState } from "@/lib/alerts";
+import { alertHour, schedulerEnabled } from "@/lib/alerts/scheduler";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const { subscriptions, lastRunDate } = await getAlertState();
+  return Response.json({
+    subscriptions: subscriptions.filter((s) => inOrg(access, s.orgId)),
+    lastRunDate,
+    scheduler: { enabled: schedulerEnabled(), hour: alertHour() },
+    smtpConfigured: Boolean(process.env.SMTP_URL),
+  });
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { getAlertState, runAlerts } from "@/lib/alerts";
+
+export const runtime = "nodejs";
+
+/**
+ * Runs the daily check now, e.g. from an external cron when the built-in
+ * scheduler is off. `{ "dryRun": true }` returns the digests without sending
+ * them or recording anything. Every organization's alerts run; the reply
+ * only shows the caller's.
+ */
+export async function POST(req: NextRequest) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const parsed: unknown = await req.json().catch(() => ({}));
+  const body = (parsed && typeof parsed === "object" ? parsed : {}) as { dryRun?: unknown };
+  const [result, { subscriptions }] = await Promise.all([runAlerts({ dryRun: body.dryRun === true }), getAlertState()]);
+  const own = new Set(subscriptions.filter((s) => inOrg(access, s.orgId)).map((s) => s.id));
+  return Response.json({
+    ...result,
+    deliveries: result.deliveries.filter((d) => own.has(d.subscriptionId)),
+    digests: result.digests.filter((d) => own.has(d.subscription.id)),
+  });
+}
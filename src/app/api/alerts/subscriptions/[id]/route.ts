@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { deleteSubscription, getSubscription, updateSubscription, validateSubscription } from "@/lib/alerts";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  const existing = await getSubscription(id);
+  if (!existing || !inOrg(access, existing.orgId)) return Response.json({ error: "subscription not found" }, { status: 404 });
+  const result = validateSubscription(body, existing);
+  if ("error" in result) return Response.json({ error: result.error }, { status: 400 });
+  const subscription = await updateSubscription(id, result.input, { rotateSecret: body.rotateSecret === true });
+  if (!subscription) return Response.json({ error: "subscription not found" }, { status: 404 });
+  return Response.json({ subscription });
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const existing = await getSubscription(id);
+  if (!existing || !inOrg(access, existing.orgId)) return Response.json({ error: "subscription not found" }, { status: 404 });
+  const deleted = await deleteSubscription(id);
+  if (!deleted) return Response.json({ error: "subscription not found" }, { status: 404 });
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { getSubscription, sendTestDigest } from "@/lib/alerts";
+
+export const runtime = "nodejs";
+
+/** Sends a one-item sample digest; 502 when the mail server or webhook refuses it. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const subscription = await getSubscription(id);
+  if (!subscription || !inOrg(access, subscription.orgId)) return Response.json({ error: "subscription not found" }, { status: 404 });
+  const result = await sendTestDigest(subscription);
+  return Response.json(result.sent ? { result } : { error: result.error, result }, { status: result.sent ? 200 : 502 });
+}
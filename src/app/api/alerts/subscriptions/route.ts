@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/accounts/http";
+import { createSubscription, validateSubscription } from "@/lib/alerts";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+export async function POST(req: NextRequest) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  const result = validateSubscription(body);
+  if ("error" in result) return Response.json({ error: result.error }, { status: 400 });
+  return Response.json({ subscription: await createSubscription(result.input, access.orgId ?? undefined) }, { status: 201 });
+}
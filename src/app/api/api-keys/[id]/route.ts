@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { accountErrorResponse, authorizeMember } from "@/lib/accounts/http";
+import { revokeApiKey, toPublicApiKey } from "@/lib/api-keys";
+
+export const runtime = "nodejs";
+
+/** Revokes the key; integrations using it get 401 from their next request. */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  try {
+    return Response.json({ key: toPublicApiKey(await revokeApiKey(access.orgId, id)) });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
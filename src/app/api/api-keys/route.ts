@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { accountErrorResponse, authorizeMember } from "@/lib/accounts/http";
+import { createApiKey, listApiKeys, toPublicApiKey } from "@/lib/api-keys";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  return Response.json({ keys: (await listApiKeys(access.orgId)).map(toPublicApiKey) });
+}
+
+/** `{ name, role?, locationIds?, rateLimit? }`; role defaults to viewer. The reply's `secret` is the only time the key is shown. */
+export async function POST(req: NextRequest) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  try {
+    const { key, secret } = await createApiKey(access.orgId, access.user.id, body);
+    return Response.json({ key: toPublicApiKey(key), secret }, { status: 201 });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { canSee } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { parseAuditFilter, readAudit, verifyAudit } from "@/lib/audit";
+import { AUDIT_EXPORT_FORMATS, exportAudit, isAuditExportFormat } from "@/lib/audit/export";
+
+export const runtime = "nodejs";
+
+/**
+ * The audit log for the caller's organization, filtered by `itemId`,
+ * `action`, `from` and `to`. `format=csv|jsonl` downloads it; JSON also
+ * says whether the log's hash chain is intact.
+ */
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const params = req.nextUrl.searchParams;
+  const format = params.get("format") ?? "json";
+  if (!isAuditExportFormat(format)) {
+    return Response.json({ error: `format must be one of ${AUDIT_EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+  const filter = parseAuditFilter(params);
+  if ("error" in filter) return Response.json({ error: filter.error }, { status: 400 });
+
+  const entries = (await readAudit(filter)).filter((entry) => canSee(access, entry));
+  if (format === "json" && !params.has("download")) return Response.json({ entries, chain: await verifyAudit() });
+  const file = exportAudit(format, entries);
+  return new Response(file.body, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
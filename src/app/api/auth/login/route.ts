@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { signIn, toPublicUser } from "@/lib/accounts";
+import { accountErrorResponse, setAuthCookie } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+/** `{ username, password }`; sets the sign-in cookie. */
+export async function POST(req: NextRequest) {
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  try {
+    const { user, token, expiresAt } = await signIn(body.username, body.password);
+    const res = NextResponse.json({ user: toPublicUser(user), expiresAt });
+    setAuthCookie(req, res, token, expiresAt);
+    return res;
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { clearAuthCookie } from "@/lib/accounts/http";
+
+export const runtime = "nodejs";
+
+export async function POST() {
+  const res = new NextResponse(null, { status: 204 });
+  clearAuthCookie(res);
+  return res;
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { getOrganization, hasAccounts } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+
+export const runtime = "nodejs";
+
+/**
+ * The signed-in user with their organization and the locations they can
+ * choose from. Before setup it reports `setupRequired` instead of a 401.
+ */
+export async function GET(req: NextRequest) {
+  if (!(await hasAccounts())) return Response.json({ setupRequired: true, user: null, org: null, locations: [], allowedLocationIds: null });
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  return Response.json(
+    {
+      setupRequired: false,
+      user: access.user,
+      org: access.orgId ? await getOrganization(access.orgId) : null,
+      locations: access.locations,
+      allowedLocationIds: access.allowed,
+    },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setupAccounts, signIn, toPublicUser } from "@/lib/accounts";
+import { accountErrorResponse, setAuthCookie } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+/**
+ * First run: `{ orgName, username, password, displayName? }` creates the
+ * organization and its admin and signs them in. Until then the app is open
+ * to anyone who can reach it; afterwards this returns 409.
+ */
+export async function POST(req: NextRequest) {
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  try {
+    const user = await setupAccounts(body);
+    const { token, expiresAt } = await signIn(user.username, body.password);
+    const res = NextResponse.json({ user: toPublicUser(user) }, { status: 201 });
+    setAuthCookie(req, res, token, expiresAt);
+    return res;
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { scopeItems } from "@/lib/accounts";
+import { accountErrorResponse, authorize } from "@/lib/accounts/http";
+import { listItems } from "@/lib/items";
+import { exportItems, EXPORT_FORMATS, isExportFormat, parseExportFilters } from "@/lib/export";
+
+export const runtime = "nodejs";
+
+/** Items the caller may see, filtered as on the dashboard; `location=<id>` narrows them to that location. */
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  const params = req.nextUrl.searchParams;
+  const format = params.get("format") ?? "csv";
+  if (!isExportFormat(format)) {
+    return Response.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+  const parsed = parseExportFilters(params);
+  if ("error" in parsed) return Response.json({ error: parsed.error }, { status: 400 });
+
+  let items;
+  try {
+    items = scopeItems(access, await listItems(), params.get("location"));
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+  const file = await exportItems(format, parsed.filters, req.nextUrl.origin, items, access.orgId);
+  return new Response(typeof file.body === "string" ? file.body : new Uint8Array(file.body), {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
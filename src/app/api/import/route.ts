@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { actorOf, resolveLocation } from "@/lib/accounts";
+import { accountErrorResponse, authorize } from "@/lib/accounts/http";
+import { defaultParseOptions } from "@/lib/dates";
+import { readJsonObject } from "@/lib/http";
+import { createItems } from "@/lib/items";
+import {
+  IMPORT_FIELDS,
+  readImportTable,
+  suggestMapping,
+  validateImport,
+  type ImportFormat,
+  type ImportMapping,
+} from "@/lib/import";
+
+export const runtime = "nodejs";
+
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+function readMapping(value: unknown, columns: string[]): ImportMapping | string {
+  const mapping: ImportMapping = {};
+  for (const [field, column] of Object.entries((value ?? {}) as Record<string, unknown>)) {
+    if (!(IMPORT_FIELDS as readonly string[]).includes(field)) return `unknown field "${field}" in mapping`;
+    if (column === "" || column === null) continue;
+    if (typeof column !== "string" || !columns.includes(column)) return `mapping for ${field} names a column the file does not have`;
+    mapping[field as keyof ImportMapping] = column;
+  }
+  return mapping;
+}
+
+/**
+ * Body: `{ content, format?, mapping?, locale?, dryRun?, locationId? }`. With
+ * `dryRun` it only returns the columns, the mapping used and every row with
+ * its errors; otherwise it also stores the rows that have none, filed under
+ * `locationId`.
+ */
+export async function POST(req: NextRequest) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  if (typeof body.content !== "string") return Response.json({ error: "content required" }, { status: 400 });
+  if (body.content.length > MAX_CONTENT_LENGTH) return Response.json({ error: "file is larger than 5 MB" }, { status: 413 });
+  if (body.format !== undefined && body.format !== "csv" && body.format !== "json") {
+    return Response.json({ error: "format must be csv or json" }, { status: 400 });
+  }
+
+  const table = readImportTable(body.content, body.format as ImportFormat | undefined);
+  if ("error" in table) return Response.json({ error: table.error }, { status: 400 });
+  const mapping = body.mapping === undefined ? suggestMapping(table.columns) : readMapping(body.mapping, table.columns);
+  if (typeof mapping === "string") return Response.json({ error: mapping }, { status: 400 });
+
+  const locale = typeof body.locale === "string" && body.locale.trim() ? { locale: body.locale.trim() } : {};
+  const rows = validateImport(table, mapping, { ...defaultParseOptions(), ...locale });
+  const valid = rows.filter((r) => !r.errors.length);
+  const summary = { total: rows.length, valid: valid.length, invalid: rows.length - valid.length };
+  if (body.dryRun === true) return Response.json({ columns: table.columns, mapping, rows, summary });
+
+  if (!mapping.product) return Response.json({ error: "map a column to product before importing" }, { status: 400 });
+  if (!valid.length) return Response.json({ error: "no valid rows to import", rows, summary }, { status: 400 });
+  let locationId: string | undefined;
+  try {
+    locationId = resolveLocation(access, body.locationId);
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+  const owner = { orgId: access.orgId ?? undefined, locationId, createdBy: access.user?.id };
+  const items = await createItems(valid.map((r) => ({ ...r.fields, source: "import", ...owner })), { actor: actorOf(access) });
+  return Response.json({ items, rows, summary }, { status: 201 });
+}
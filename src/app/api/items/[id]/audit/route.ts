@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { canSee } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { readAudit } from "@/lib/audit";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** The item's history, oldest first. Works for deleted items too, so their record stays readable. */
+export async function GET(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const entries = (await readAudit({ itemId: id })).filter((entry) => canSee(access, entry));
+  if (!entries.length) return Response.json({ error: "item not found" }, { status: 404 });
+  return Response.json({ entries });
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { actorOf, getVisibleItem } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+import { keepDuplicates, mergeDuplicate } from "@/lib/items";
+
+export const runtime = "nodejs";
+
+/**
+ * Resolves a near-duplicate flag. `{ "action": "merge", "into": "<id>" }`
+ * folds this item into the other and deletes it; `{ "action": "keep" }`
+ * keeps both and clears the flag.
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  if (!(await getVisibleItem(access, id))) return Response.json({ error: "item not found" }, { status: 404 });
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  if (body.action === "keep") {
+    const item = await keepDuplicates(id);
+    if (!item) return Response.json({ error: "item not found" }, { status: 404 });
+    return Response.json({ item });
+  }
+  if (body.action !== "merge") return Response.json({ error: "action must be merge or keep" }, { status: 400 });
+  if (typeof body.into !== "string" || body.into === id) {
+    return Response.json({ error: "into must be the id of another item" }, { status: 400 });
+  }
+  if (!(await getVisibleItem(access, body.into))) return Response.json({ error: "item not found" }, { status: 404 });
+  const item = await mergeDuplicate(id, body.into, { actor: actorOf(access) });
+  if (!item) return Response.json({ error: "item not found" }, { status: 404 });
+  return Response.json({ item, removedId: id });
+}
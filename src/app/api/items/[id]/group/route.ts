@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { actorOf, getVisibleItem } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+import { groupItems, itemPhotos, MAX_ITEM_PHOTOS, ungroupItem } from "@/lib/items";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/**
+ * Groups other items into this one as further photos of the same package:
+ * `{ "items": ["<id>", ...] }`. Their rows are removed; analyze the item
+ * again to read all its photos together.
+ */
+export async function POST(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  const ids = body.items;
+  if (!Array.isArray(ids) || !ids.length || !ids.every((i): i is string => typeof i === "string")) {
+    return Response.json({ error: "items must be a list of item ids" }, { status: 400 });
+  }
+  if (ids.includes(id) || new Set(ids).size !== ids.length) {
+    return Response.json({ error: "items must be other items, each listed once" }, { status: 400 });
+  }
+
+  const all = await Promise.all([id, ...ids].map((i) => getVisibleItem(access, i)));
+  if (!all.every(Boolean)) return Response.json({ error: "item not found" }, { status: 404 });
+  const photos = all.flatMap((item) => itemPhotos(item!));
+  if (photos.length > MAX_ITEM_PHOTOS) {
+    return Response.json({ error: `an item can have at most ${MAX_ITEM_PHOTOS} photos` }, { status: 400 });
+  }
+  if (all.some((item) => !item!.imageId)) {
+    return Response.json({ error: "only items with a photo can be grouped" }, { status: 400 });
+  }
+
+  const item = await groupItems(id, ids, { actor: actorOf(access) });
+  if (!item) return Response.json({ error: "item not found" }, { status: 404 });
+  return Response.json({ item, removedIds: ids });
+}
+
+/** Splits the item's further photos back into items of their own. */
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  if (!(await getVisibleItem(access, id))) return Response.json({ error: "item not found" }, { status: 404 });
+  const items = await ungroupItem(id, { actor: actorOf(access) });
+  if (!items) return Response.json({ error: "item not found" }, { status: 404 });
+  return Response.json({ items });
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from "next/server";
+import { actorOf, canSee } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { listDeletedItems, restoreItem } from "@/lib/items";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Puts a deleted item back as it was, photos included. 404 when it is not among the deleted items. */
+export async function POST(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const deleted = (await listDeletedItems()).find((d) => d.item.id === id);
+  if (!deleted || !canSee(access, deleted.item)) return Response.json({ error: "deleted item not found" }, { status: 404 });
+  const item = await restoreItem(id, { actor: actorOf(access) });
+  if (!item) return Response.json({ error: "deleted item not found" }, { status: 404 });
+  return Response.json({ item });
+}
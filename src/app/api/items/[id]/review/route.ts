@@ -0,0 +1,37 @@
+import { NextRequest } from "next/server";
+import { actorOf, getVisibleItem } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { isIsoDateOrEmpty } from "@/lib/dates";
+import { readJsonObject } from "@/lib/http";
+import { approveItem, type ItemPatch } from "@/lib/items";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Reviewer sign-off. Optional `product` / `expiryDate` corrections are applied first. */
+export async function POST(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+
+  const edits: ItemPatch = {};
+  if (typeof body.product === "string") edits.product = body.product;
+  if (typeof body.expiryDate === "string") {
+    if (!isIsoDateOrEmpty(body.expiryDate)) {
+      return Response.json({ error: "expiryDate must be a real date as YYYY-MM-DD" }, { status: 400 });
+    }
+    edits.expiryDate = body.expiryDate;
+  }
+
+  const current = await getVisibleItem(access, id);
+  if (!current) return Response.json({ error: "item not found" }, { status: 404 });
+  if (!(edits.expiryDate ?? current.expiryDate).trim()) {
+    return Response.json({ error: "an expiry date is required to approve an item" }, { status: 400 });
+  }
+  const item = await approveItem(id, edits, { actor: actorOf(access) });
+  if (!item) return Response.json({ error: "item not found" }, { status: 404 });
+  return Response.json({ item });
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { actorOf, getVisibleItem, resolveLocation } from "@/lib/accounts";
+import { accountErrorResponse, authorize } from "@/lib/accounts/http";
+import { isIsoDateOrEmpty } from "@/lib/dates";
+import { readJsonObject } from "@/lib/http";
+import { deleteItem, EditConflictError, ITEM_FIELDS, sanitizeProvenance, updateItem, type ItemPatch } from "@/lib/items";
+import { sanitizeThresholds } from "@/lib/status";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const item = await getVisibleItem(access, id);
+  if (!item) return Response.json({ error: "item not found" }, { status: 404 });
+  return Response.json({ item });
+}
+
+/** Edits an item. With `baseUpdatedAt` a change made since is answered with 409 and the current item instead of being overwritten. */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  if (!(await getVisibleItem(access, id))) return Response.json({ error: "item not found" }, { status: 404 });
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+
+  const patch: ItemPatch = sanitizeProvenance(body);
+  for (const field of ITEM_FIELDS) {
+    const value = body[field];
+    if (typeof value !== "string") continue;
+    if ((field === "expiryDate" || field === "manufactureDate") && !isIsoDateOrEmpty(value)) {
+      return Response.json({ error: `${field} must be a real date as YYYY-MM-DD` }, { status: 400 });
+    }
+    patch[field] = value;
+  }
+  if (typeof body.category === "string") patch.category = body.category;
+  if (body.thresholds === null) patch.thresholds = null;
+  else if (body.thresholds !== undefined) {
+    const thresholds = sanitizeThresholds(body.thresholds);
+    if (!thresholds) return Response.json({ error: "thresholds need expiringSoonDays and/or criticalDays as whole days" }, { status: 400 });
+    patch.thresholds = thresholds;
+  }
+  if (body.locationId !== undefined) {
+    try {
+      patch.locationId = body.locationId === null ? null : (resolveLocation(access, body.locationId) ?? null);
+    } catch (err) {
+      return accountErrorResponse(err);
+    }
+  }
+
+  if (body.baseUpdatedAt !== undefined && typeof body.baseUpdatedAt !== "string") {
+    return Response.json({ error: "baseUpdatedAt must be the item's updatedAt as last seen" }, { status: 400 });
+  }
+
+  let item;
+  try {
+    item = await updateItem(id, patch, { actor: actorOf(access) }, body.baseUpdatedAt);
+  } catch (err) {
+    if (err instanceof EditConflictError) {
+      return Response.json({ error: "edit_conflict", message: err.message, item: err.item }, { status: 409 });
+    }
+    throw err;
+  }
+  if (!item) return Response.json({ error: "item not found" }, { status: 404 });
+  return Response.json({ item });
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  if (!(await getVisibleItem(access, id))) return Response.json({ error: "item not found" }, { status: 404 });
+  const deleted = await deleteItem(id, { actor: actorOf(access) });
+  if (!deleted) return Response.json({ error: "item not found" }, { status: 404 });
+  return new Response(null, { status: 204 });
+}
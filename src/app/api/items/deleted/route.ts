@@ -0,0 +1,14 @@
+import { NextRequest } from "next/server";
+import { canSee } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { listDeletedItems } from "@/lib/items";
+
+export const runtime = "nodejs";
+
+/** Deleted items the caller may see that can still be restored, most recently deleted first. */
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  const deleted = (await listDeletedItems()).filter((d) => canSee(access, d.item));
+  return Response.json({ deleted: deleted.map(({ entry, item }) => ({ item, deletedAt: entry.at, deletedBy: entry.actor })) });
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { actorOf, resolveLocation, scopeItems } from "@/lib/accounts";
+import { accountErrorResponse, authorize } from "@/lib/accounts/http";
+import { isIsoDateOrEmpty } from "@/lib/dates";
+import { readJsonObject } from "@/lib/http";
+import { preprocessImage, preprocessOptions, UnsupportedImageError } from "@/lib/images/preprocess";
+import { createItem, ITEM_FIELDS, listItems, type ItemSource, type NewItem } from "@/lib/items";
+
+export const runtime = "nodejs";
+
+function parseSource(value: unknown): ItemSource {
+  return value === "mobile" ? "mobile" : "upload";
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/** Items the caller may see; `?location=<id>` narrows them to that location and everything under it. */
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  try {
+    return Response.json({ items: scopeItems(access, await listItems(), req.nextUrl.searchParams.get("location")) });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
+
+/** Stores an item for the signed-in user, filed under `locationId`. */
+export async function POST(req: NextRequest) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const contentType = req.headers.get("content-type") ?? "";
+  let input: NewItem;
+
+  if (contentType.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("image");
+    input = {
+      ...Object.fromEntries(ITEM_FIELDS.map((f) => [f, optionalString(form.get(f))])),
+      category: optionalString(form.get("category")),
+      source: parseSource(form.get("source")),
+      sessionId: optionalString(form.get("sessionId")),
+      sessionImageId: optionalString(form.get("sessionImageId")),
+      locationId: optionalString(form.get("locationId")),
+    };
+    if (file instanceof File && file.size > 0) {
+      // Stored upright and in a format browsers show, but otherwise as photographed.
+      let image;
+      try {
+        image = await preprocessImage(Buffer.from(await file.arrayBuffer()), preprocessOptions({ enhanceContrast: false, cropToLabel: false }));
+      } catch (err) {
+        if (err instanceof UnsupportedImageError) {
+          return Response.json({ error: "unsupported_media_type", message: err.message }, { status: 415 });
+        }
+        throw err;
+      }
+      input.image = { buffer: image.buffer, mimeType: image.mimeType, name: file.name };
+    }
+  } else {
+    const body = await readJsonObject(req);
+    if (body instanceof Response) return body;
+    input = {
+      ...Object.fromEntries(ITEM_FIELDS.map((f) => [f, optionalString(body[f])])),
+      category: optionalString(body.category),
+      source: parseSource(body.source),
+      sessionId: optionalString(body.sessionId),
+      sessionImageId: optionalString(body.sessionImageId),
+      locationId: optionalString(body.locationId),
+    };
+  }
+
+  for (const field of ["expiryDate", "manufactureDate"] as const) {
+    if (!isIsoDateOrEmpty(input[field] ?? "")) {
+      return Response.json({ error: `${field} must be a real date as YYYY-MM-DD` }, { status: 400 });
+    }
+  }
+  try {
+    input.locationId = resolveLocation(access, input.locationId);
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+  const item = await createItem({ ...input, orgId: access.orgId ?? undefined, createdBy: access.user?.id }, { actor: actorOf(access) });
+  return Response.json({ item }, { status: 201 });
+}
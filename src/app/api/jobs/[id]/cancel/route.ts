@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { cancelJob, getJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+/** Cancels the items still waiting; ones already being read finish and are saved. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  if (!inOrg(access, getJob(id)?.orgId)) return Response.json({ error: "job not found" }, { status: 404 });
+  const job = cancelJob(id);
+  if (!job) return Response.json({ error: "job not found" }, { status: 404 });
+  return Response.json({ job });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { getJob, jobCounts, subscribeToJob, type JobEvent } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 20_000;
+
+function frame(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Server-Sent Events for one analysis job. Every connection starts with a
+ * `snapshot` of the whole job, so a reconnect needs no replay; after that
+ * come `item` events as items start, back off and finish, and a `job` event
+ * when the job completes or is cancelled, which ends the stream.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job || !inOrg(access, job.orgId)) return Response.json({ error: "job not found" }, { status: 404 });
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      };
+
+      const unsubscribe = subscribeToJob(id, (event: JobEvent) => {
+        send(frame(event.type, event));
+        if (event.type === "job" && event.status !== "running") close();
+      });
+      send("retry: 3000\n\n");
+      send(frame("snapshot", { job, counts: jobCounts(job) }));
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      if (job.status !== "running") close();
+      req.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
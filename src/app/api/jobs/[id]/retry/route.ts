@@ -0,0 +1,27 @@
+import { NextRequest } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+import { getJob, retryJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+/** Queues failed and cancelled items again; `{ "itemIds": [...] }` limits it to some of them. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  if (!inOrg(access, getJob(id)?.orgId)) return Response.json({ error: "job not found" }, { status: 404 });
+  let body: Record<string, unknown> = {};
+  if ((req.headers.get("content-type") ?? "").includes("application/json")) {
+    const parsed = await readJsonObject(req);
+    if (parsed instanceof Response) return parsed;
+    body = parsed;
+  }
+  if (body.itemIds !== undefined && !(Array.isArray(body.itemIds) && body.itemIds.every((i) => typeof i === "string"))) {
+    return Response.json({ error: "itemIds must be a list of item ids" }, { status: 400 });
+  }
+  const job = retryJob(id, body.itemIds as string[] | undefined);
+  if (!job) return Response.json({ error: "job not found" }, { status: 404 });
+  return Response.json({ job });
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { getJob, jobCounts } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job || !inOrg(access, job.orgId)) return Response.json({ error: "job not found" }, { status: 404 });
+  return Response.json({ job, counts: jobCounts(job) });
+}
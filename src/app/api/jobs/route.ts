@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import { actorOf, getVisibleItem, inOrg } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { getExtractionProvider, ProviderConfigError } from "@/lib/extraction";
+import { readJsonObject } from "@/lib/http";
+import { createJob, listJobs, MAX_JOB_ITEMS, type NewJobItem } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** Accepts `itemIds: string[]` or `items: [{ itemId, manualProduct?, manualDate? }]`. */
+function parseItems(body: Record<string, unknown>): NewJobItem[] | null {
+  const raw = Array.isArray(body.items) ? body.items : Array.isArray(body.itemIds) ? body.itemIds.map((itemId) => ({ itemId })) : null;
+  if (!raw) return null;
+  const items: NewJobItem[] = [];
+  for (const entry of raw as Record<string, unknown>[]) {
+    const itemId = optionalString(entry?.itemId);
+    if (!itemId) return null;
+    const manualDate = optionalString(entry.manualDate);
+    if (manualDate && !ISO_DATE.test(manualDate)) return null;
+    items.push({ itemId, manualProduct: optionalString(entry.manualProduct), manualDate });
+  }
+  return items;
+}
+
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  return Response.json({ jobs: listJobs().filter((job) => inOrg(access, job.orgId)) });
+}
+
+/**
+ * Queues stored items for analysis and returns the job right away (202).
+ * Progress streams from /api/jobs/{id}/events; items are read a few at a time
+ * and rate-limited or failed provider calls are retried with backoff.
+ */
+export async function POST(req: NextRequest) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  const items = parseItems(body);
+  if (!items) {
+    return Response.json({ error: "itemIds must be a list of item ids, or items a list of { itemId, manualProduct?, manualDate? }" }, { status: 400 });
+  }
+  if (!items.length) return Response.json({ error: "no items to analyze" }, { status: 400 });
+  if (items.length > MAX_JOB_ITEMS) {
+    return Response.json({ error: `at most ${MAX_JOB_ITEMS} items per job` }, { status: 413 });
+  }
+  if (new Set(items.map((i) => i.itemId)).size !== items.length) {
+    return Response.json({ error: "each item may appear once per job" }, { status: 400 });
+  }
+
+  for (const { itemId } of items) {
+    if (!(await getVisibleItem(access, itemId))) return Response.json({ error: `item ${itemId} not found` }, { status: 404 });
+  }
+
+  const provider = optionalString(body.provider) ?? null;
+  try {
+    getExtractionProvider(provider);
+  } catch (err) {
+    if (err instanceof ProviderConfigError) {
+      return Response.json({ error: "provider_unavailable", message: err.message }, { status: provider ? 400 : 500 });
+    }
+    throw err;
+  }
+
+  const job = createJob({
+    items,
+    provider,
+    locale: optionalString(body.locale),
+    refresh: body.refresh === true,
+    orgId: access.orgId,
+    actor: actorOf(access),
+  });
+  return Response.json({ job }, { status: 202 });
+}
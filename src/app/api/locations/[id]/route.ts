@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { deleteLocation, renameLocation, scopeItems } from "@/lib/accounts";
+import { accountErrorResponse, authorizeMember } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+import { listItems } from "@/lib/items";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** `{ name }`. */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  try {
+    return Response.json({ location: await renameLocation(access.orgId, id, body.name) });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
+
+/** Only empty locations can be removed; move their items elsewhere first. */
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  try {
+    const stored = scopeItems({ ...access, allowed: null }, await listItems(), id);
+    if (stored.length) {
+      return Response.json({ error: "location_in_use", message: `${stored.length} items are kept there` }, { status: 409 });
+    }
+    await deleteLocation(access.orgId, id);
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { createLocation } from "@/lib/accounts";
+import { accountErrorResponse, authorizeMember } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+/** The organization's sites, rooms and shelves; `allowedLocationIds` is null when the user may see all of them. */
+export async function GET(req: NextRequest) {
+  const access = await authorizeMember(req, "viewer");
+  if (access instanceof Response) return access;
+  return Response.json({ locations: access.locations, allowedLocationIds: access.allowed });
+}
+
+/** `{ name, parentId? }`: without a parent it is a site, under a site a room, under a room a shelf. */
+export async function POST(req: NextRequest) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  try {
+    return Response.json({ location: await createLocation(access.orgId, body) }, { status: 201 });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
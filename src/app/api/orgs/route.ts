@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { createOrganization, listOrganizations, toPublicUser } from "@/lib/accounts";
+import { accountErrorResponse, authorizeMember } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+/** Organizations on this deployment; only the owner sees all of them. */
+export async function GET(req: NextRequest) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const orgs = await listOrganizations();
+  return Response.json({ orgs: access.user.owner ? orgs : orgs.filter((o) => o.id === access.orgId) });
+}
+
+/** `{ name, admin: { username, password, displayName? } }`; owner only. */
+export async function POST(req: NextRequest) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  if (!access.user.owner) return Response.json({ error: "forbidden", message: "Only the owner can add organizations" }, { status: 403 });
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  try {
+    const { org, admin } = await createOrganization(body);
+    return Response.json({ org, admin: toPublicUser(admin) }, { status: 201 });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
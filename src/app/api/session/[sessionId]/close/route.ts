@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, closeSession, toSessionState } from "@/lib/sessions";
+import { corsHeaders, sessionErrorResponse, tokenFrom } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+
+export async function OPTIONS(req: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(req) });
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+  try {
+    await authorize(sessionId, tokenFrom(req), ["web"]);
+    const record = await closeSession(sessionId);
+    return NextResponse.json({ ...toSessionState(record), closedAt: record.closedAt }, { headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session close");
+  }
+}
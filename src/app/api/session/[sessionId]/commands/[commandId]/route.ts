@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readJsonObject } from "@/lib/http";
+import { authorize, updateCommand } from "@/lib/sessions";
+import { corsHeaders, sessionErrorResponse, tokenFrom } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+
+const REPORTED = ["delivered", "acked", "failed"] as const;
+
+export async function OPTIONS(req: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(req) });
+}
+
+/** The phone reports `{ "status": "delivered" | "acked" | "failed", "error"?: "..." }` for a command. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sessionId: string; commandId: string }> }) {
+  const { sessionId, commandId } = await params;
+  try {
+    await authorize(sessionId, tokenFrom(req), ["mobile"]);
+    const body = await readJsonObject(req, { headers: corsHeaders(req) });
+    if (body instanceof Response) return body;
+    const status = REPORTED.find((s) => s === body.status);
+    if (!status) {
+      return NextResponse.json(
+        { error: "invalid_command", message: `status must be one of ${REPORTED.join(", ")}` },
+        { status: 400, headers: corsHeaders(req) }
+      );
+    }
+    const command = await updateCommand(sessionId, commandId, status, typeof body.error === "string" ? body.error : undefined);
+    return NextResponse.json({ command }, { headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session command POST");
+  }
+}
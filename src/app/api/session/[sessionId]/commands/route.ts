@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readJsonObject } from "@/lib/http";
+import { authorize, getSession, queueCommand, takeCommands } from "@/lib/sessions";
+import { parseCommand } from "@/lib/sessions/commands";
+import { corsHeaders, sessionErrorResponse, tokenFrom } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ sessionId: string }> };
+
+export async function OPTIONS(req: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(req) });
+}
+
+/**
+ * The dashboard gets the command history, newest last. The phone gets only
+ * its pending commands, which are marked delivered by being fetched; phones
+ * on the event stream see them there as well.
+ */
+export async function GET(req: NextRequest, { params }: Params) {
+  const { sessionId } = await params;
+  try {
+    const { role } = await authorize(sessionId, tokenFrom(req), ["web", "mobile"]);
+    const commands = role === "mobile" ? await takeCommands(sessionId) : (await getSession(sessionId)).commands;
+    return NextResponse.json({ commands }, { headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session commands GET");
+  }
+}
+
+/** Queues a command for the phone, e.g. `{ "type": "capture_burst", "count": 5 }`. */
+export async function POST(req: NextRequest, { params }: Params) {
+  const { sessionId } = await params;
+  try {
+    await authorize(sessionId, tokenFrom(req), ["web"]);
+    const body = await readJsonObject(req, { headers: corsHeaders(req) });
+    if (body instanceof Response) return body;
+    const parsed = parseCommand(body);
+    if ("error" in parsed) return NextResponse.json({ error: "invalid_command", message: parsed.error }, { status: 400, headers: corsHeaders(req) });
+    const command = await queueCommand(sessionId, parsed.command);
+    return NextResponse.json({ command }, { status: 201, headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session commands POST");
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, peekSession, SessionError, toSessionState, type SessionEvent, type SessionRecord } from "@/lib/sessions";
+import { eventsSince, subscribe } from "@/lib/sessions/events";
+import { corsHeaders, sessionErrorResponse, tokenFrom } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_MS = 20_000;
+
+function frame(event: string, id: number, data: unknown): string {
+  return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Server-Sent Events for one session, used by both the dashboard and the
+ * phone. A fresh connection starts with a `snapshot` of the session; a
+ * reconnect with Last-Event-ID (header, or `lastEventId` query for clients
+ * that cannot set headers) gets only the events it missed, or a new snapshot
+ * when the log no longer reaches back that far or the id is one it never sent. Pass the session token as
+ * `?token=`, since EventSource cannot send an Authorization header.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+  const lastIdRaw = req.headers.get("last-event-id") ?? req.nextUrl.searchParams.get("lastEventId");
+  const lastEventId = lastIdRaw !== null && /^\d+$/.test(lastIdRaw) ? Number(lastIdRaw) : null;
+
+  let initial: SessionRecord;
+  try {
+    await authorize(sessionId, tokenFrom(req), ["web", "mobile"]);
+    initial = await peekSession(sessionId);
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session events");
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let sentId = initial.eventSeq;
+      let closed = false;
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      };
+      const sendEvent = (event: SessionEvent) => {
+        if (event.id <= sentId) return;
+        sentId = event.id;
+        const { id, type, ...data } = event;
+        send(frame(type, id, data));
+        if (type === "session_closed") close();
+      };
+
+      // Subscribe before replaying so nothing published in between is lost; sendEvent drops repeats.
+      const unsubscribe = subscribe(sessionId, sendEvent);
+      send("retry: 3000\n\n");
+      // An id beyond the log (e.g. from before an in-memory store restarted) would hide every later event: start over.
+      const replay = lastEventId === null || lastEventId > initial.eventSeq ? null : eventsSince(initial, lastEventId);
+      if (replay === null) {
+        send(frame("snapshot", initial.eventSeq, toSessionState(initial)));
+      } else {
+        sentId = Math.min(lastEventId!, initial.eventSeq);
+        replay.forEach(sendEvent);
+      }
+
+      // Heartbeats keep proxies from closing the stream. They only read the session, so an open
+      // stream alone does not keep it alive, and they pick up events written by other server
+      // instances sharing a file store. Expired or revoked tokens end the stream with a
+      // `stream_error` saying why; the client reconnects with a fresh token.
+      const heartbeat = setInterval(async () => {
+        try {
+          await authorize(sessionId, tokenFrom(req), ["web", "mobile"]);
+          const record = await peekSession(sessionId);
+          (eventsSince(record, sentId) ?? []).forEach(sendEvent);
+          send(": ping\n\n");
+        } catch (err) {
+          if (err instanceof SessionError) {
+            send(frame("stream_error", sentId, { code: err.code, status: err.status, message: err.message }));
+          } else {
+            const message = err instanceof Error ? err.message : String(err);
+            console.error("/api/session events heartbeat error", message);
+            send(frame("stream_error", sentId, { code: "session_failed", status: 500, message }));
+          }
+          close();
+        }
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      req.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      ...corsHeaders(req),
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getSessionImage } from "@/lib/sessions";
+import { corsHeaders, sessionErrorResponse, tokenFrom } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; imageId: string }> }
+) {
+  const { sessionId, imageId } = await params;
+  try {
+    await authorize(sessionId, tokenFrom(req), ["web", "mobile"]);
+    const found = await getSessionImage(sessionId, imageId);
+    if (!found) return NextResponse.json({ error: "image not found" }, { status: 404, headers: corsHeaders(req) });
+    return new NextResponse(new Uint8Array(found.data), {
+      headers: { ...corsHeaders(req), "Content-Type": found.image.mimeType, "Cache-Control": "private, max-age=3600" },
+    });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session image");
+  }
+}
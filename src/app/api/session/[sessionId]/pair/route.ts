@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readJsonObject } from "@/lib/http";
+import { isValidSessionId, pairMobile } from "@/lib/sessions";
+import { corsHeaders, sessionErrorResponse } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+
+export async function OPTIONS(req: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(req) });
+}
+
+/** The phone exchanges the code from the QR code (query `code` or JSON `{ code }`) for its mobile token. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ error: "Invalid sessionId" }, { status: 400, headers: corsHeaders(req) });
+  }
+  let code = req.nextUrl.searchParams.get("code");
+  if (!code && (req.headers.get("content-type") ?? "").includes("application/json")) {
+    const body = await readJsonObject(req, { headers: corsHeaders(req) });
+    if (body instanceof Response) return body;
+    if (typeof body.code === "string") code = body.code;
+  }
+  if (!code) return NextResponse.json({ error: "code required" }, { status: 400, headers: corsHeaders(req) });
+
+  try {
+    const { token, expiresAt } = await pairMobile(sessionId, code);
+    return NextResponse.json({ sessionId, role: "mobile", token, expiresAt }, { headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session pair");
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, isValidSessionId, renewPairing } from "@/lib/sessions";
+import { corsHeaders, pairingUrl, sessionErrorResponse, tokenFrom } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+
+export async function OPTIONS(req: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(req) });
+}
+
+/** Issues a new pairing code for the dashboard's QR code; any earlier code stops working. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ error: "Invalid sessionId" }, { status: 400, headers: corsHeaders(req) });
+  }
+  try {
+    await authorize(sessionId, tokenFrom(req), ["web"]);
+    const pairing = await renewPairing(sessionId);
+    return NextResponse.json(
+      { ...pairing, url: pairingUrl(req, sessionId, pairing.code) },
+      { headers: corsHeaders(req) }
+    );
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session pairing");
+  }
+}
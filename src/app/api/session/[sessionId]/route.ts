@@ -1,104 +1,137 @@
 import { NextRequest, NextResponse } from "next/server";
+import { readJsonObject } from "@/lib/http";
+import {
+  addSessionImage,
+  authorize,
+  deleteSession,
+  getSession,
+  isValidSessionId,
+  recordAnalysis,
+  reportMobileState,
+  toSessionState,
+  updateSession,
+  type SessionRecord,
+  type SessionUpdate,
+} from "@/lib/sessions";
+import { parseMobileState } from "@/lib/sessions/commands";
+import { corsHeaders, dataUrlToBuffer, sessionErrorResponse, tokenFrom } from "@/lib/sessions/http";
 
+export const runtime = "nodejs";
 export const maxDuration = 60;
 
-type SessionImage = {
-  id: string;
-  dataUrl: string;
-  product?: string;
-  expiryDate?: string;
-};
+type Params = { params: Promise<{ sessionId: string }> };
 
-type SessionState = {
-  mobileConnected: boolean;
-  webConnected: boolean;
-  command: string | null;
-  images: SessionImage[];
-};
-
-const sessions = new Map<string, SessionState>();
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, ngrok-skip-browser-warning",
-};
-
-function bufferToDataUrl(buffer: Buffer, mime: string): string {
-  const base64 = buffer.toString("base64");
-  return `data:${mime || "image/jpeg"};base64,${base64}`;
-}
-
-function getOrCreate(sessionId: string): SessionState {
-  if (!sessions.has(sessionId)) {
-    sessions.set(sessionId, {
-      mobileConnected: false,
-      webConnected: false,
-      command: null,
-      images: [],
-    });
+async function sessionIdFrom(req: NextRequest, params: Params["params"]): Promise<string | NextResponse> {
+  const { sessionId } = await params;
+  if (!sessionId) return NextResponse.json({ error: "Missing sessionId" }, { status: 400, headers: corsHeaders(req) });
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ error: "Invalid sessionId" }, { status: 400, headers: corsHeaders(req) });
   }
-  return sessions.get(sessionId)!;
+  return sessionId;
 }
 
-export async function OPTIONS() {
-  return NextResponse.json({}, { headers: corsHeaders });
+export async function OPTIONS(req: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(req) });
 }
 
-export async function GET(
-  _req: NextRequest,
-  { params }: { params: Promise<{ sessionId: string }> }
-) {
-  const { sessionId } = await params;
-  if (!sessionId) return NextResponse.json({ error: "Missing sessionId" }, { status: 400, headers: corsHeaders });
-  const state = getOrCreate(sessionId);
-  return NextResponse.json(state, { headers: corsHeaders });
+export async function GET(req: NextRequest, { params }: Params) {
+  const sessionId = await sessionIdFrom(req, params);
+  if (sessionId instanceof NextResponse) return sessionId;
+  try {
+    await authorize(sessionId, tokenFrom(req), ["web", "mobile"]);
+    return NextResponse.json(toSessionState(await getSession(sessionId)), { headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session GET");
+  }
 }
 
-export async function POST(
-  req: NextRequest,
-  { params }: { params: Promise<{ sessionId: string }> }
-) {
-  const { sessionId } = await params;
-  if (!sessionId) return NextResponse.json({ error: "Missing sessionId" }, { status: 400, headers: corsHeaders });
-  const state = getOrCreate(sessionId);
+/**
+ * The phone posts captures (multipart `image` or JSON `image` data URL, with
+ * optional `group` and the `command` id of a reshoot), `mobileConnected` and
+ * its `state`; the dashboard posts `webConnected` and `analysis` results.
+ * Each field is only accepted from its role's token. Commands for the phone
+ * go through /api/session/:id/commands.
+ */
+export async function POST(req: NextRequest, { params }: Params) {
+  const sessionId = await sessionIdFrom(req, params);
+  if (sessionId instanceof NextResponse) return sessionId;
   const contentType = req.headers.get("content-type") ?? "";
+  const forbidden = (field: string) =>
+    NextResponse.json(
+      { error: "forbidden", message: `${field} cannot be set with this token` },
+      { status: 403, headers: corsHeaders(req) }
+    );
 
-  if (contentType.includes("multipart/form-data")) {
-    try {
-      const form = await req.formData();
+  try {
+    const { role } = await authorize(sessionId, tokenFrom(req), ["web", "mobile"]);
+    let record: SessionRecord;
+    if (contentType.includes("multipart/form-data")) {
+      if (role !== "mobile") return forbidden("image");
+      let form: FormData;
+      try {
+        form = await req.formData();
+      } catch {
+        return NextResponse.json({ error: "invalid multipart body" }, { status: 400, headers: corsHeaders(req) });
+      }
       const file = form.get("image");
-      if (file instanceof File && file.size > 0) {
-        const buffer = Buffer.from(await file.arrayBuffer());
-        const mime = file.type || "image/jpeg";
-        state.images.push({
-          id: `mobile-${Date.now()}-${state.images.length}`,
-          dataUrl: bufferToDataUrl(buffer, mime),
-          product: "",
-          expiryDate: "",
-        });
+      if (!(file instanceof File) || file.size === 0) {
+        return NextResponse.json({ error: "image required" }, { status: 400, headers: corsHeaders(req) });
       }
-    } catch {
-      // ignore
+      const field = (name: string) => {
+        const value = form.get(name);
+        return typeof value === "string" ? value : null;
+      };
+      record = await addSessionImage(sessionId, Buffer.from(await file.arrayBuffer()), { group: field("group"), commandId: field("command") });
+      return NextResponse.json(toSessionState(record), { headers: corsHeaders(req) });
     }
-    return NextResponse.json(state, { headers: corsHeaders });
-  }
 
-  try {
-    const body = await req.json();
-    if (typeof body.mobileConnected === "boolean") state.mobileConnected = body.mobileConnected;
-    if (typeof body.webConnected === "boolean") state.webConnected = body.webConnected;
-    if (body.command !== undefined) state.command = body.command === null ? null : String(body.command);
+    const body = await readJsonObject(req, { headers: corsHeaders(req) });
+    if (body instanceof Response) return body;
+    const mobileFields = ["mobileConnected", "image", "state"];
+    const webFields = ["webConnected", "analysis"];
+    const denied = (role === "mobile" ? webFields : mobileFields).find((f) => body[f] !== undefined);
+    if (denied) return forbidden(denied);
+
+    const update: SessionUpdate = {};
+    if (typeof body.mobileConnected === "boolean") update.mobileConnected = body.mobileConnected;
+    if (typeof body.webConnected === "boolean") update.webConnected = body.webConnected;
+    record = await updateSession(sessionId, update);
+    if (body.state !== undefined) {
+      const parsed = parseMobileState(body.state);
+      if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400, headers: corsHeaders(req) });
+      record = await reportMobileState(sessionId, parsed.state);
+    }
+    const analysis = body.analysis as Record<string, unknown> | undefined;
+    if (analysis && typeof analysis.imageId === "string") {
+      record = await recordAnalysis(sessionId, analysis.imageId, {
+        product: String(analysis.product ?? ""),
+        expiryDate: String(analysis.expiryDate ?? ""),
+      });
+    }
     if (typeof body.image === "string" && body.image.length > 0) {
-      state.images.push({
-        id: `mobile-${Date.now()}-${state.images.length}`,
-        dataUrl: body.image,
-        product: "",
-        expiryDate: "",
+      const decoded = dataUrlToBuffer(body.image);
+      if (!decoded) {
+        return NextResponse.json({ error: "image must be a data: URL" }, { status: 400, headers: corsHeaders(req) });
+      }
+      record = await addSessionImage(sessionId, decoded.data, {
+        group: typeof body.group === "string" ? body.group : null,
+        commandId: typeof body.command === "string" ? body.command : null,
       });
     }
-  } catch {
-    // ignore invalid JSON
+    return NextResponse.json(toSessionState(record), { headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session POST");
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const sessionId = await sessionIdFrom(req, params);
+  if (sessionId instanceof NextResponse) return sessionId;
+  try {
+    await authorize(sessionId, tokenFrom(req), ["web"]);
+    await deleteSession(sessionId);
+    return new NextResponse(null, { status: 204, headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session DELETE");
   }
-  return NextResponse.json(state, { headers: corsHeaders });
 }
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, refreshToken } from "@/lib/sessions";
+import { corsHeaders, sessionErrorResponse, tokenFrom } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+
+export async function OPTIONS(req: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(req) });
+}
+
+/** Trades a still-valid token for a new one with a fresh expiry. */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ sessionId: string }> }) {
+  const { sessionId } = await params;
+  try {
+    const claims = await authorize(sessionId, tokenFrom(req), ["web", "mobile"]);
+    const { token, expiresAt } = refreshToken(claims);
+    return NextResponse.json({ role: claims.role, token, expiresAt }, { headers: corsHeaders(req) });
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session token");
+  }
+}
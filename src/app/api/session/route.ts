@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveLocation } from "@/lib/accounts";
+import { accountErrorResponse, authorize } from "@/lib/accounts/http";
+import { createSession, toSessionState } from "@/lib/sessions";
+import { corsHeaders, pairingUrl, sessionErrorResponse } from "@/lib/sessions/http";
+
+export const runtime = "nodejs";
+
+export async function OPTIONS(req: NextRequest) {
+  return NextResponse.json({}, { headers: corsHeaders(req) });
+}
+
+/**
+ * Starts a session from the dashboard: returns its web token and the pairing
+ * code to show as a QR code. `{ locationId }` files its captures there.
+ */
+export async function POST(req: NextRequest) {
+  const access = await authorize(req, "scanner");
+  if (access instanceof Response) return access;
+  const parsed: unknown = await req.json().catch(() => ({}));
+  const body = (parsed && typeof parsed === "object" ? parsed : {}) as { locationId?: unknown };
+  let locationId: string | undefined;
+  try {
+    locationId = resolveLocation(access, body.locationId);
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+  try {
+    const { record, webToken, pairing } = await createSession({
+      ...(access.user ? { userId: access.user.id } : {}),
+      ...(access.orgId ? { orgId: access.orgId } : {}),
+      ...(locationId ? { locationId } : {}),
+    });
+    return NextResponse.json(
+      {
+        ...toSessionState(record),
+        webToken: webToken.token,
+        webTokenExpiresAt: webToken.expiresAt,
+        pairing: { ...pairing, url: pairingUrl(req, record.id, pairing.code) },
+      },
+      { status: 201, headers: corsHeaders(req) }
+    );
+  } catch (err) {
+    return sessionErrorResponse(req, err, "/api/session");
+  }
+}
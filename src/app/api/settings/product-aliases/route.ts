@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+import { authorize } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+import { getProductAliases, saveProductAliases } from "@/lib/settings";
+import { validateProductAliases } from "@/lib/stock";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  return Response.json({ aliases: await getProductAliases(access.orgId) });
+}
+
+/** Replaces the caller's organization's alias list: `{ "aliases": { "J&J gauze": "Johnson & Johnson Gauze" } }`. */
+export async function PUT(req: NextRequest) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  const result = validateProductAliases(body.aliases ?? body);
+  if ("error" in result) return Response.json({ error: result.error }, { status: 400 });
+  return Response.json({ aliases: await saveProductAliases(result.aliases, access.orgId) });
+}
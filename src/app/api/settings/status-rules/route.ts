@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { actorOf } from "@/lib/accounts";
+import { authorize } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+import { recordStatusChanges } from "@/lib/items";
+import { getStatusRules, saveStatusRules } from "@/lib/settings";
+import { validateStatusRules } from "@/lib/status";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  return Response.json({ rules: await getStatusRules(access.orgId) });
+}
+
+/** Sets the caller's organization's rules; before accounts are set up, the deployment-wide ones. */
+export async function PUT(req: NextRequest) {
+  const access = await authorize(req, "admin");
+  if (access instanceof Response) return access;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  const result = validateStatusRules(body.rules ?? body);
+  if ("error" in result) return Response.json({ error: result.error }, { status: 400 });
+  const rules = await saveStatusRules(result.rules, access.orgId);
+  // Items the new rules move are logged as this admin's doing rather than left for the status watch.
+  await recordStatusChanges(actorOf(access), access.orgId);
+  return Response.json({ rules });
+}
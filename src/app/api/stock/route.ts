@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { scopeItems } from "@/lib/accounts";
+import { accountErrorResponse, authorize } from "@/lib/accounts/http";
+import { listItems } from "@/lib/items";
+import { getProductAliases, getStatusRules } from "@/lib/settings";
+import { todayIn } from "@/lib/status";
+import { buildStockView, STOCK_GROUPINGS, type StockGrouping } from "@/lib/stock";
+import { STOCK_LISTS, stockListCsv, type StockList } from "@/lib/stock/csv";
+
+export const runtime = "nodejs";
+
+/**
+ * Stock grouped by product and then by expiry date (`by=expiry`, the
+ * default) or lot (`by=lot`), with the FEFO pick list and the list of
+ * expired stock to discard. `format=csv&list=pick|discard` downloads one of
+ * the lists instead. Counts cover the items the caller may see, narrowed to
+ * `location=<id>` when given.
+ */
+export async function GET(req: NextRequest) {
+  const access = await authorize(req, "viewer");
+  if (access instanceof Response) return access;
+  const params = req.nextUrl.searchParams;
+  const by = params.get("by") ?? "expiry";
+  if (!(STOCK_GROUPINGS as string[]).includes(by)) {
+    return Response.json({ error: `by must be one of ${STOCK_GROUPINGS.join(", ")}` }, { status: 400 });
+  }
+  const format = params.get("format") ?? "json";
+  const list = params.get("list");
+  if (format !== "json" && format !== "csv") return Response.json({ error: "format must be json or csv" }, { status: 400 });
+  if (format === "csv" && !(STOCK_LISTS as readonly (string | null)[]).includes(list)) {
+    return Response.json({ error: `list must be one of ${STOCK_LISTS.join(", ")}` }, { status: 400 });
+  }
+
+  const [stored, rules, aliases] = await Promise.all([listItems(), getStatusRules(access.orgId), getProductAliases(access.orgId)]);
+  let items;
+  try {
+    items = scopeItems(access, stored, params.get("location"));
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+  const view = buildStockView(items, { today: todayIn(rules.timeZone), groupBy: by as StockGrouping, aliases });
+  if (format === "json") return Response.json(view, { headers: { "Cache-Control": "no-store" } });
+  return new Response(stockListCsv(view, list as StockList), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${list === "pick" ? "pick-list" : "discard-list"}-${view.today}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import { deleteUser, toPublicUser, updateUser } from "@/lib/accounts";
+import { accountErrorResponse, authorizeMember } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** `{ displayName?, password?, role?, locationIds?, disabled? }`; a new password or disabling signs the user out everywhere. */
+export async function PATCH(req: NextRequest, { params }: Params) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  try {
+    return Response.json({ user: toPublicUser(await updateUser(access.orgId, id, body)) });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const { id } = await params;
+  if (id === access.user.id) return Response.json({ error: "forbidden", message: "You cannot delete your own account" }, { status: 403 });
+  try {
+    const deleted = await deleteUser(access.orgId, id);
+    if (!deleted) return Response.json({ error: "user_not_found", message: `User ${id} not found` }, { status: 404 });
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { createUser, listUsers, toPublicUser } from "@/lib/accounts";
+import { accountErrorResponse, authorizeMember } from "@/lib/accounts/http";
+import { readJsonObject } from "@/lib/http";
+
+export const runtime = "nodejs";
+
+export async function GET(req: NextRequest) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  return Response.json({ users: (await listUsers(access.orgId)).map(toPublicUser) });
+}
+
+/** `{ username, password, role?, displayName?, locationIds? }`; role defaults to scanner. */
+export async function POST(req: NextRequest) {
+  const access = await authorizeMember(req, "admin");
+  if (access instanceof Response) return access;
+  const body = await readJsonObject(req);
+  if (body instanceof Response) return body;
+  try {
+    return Response.json({ user: toPublicUser(await createUser(access.orgId, body)) }, { status: 201 });
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { ApiError, analysisApiError } from "@/lib/api/errors";
+import { handleApiRequest } from "@/lib/api/http";
+import { analyzeImages, getExtractionProvider } from "@/lib/extraction";
+import { preprocessImage, preprocessOptionsFrom } from "@/lib/images/preprocess";
+import { MAX_ITEM_PHOTOS } from "@/lib/items/types";
+
+export const runtime = "nodejs";
+
+function formString(form: FormData, name: string): string | null {
+  const value = form.get(name);
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** Reads one package from up to MAX_ITEM_PHOTOS `image` fields without storing anything. */
+export async function POST(req: NextRequest) {
+  return handleApiRequest(req, "scanner", async () => {
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      throw new ApiError(400, "invalid_request", "Send the images as multipart/form-data");
+    }
+    const files = form.getAll("image");
+    if (!files.length || !files.every((f): f is File => f instanceof File)) {
+      throw new ApiError(400, "invalid_request", "At least one image field is required", { details: { field: "image" } });
+    }
+    if (files.length > MAX_ITEM_PHOTOS) {
+      throw new ApiError(413, "payload_too_large", `At most ${MAX_ITEM_PHOTOS} images per request`, { details: { field: "image", max: MAX_ITEM_PHOTOS } });
+    }
+    const manualDate = formString(form, "manualDate");
+    if (manualDate && !/^\d{4}-\d{2}-\d{2}$/.test(manualDate)) {
+      throw new ApiError(400, "invalid_request", "manualDate must be YYYY-MM-DD", { details: { field: "manualDate" } });
+    }
+
+    try {
+      const provider = getExtractionProvider(formString(form, "provider"));
+      const options = preprocessOptionsFrom(form);
+      const images = await Promise.all(files.map(async (file) => preprocessImage(Buffer.from(await file.arrayBuffer()), options)));
+      const result = await analyzeImages(
+        provider,
+        images.map((image, i) => ({ buffer: image.buffer, mimeType: image.mimeType, fileName: files[i].name })),
+        { manualProduct: formString(form, "manualProduct"), manualDate, locale: formString(form, "locale") },
+        { refresh: form.get("refresh") === "1" }
+      );
+      return Response.json({ result });
+    } catch (err) {
+      throw analysisApiError(err);
+    }
+  });
+}
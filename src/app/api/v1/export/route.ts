@@ -0,0 +1,30 @@
+import { NextRequest } from "next/server";
+import { scopeItems } from "@/lib/accounts";
+import { ApiError } from "@/lib/api/errors";
+import { handleApiRequest } from "@/lib/api/http";
+import { listItems } from "@/lib/items";
+import { exportItems, EXPORT_FORMATS, isExportFormat, parseExportFilters } from "@/lib/export";
+
+export const runtime = "nodejs";
+
+/** The items the key may see as a file, with the dashboard export's filters and `location`. */
+export async function GET(req: NextRequest) {
+  return handleApiRequest(req, "viewer", async ({ access }) => {
+    const params = req.nextUrl.searchParams;
+    const format = params.get("format") ?? "csv";
+    if (!isExportFormat(format)) {
+      throw new ApiError(400, "invalid_request", `format must be one of ${EXPORT_FORMATS.join(", ")}`, { details: { field: "format" } });
+    }
+    const parsed = parseExportFilters(params);
+    if ("error" in parsed) throw new ApiError(400, "invalid_request", parsed.error);
+    const items = scopeItems(access, await listItems(), params.get("location"));
+    const file = await exportItems(format, parsed.filters, req.nextUrl.origin, items, access.orgId);
+    return new Response(typeof file.body === "string" ? file.body : new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  });
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { getVisibleItem } from "@/lib/accounts";
+import { ApiError } from "@/lib/api/errors";
+import { handleApiRequest } from "@/lib/api/http";
+import { itemPhotos } from "@/lib/items";
+import { readBlob } from "@/lib/store/blobs";
+
+export const runtime = "nodejs";
+
+/** The item's main photo, or another of its photos with `?photo=<imageId>`. */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  return handleApiRequest(req, "viewer", async ({ access }) => {
+    const { id } = await params;
+    const item = await getVisibleItem(access, id);
+    const requested = req.nextUrl.searchParams.get("photo");
+    const photo = item ? itemPhotos(item).find((p) => !requested || p.imageId === requested) : undefined;
+    const data = photo ? await readBlob(photo.imageId) : null;
+    if (!photo || !data) throw new ApiError(404, "not_found", `Item ${id} has no such photo`);
+    return new Response(new Uint8Array(data), {
+      headers: {
+        "Content-Type": photo.imageMimeType || "application/octet-stream",
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  });
+}
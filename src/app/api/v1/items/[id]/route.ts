@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { getVisibleItem } from "@/lib/accounts";
+import { ApiError } from "@/lib/api/errors";
+import { handleApiRequest } from "@/lib/api/http";
+import { toApiItem } from "@/lib/api/items";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  return handleApiRequest(req, "viewer", async ({ access }) => {
+    const { id } = await params;
+    const item = await getVisibleItem(access, id);
+    if (!item) throw new ApiError(404, "not_found", `Item ${id} not found`);
+    return Response.json({ item: toApiItem(item, req.nextUrl.origin) });
+  });
+}
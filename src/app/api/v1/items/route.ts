@@ -0,0 +1,104 @@
+import { NextRequest } from "next/server";
+import { actorOf, resolveLocation, scopeItems } from "@/lib/accounts";
+import { ApiError, analysisApiError } from "@/lib/api/errors";
+import { handleApiRequest } from "@/lib/api/http";
+import { pageItems, toApiItem } from "@/lib/api/items";
+import { isIsoDateOrEmpty } from "@/lib/dates";
+import { filterItems, parseExportFilters } from "@/lib/export/filters";
+import { getExtractionProvider } from "@/lib/extraction";
+import { readJsonObject } from "@/lib/http";
+import { preprocessImage, preprocessOptions } from "@/lib/images/preprocess";
+import { createItem, ITEM_FIELDS, listItems, type NewItem } from "@/lib/items";
+import { createJob } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Items the key may see, oldest change first. Takes the export filters
+ * (`status`, `from`, `to`, `dateField`, `search`), `location`,
+ * `updatedSince`, and `limit` and `cursor` for paging.
+ */
+export async function GET(req: NextRequest) {
+  return handleApiRequest(req, "viewer", async ({ access }) => {
+    const params = req.nextUrl.searchParams;
+    const parsed = parseExportFilters(params);
+    if ("error" in parsed) throw new ApiError(400, "invalid_request", parsed.error);
+    const scoped = filterItems(scopeItems(access, await listItems(), params.get("location")), parsed.filters);
+    const page = pageItems(scoped, params);
+    return Response.json({ ...page, items: page.items.map((item) => toApiItem(item, req.nextUrl.origin)) });
+  });
+}
+
+/**
+ * Stores an item. With an `image` (multipart) the label is read in the
+ * background and the reply is 202 with the analysis job to poll at
+ * /api/v1/jobs/{id}; send `analyze=false` to skip that. A JSON body stores
+ * the fields as given (201).
+ */
+export async function POST(req: NextRequest) {
+  return handleApiRequest(req, "scanner", async ({ access }) => {
+    const contentType = req.headers.get("content-type") ?? "";
+    let input: NewItem;
+    let analyze = false;
+    let locale: string | undefined;
+    let provider: string | null = null;
+
+    if (contentType.includes("multipart/form-data")) {
+      let form: FormData;
+      try {
+        form = await req.formData();
+      } catch {
+        throw new ApiError(400, "invalid_request", "The multipart body could not be read");
+      }
+      input = {
+        ...Object.fromEntries(ITEM_FIELDS.map((f) => [f, optionalString(form.get(f))])),
+        category: optionalString(form.get("category")),
+        locationId: optionalString(form.get("locationId")),
+      };
+      const file = form.get("image");
+      if (file instanceof File && file.size > 0) {
+        try {
+          const image = await preprocessImage(Buffer.from(await file.arrayBuffer()), preprocessOptions({ enhanceContrast: false, cropToLabel: false }));
+          input.image = { buffer: image.buffer, mimeType: image.mimeType, name: file.name };
+        } catch (err) {
+          throw analysisApiError(err);
+        }
+        analyze = form.get("analyze") !== "false";
+        locale = optionalString(form.get("locale"));
+        provider = optionalString(form.get("provider"))?.trim() || null;
+      }
+    } else {
+      const body = await readJsonObject(req);
+      if (body instanceof Response) throw new ApiError(400, "invalid_request", "The body must be a JSON object or multipart/form-data");
+      input = {
+        ...Object.fromEntries(ITEM_FIELDS.map((f) => [f, optionalString(body[f])])),
+        category: optionalString(body.category),
+        locationId: optionalString(body.locationId),
+      };
+    }
+
+    for (const field of ["expiryDate", "manufactureDate"] as const) {
+      if (!isIsoDateOrEmpty(input[field] ?? "")) {
+        throw new ApiError(400, "invalid_request", `${field} must be a real date as YYYY-MM-DD`, { details: { field } });
+      }
+    }
+    input.locationId = resolveLocation(access, input.locationId);
+    if (analyze) {
+      try {
+        getExtractionProvider(provider);
+      } catch (err) {
+        throw analysisApiError(err);
+      }
+    }
+
+    const actor = actorOf(access);
+    const item = await createItem({ ...input, source: "upload", orgId: access.orgId ?? undefined }, { actor });
+    if (!analyze) return Response.json({ item: toApiItem(item, req.nextUrl.origin) }, { status: 201 });
+    const job = createJob({ items: [{ itemId: item.id }], provider, locale, orgId: access.orgId, actor });
+    return Response.json({ item: toApiItem(item, req.nextUrl.origin), job }, { status: 202 });
+  });
+}
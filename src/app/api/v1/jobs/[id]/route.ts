@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { inOrg } from "@/lib/accounts";
+import { ApiError } from "@/lib/api/errors";
+import { handleApiRequest } from "@/lib/api/http";
+import { getJob, jobCounts } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** An analysis job started by POST /api/v1/items. Finished jobs are kept for an hour. */
+export async function GET(req: NextRequest, { params }: Params) {
+  return handleApiRequest(req, "viewer", async ({ access }) => {
+    const { id } = await params;
+    const job = getJob(id);
+    if (!job || !inOrg(access, job.orgId)) throw new ApiError(404, "not_found", `Job ${id} not found`);
+    return Response.json({ job, counts: jobCounts(job) });
+  });
+}
@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server";
+import { openApiDocument } from "@/lib/api/openapi";
+
+export const runtime = "nodejs";
+
+/** The API description; public so client generators can fetch it without a key. */
+export async function GET(req: NextRequest) {
+  return Response.json(openApiDocument(req.nextUrl.origin));
+}
@@ -1,5 +1,6 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Inter, Roboto_Mono } from "next/font/google";
+import { ServiceWorker } from "@/components/ServiceWorker";
 import "./globals.css";
 
 const geistSans = Inter({
@@ -17,6 +18,12 @@ const geistMono = Roboto_Mono({
 export const metadata: Metadata = {
   title: "Expiry Date Analyzer",
   description: "Generated by Randomwak.ai",
+  appleWebApp: { capable: true, title: "Expiry", statusBarStyle: "black-translucent" },
+  icons: { icon: "/icons/icon.svg", apple: "/icons/icon-192.png" },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#0f172a",
 };
 
 export default function RootLayout({
@@ -28,6 +35,7 @@ export default function RootLayout({
     <html lang="en">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
         {children}
+        <ServiceWorker />
       </body>
     </html>
   );
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { fetchMe } from "@/lib/accounts/client";
+import { MIN_PASSWORD_LENGTH } from "@/lib/accounts/types";
+
+const INPUT = "w-full rounded-md border border-white/20 bg-white/10 px-3 py-2 text-white outline-none focus:ring-2 focus:ring-white/30";
+const BUTTON = "w-full rounded-md bg-white/20 px-4 py-2 text-sm font-medium text-white shadow hover:bg-white/30 disabled:opacity-50";
+
+/** Sign-in, or on a fresh deployment the form that creates the first organization and admin. */
+export default function LoginPage() {
+  const router = useRouter();
+  const [setup, setSetup] = useState<boolean | null>(null);
+  const [orgName, setOrgName] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    void fetchMe()
+      .then((me) => {
+        if (me && !me.setupRequired) router.replace("/");
+        else setSetup(Boolean(me?.setupRequired));
+      })
+      .catch(() => setSetup(false));
+  }, [router]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(setup ? "/api/auth/setup" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(setup ? { orgName, username, password } : { username, password }),
+      });
+      if (res.ok) return router.replace("/");
+      const data = (await res.json().catch(() => ({}))) as { error?: string; message?: string };
+      setError(data.message ?? data.error ?? `Failed (${res.status})`);
+    } catch {
+      setError("Could not reach the server");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (setup === null) return <div className="min-h-screen w-full soft-gradient bg-fixed" />;
+
+  return (
+    <div className="min-h-screen w-full soft-gradient bg-fixed grid place-items-center p-6">
+      <form
+        onSubmit={(e) => void submit(e)}
+        className="w-full max-w-sm space-y-4 rounded-2xl border border-white/20 bg-white/10 backdrop-blur-xl p-6 sm:p-8 text-white shadow-2xl"
+      >
+        <h1 className="text-xl font-semibold">{setup ? "Set up accounts" : "Sign in"}</h1>
+        {setup && (
+          <>
+            <p className="text-sm text-white/75">
+              Create your organization and its first admin. Until then anyone who can reach this app can use it; afterwards everyone signs in.
+            </p>
+            <label className="block space-y-1 text-sm">
+              <span className="text-white/80">Organization</span>
+              <input value={orgName} onChange={(e) => setOrgName(e.target.value)} required className={INPUT} placeholder="e.g. St Mary's Hospital" />
+            </label>
+          </>
+        )}
+        <label className="block space-y-1 text-sm">
+          <span className="text-white/80">Username</span>
+          <input value={username} onChange={(e) => setUsername(e.target.value)} required autoComplete="username" className={INPUT} />
+        </label>
+        <label className="block space-y-1 text-sm">
+          <span className="text-white/80">Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={setup ? MIN_PASSWORD_LENGTH : undefined}
+            autoComplete={setup ? "new-password" : "current-password"}
+            className={INPUT}
+          />
+        </label>
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        <button type="submit" disabled={busy} className={BUTTON}>
+          {setup ? "Create and sign in" : "Sign in"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import type { MetadataRoute } from "next";
+
+/** Lets the dashboard be installed as an app; the service worker in public/sw.js keeps it usable offline. */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Expiry Date Analyzer",
+    short_name: "Expiry",
+    description: "Read expiry dates from product labels and track what is about to expire.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#0f172a",
+    theme_color: "#0f172a",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+      { src: "/icons/icon.svg", sizes: "any", type: "image/svg+xml" },
+    ],
+  };
+}
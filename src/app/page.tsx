@@ -1,143 +1,783 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState, Suspense } from "react";
-import { useSearchParams } from "next/navigation";
+import { useCallback, useEffect, useMemo, useRef, useState, Suspense, type Dispatch, type SetStateAction } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
+import Link from "next/link";
+import QRCode from "qrcode";
+import { checkConsistency, WARNING_MESSAGES, type LabelWarning } from "@/lib/extraction/checks";
+import { MAX_ITEM_PHOTOS, type DuplicateMatch, type InventoryItem, type ItemPhoto, type ItemSource } from "@/lib/items/types";
+import type { FieldConfidence, FieldSources, SourcedField } from "@/lib/extraction/types";
+import type { JobCounts, JobErrorCode, JobItem, JobStatus } from "@/lib/jobs/types";
+import { parseExpiryDate } from "@/lib/dates";
+import { reviewReasons, type ReviewState } from "@/lib/review";
+import { EXPORT_FORMATS, exportQuery, matchesSearch, type ExportFormat } from "@/lib/export/filters";
+import { AccountBar } from "@/components/AccountBar";
+import { ConflictDialog } from "@/components/ConflictDialog";
+import { DeletedItemsDialog } from "@/components/DeletedItemsDialog";
+import { EditableCell } from "@/components/EditableCell";
+import { HistoryDialog } from "@/components/HistoryDialog";
+import { ImportDialog } from "@/components/ImportDialog";
+import { PhoneControls } from "@/components/PhoneControls";
+import { ReviewDialog } from "@/components/ReviewDialog";
+import { SyncStatus } from "@/components/SyncStatus";
+import { connectSessionChannel, type ClientSessionImage, type MobileState, type SessionCommand, type SessionCommandInput } from "@/lib/sessions/client";
+import { followJob } from "@/lib/jobs/client";
+import { cacheItem, cacheItems, readCachedItems, readOutbox } from "@/lib/offline/db";
+import { INITIAL_SYNC_STATE, isLocalId, isNetworkError, newLocalId, startOutboxSync, type OutboxSync } from "@/lib/offline/sync";
+import type { OutboxEntry, QueuedChange, QueuedCreate, SyncState } from "@/lib/offline/types";
+import type { Me } from "@/lib/accounts/client";
+import { hasRole } from "@/lib/accounts/types";
+import {
+  DEFAULT_STATUS_RULES,
+  itemStatus,
+  statusLabel,
+  thresholdsFor,
+  type ExpiryStatus,
+  type StatusRules,
+  type StatusThresholds,
+} from "@/lib/status";
 
 type UploadedImage = {
   id: string;
-  file: File;
+  /** Set for images added in this tab; items loaded from the store fetch their image from `url`. */
+  file: File | null;
   url: string;
+  imageName: string;
+  source: ItemSource;
+  sessionImageId?: string;
   product: string;
   expiryDate: string; // YYYY-MM-DD
-  status: "Valid" | "Expiring Soon" | "Expired";
+  lot: string;
+  ref: string;
+  gtin: string;
+  manufactureDate: string; // YYYY-MM-DD
+  serial: string;
+  category: string;
+  thresholds?: Partial<StatusThresholds>;
+  expiryText: string;
+  fieldSources: FieldSources;
+  confidence: Partial<Record<SourcedField, FieldConfidence>>;
+  barcodeConflicts: SourcedField[];
+  expiryAmbiguous: boolean;
+  analysisError: string;
+  review: ReviewState;
+  status: ExpiryStatus;
+  warnings: LabelWarning[];
+  possibleDuplicates: DuplicateMatch[];
+  /** Further photos of the same package, beyond the one at `url`. */
+  extraPhotos: ItemPhoto[];
+  /** Which photo (by image id) each field was read from, when there are several. */
+  fieldImages: Partial<Record<SourcedField, string>>;
+  /** The server's version of the row, sent with edits so a change made elsewhere meanwhile is not overwritten. */
+  updatedAt: string;
 };
 
-function computeStatus(dateISO: string): UploadedImage["status"] {
-  if (!dateISO.trim()) return "Valid";
-  const today = new Date();
-  const target = new Date(dateISO);
-  if (isNaN(target.getTime())) return "Valid";
-  const diffDays = Math.ceil((target.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-  if (diffDays < 0) return "Expired";
-  if (diffDays <= 30) return "Expiring Soon";
-  return "Valid";
+type AnalysisUpdate = Omit<UploadedImage, "file" | "url" | "imageName" | "source" | "sessionImageId">;
+
+type EditableField = "product" | "expiryDate" | "category";
+
+const BADGE = "inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold";
+
+const STATUS_STYLES: Record<ExpiryStatus, string> = {
+  Valid: "bg-green-500/20 text-green-200",
+  "Expiring Soon": "bg-amber-500/20 text-amber-200",
+  Critical: "bg-orange-500/25 text-orange-200",
+  "Expires Today": "bg-red-500/20 text-red-200",
+  Expired: "bg-red-500/20 text-red-200",
+  "No Date": "bg-white/15 text-white/80",
+  Unreadable: "bg-fuchsia-500/20 text-fuchsia-200",
+  "Needs Review": "bg-sky-500/20 text-sky-200",
+};
+type Draft = Partial<Record<EditableField, string>>;
+
+/** State of one or more rows before a change, so the change can be undone. */
+type UndoEntry = { label: string; snapshots: AnalysisUpdate[] };
+
+const UNDO_LIMIT = 20;
+
+/** Parses a typed expiry the same way labels are parsed, in the browser's locale. */
+function parseTypedDate(text: string): { iso: string; error?: string } {
+  if (!text.trim()) return { iso: "" };
+  const parsed = parseExpiryDate(text, { locale: typeof navigator !== "undefined" ? navigator.language : undefined });
+  if (parsed.error === "invalid_date") return { iso: "", error: "Not a real calendar date" };
+  if (parsed.error) return { iso: "", error: "Use a date such as 2027-01-31 or 01/2027" };
+  return { iso: parsed.iso };
+}
+
+/** Values a person typed go back to the analyzer as overrides so a re-read cannot undo them. */
+function manualOverrides(item: UploadedImage): Draft {
+  return {
+    ...(item.fieldSources.product === "manual" ? { product: item.product } : {}),
+    ...(item.fieldSources.expiryDate === "manual" ? { expiryDate: item.expiryDate } : {}),
+  };
+}
+
+/** Status the row will have once a typed expiry is saved; mirrors the server's review rules. */
+function previewStatus(item: UploadedImage, iso: string, rules: StatusRules): ExpiryStatus {
+  const reasons = reviewReasons({
+    ...item,
+    expiryDate: iso,
+    expiryAmbiguous: false,
+    confidence: { ...item.confidence, expiryDate: { score: 1, evidence: "" } },
+    barcodeConflicts: item.barcodeConflicts.filter((f) => f !== "expiryDate"),
+  });
+  const review: ReviewState = item.review.status === "approved" && !reasons.length
+    ? item.review
+    : { status: reasons.length ? "pending" : "cleared", reasons };
+  return itemStatus({ ...item, expiryDate: iso, review }, rules);
+}
+
+/** Body that puts an item back exactly as captured in a snapshot, provenance included. */
+function restoreBody(snapshot: AnalysisUpdate) {
+  return {
+    product: snapshot.product,
+    expiryDate: snapshot.expiryDate,
+    lot: snapshot.lot,
+    ref: snapshot.ref,
+    gtin: snapshot.gtin,
+    manufactureDate: snapshot.manufactureDate,
+    serial: snapshot.serial,
+    category: snapshot.category,
+    expiryText: snapshot.expiryText,
+    fieldSources: snapshot.fieldSources,
+    confidence: snapshot.confidence,
+    barcodeConflicts: snapshot.barcodeConflicts,
+    expiryAmbiguous: snapshot.expiryAmbiguous,
+    analysisError: snapshot.analysisError,
+  };
+}
+
+/** Marks values read from a barcode so they can be told apart from OCR/LLM reads. */
+function BarcodeMark({ sources, field }: { sources: FieldSources; field: SourcedField }) {
+  if (sources[field] !== "barcode") return null;
+  return <span title="Read from barcode" className="ml-1 text-[10px] uppercase text-sky-200">▦</span>;
+}
+
+/** Numbers the photo a field was read from on items with several; photo 1 is the main one. */
+function PhotoMark({ img, field }: { img: UploadedImage; field: SourcedField }) {
+  const imageId = img.fieldImages[field];
+  if (!imageId || img.extraPhotos.length === 0) return null;
+  // Not among the extras (-1) means the main photo, #1.
+  const number = img.extraPhotos.findIndex((p) => p.imageId === imageId) + 2;
+  return <span title="Photo this was read from" className="ml-1 text-[10px] text-white/60">#{number}</span>;
+}
+
+/** Everything the server decides about an item; analysis and review replace these wholesale. */
+function storedFields(item: InventoryItem): AnalysisUpdate {
+  return {
+    id: item.id,
+    product: item.product,
+    expiryDate: item.expiryDate,
+    lot: item.lot,
+    ref: item.ref,
+    gtin: item.gtin,
+    manufactureDate: item.manufactureDate,
+    serial: item.serial,
+    fieldSources: item.fieldSources ?? {},
+    confidence: item.confidence ?? {},
+    barcodeConflicts: item.barcodeConflicts ?? [],
+    expiryAmbiguous: item.expiryAmbiguous ?? false,
+    analysisError: item.analysisError ?? "",
+    category: item.category ?? "",
+    thresholds: item.thresholds,
+    expiryText: item.expiryText ?? "",
+    review: item.review,
+    status: item.status,
+    warnings: checkConsistency(item),
+    possibleDuplicates: item.possibleDuplicates ?? [],
+    extraPhotos: item.extraPhotos ?? [],
+    fieldImages: item.fieldImages ?? {},
+    updatedAt: item.updatedAt,
+  };
+}
+
+function fromStoredItem(item: InventoryItem, file: File | null = null): UploadedImage {
+  return {
+    ...storedFields(item),
+    file,
+    url: file ? URL.createObjectURL(file) : item.imageId ? `/api/items/${item.id}/image` : "",
+    imageName: item.imageName,
+    source: item.source,
+    sessionImageId: item.sessionImageId,
+  };
+}
+
+/** What to show when the result could not even be saved: never let it look valid. */
+function unsavedFailure(item: UploadedImage): AnalysisUpdate {
+  return {
+    ...item,
+    review: { status: "pending", reasons: ["analysis_failed"] },
+    status: "Needs Review",
+  };
+}
+
+/** A photo captured offline, shown from the copy kept in the browser until it is uploaded. */
+function pendingRow(change: QueuedCreate): UploadedImage {
+  return {
+    id: change.itemId,
+    file: null,
+    url: URL.createObjectURL(change.file),
+    imageName: change.fileName,
+    source: "upload",
+    product: change.product,
+    expiryDate: "",
+    lot: "",
+    ref: "",
+    gtin: "",
+    manufactureDate: "",
+    serial: "",
+    category: "",
+    expiryText: "",
+    fieldSources: {},
+    confidence: {},
+    barcodeConflicts: [],
+    expiryAmbiguous: false,
+    analysisError: "",
+    review: { status: "cleared", reasons: [] },
+    status: "No Date",
+    warnings: [],
+    possibleDuplicates: [],
+    extraPhotos: [],
+    fieldImages: {},
+    updatedAt: "",
+  };
+}
+
+/** A row as it will be once a queued edit is saved; typed values count as manual, as on the server. */
+function withEdit(row: UploadedImage, patch: Draft, rules: StatusRules): UploadedImage {
+  const fieldSources = { ...row.fieldSources };
+  if (patch.product !== undefined) fieldSources.product = "manual";
+  if (patch.expiryDate !== undefined) fieldSources.expiryDate = "manual";
+  const edited = { ...row, ...patch, fieldSources };
+  return patch.expiryDate === undefined ? edited : { ...edited, expiryAmbiguous: false, status: previewStatus(row, patch.expiryDate, rules) };
+}
+
+/** Rows as they will be once the queued changes reach the server: deletes gone, edits applied, offline captures added. */
+function withQueuedChanges(rows: UploadedImage[], entries: OutboxEntry[], rules: StatusRules): UploadedImage[] {
+  const deleted = new Set(entries.flatMap((e) => (e.kind === "delete" ? [e.itemId] : [])));
+  const known = new Set(rows.map((r) => r.id));
+  const captured = entries.flatMap((e) => (e.kind === "create" && !known.has(e.itemId) ? [pendingRow(e)] : []));
+  return [...rows, ...captured]
+    .filter((row) => !deleted.has(row.id))
+    .map((row) => entries.reduce((r, e) => (e.kind === "edit" && e.itemId === r.id ? withEdit(r, e.patch, rules) : r), row));
+}
+
+/** An analysis job this tab started, as shown above the table until it is dismissed. */
+type TrackedJob = { id: string; status: JobStatus; counts: JobCounts };
+
+const JOB_ERROR_LABELS: Record<JobErrorCode, string> = {
+  rate_limited: "Rate limited by the provider",
+  provider_error: "Provider error",
+  network_error: "Could not reach the provider",
+  provider_unavailable: "Provider not configured",
+  unsupported_media_type: "Not a readable image",
+  no_image: "No photo",
+  item_not_found: "Item was deleted",
+  analysis_failed: "Analysis failed",
+};
+
+const JOB_ITEM_LABELS: Partial<Record<JobItem["status"], string>> = {
+  queued: "Queued...",
+  running: "Analyzing...",
+  retrying: "Retrying...",
+};
+
+/** Uploads at once when many files are dropped; the analysis itself is throttled by the job queue. */
+const UPLOAD_CONCURRENCY = 4;
+
+const MAX_FILES_PER_UPLOAD = 200;
+
+type Setter<T> = Dispatch<SetStateAction<T>>;
+
+/** The dashboard state a followed job writes to. */
+type JobView = {
+  setImages: Setter<UploadedImage[]>;
+  setJobs: Setter<TrackedJob[]>;
+  setJobItems: Setter<Record<string, JobItem>>;
+  setAnalyzingIds: Setter<Set<string>>;
+};
+
+/**
+ * Follows a server-side analysis job until it stops running, applying each
+ * row as it finishes. Resolves with the rows that were read or failed.
+ */
+function trackJob(jobId: string, itemIds: string[], view: JobView): Promise<AnalysisUpdate[]> {
+  const { setImages, setJobs, setJobItems, setAnalyzingIds } = view;
+  const finishAnalyzing = (ids: string[]) => setAnalyzingIds((prev) => {
+    const next = new Set(prev);
+    ids.forEach((id) => next.delete(id));
+    return next;
+  });
+  const updates = new Map<string, AnalysisUpdate>();
+  const apply = (item: InventoryItem) => {
+    const update = storedFields(item);
+    updates.set(item.id, update);
+    setImages((prev) => prev.map((img) => (img.id === item.id ? { ...img, ...update } : img)));
+  };
+  const showJob = (status: JobStatus, counts: JobCounts) =>
+    setJobs((prev) => [{ id: jobId, status, counts }, ...prev.filter((j) => j.id !== jobId)]);
+  const showItem = (item: JobItem) => {
+    setJobItems((prev) => ({ ...prev, [item.itemId]: item }));
+    if (!JOB_ITEM_LABELS[item.status]) finishAnalyzing([item.itemId]);
+  };
+  setAnalyzingIds((prev) => new Set([...prev, ...itemIds]));
+  return new Promise((resolve) => {
+    followJob(jobId, {
+      onSnapshot: (job, counts) => {
+        showJob(job.status, counts);
+        for (const item of job.items) {
+          showItem(item);
+          // Rows that finished while the stream was down.
+          if (!JOB_ITEM_LABELS[item.status] && !updates.has(item.itemId)) {
+            void fetch(`/api/items/${item.itemId}`)
+              .then(async (res) => (res.ok ? apply(((await res.json()) as { item: InventoryItem }).item) : undefined))
+              .catch(() => undefined);
+          }
+        }
+      },
+      onEvent: (event) => {
+        if (event.type === "job") return showJob(event.status, event.counts);
+        setJobs((prev) => prev.map((j) => (j.id === jobId ? { ...j, counts: event.counts } : j)));
+        showItem(event.item);
+        if (event.inventoryItem) apply(event.inventoryItem);
+      },
+      onEnded: () => {
+        finishAnalyzing(itemIds);
+        // Completed jobs without failures need no further attention.
+        setJobs((prev) => prev.filter((j) => j.id !== jobId || j.status !== "completed" || j.counts.failed > 0));
+        resolve([...updates.values()]);
+      },
+    });
+  });
+}
+
+type SessionToken = { token: string; expiresAt: string };
+type Pairing = { url: string; expiresAt: string };
+
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+function tokenStorageKey(sessionId: string): string {
+  return `expiry-session-token:${sessionId}`;
+}
+
+function loadSessionToken(sessionId: string): SessionToken | null {
+  try {
+    const raw = window.sessionStorage.getItem(tokenStorageKey(sessionId));
+    return raw ? (JSON.parse(raw) as SessionToken) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSessionToken(sessionId: string, token: SessionToken) {
+  window.sessionStorage.setItem(tokenStorageKey(sessionId), JSON.stringify(token));
+}
+
+function sessionHeaders(token: string | null): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "ngrok-skip-browser-warning": "true",
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+async function createStoredItem(
+  file: File,
+  fields: { product: string; source: ItemSource; sessionId?: string; sessionImageId?: string; locationId?: string }
+): Promise<UploadedImage> {
+  const form = new FormData();
+  form.append("image", file);
+  form.append("product", fields.product);
+  form.append("source", fields.source);
+  if (fields.sessionId) form.append("sessionId", fields.sessionId);
+  if (fields.sessionImageId) form.append("sessionImageId", fields.sessionImageId);
+  if (fields.locationId) form.append("locationId", fields.locationId);
+  const res = await fetch("/api/items", { method: "POST", body: form });
+  if (!res.ok) throw new Error(`Saving item failed (${res.status})`);
+  const { item } = (await res.json()) as { item: InventoryItem };
+  return fromStoredItem(item, file);
 }
 
 function HomeContent() {
   const searchParams = useSearchParams();
+  const router = useRouter();
   const sessionId = searchParams?.get("session") ?? null;
 
   const [images, setImages] = useState<UploadedImage[]>([]);
   const [search, setSearch] = useState("");
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [analyzingIds, setAnalyzingIds] = useState<Set<string>>(new Set());
+  const [jobItems, setJobItems] = useState<Record<string, JobItem>>({});
+  const [jobs, setJobs] = useState<TrackedJob[]>([]);
+  const [rules, setRules] = useState<StatusRules>(DEFAULT_STATUS_RULES);
+  const [account, setAccount] = useState<Me | null>(null);
+  /** Location the results and counts are scoped to, and new items are filed under; "" for all. */
+  const [locationId, setLocationId] = useState("");
+  const locationRef = useRef("");
+  const loadedOnceRef = useRef(false);
+  const outboxRef = useRef<OutboxSync | null>(null);
+  const [sync, setSync] = useState<SyncState>(INITIAL_SYNC_STATE);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const signedIn = account !== null;
 
   const [mobileConnected, setMobileConnected] = useState(false);
+  const [mobileState, setMobileState] = useState<MobileState | null>(null);
+  const [commands, setCommands] = useState<SessionCommand[]>([]);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [pairing, setPairing] = useState<Pairing | null>(null);
+  const [pairingQr, setPairingQr] = useState<string | null>(null);
+  const sessionTokenRef = useRef<SessionToken | null>(null);
   const seenImageIdsRef = useRef<Set<string>>(new Set());
   const imagesLengthRef = useRef(0);
+  /** Row each "same item" capture group from the phone was folded into. */
+  const captureGroupsRef = useRef<Map<string, string>>(new Map());
 
   useEffect(() => {
-    seenImageIdsRef.current = new Set(images.map((i) => i.id));
+    seenImageIdsRef.current = new Set(images.flatMap((i) => [
+      i.id,
+      ...[i.sessionImageId, ...i.extraPhotos.map((p) => p.sessionImageId)].filter((x): x is string => Boolean(x)),
+    ]));
     imagesLengthRef.current = images.length;
   }, [images]);
 
-  const sessionApiHeaders: HeadersInit = useMemo(
-    () => ({
-      "Content-Type": "application/json",
-      "ngrok-skip-browser-warning": "true",
-    }),
-    []
-  );
+  useEffect(() => {
+    locationRef.current = locationId;
+  }, [locationId]);
 
   useEffect(() => {
+    if (!account) return;
+    let cancelled = false;
+    void (async () => {
+      let items: InventoryItem[];
+      let current = DEFAULT_STATUS_RULES;
+      try {
+        const query = locationId ? `?location=${encodeURIComponent(locationId)}` : "";
+        const [res, rulesRes] = await Promise.all([fetch(`/api/items${query}`), fetch("/api/settings/status-rules")]);
+        if (rulesRes.ok) {
+          current = ((await rulesRes.json()) as { rules: StatusRules }).rules;
+          if (!cancelled) setRules(current);
+        }
+        if (!res.ok) return;
+        ({ items } = (await res.json()) as { items: InventoryItem[] });
+        // Only the full list replaces the offline copy; a location's items are added to it.
+        void (locationId ? Promise.all(items.map(cacheItem)) : cacheItems(items)).catch(() => undefined);
+      } catch (err) {
+        if (!isNetworkError(err)) return;
+        // Offline: the copy from the last load. It does not know the location tree, so every cached item is shown.
+        items = await readCachedItems().catch(() => []);
+      }
+      const entries = await readOutbox().catch((): OutboxEntry[] => []);
+      if (cancelled) return;
+      // The first load adds to rows already captured in this tab; picking another location replaces them.
+      const replace = loadedOnceRef.current;
+      loadedOnceRef.current = true;
+      setImages((prev) => {
+        const known = new Set(prev.map((i) => i.id));
+        const inScope = new Set(items.map((i) => i.id));
+        const rows = [...items.filter((i) => !known.has(i.id)).map((i) => fromStoredItem(i)), ...prev.filter((i) => !replace || inScope.has(i.id))];
+        return withQueuedChanges(rows, entries, current);
+      });
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [account, locationId]);
+
+  useEffect(() => {
+    if (!signedIn) return;
+    const outbox = startOutboxSync({
+      onState: setSync,
+      onCreated: (localId, item) => setImages((prev) => prev.map((img) => (img.id === localId ? { ...img, ...storedFields(item) } : img))),
+      onItem: (item) => setImages((prev) => prev.map((img) => (img.id === item.id ? { ...img, ...storedFields(item) } : img))),
+      onJob: (jobId, itemIds) => void trackJob(jobId, itemIds, { setImages, setJobs, setJobItems, setAnalyzingIds }),
+      onDropped: (entry, message) => {
+        setSyncNotice(`A change made offline was not saved: ${message}`);
+        if (entry.kind === "create") setImages((prev) => prev.filter((img) => img.id !== entry.itemId));
+      },
+    });
+    outboxRef.current = outbox;
+    return () => {
+      outbox.stop();
+      outboxRef.current = null;
+    };
+  }, [signedIn]);
+
+  useEffect(() => {
+    if (!pairing) {
+      setPairingQr(null);
+      return;
+    }
+    let cancelled = false;
+    void QRCode.toDataURL(pairing.url, { margin: 1, width: 220 }).then((url) => {
+      if (!cancelled) setPairingQr(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pairing]);
+
+  const startSession = useCallback(async () => {
+    const res = await fetch("/api/session", {
+      method: "POST",
+      headers: sessionHeaders(null),
+      body: JSON.stringify({ locationId: locationRef.current || undefined }),
+    });
+    if (!res.ok) {
+      setSessionError("Could not start a phone session");
+      return;
+    }
+    const data = (await res.json()) as { id: string; webToken: string; webTokenExpiresAt: string; pairing: Pairing };
+    const token = { token: data.webToken, expiresAt: data.webTokenExpiresAt };
+    saveSessionToken(data.id, token);
+    sessionTokenRef.current = token;
+    setPairing(data.pairing);
+    router.replace(`/?session=${encodeURIComponent(data.id)}`);
+  }, [router]);
+
+  const renewPairingCode = useCallback(async () => {
+    if (!sessionId) return;
+    const res = await fetch(`/api/session/${sessionId}/pairing`, {
+      method: "POST",
+      headers: sessionHeaders(sessionTokenRef.current?.token ?? null),
+    });
+    if (res.ok) setPairing((await res.json()) as Pairing);
+  }, [sessionId]);
+
+  const endSession = useCallback(async () => {
+    if (!sessionId) return;
+    await fetch(`/api/session/${sessionId}/close`, {
+      method: "POST",
+      headers: sessionHeaders(sessionTokenRef.current?.token ?? null),
+    });
+    window.sessionStorage.removeItem(tokenStorageKey(sessionId));
+    sessionTokenRef.current = null;
+    setPairing(null);
+    router.replace("/");
+  }, [sessionId, router]);
+
+  useEffect(() => {
+    setSessionError(null);
     if (!sessionId) return;
     const base = typeof window !== "undefined" ? window.location.origin : "";
+    sessionTokenRef.current = loadSessionToken(sessionId);
+    if (!sessionTokenRef.current) {
+      setSessionError("This browser is not paired with that session. Start a new one.");
+      return;
+    }
+    const authHeaders = () => sessionHeaders(sessionTokenRef.current?.token ?? null);
     void fetch(`${base}/api/session/${sessionId}`, {
       method: "POST",
-      headers: sessionApiHeaders,
+      headers: authHeaders(),
       body: JSON.stringify({ webConnected: true }),
     });
-    const interval = setInterval(async () => {
+    // Web tokens are short-lived; swap them for fresh ones while the dashboard stays open.
+    const refresh = setInterval(async () => {
+      const current = sessionTokenRef.current;
+      if (!current || Date.parse(current.expiresAt) - Date.now() > TOKEN_REFRESH_MARGIN_MS) return;
+      try {
+        const res = await fetch(`${base}/api/session/${sessionId}/token`, { method: "POST", headers: authHeaders() });
+        if (!res.ok) return;
+        const { token, expiresAt } = (await res.json()) as SessionToken;
+        sessionTokenRef.current = { token, expiresAt };
+        saveSessionToken(sessionId, { token, expiresAt });
+      } catch {
+        // ignore
+      }
+    }, 60_000);
+    /**
+     * Folds captures the phone took in "same item" mode into one row per
+     * group, including groups started by an earlier batch, and re-shoots into
+     * the item they were asked for. Returns the rows to analyze.
+     */
+    const groupCaptures = async (apiImages: ClientSessionImage[], rows: UploadedImage[]): Promise<UploadedImage[]> => {
+      const keyOf = (img: ClientSessionImage) => img.group ?? (img.reshootOf ? `reshoot:${img.reshootOf}` : null);
+      const members = new Map<string, UploadedImage[]>();
+      rows.forEach((row, idx) => {
+        const key = keyOf(apiImages[idx]);
+        if (key) members.set(key, [...(members.get(key) ?? []), row]);
+      });
+      const batch = rows.filter((row, idx) => !keyOf(apiImages[idx]));
+      for (const [group, groupRows] of members) {
+        const targetId = group.startsWith("reshoot:") ? group.slice("reshoot:".length) : captureGroupsRef.current.get(group) ?? groupRows[0].id;
+        if (!group.startsWith("reshoot:")) captureGroupsRef.current.set(group, targetId);
+        const others = groupRows.filter((row) => row.id !== targetId);
+        let grouped = groupRows.find((row) => row.id === targetId);
+        if (others.length) {
+          const res = await fetch(`${base}/api/items/${targetId}/group`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ items: others.map((row) => row.id) }),
+          });
+          if (!res.ok) {
+            // Too many photos, or the first capture or re-shot item was deleted: keep them as rows of their own.
+            captureGroupsRef.current.delete(group);
+            batch.push(...groupRows);
+            continue;
+          }
+          const { item, removedIds } = (await res.json()) as { item: InventoryItem; removedIds: string[] };
+          grouped = { ...(grouped ?? fromStoredItem(item)), ...storedFields(item) };
+          const row = grouped;
+          setImages((prev) => prev.filter((i) => !removedIds.includes(i.id)).map((i) => (i.id === item.id ? { ...i, ...row } : i)));
+        }
+        if (grouped) batch.push(grouped);
+      }
+      return batch;
+    };
+    const importImages = async (apiImages: ClientSessionImage[]) => {
+      const newApiImages = apiImages.filter((img) => !seenImageIdsRef.current.has(img.id));
+      if (newApiImages.length === 0) return;
+      const baseIndex = imagesLengthRef.current;
+      newApiImages.forEach((img) => seenImageIdsRef.current.add(img.id));
       try {
-        const res = await fetch(`${base}/api/session/${sessionId}`, {
-          headers: { "ngrok-skip-browser-warning": "true" },
-        });
-        const data = (await res.json()) as {
-          mobileConnected?: boolean;
-          images?: Array<{ id: string; dataUrl: string; product?: string; expiryDate?: string }>;
-        };
-        if (data.mobileConnected) setMobileConnected(true);
-        const apiImages = data.images ?? [];
-        const newApiImages = apiImages.filter((img) => !seenImageIdsRef.current.has(img.id));
-        if (newApiImages.length === 0) return;
-        const baseIndex = imagesLengthRef.current;
         const converted: UploadedImage[] = await Promise.all(
           newApiImages.map(async (apiImg, idx) => {
-            const resImg = await fetch(apiImg.dataUrl);
+            const resImg = await fetch(`${base}${apiImg.url}`, { headers: authHeaders() });
             const blob = await resImg.blob();
             const file = new File([blob], "mobile.jpg", { type: blob.type || "image/jpeg" });
-            const url = URL.createObjectURL(file);
-            return {
-              id: apiImg.id,
-              file,
-              url,
+            return createStoredItem(file, {
               product: `product_${baseIndex + idx + 1}`,
-              expiryDate: "",
-              status: "Valid" as const,
-            };
+              source: "mobile",
+              sessionId,
+              sessionImageId: apiImg.id,
+              locationId: locationRef.current || undefined,
+            });
           })
         );
         setImages((prev) => [...prev, ...converted]);
         converted.forEach((item) => seenImageIdsRef.current.add(item.id));
         imagesLengthRef.current += converted.length;
-        analyzeBatch(converted);
+        const batch = await groupCaptures(newApiImages, converted);
+        const results = await analyzeBatch(batch, {}, batch.some((item) => item.extraPhotos.length > 0));
+        // Let the phone show what was read from each capture, including every side of a grouped one.
+        await Promise.all(batch.flatMap((item) => {
+          const result = results.find((r) => r.id === item.id);
+          const captureIds = [item.sessionImageId, ...item.extraPhotos.map((p) => p.sessionImageId)].filter((x): x is string => Boolean(x));
+          if (!result) return [];
+          return captureIds.map((imageId) => fetch(`${base}/api/session/${sessionId}`, {
+            method: "POST",
+            headers: authHeaders(),
+            body: JSON.stringify({
+              analysis: { imageId, product: result.product, expiryDate: result.expiryDate },
+            }),
+          }));
+        }));
       } catch {
         // ignore
       }
-    }, 2000);
+    };
+    const disconnect = connectSessionChannel(base, sessionId, () => sessionTokenRef.current?.token ?? null, {
+      onMobileConnected: (connected) => {
+        setMobileConnected(connected);
+        if (connected) setPairing(null);
+      },
+      onImages: (apiImages) => void importImages(apiImages),
+      onCommand: (command) => setCommands((prev) => {
+        const index = prev.findIndex((c) => c.id === command.id);
+        if (index < 0) return [...prev, command];
+        return prev.map((c, i) => (i === index ? command : c));
+      }),
+      onMobileState: setMobileState,
+      onEnded: (message) => {
+        setSessionError(message);
+        setMobileConnected(false);
+      },
+    });
     return () => {
-      clearInterval(interval);
-      void fetch(`${base}/api/session/${sessionId}`, {
-        method: "POST",
-        headers: sessionApiHeaders,
-        body: JSON.stringify({ webConnected: false }),
-      });
+      disconnect();
+      clearInterval(refresh);
+      if (sessionTokenRef.current) {
+        void fetch(`${base}/api/session/${sessionId}`, {
+          method: "POST",
+          headers: authHeaders(),
+          body: JSON.stringify({ webConnected: false }),
+        });
+      }
       setMobileConnected(false);
+      setMobileState(null);
+      setCommands([]);
     };
-  }, [sessionId, sessionApiHeaders]);
+  }, [sessionId]);
 
-  const openCameraOnPhone = useCallback(() => {
+  /** Queues a command for the phone; its progress arrives over the session channel. */
+  const sendCommand = useCallback(async (command: SessionCommandInput) => {
     if (!sessionId) return;
-    const base = typeof window !== "undefined" ? window.location.origin : "";
-    void fetch(`${base}/api/session/${sessionId}`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json", "ngrok-skip-browser-warning": "true" },
-      body: JSON.stringify({ command: "open_camera" }),
-    });
+    setCommandError(null);
+    try {
+      const res = await fetch(`/api/session/${sessionId}/commands`, {
+        method: "POST",
+        headers: sessionHeaders(sessionTokenRef.current?.token ?? null),
+        body: JSON.stringify(command),
+      });
+      if (!res.ok) {
+        const { message } = (await res.json().catch(() => ({}))) as { message?: string };
+        setCommandError(message ?? `The command could not be sent (${res.status})`);
+      }
+    } catch {
+      setCommandError("The command could not be sent");
+    }
   }, [sessionId]);
 
-  const onFilesSelected = useCallback((filesList: FileList | null) => {
+  /** Keeps changes in the browser until the server can be reached; false when they could not be kept either. */
+  const queueChanges = useCallback(async (...changes: QueuedChange[]) => {
+    try {
+      if (!outboxRef.current) throw new Error("Sign in to keep changes offline");
+      await outboxRef.current.enqueue(...changes);
+      return true;
+    } catch (err) {
+      setSyncNotice(`The change could not be kept offline: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  }, []);
+
+  /** Keeps a photo that could not be uploaded, with its analysis, to send once back online. */
+  const queueCapture = useCallback(async (file: File, product: string): Promise<UploadedImage> => {
+    const change: QueuedCreate = {
+      kind: "create",
+      itemId: newLocalId(),
+      file,
+      fileName: file.name,
+      product,
+      locationId: locationId || undefined,
+      queuedAt: new Date().toISOString(),
+    };
+    const analysis: QueuedChange = { kind: "analyze", items: [{ itemId: change.itemId }], refresh: false, queuedAt: change.queuedAt };
+    if (!(await queueChanges(change, analysis))) throw new Error(`${file.name} could not be saved`);
+    return pendingRow(change);
+  }, [locationId, queueChanges]);
+
+  const onFilesSelected = useCallback(async (filesList: FileList | null) => {
     if (!filesList) return;
-    // Limit each upload action to 10 files, but allow multiple uploads overall
-    const incoming = Array.from(filesList).slice(0, 10);
+    const incoming = Array.from(filesList).slice(0, MAX_FILES_PER_UPLOAD);
     const base = images.length;
-    const nextItems: UploadedImage[] = incoming.map((file, idx) => {
-      const url = URL.createObjectURL(file);
-      const placeholderName = `product_${base + idx + 1}`;
-      return {
-        id: `${Date.now()}-${idx}`,
-        file,
-        url,
-        product: placeholderName,
-        expiryDate: "",
-        status: "Valid" as const,
-      };
+    const save = async (file: File, product: string) => {
+      if (!navigator.onLine) return queueCapture(file, product);
+      try {
+        return await createStoredItem(file, { product, source: "upload", locationId: locationId || undefined });
+      } catch (err) {
+        if (isNetworkError(err)) return queueCapture(file, product);
+        throw err;
+      }
+    };
+    const saved: PromiseSettledResult<UploadedImage>[] = [];
+    for (let start = 0; start < incoming.length; start += UPLOAD_CONCURRENCY) {
+      saved.push(...await Promise.allSettled(
+        incoming
+          .slice(start, start + UPLOAD_CONCURRENCY)
+          .map((file, idx) => save(file, `product_${base + start + idx + 1}`))
+      ));
+    }
+    const nextItems = saved.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+    saved.forEach((r) => {
+      if (r.status === "rejected") console.error(r.reason);
     });
     setImages((prev) => [...prev, ...nextItems]);
-    // Analyze newly added images
-    void analyzeBatch(nextItems);
-  }, [images.length]);
+    // Analyze newly added images; offline captures were queued with theirs.
+    void analyzeBatch(nextItems.filter((item) => !isLocalId(item.id)));
+  }, [images.length, locationId, queueCapture]);
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -151,34 +791,123 @@ function HomeContent() {
   const filtered = useMemo(() => {
     const term = search.trim().toLowerCase();
     if (!term) return images;
-    return images.filter((img) =>
-      img.product.toLowerCase().includes(term) || img.expiryDate.includes(term)
-    );
+    return images.filter((img) => matchesSearch(img, term));
   }, [images, search]);
 
   const counts = useMemo(() => ({
     total: images.length,
-    expiring: images.filter((i) => i.status === "Expiring Soon").length,
+    expiring: images.filter((i) => ["Expiring Soon", "Critical", "Expires Today"].includes(i.status)).length,
     valid: images.filter((i) => i.status === "Valid").length,
     expired: images.filter((i) => i.status === "Expired").length,
+    review: images.filter((i) => i.review.status === "pending").length,
   }), [images]);
 
-  const downloadCSV = useCallback(() => {
-    const headers = ["Image", "Product", "Expiry Date", "Status"];
-    const rows = images.map((i) => [i.file.name, i.product, i.expiryDate, i.status]);
-    const csv = [headers, ...rows].map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(",")).join("\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "expiry-results.csv";
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [images]);
+  const reviewQueue = useMemo(
+    () => images.filter((i) => i.review.status === "pending" && !analyzingIds.has(i.id)),
+    [images, analyzingIds]
+  );
+  /** Rows with an analysis, and rows with an edit, still waiting in the offline queue. */
+  const queuedAnalysisIds = useMemo(
+    () => new Set(sync.entries.flatMap((e) => (e.kind === "analyze" ? e.items.map((i) => i.itemId) : []))),
+    [sync.entries]
+  );
+  const unsyncedEditIds = useMemo(
+    () => new Set(sync.entries.flatMap((e) => (e.kind === "edit" ? [e.itemId] : []))),
+    [sync.entries]
+  );
+  const conflicts = sync.entries.filter((e) => e.conflict);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [historyOf, setHistoryOf] = useState<{ id: string; title: string } | null>(null);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const reviewIndex = reviewQueue.findIndex((i) => i.id === reviewingId);
+  const reviewing = reviewIndex >= 0 ? reviewQueue[reviewIndex] : null;
+
+  const approveReview = useCallback(async (id: string, edits: { product: string; expiryDate: string }) => {
+    const res = await fetch(`/api/items/${id}/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(edits),
+    });
+    const data = (await res.json()) as { item?: InventoryItem; error?: string };
+    if (!res.ok || !data.item) return data.error ?? `Saving failed (${res.status})`;
+    const update = storedFields(data.item);
+    setImages((prev) => prev.map((img) => (img.id === id ? { ...img, ...update } : img)));
+    // Move on to the next queued item, or close when the queue is empty.
+    const next = reviewQueue.find((i) => i.id !== id);
+    setReviewingId(next?.id ?? null);
+    return null;
+  }, [reviewQueue]);
+
+  const exportHref = useMemo(
+    () => `/api/export?${exportQuery(exportFormat, { search })}${locationId ? `&location=${encodeURIComponent(locationId)}` : ""}`,
+    [exportFormat, search, locationId]
+  );
+  /** Viewers only read; before accounts are set up everyone may do everything. */
+  const canScan = !account?.user || hasRole(account.user.role, "scanner");
+
+  /** Merges a flagged row into the one it duplicates, or keeps both and clears the flag. */
+  const resolveDuplicate = useCallback(async (id: string, action: "merge" | "keep", into?: string) => {
+    const res = await fetch(`/api/items/${id}/duplicates`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action, into }),
+    });
+    if (!res.ok) return;
+    const { item } = (await res.json()) as { item: InventoryItem };
+    setImages((prev) => prev
+      .filter((i) => action !== "merge" || i.id !== id)
+      .map((i) => (i.id === item.id ? { ...i, ...storedFields(item) } : i)));
+    if (action === "merge") setSelectedIds((prev) => {
+      const next = new Set(prev);
+      next.delete(id);
+      return next;
+    });
+  }, []);
+
+  /**
+   * Makes the selected photo rows one item (the first keeps its row) and
+   * reads all the photos together.
+   */
+  async function groupSelected() {
+    const rows = images.filter((i) => selectedIds.has(i.id) && i.url && !analyzingIds.has(i.id));
+    if (rows.length < 2) return;
+    const [target, ...rest] = rows;
+    const res = await fetch(`/api/items/${target.id}/group`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ items: rest.map((i) => i.id) }),
+    });
+    if (!res.ok) {
+      const { error } = (await res.json().catch(() => ({}))) as { error?: string };
+      window.alert(error ?? `Grouping failed (${res.status})`);
+      return;
+    }
+    const { item, removedIds } = (await res.json()) as { item: InventoryItem; removedIds: string[] };
+    const grouped = { ...target, ...storedFields(item) };
+    setImages((prev) => prev.filter((i) => !removedIds.includes(i.id)).map((i) => (i.id === item.id ? grouped : i)));
+    setSelectedIds(new Set());
+    await analyzeBatch([grouped], {}, true);
+  }
+
+  /** Splits a grouped row back into one row per photo and reads each again. */
+  async function ungroup(id: string) {
+    const res = await fetch(`/api/items/${id}/group`, { method: "DELETE" });
+    if (!res.ok) return;
+    const { items } = (await res.json()) as { items: InventoryItem[] };
+    const rows = items.map((item) => fromStoredItem(item));
+    setImages((prev) => [...prev.map((i) => (i.id === id ? { ...i, ...storedFields(items[0]) } : i)), ...rows.slice(1)]);
+    await analyzeBatch(rows, {}, true);
+  }
 
   const removeImage = useCallback((id: string) => {
+    const queueDelete = () => {
+      // Queued edits to a deleted item would only be refused.
+      void outboxRef.current?.discard(id).then(() => queueChanges({ kind: "delete", itemId: id, queuedAt: new Date().toISOString() }));
+    };
+    if (isLocalId(id)) void outboxRef.current?.discard(id);
+    else if (!navigator.onLine) queueDelete();
+    else void fetch(`/api/items/${id}`, { method: "DELETE" }).catch((err) => (isNetworkError(err) ? queueDelete() : undefined));
     setImages((prev) => {
       const toRemove = prev.find((i) => i.id === id);
       if (toRemove) {
@@ -186,127 +915,348 @@ function HomeContent() {
       }
       return prev.filter((i) => i.id !== id);
     });
-  }, []);
+  }, [queueChanges]);
 
-  async function analyzeBatch(batch: UploadedImage[]) {
-    setAnalyzingIds((prev) => new Set([...prev, ...batch.map((i) => i.id)]));
+  /**
+   * Queues rows for analysis on the server. `refresh` asks for a new read
+   * instead of the server's cached one for the same photo.
+   */
+  async function analyzeBatch(batch: UploadedImage[], overrides: Record<string, Draft> = {}, refresh = false): Promise<AnalysisUpdate[]> {
+    if (batch.length === 0) return [];
+    const items = batch.map((item) => {
+      const manual = { ...manualOverrides(item), ...overrides[item.id] };
+      return { itemId: item.id, manualProduct: manual.product, manualDate: manual.expiryDate };
+    });
+    // Offline, the request waits in the queue and its job is followed once it is sent.
+    const queueAnalysis = async () => {
+      await queueChanges({ kind: "analyze", items, refresh, queuedAt: new Date().toISOString() });
+      return [];
+    };
+    if (!navigator.onLine) return queueAnalysis();
     try {
-      const updates = await Promise.all(batch.map(async (item) => {
-        const form = new FormData();
-        form.append("image", item.file);
-        const isPlaceholder = /^product_\d+$/.test((item.product || "").trim());
-        if (item.product && !isPlaceholder) form.append("manualProduct", item.product);
-        if (item.expiryDate) form.append("manualDate", item.expiryDate);
-        const res = await fetch("/api/analyze", { method: "POST", body: form });
-        const data = await res.json() as { product?: string; expiryDate?: string; error?: string };
-        if (!res.ok) {
-          return { id: item.id, product: "—", expiryDate: item.expiryDate, status: "Valid" as const };
-        }
-        const name = data.product && String(data.product).trim().length > 0 ? String(data.product).trim() : "—";
-        const expiry = typeof data.expiryDate === "string" ? data.expiryDate.trim() : "";
-        return { id: item.id, product: name, expiryDate: expiry, status: computeStatus(expiry) };
-      }));
-
+      const res = await fetch("/api/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items, refresh }),
+      });
+      if (!res.ok) throw new Error(`Queueing analysis failed (${res.status})`);
+      const { job } = (await res.json()) as { job: { id: string } };
+      return await trackJob(job.id, batch.map((i) => i.id), { setImages, setJobs, setJobItems, setAnalyzingIds });
+    } catch (err) {
+      if (isNetworkError(err)) return queueAnalysis();
+      // Not saved as failed: the rows keep their stored state and can be re-analyzed.
+      const failed = batch.map(unsavedFailure);
       setImages((prev) => prev.map((img) => {
-        const u = updates.find((x) => x && x.id === img.id);
-        return u ? { ...img, product: u.product, expiryDate: u.expiryDate, status: u.status } : img;
+        const u = failed.find((x) => x.id === img.id);
+        return u ? { ...img, ...u } : img;
       }));
-    } finally {
-      setAnalyzingIds((prev) => {
-        const next = new Set(prev);
-        batch.forEach((i) => next.delete(i.id));
-        return next;
+      return failed;
+    }
+  }
+
+  async function cancelJob(jobId: string) {
+    await fetch(`/api/jobs/${jobId}/cancel`, { method: "POST" });
+  }
+
+  /** Queues a job's failed and cancelled rows again and follows it once more. */
+  async function retryJob(jobId: string) {
+    const res = await fetch(`/api/jobs/${jobId}/retry`, { method: "POST" });
+    // The server forgets finished jobs after a while; re-analyze still works per row.
+    if (!res.ok) return setJobs((prev) => prev.filter((j) => j.id !== jobId));
+    const { job } = (await res.json()) as { job: { items: JobItem[] } };
+    const ids = job.items.filter((i) => JOB_ITEM_LABELS[i.status]).map((i) => i.itemId);
+    if (ids.length) await trackJob(jobId, ids, { setImages, setJobs, setJobItems, setAnalyzingIds });
+  }
+
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [draftErrors, setDraftErrors] = useState<Record<string, Draft>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+
+  const pushUndo = (entry: UndoEntry) => setUndoStack((prev) => [...prev.slice(1 - UNDO_LIMIT), entry]);
+
+  const setDraft = (id: string, field: EditableField, value: string | undefined) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+    setDraftErrors((prev) => ({ ...prev, [id]: { ...prev[id], [field]: undefined } }));
+  };
+
+  async function commitEdit(img: UploadedImage, field: EditableField) {
+    const draft = drafts[img.id]?.[field];
+    if (draft === undefined) return;
+    let value = draft.trim();
+    if (field === "expiryDate") {
+      const parsed = parseTypedDate(value);
+      if (parsed.error) {
+        setDraftErrors((prev) => ({ ...prev, [img.id]: { ...prev[img.id], [field]: parsed.error } }));
+        return;
+      }
+      value = parsed.iso;
+    }
+    if (value === img[field]) {
+      setDraft(img.id, field, undefined);
+      return;
+    }
+    const label = `${field === "expiryDate" ? "expiry" : field} edit`;
+    /** Applies the edit here at once and sends it when the server can be reached. */
+    const queueEdit = async () => {
+      const queued = await queueChanges({
+        kind: "edit",
+        itemId: img.id,
+        patch: { [field]: value },
+        base: { [field]: img[field] },
+        baseUpdatedAt: isLocalId(img.id) ? null : img.updatedAt,
+        queuedAt: new Date().toISOString(),
+      });
+      if (!queued) return;
+      pushUndo({ label, snapshots: [img] });
+      setImages((prev) => prev.map((i) => (i.id === img.id ? withEdit(i, { [field]: value }, rules) : i)));
+      setDraft(img.id, field, undefined);
+    };
+    // Later edits to an item wait behind one already queued, so they reach the server in order.
+    if (!navigator.onLine || isLocalId(img.id) || unsyncedEditIds.has(img.id)) return queueEdit();
+    let res: Response;
+    try {
+      res = await fetch(`/api/items/${img.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [field]: value, baseUpdatedAt: img.updatedAt }),
       });
+    } catch (err) {
+      if (isNetworkError(err)) return queueEdit();
+      throw err;
     }
+    // Changed on another device since this row was loaded: the queue sorts out whether the edits overlap.
+    if (res.status === 409) return queueEdit();
+    if (!res.ok) {
+      const { error } = (await res.json().catch(() => ({}))) as { error?: string };
+      setDraftErrors((prev) => ({ ...prev, [img.id]: { ...prev[img.id], [field]: error ?? "Saving failed" } }));
+      return;
+    }
+    const { item } = (await res.json()) as { item: InventoryItem };
+    pushUndo({ label, snapshots: [img] });
+    setImages((prev) => prev.map((i) => (i.id === img.id ? { ...i, ...storedFields(item) } : i)));
+    setDraft(img.id, field, undefined);
+  }
+
+  /** Re-reads the given rows, sending typed but unsaved values along with saved manual ones. */
+  async function reanalyze(ids: string[]) {
+    // Imported rows have no photo to read.
+    const batch = images.filter((i) => ids.includes(i.id) && i.url && !analyzingIds.has(i.id) && !isLocalId(i.id));
+    if (batch.length === 0) return;
+    const overrides: Record<string, Draft> = {};
+    for (const img of batch) {
+      const draft = drafts[img.id] ?? {};
+      const date = draft.expiryDate !== undefined ? parseTypedDate(draft.expiryDate) : null;
+      overrides[img.id] = {
+        ...(draft.product?.trim() ? { product: draft.product.trim() } : {}),
+        ...(date?.iso ? { expiryDate: date.iso } : {}),
+      };
+    }
+    setDrafts((prev) => {
+      const next = { ...prev };
+      batch.forEach((i) => delete next[i.id]);
+      return next;
+    });
+    pushUndo({ label: batch.length === 1 ? "re-analysis" : `re-analysis of ${batch.length} items`, snapshots: batch });
+    await analyzeBatch(batch, overrides, true);
+  }
+
+  async function undo() {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    setUndoStack((prev) => prev.slice(0, -1));
+    const restored = await Promise.all(entry.snapshots.map(async (snapshot) => {
+      const res = await fetch(`/api/items/${snapshot.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(restoreBody(snapshot)),
+      });
+      return res.ok ? storedFields(((await res.json()) as { item: InventoryItem }).item) : null;
+    }));
+    setImages((prev) => prev.map((img) => {
+      const u = restored.find((r) => r?.id === img.id);
+      return u ? { ...img, ...u } : img;
+    }));
   }
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allFilteredSelected = filtered.length > 0 && filtered.every((i) => selectedIds.has(i.id));
+  const selectedPhotoRows = images.filter((i) => selectedIds.has(i.id) && i.url);
+  const selectedPhotoCount = selectedPhotoRows.reduce((n, i) => n + 1 + i.extraPhotos.length, 0);
+
   return (
     <div className="min-h-screen w-full soft-gradient bg-fixed p-6 sm:p-10">
       <div className="mx-auto max-w-7xl rounded-2xl border border-white/20 bg-white/10 backdrop-blur-xl p-6 sm:p-10 text-white shadow-2xl">
         <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
-          <h1 className="text-xl sm:text-2xl font-semibold">Expiry Date Analyzer</h1>
-          {!sessionId ? (
-            <div className="rounded-lg border border-white/25 bg-white/10 backdrop-blur px-4 py-2 text-sm text-white/90">
-              Connect your phone: open the mobile app, copy the link, then paste it in this browser (e.g. <span className="font-mono text-white">...?session=xxx</span>).
-            </div>
+          <div className="flex items-baseline gap-4">
+            <h1 className="text-xl sm:text-2xl font-semibold">Expiry Date Analyzer</h1>
+            <Link href="/settings" className="text-sm text-white/75 underline hover:text-white">Status rules</Link>
+            <Link href="/alerts" className="text-sm text-white/75 underline hover:text-white">Alerts</Link>
+            <Link href="/stock" className="text-sm text-white/75 underline hover:text-white">Stock</Link>
+          </div>
+          <AccountBar locationId={locationId} onLocationChange={setLocationId} onAccount={setAccount} />
+          {signedIn && (
+            <SyncStatus state={sync} onShowConflicts={() => setShowConflicts(true)} onRetry={() => outboxRef.current?.flush()} />
+          )}
+          {!canScan ? null : !sessionId ? (
+            <button
+              type="button"
+              onClick={() => void startSession()}
+              className="rounded-md bg-emerald-500/80 px-4 py-2 text-sm font-medium text-white shadow hover:bg-emerald-500"
+            >
+              Pair phone
+            </button>
           ) : (
-            <div className="flex items-center gap-3">
-              <span className={`text-sm ${mobileConnected ? "text-green-300" : "text-white/70"}`}>
-                {mobileConnected ? "Connected to phone" : "Connecting…"}
+            <div className="flex flex-wrap items-center gap-3">
+              <span className={`text-sm ${sessionError ? "text-red-300" : mobileConnected ? "text-green-300" : "text-white/70"}`}>
+                {sessionError ?? (mobileConnected ? "Connected to phone" : "Connecting…")}
               </span>
+              {!mobileConnected && !sessionError && (
+                <button
+                  type="button"
+                  onClick={() => void renewPairingCode()}
+                  className="rounded-md bg-white/20 px-4 py-2 text-sm font-medium text-white shadow hover:bg-white/30"
+                >
+                  {pairing ? "New QR code" : "Show QR code"}
+                </button>
+              )}
               <button
                 type="button"
-                onClick={openCameraOnPhone}
-                disabled={!mobileConnected}
-                className="rounded-md bg-emerald-500/80 px-4 py-2 text-sm font-medium text-white shadow hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={() => (sessionError ? router.replace("/") : void endSession())}
+                className="rounded-md bg-white/10 px-4 py-2 text-sm font-medium text-white/90 shadow hover:bg-white/20"
               >
-                Open camera on phone
+                {sessionError ? "Start over" : "End session"}
               </button>
             </div>
           )}
         </div>
 
+        {syncNotice && (
+          <div className="mb-6 flex items-center gap-3 rounded-md border border-amber-300/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-100">
+            <span>{syncNotice}</span>
+            <button type="button" onClick={() => setSyncNotice(null)} className="ml-auto text-xs underline hover:text-white">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {sessionId && pairing && pairingQr && !mobileConnected && (
+          <div className="mb-8 flex flex-wrap items-center gap-6 rounded-xl border border-white/25 bg-white/10 p-4 backdrop-blur">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={pairingQr} alt="Pairing QR code" className="size-40 rounded-md bg-white p-1" />
+            <div className="text-sm text-white/90">
+              <p className="font-medium text-white">Scan with the mobile app to pair this phone.</p>
+              <p className="mt-1 text-white/75">The code works once and expires at {new Date(pairing.expiresAt).toLocaleTimeString()}.</p>
+            </div>
+          </div>
+        )}
+
+        {sessionId && !sessionError && (mobileConnected || commands.length > 0) && (
+          <PhoneControls
+            connected={mobileConnected}
+            state={mobileState}
+            commands={commands}
+            error={commandError}
+            onSend={(command) => void sendCommand(command)}
+          />
+        )}
+
         <div className="flex flex-col md:flex-row gap-8">
           {/* Left Panel - 35% */}
-          <section className="md:w-[35%] w-full">
-            <h2 className="text-2xl font-semibold mb-4">Upload</h2>
-            <div
-              onDrop={handleDrop}
-              onDragOver={(e) => e.preventDefault()}
-              className="rounded-xl border border-white/25 bg-white/10 backdrop-blur-lg p-6 text-center shadow-lg"
-            >
-              <div className="h-48 grid place-items-center rounded-lg border border-dashed border-white/30 bg-white/5">
-                <p className="max-w-[18rem] text-white/90">Drag and drop images here</p>
-              </div>
-              <div className="mt-5">
-                <button
-                  type="button"
-                  onClick={handleBrowse}
-                  className="mx-auto inline-flex h-10 items-center justify-center rounded-md bg-white/20 text-white px-5 font-medium shadow hover:bg-white/30 backdrop-blur"
-                >
-                  Browse
-                </button>
-                <p className="mt-2 text-sm text-white/80">Up to 10 images</p>
+          {canScan && (
+            <section className="md:w-[35%] w-full">
+              <h2 className="text-2xl font-semibold mb-4">Upload</h2>
+              <div
+                onDrop={handleDrop}
+                onDragOver={(e) => e.preventDefault()}
+                className="rounded-xl border border-white/25 bg-white/10 backdrop-blur-lg p-6 text-center shadow-lg"
+              >
+                <div className="h-48 grid place-items-center rounded-lg border border-dashed border-white/30 bg-white/5">
+                  <p className="max-w-[18rem] text-white/90">Drag and drop images here</p>
+                </div>
+                <div className="mt-5">
+                  <button
+                    type="button"
+                    onClick={handleBrowse}
+                    className="mx-auto inline-flex h-10 items-center justify-center rounded-md bg-white/20 text-white px-5 font-medium shadow hover:bg-white/30 backdrop-blur"
+                  >
+                    Browse
+                  </button>
+                  <p className="mt-2 text-sm text-white/80">Up to 10 images</p>
+                </div>
+                <input
+                  ref={inputRef}
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => onFilesSelected(e.target.files)}
+                />
               </div>
-              <input
-                ref={inputRef}
-                type="file"
-                accept="image/*"
-                multiple
-                className="hidden"
-                onChange={(e) => onFilesSelected(e.target.files)}
-              />
-            </div>
 
-            {images.length > 0 && (
-              <div className="mt-6 flex flex-wrap gap-4 overflow-y-auto no-scrollbar styled-scrollbar md:max-h-[68vh] pr-1">
-                {images.map((img) => (
-                  <div key={img.id} className="relative size-24 overflow-hidden rounded-lg border border-white/20 bg-white/10 backdrop-blur">
-                    <button
-                      type="button"
-                      aria-label="Remove image"
-                      onClick={() => removeImage(img.id)}
-                      className="absolute left-1 top-1 z-10 rounded-full bg-black/60 p-1 text-white hover:bg-black/80"
+              {images.length > 0 && (
+                <div className="mt-6 flex items-center justify-between gap-3 text-sm text-white/80">
+                  <span>Select photos of the same package to group them.</span>
+                  <button
+                    type="button"
+                    onClick={() => void groupSelected()}
+                    disabled={selectedPhotoRows.length < 2 || selectedPhotoCount > MAX_ITEM_PHOTOS}
+                    title={selectedPhotoCount > MAX_ITEM_PHOTOS ? `An item can have at most ${MAX_ITEM_PHOTOS} photos` : undefined}
+                    className="shrink-0 rounded-md bg-white/20 px-3 py-1.5 text-xs font-medium text-white shadow hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Group selected
+                  </button>
+                </div>
+              )}
+              {images.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-4 overflow-y-auto no-scrollbar styled-scrollbar md:max-h-[68vh] pr-1">
+                  {images.filter((img) => img.url).map((img) => (
+                    <div
+                      key={img.id}
+                      onClick={() => toggleSelected(img.id)}
+                      className={`relative size-24 cursor-pointer overflow-hidden rounded-lg border bg-white/10 backdrop-blur ${selectedIds.has(img.id) ? "border-sky-300 ring-2 ring-sky-300/70" : "border-white/20"}`}
                     >
-                      {/* Trash icon */}
-                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                        <path d="M9 3H15M4 7H20M18 7L17.2 19.2C17.08 20.86 15.72 22 14.05 22H9.95C8.28 22 6.92 20.86 6.8 19.2L6 7M10 11V18M14 11V18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                      </svg>
-                    </button>
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img src={img.url} alt={img.product} className="h-full w-full object-cover" />
-                  </div>
-                ))}
-              </div>
-            )}
-          </section>
-
+                      <button
+                        type="button"
+                        aria-label="Remove image"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          removeImage(img.id);
+                        }}
+                        className="absolute left-1 top-1 z-10 rounded-full bg-black/60 p-1 text-white hover:bg-black/80"
+                      >
+                        {/* Trash icon */}
+                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                          <path d="M9 3H15M4 7H20M18 7L17.2 19.2C17.08 20.86 15.72 22 14.05 22H9.95C8.28 22 6.92 20.86 6.8 19.2L6 7M10 11V18M14 11V18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                        </svg>
+                      </button>
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={img.url} alt={img.product} className="h-full w-full object-cover" />
+                      {img.extraPhotos.length > 0 && (
+                        <span title={`${img.extraPhotos.length + 1} photos`} className="absolute bottom-1 right-1 rounded-full bg-black/60 px-1.5 text-[10px] font-semibold text-white">
+                          +{img.extraPhotos.length}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
           {/* Right Panel - 65% */}
-          <section className="md:w-[65%] w-full">
+          <section className={`${canScan ? "md:w-[65%]" : ""} w-full`}>
             <div className="mb-4 flex items-center justify-between gap-4">
               <h2 className="text-2xl font-semibold">Results</h2>
               <div className="text-sm text-white/85">
-                {counts.total} images — {counts.expiring} expiring soon, {counts.valid} valid{counts.expired ? `, ${counts.expired} expired` : ""}
+                {counts.total} items — {counts.expiring} expiring soon, {counts.valid} valid{counts.expired ? `, ${counts.expired} expired` : ""}{counts.review ? `, ${counts.review} need review` : ""}
               </div>
             </div>
             <div className="rounded-xl border border-white/20 bg-white/10 backdrop-blur-lg p-4 sm:p-6 flex flex-col md:h-[72vh] shadow-lg">
@@ -321,67 +1271,323 @@ function HomeContent() {
                   <span className="absolute left-3 top-2.5 text-white/80">🔍</span>
                 </div>
                 <button
-                  onClick={downloadCSV}
+                  type="button"
+                  onClick={() => setReviewingId(reviewQueue[0]?.id ?? null)}
+                  disabled={reviewQueue.length === 0}
+                  className="rounded-md bg-sky-500/70 text-white px-4 py-2 text-sm font-medium shadow hover:bg-sky-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Needs review ({reviewQueue.length})
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void reanalyze([...selectedIds])}
+                  disabled={selectedIds.size === 0}
+                  className="rounded-md bg-white/20 text-white px-4 py-2 text-sm font-medium shadow hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Re-analyze selected ({selectedIds.size})
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void undo()}
+                  disabled={undoStack.length === 0}
+                  title={undoStack.length ? `Undo ${undoStack[undoStack.length - 1].label}` : undefined}
+                  className="rounded-md bg-white/20 text-white px-4 py-2 text-sm font-medium shadow hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Undo
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setImporting(true)}
+                  className="rounded-md bg-white/20 text-white px-4 py-2 text-sm font-medium shadow hover:bg-white/30 backdrop-blur"
+                >
+                  Import
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowDeleted(true)}
                   className="rounded-md bg-white/20 text-white px-4 py-2 text-sm font-medium shadow hover:bg-white/30 backdrop-blur"
                 >
-                  Download CSV
+                  Deleted
                 </button>
+                <div className="flex items-center rounded-md bg-white/20 shadow backdrop-blur">
+                  <select
+                    value={exportFormat}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                    aria-label="Export format"
+                    className="bg-transparent pl-3 pr-1 py-2 text-sm text-white outline-none [&>option]:text-black"
+                  >
+                    {EXPORT_FORMATS.map((f) => (
+                      <option key={f} value={f}>{f.toUpperCase()}</option>
+                    ))}
+                  </select>
+                  <a
+                    href={exportHref}
+                    download
+                    title={search.trim() ? "Exports the rows matching the search" : "Exports every row"}
+                    className="rounded-r-md px-4 py-2 text-sm font-medium text-white hover:bg-white/30"
+                  >
+                    Export
+                  </a>
+                </div>
               </div>
+              {jobs.map((job) => {
+                const finished = job.counts.done + job.counts.failed + job.counts.cancelled;
+                return (
+                  <div key={job.id} className="mb-3 shrink-0 rounded-md border border-white/15 bg-white/5 px-3 py-2 text-xs">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span>
+                        {job.status === "running" ? "Analyzing" : job.status === "cancelled" ? "Cancelled" : "Analyzed"} {finished} of {job.counts.total}
+                        {job.counts.retrying ? ` · ${job.counts.retrying} retrying` : ""}
+                        {job.counts.failed ? ` · ${job.counts.failed} failed` : ""}
+                        {job.counts.cancelled ? ` · ${job.counts.cancelled} cancelled` : ""}
+                      </span>
+                      <div className="ml-auto flex gap-3">
+                        {job.status === "running" ? (
+                          <button type="button" onClick={() => void cancelJob(job.id)} className="underline hover:text-white">
+                            Cancel
+                          </button>
+                        ) : (
+                          <>
+                            {job.counts.failed + job.counts.cancelled > 0 && (
+                              <button type="button" onClick={() => void retryJob(job.id)} className="underline hover:text-white">
+                                Retry {job.counts.failed + job.counts.cancelled}
+                              </button>
+                            )}
+                            <button type="button" onClick={() => setJobs((prev) => prev.filter((j) => j.id !== job.id))} className="underline hover:text-white">
+                              Dismiss
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <div className="mt-1.5 h-1 overflow-hidden rounded bg-white/15">
+                      <div className="h-full bg-emerald-400/80 transition-all" style={{ width: `${(finished / Math.max(1, job.counts.total)) * 100}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
               <div className="overflow-x-auto overflow-y-auto no-scrollbar styled-scrollbar flex-1">
                 <table className="min-w-full text-sm">
                   <thead>
                     <tr className="text-left text-white/80">
+                      <th className="py-2 pr-3 font-medium">
+                        <input
+                          type="checkbox"
+                          aria-label="Select all rows"
+                          checked={allFilteredSelected}
+                          onChange={() => setSelectedIds(allFilteredSelected ? new Set() : new Set(filtered.map((i) => i.id)))}
+                        />
+                      </th>
                       <th className="py-2 pr-4 font-medium">Image</th>
                       <th className="py-2 pr-4 font-medium">Product</th>
+                      <th className="py-2 pr-4 font-medium">Category</th>
                       <th className="py-2 pr-4 font-medium">Expiry Date</th>
                       <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Lot</th>
+                      <th className="py-2 pr-4 font-medium">REF</th>
+                      <th className="py-2 pr-4 font-medium">GTIN</th>
+                      <th className="py-2 pr-4 font-medium">Mfg. Date</th>
+                      <th className="py-2 pr-4 font-medium">Serial</th>
+                      <th className="py-2 pr-4 font-medium" />
                     </tr>
                   </thead>
                   <tbody>
-                    {filtered.map((img) => (
-                      <tr key={img.id} className="border-t border-white/10">
-                        <td className="py-3 pr-4 align-middle">
-                          <div className="size-12 overflow-hidden rounded-md border border-white/20 bg-white/10 backdrop-blur">
-                            {/* eslint-disable-next-line @next/next/no-img-element */}
-                            <img src={img.url} alt={img.product} className="h-full w-full object-cover" />
-                          </div>
-                        </td>
-                        <td className="py-3 pr-4 align-middle max-w-[12rem]">
-                          <div className="text-white/95">
+                    {filtered.map((img) => {
+                      const expiryDraft = drafts[img.id]?.expiryDate;
+                      const typedDate = expiryDraft !== undefined ? parseTypedDate(expiryDraft) : null;
+                      const status = typedDate ? (typedDate.error ? "Needs Review" : previewStatus(img, typedDate.iso, rules)) : img.status;
+                      return (
+                        <tr key={img.id} className="border-t border-white/10">
+                          <td className="py-3 pr-3 align-middle">
+                            <input
+                              type="checkbox"
+                              aria-label="Select row"
+                              checked={selectedIds.has(img.id)}
+                              onChange={() => toggleSelected(img.id)}
+                            />
+                          </td>
+                          <td className="py-3 pr-4 align-middle">
+                            <div className="relative size-12 overflow-hidden rounded-md border border-white/20 bg-white/10 backdrop-blur">
+                              {img.extraPhotos.length > 0 && (
+                                <span className="absolute bottom-0 right-0 rounded-tl bg-black/60 px-1 text-[10px] text-white">+{img.extraPhotos.length}</span>
+                              )}
+                              {img.url ? (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img src={img.url} alt={img.product} className="h-full w-full object-cover" />
+                              ) : (
+                                <span title="Imported without a photo" className="flex h-full items-center justify-center text-[10px] uppercase text-white/60">
+                                  {img.source === "import" ? "Import" : "—"}
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="py-3 pr-4 align-middle min-w-[10rem] max-w-[14rem]">
                             {analyzingIds.has(img.id) ? (
-                              <span className="italic text-white/70">Analyzing...</span>
+                              <span className="italic text-white/70" title={jobItems[img.id]?.error}>
+                                {JOB_ITEM_LABELS[jobItems[img.id]?.status] ?? "Analyzing..."}
+                              </span>
+                            ) : queuedAnalysisIds.has(img.id) ? (
+                              <span className="italic text-white/70" title="Analyzed once the server can be reached">
+                                Waiting to sync...
+                              </span>
                             ) : (
-                              img.product || "—"
+                              <div className="flex items-center">
+                                <EditableCell
+                                  value={drafts[img.id]?.product ?? (/^product_\d+$/.test(img.product) ? "" : img.product)}
+                                  placeholder="—"
+                                  error={draftErrors[img.id]?.product}
+                                  onChange={(v) => setDraft(img.id, "product", v)}
+                                  onCommit={() => void commitEdit(img, "product")}
+                                  onCancel={() => setDraft(img.id, "product", undefined)}
+                                />
+                                <PhotoMark img={img} field="product" />
+                              </div>
                             )}
-                          </div>
-                        </td>
-                        <td className="py-3 pr-4 align-middle">
-                          <div className="rounded-md border border-white/20 bg-white/10 px-2 py-1 text-white/90 backdrop-blur">
+                          </td>
+                          <td className="py-3 pr-4 align-middle min-w-[7rem]">
+                            <EditableCell
+                              value={drafts[img.id]?.category ?? img.category}
+                              placeholder="—"
+                              error={draftErrors[img.id]?.category}
+                              onChange={(v) => setDraft(img.id, "category", v)}
+                              onCommit={() => void commitEdit(img, "category")}
+                              onCancel={() => setDraft(img.id, "category", undefined)}
+                            />
+                          </td>
+                          <td className="py-3 pr-4 align-middle min-w-[8rem]">
                             {analyzingIds.has(img.id) ? (
-                              <span className="italic text-white/70">Analyzing...</span>
+                              <span className="italic text-white/70" title={jobItems[img.id]?.error}>
+                                {JOB_ITEM_LABELS[jobItems[img.id]?.status] ?? "Analyzing..."}
+                              </span>
+                            ) : queuedAnalysisIds.has(img.id) ? (
+                              <span className="italic text-white/70" title="Analyzed once the server can be reached">
+                                Waiting to sync...
+                              </span>
                             ) : (
-                              img.expiryDate || "—"
+                              <div className="flex items-center">
+                                <EditableCell
+                                  value={expiryDraft ?? img.expiryDate}
+                                  placeholder="YYYY-MM-DD"
+                                  error={draftErrors[img.id]?.expiryDate ?? typedDate?.error}
+                                  onChange={(v) => setDraft(img.id, "expiryDate", v)}
+                                  onCommit={() => void commitEdit(img, "expiryDate")}
+                                  onCancel={() => setDraft(img.id, "expiryDate", undefined)}
+                                />
+                                <BarcodeMark sources={img.fieldSources} field="expiryDate" />
+                                <PhotoMark img={img} field="expiryDate" />
+                              </div>
                             )}
-                          </div>
-                        </td>
-                        <td className="py-3 pr-4 align-middle">
-                          <span
-                            className={
-                              img.status === "Valid"
-                                ? "inline-flex items-center rounded-full bg-green-500/20 px-3 py-1 text-xs font-semibold text-green-200"
-                                : img.status === "Expiring Soon"
-                                  ? "inline-flex items-center rounded-full bg-amber-500/20 px-3 py-1 text-xs font-semibold text-amber-200"
-                                  : "inline-flex items-center rounded-full bg-red-500/20 px-3 py-1 text-xs font-semibold text-red-200"
-                            }
-                          >
-                            {img.status}
-                          </span>
-                        </td>
-                      </tr>
-                    ))}
+                            {img.warnings.map((w) => (
+                              <div key={w} className="mt-1 text-xs text-amber-200">⚠ {WARNING_MESSAGES[w]}</div>
+                            ))}
+                          </td>
+                          <td className="py-3 pr-4 align-middle">
+                            <span className={`${BADGE} ${STATUS_STYLES[status]}`}>
+                              {statusLabel(status, thresholdsFor(img, rules))}
+                            </span>
+                            {img.review.status === "pending" && !analyzingIds.has(img.id) && (
+                              <button
+                                type="button"
+                                onClick={() => setReviewingId(img.id)}
+                                className="mt-1 block text-xs text-sky-200 underline hover:text-sky-100"
+                              >
+                                Review
+                              </button>
+                            )}
+                            {img.review.status === "approved" && (
+                              <div className="mt-1 text-xs text-white/60">Signed off</div>
+                            )}
+                            {isLocalId(img.id) ? (
+                              <div className="mt-1 text-xs text-amber-200">Not uploaded yet</div>
+                            ) : conflicts.some((e) => e.kind === "edit" && e.itemId === img.id) ? (
+                              <button
+                                type="button"
+                                onClick={() => setShowConflicts(true)}
+                                className="mt-1 block text-xs text-red-300 underline hover:text-red-200"
+                              >
+                                Edited elsewhere
+                              </button>
+                            ) : unsyncedEditIds.has(img.id) ? (
+                              <div className="mt-1 text-xs text-amber-200">Edit not synced</div>
+                            ) : null}
+                            {jobItems[img.id]?.status === "failed" && jobItems[img.id].errorCode && (
+                              <div className="mt-1 text-xs text-red-300" title={jobItems[img.id].error}>
+                                {JOB_ERROR_LABELS[jobItems[img.id].errorCode!]}
+                              </div>
+                            )}
+                            {(() => {
+                              const match = img.possibleDuplicates.find((d) => images.some((i) => i.id === d.itemId));
+                              const other = match && images.find((i) => i.id === match.itemId);
+                              if (!match || !other) return null;
+                              return (
+                                <div className="mt-1 max-w-[12rem] text-xs text-amber-200">
+                                  {match.exact ? "Same photo as" : "Looks like"} {other.product || other.imageName || "another row"}
+                                  <div className="mt-0.5 flex gap-2">
+                                    <button type="button" onClick={() => void resolveDuplicate(img.id, "merge", other.id)} className="underline hover:text-amber-100">
+                                      Merge
+                                    </button>
+                                    <button type="button" onClick={() => void resolveDuplicate(img.id, "keep")} className="underline hover:text-amber-100">
+                                      Keep both
+                                    </button>
+                                  </div>
+                                </div>
+                              );
+                            })()}
+                          </td>
+                          <td className="py-3 pr-4 align-middle font-mono text-xs text-white/90">{img.lot || "—"}<BarcodeMark sources={img.fieldSources} field="lot" /><PhotoMark img={img} field="lot" /></td>
+                          <td className="py-3 pr-4 align-middle font-mono text-xs text-white/90">{img.ref || "—"}<PhotoMark img={img} field="ref" /></td>
+                          <td className="py-3 pr-4 align-middle font-mono text-xs text-white/90">{img.gtin || "—"}<BarcodeMark sources={img.fieldSources} field="gtin" /><PhotoMark img={img} field="gtin" /></td>
+                          <td className="py-3 pr-4 align-middle text-white/90">{img.manufactureDate || "—"}<BarcodeMark sources={img.fieldSources} field="manufactureDate" /><PhotoMark img={img} field="manufactureDate" /></td>
+                          <td className="py-3 pr-4 align-middle font-mono text-xs text-white/90">{img.serial || "—"}<BarcodeMark sources={img.fieldSources} field="serial" /><PhotoMark img={img} field="serial" /></td>
+                          <td className="py-3 pr-4 align-middle">
+                            <button
+                              type="button"
+                              onClick={() => void reanalyze([img.id])}
+                              disabled={analyzingIds.has(img.id) || !img.url || isLocalId(img.id)}
+                              className="whitespace-nowrap rounded-md bg-white/15 px-2 py-1 text-xs text-white/90 hover:bg-white/25 disabled:opacity-50"
+                            >
+                              Re-analyze
+                            </button>
+                            {mobileConnected && (
+                              <button
+                                type="button"
+                                onClick={() => void sendCommand({
+                                  type: "reshoot",
+                                  itemId: img.id,
+                                  ...(img.sessionImageId ? { captureId: img.sessionImageId } : {}),
+                                  ...(img.product && !/^product_\d+$/.test(img.product) ? { label: img.product } : {}),
+                                })}
+                                title="Ask the phone to photograph this item again"
+                                className="mt-1 block whitespace-nowrap rounded-md bg-white/15 px-2 py-1 text-xs text-white/90 hover:bg-white/25"
+                              >
+                                Re-shoot
+                              </button>
+                            )}
+                            {img.extraPhotos.length > 0 && (
+                              <button
+                                type="button"
+                                onClick={() => void ungroup(img.id)}
+                                disabled={analyzingIds.has(img.id)}
+                                title={`Split the ${img.extraPhotos.length + 1} photos into separate rows`}
+                                className="mt-1 block whitespace-nowrap rounded-md bg-white/15 px-2 py-1 text-xs text-white/90 hover:bg-white/25 disabled:opacity-50"
+                              >
+                                Ungroup
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => setHistoryOf({ id: img.id, title: img.product || img.imageName || "Item" })}
+                              className="mt-1 block text-xs text-sky-200 underline hover:text-sky-100"
+                            >
+                              History
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
                     {filtered.length === 0 && (
                       <tr>
-                        <td className="py-6 text-white/70" colSpan={4}>No items yet. Upload images to see results.</td>
+                        <td className="py-6 text-white/70" colSpan={12}>No items yet. Upload images to see results.</td>
                       </tr>
                     )}
                   </tbody>
@@ -391,6 +1597,39 @@ function HomeContent() {
           </section>
         </div>
       </div>
+      {reviewing && (
+        <ReviewDialog
+          item={{ ...reviewing, reasons: reviewing.review.reasons }}
+          position={reviewIndex + 1}
+          total={reviewQueue.length}
+          onApprove={(edits) => approveReview(reviewing.id, edits)}
+          onSkip={() => setReviewingId(reviewQueue[(reviewIndex + 1) % reviewQueue.length].id)}
+          onClose={() => setReviewingId(null)}
+        />
+      )}
+      {importing && (
+        <ImportDialog
+          locationId={locationId}
+          onImported={(items) => setImages((prev) => [...prev, ...items.map((item) => fromStoredItem(item))])}
+          onClose={() => setImporting(false)}
+        />
+      )}
+      {showDeleted && (
+        <DeletedItemsDialog
+          canRestore={canScan}
+          onRestored={(item) => setImages((prev) => [...prev, fromStoredItem(item)])}
+          onHistory={(item) => setHistoryOf({ id: item.id, title: item.product || item.imageName || "Item" })}
+          onClose={() => setShowDeleted(false)}
+        />
+      )}
+      {showConflicts && (
+        <ConflictDialog
+          entries={conflicts}
+          onResolve={(seq, keep) => void outboxRef.current?.resolveConflict(seq, keep)}
+          onClose={() => setShowConflicts(false)}
+        />
+      )}
+      {historyOf && <HistoryDialog itemId={historyOf.id} title={historyOf.title} onClose={() => setHistoryOf(null)} />}
       <div className="mx-auto max-w-7xl mt-6 text-center text-xs text-white/80">
         Powered by Randomwalk.ai
       </div>
@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { InventoryItem } from "@/lib/items/types";
+import { DEFAULT_STATUS_RULES, type StatusRules, type StatusThresholds } from "@/lib/status";
+
+type CategoryRow = { name: string } & StatusThresholds;
+
+const INPUT = "rounded-md border border-white/20 bg-white/10 px-3 py-2 text-white outline-none focus:ring-2 focus:ring-white/30";
+const BUTTON = "rounded-md bg-white/20 px-4 py-2 text-sm font-medium text-white shadow hover:bg-white/30 disabled:opacity-50";
+
+function DaysInput({ value, onChange, label }: { value: number; onChange(n: number): void; label: string }) {
+  return (
+    <input
+      type="number"
+      min={0}
+      step={1}
+      aria-label={label}
+      value={Number.isFinite(value) ? value : ""}
+      onChange={(e) => onChange(e.target.value === "" ? NaN : Number(e.target.value))}
+      className={`${INPUT} w-24`}
+    />
+  );
+}
+
+export default function SettingsPage() {
+  const [timeZone, setTimeZone] = useState(DEFAULT_STATUS_RULES.timeZone);
+  const [defaults, setDefaults] = useState<StatusThresholds>(DEFAULT_STATUS_RULES.defaults);
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [itemId, setItemId] = useState("");
+  const [itemThresholds, setItemThresholds] = useState<StatusThresholds>(DEFAULT_STATUS_RULES.defaults);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    void (async () => {
+      try {
+        const [rulesRes, itemsRes] = await Promise.all([fetch("/api/settings/status-rules"), fetch("/api/items")]);
+        if (rulesRes.ok) {
+          const { rules } = (await rulesRes.json()) as { rules: StatusRules };
+          setTimeZone(rules.timeZone);
+          setDefaults(rules.defaults);
+          setCategories(Object.entries(rules.categories).map(([name, t]) => ({ name, ...t })));
+        }
+        if (itemsRes.ok) setItems(((await itemsRes.json()) as { items: InventoryItem[] }).items);
+      } catch {
+        setMessage({ text: "Could not load settings", error: true });
+      }
+    })();
+  }, []);
+
+  const saveRules = async () => {
+    setSaving(true);
+    setMessage(null);
+    const rules: StatusRules = {
+      timeZone: timeZone.trim(),
+      defaults,
+      categories: Object.fromEntries(
+        categories.filter((c) => c.name.trim()).map(({ name, ...t }) => [name.trim().toLowerCase(), t])
+      ),
+    };
+    const res = await fetch("/api/settings/status-rules", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rules }),
+    });
+    const data = (await res.json()) as { error?: string };
+    setMessage(res.ok ? { text: "Rules saved", error: false } : { text: data.error ?? "Saving failed", error: true });
+    setSaving(false);
+  };
+
+  const setItemOverride = async (id: string, thresholds: StatusThresholds | null) => {
+    setMessage(null);
+    const res = await fetch(`/api/items/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ thresholds }),
+    });
+    const data = (await res.json()) as { item?: InventoryItem; error?: string };
+    if (!res.ok || !data.item) {
+      setMessage({ text: data.error ?? "Saving failed", error: true });
+      return;
+    }
+    setItems((prev) => prev.map((i) => (i.id === id ? data.item! : i)));
+  };
+
+  const overridden = items.filter((i) => i.thresholds);
+
+  return (
+    <div className="min-h-screen w-full soft-gradient bg-fixed p-6 sm:p-10">
+      <div className="mx-auto max-w-4xl rounded-2xl border border-white/20 bg-white/10 backdrop-blur-xl p-6 sm:p-10 text-white shadow-2xl">
+        <div className="mb-8 flex items-center justify-between gap-4">
+          <h1 className="text-xl sm:text-2xl font-semibold">Status rules</h1>
+          <Link href="/" className="text-sm text-white/80 underline hover:text-white">Back to results</Link>
+        </div>
+
+        <section className="mb-8 space-y-3">
+          <h2 className="text-lg font-semibold">Time zone</h2>
+          <p className="text-sm text-white/75">Days are counted on this zone&apos;s calendar, so an item expires at the same moment for everyone.</p>
+          <div className="flex flex-wrap gap-3">
+            <input value={timeZone} onChange={(e) => setTimeZone(e.target.value)} className={`${INPUT} w-64`} aria-label="Time zone" />
+            <button type="button" className={BUTTON} onClick={() => setTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone)}>
+              Use this browser&apos;s zone
+            </button>
+          </div>
+        </section>
+
+        <section className="mb-8 space-y-3">
+          <h2 className="text-lg font-semibold">Default thresholds</h2>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span>Expiring soon within</span>
+            <DaysInput label="Default expiring soon days" value={defaults.expiringSoonDays} onChange={(n) => setDefaults({ ...defaults, expiringSoonDays: n })} />
+            <span>days, critical within</span>
+            <DaysInput label="Default critical days" value={defaults.criticalDays} onChange={(n) => setDefaults({ ...defaults, criticalDays: n })} />
+            <span>days</span>
+          </div>
+        </section>
+
+        <section className="mb-8 space-y-3">
+          <h2 className="text-lg font-semibold">Per category</h2>
+          <table className="text-sm">
+            <thead>
+              <tr className="text-left text-white/80">
+                <th className="py-2 pr-4 font-medium">Category</th>
+                <th className="py-2 pr-4 font-medium">Expiring soon (days)</th>
+                <th className="py-2 pr-4 font-medium">Critical (days)</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map((row, idx) => {
+                const update = (patch: Partial<CategoryRow>) =>
+                  setCategories((prev) => prev.map((c, i) => (i === idx ? { ...c, ...patch } : c)));
+                return (
+                  <tr key={idx}>
+                    <td className="py-1 pr-4">
+                      <input value={row.name} onChange={(e) => update({ name: e.target.value })} className={INPUT} aria-label="Category name" />
+                    </td>
+                    <td className="py-1 pr-4">
+                      <DaysInput label="Expiring soon days" value={row.expiringSoonDays} onChange={(n) => update({ expiringSoonDays: n })} />
+                    </td>
+                    <td className="py-1 pr-4">
+                      <DaysInput label="Critical days" value={row.criticalDays} onChange={(n) => update({ criticalDays: n })} />
+                    </td>
+                    <td className="py-1">
+                      <button type="button" className="text-xs text-red-200 underline" onClick={() => setCategories((prev) => prev.filter((_, i) => i !== idx))}>
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <button type="button" className={BUTTON} onClick={() => setCategories((prev) => [...prev, { name: "", ...defaults }])}>
+            Add category
+          </button>
+        </section>
+
+        <div className="mb-10 flex items-center gap-4">
+          <button type="button" onClick={() => void saveRules()} disabled={saving} className="rounded-md bg-emerald-500/80 px-4 py-2 text-sm font-medium shadow hover:bg-emerald-500 disabled:opacity-50">
+            Save rules
+          </button>
+          {message && <span className={`text-sm ${message.error ? "text-red-300" : "text-green-300"}`}>{message.text}</span>}
+        </div>
+
+        <section className="space-y-3">
+          <h2 className="text-lg font-semibold">Per item</h2>
+          <p className="text-sm text-white/75">Item thresholds win over their category and the defaults.</p>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select value={itemId} onChange={(e) => setItemId(e.target.value)} className={`${INPUT} max-w-xs`} aria-label="Item">
+              <option value="">Choose an item…</option>
+              {items.map((i) => (
+                <option key={i.id} value={i.id} className="text-black">
+                  {i.product || i.imageName || i.id} {i.expiryDate ? `(${i.expiryDate})` : ""}
+                </option>
+              ))}
+            </select>
+            <DaysInput label="Item expiring soon days" value={itemThresholds.expiringSoonDays} onChange={(n) => setItemThresholds({ ...itemThresholds, expiringSoonDays: n })} />
+            <DaysInput label="Item critical days" value={itemThresholds.criticalDays} onChange={(n) => setItemThresholds({ ...itemThresholds, criticalDays: n })} />
+            <button type="button" className={BUTTON} disabled={!itemId} onClick={() => void setItemOverride(itemId, itemThresholds)}>
+              Set for item
+            </button>
+          </div>
+          {overridden.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {overridden.map((i) => (
+                <li key={i.id} className="flex items-center gap-3">
+                  <span>{i.product || i.imageName}</span>
+                  <span className="text-white/70">
+                    soon ≤{i.thresholds?.expiringSoonDays ?? "—"}d, critical ≤{i.thresholds?.criticalDays ?? "—"}d → {i.status}
+                  </span>
+                  <button type="button" className="text-xs text-red-200 underline" onClick={() => void setItemOverride(i.id, null)}>
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { AccountBar } from "@/components/AccountBar";
+import type { Me } from "@/lib/accounts/client";
+import type { StockGrouping, StockLine, StockView } from "@/lib/stock";
+
+const INPUT = "rounded-md border border-white/20 bg-white/10 px-3 py-2 text-white outline-none focus:ring-2 focus:ring-white/30";
+const BUTTON = "rounded-md bg-white/20 px-4 py-2 text-sm font-medium text-white shadow hover:bg-white/30 disabled:opacity-50";
+
+function describeDays(days: number | null): string {
+  if (days === null) return "no date";
+  if (days === 0) return "expires today";
+  if (days < 0) return `expired ${-days} day${days === -1 ? "" : "s"} ago`;
+  return `${days} day${days === 1 ? "" : "s"} left`;
+}
+
+/** "variant = product" per line, as the alias editor shows them. */
+function aliasText(aliases: Record<string, string>): string {
+  return Object.entries(aliases).map(([variant, product]) => `${variant} = ${product}`).join("\n");
+}
+
+function parseAliasText(text: string): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const [variant, ...rest] = line.split("=");
+    if (variant.trim() && rest.join("=").trim()) aliases[variant.trim()] = rest.join("=").trim();
+  }
+  return aliases;
+}
+
+function ListTable({ lines, pick }: { lines: StockLine[]; pick: boolean }) {
+  if (!lines.length) return <p className="text-sm text-white/70">{pick ? "No usable stock with an expiry date." : "Nothing has expired."}</p>;
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-white/80">
+          <th className="py-2 pr-4 font-medium">Product</th>
+          {pick && <th className="py-2 pr-4 font-medium">Order</th>}
+          <th className="py-2 pr-4 font-medium">Expiry</th>
+          <th className="py-2 pr-4 font-medium">Lots</th>
+          <th className="py-2 pr-4 font-medium text-right">Qty</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map((line) => (
+          <tr key={`${line.productKey}:${line.expiryDate}`} className="border-t border-white/10">
+            <td className="py-2 pr-4">{line.product}</td>
+            {pick && <td className="py-2 pr-4">{line.order}</td>}
+            <td className="py-2 pr-4">
+              {line.expiryDate} <span className="text-white/60">({describeDays(line.daysLeft)})</span>
+              {line.unconfirmed && <span title="Some of these still need review" className="ml-1 text-amber-200">⚠</span>}
+            </td>
+            <td className="py-2 pr-4 font-mono text-xs">{line.lots.join(", ") || "—"}</td>
+            <td className="py-2 pr-4 text-right">{line.quantity}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function StockPage() {
+  const [groupBy, setGroupBy] = useState<StockGrouping>("expiry");
+  const [view, setView] = useState<StockView | null>(null);
+  const [aliases, setAliases] = useState("");
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [account, setAccount] = useState<Me | null>(null);
+  const [locationId, setLocationId] = useState("");
+  const scope = locationId ? `&location=${encodeURIComponent(locationId)}` : "";
+
+  const load = useCallback(async () => {
+    if (!account) return;
+    try {
+      const res = await fetch(`/api/stock?by=${groupBy}${scope}`);
+      if (res.ok) setView((await res.json()) as StockView);
+    } catch {
+      setMessage({ text: "Could not load stock", error: true });
+    }
+  }, [account, groupBy, scope]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    void (async () => {
+      const res = await fetch("/api/settings/product-aliases").catch(() => null);
+      if (res?.ok) setAliases(aliasText(((await res.json()) as { aliases: Record<string, string> }).aliases));
+    })();
+  }, []);
+
+  const saveAliases = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/settings/product-aliases", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ aliases: parseAliasText(aliases) }),
+      });
+      const data = (await res.json()) as { aliases?: Record<string, string>; error?: string; message?: string };
+      if (!res.ok || !data.aliases) {
+        setMessage({ text: data.message ?? data.error ?? `Saving failed (${res.status})`, error: true });
+        return;
+      }
+      setAliases(aliasText(data.aliases));
+      setMessage({ text: "Aliases saved", error: false });
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full soft-gradient bg-fixed p-6 sm:p-10">
+      <div className="mx-auto max-w-5xl rounded-2xl border border-white/20 bg-white/10 backdrop-blur-xl p-6 sm:p-10 text-white shadow-2xl">
+        <div className="mb-8 flex items-center justify-between gap-4">
+          <h1 className="text-xl sm:text-2xl font-semibold">Stock</h1>
+          <Link href="/" className="text-sm text-white/80 underline hover:text-white print:hidden">Back to results</Link>
+        </div>
+
+        <div className="mb-6 flex flex-wrap items-center gap-4 text-sm print:hidden">
+          <AccountBar locationId={locationId} onLocationChange={setLocationId} onAccount={setAccount} />
+          <label className="flex items-center gap-2">
+            <span className="text-white/80">Group by</span>
+            <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as StockGrouping)} className={`${INPUT} [&>option]:text-black`}>
+              <option value="expiry">Product and expiry date</option>
+              <option value="lot">Product and lot</option>
+            </select>
+          </label>
+          <button type="button" className={BUTTON} onClick={() => window.print()}>
+            Print lists
+          </button>
+          {view && <span className="text-white/70">As of {view.today}</span>}
+        </div>
+
+        <section className="mb-8 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-lg font-semibold">Pick list (first expired, first out)</h2>
+            <a href={`/api/stock?format=csv&list=pick${scope}`} download className="text-sm underline hover:text-white print:hidden">CSV</a>
+          </div>
+          {view && <ListTable lines={view.pickList} pick />}
+        </section>
+
+        <section className="mb-8 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h2 className="text-lg font-semibold">To discard</h2>
+            <a href={`/api/stock?format=csv&list=discard${scope}`} download className="text-sm underline hover:text-white print:hidden">CSV</a>
+          </div>
+          {view && <ListTable lines={view.discardList} pick={false} />}
+        </section>
+
+        <section className="mb-8 space-y-3 print:hidden">
+          <h2 className="text-lg font-semibold">By product</h2>
+          {view?.products.length === 0 && <p className="text-sm text-white/70">No items yet.</p>}
+          <ul className="space-y-3">
+            {view?.products.map((group) => (
+              <li key={group.key || "unnamed"} className="rounded-lg border border-white/15 p-3 text-sm">
+                <div className="flex flex-wrap items-baseline justify-between gap-3">
+                  <div>
+                    <span className="font-medium">{group.product}</span>
+                    {group.names.length > 1 && <span className="ml-2 text-xs text-white/60">also read as {group.names.filter((n) => n !== group.product).join(", ")}</span>}
+                    {group.gtins.length > 0 && <span className="ml-2 font-mono text-xs text-white/60">{group.gtins.join(", ")}</span>}
+                  </div>
+                  <div className="text-white/80">
+                    {group.quantity} in stock
+                    {group.earliestExpiry && ` · earliest ${group.earliestExpiry}`}
+                    {group.undated > 0 && ` · ${group.undated} without a date`}
+                  </div>
+                </div>
+                <ul className="mt-2 space-y-0.5 text-xs text-white/80">
+                  {group.batches.map((batch) => (
+                    <li key={batch.key || "none"}>
+                      {groupBy === "lot" ? `Lot ${batch.key || "unknown"}` : batch.key || "No date"}: {batch.quantity}
+                      {groupBy === "lot" && batch.expiryDate && ` · expires ${batch.expiryDate}`}
+                      {groupBy === "expiry" && batch.lots.length > 0 && ` · lot ${batch.lots.join(", ")}`}
+                      {batch.daysLeft !== null && ` (${describeDays(batch.daysLeft)})`}
+                      {batch.unconfirmed && <span title="Some of these still need review" className="ml-1 text-amber-200">⚠</span>}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="space-y-3 print:hidden">
+          <h2 className="text-lg font-semibold">Product aliases</h2>
+          <p className="text-sm text-white/75">
+            Names that differ only in case, spacing, punctuation or ™/® already count as one product, and so do items with the same GTIN. Add a line
+            such as <code className="rounded bg-black/30 px-1">J&amp;J gauze = Johnson &amp; Johnson Gauze</code> for other variants.
+          </p>
+          <textarea value={aliases} onChange={(e) => setAliases(e.target.value)} rows={5} className={`${INPUT} w-full font-mono text-xs`} />
+          <div className="flex items-center gap-4">
+            <button type="button" className={BUTTON} disabled={saving} onClick={() => void saveAliases()}>
+              Save aliases
+            </button>
+            {message && <span className={`text-sm ${message.error ? "text-red-300" : "text-green-300"}`}>{message.text}</span>}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { fetchMe, loadSelectedLocation, saveSelectedLocation, selectableLocations, signOut, type Me } from "@/lib/accounts/client";
+
+/** Option text collapses ordinary spaces, so rooms and shelves are indented with no-break ones. */
+const KIND_INDENT = { site: "", room: "\u00a0\u00a0", shelf: "\u00a0\u00a0\u00a0\u00a0" };
+
+/**
+ * Who is signed in, the location the page is scoped to and a way out.
+ * Sends the browser to /login when it is not signed in; reports the account
+ * and the remembered location once both are known. Pass state setters or
+ * other stable callbacks, or the account is loaded again on every render.
+ */
+export function AccountBar({
+  locationId,
+  onLocationChange,
+  onAccount,
+}: {
+  locationId: string;
+  onLocationChange(id: string): void;
+  onAccount(me: Me): void;
+}) {
+  const router = useRouter();
+  const [me, setMe] = useState<Me | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void fetchMe()
+      .then((account) => {
+        if (cancelled) return;
+        if (!account) return router.replace("/login");
+        const stored = loadSelectedLocation();
+        const options = selectableLocations(account);
+        // A restricted user with one location works there; a stale choice falls back to everything.
+        const initial = options.some((l) => l.id === stored) ? stored : account.user?.locationIds.length === 1 ? account.user.locationIds[0] : "";
+        setMe(account);
+        onLocationChange(initial);
+        onAccount(account);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [router, onLocationChange, onAccount]);
+
+  if (!me) return null;
+  if (me.setupRequired) {
+    return (
+      <Link href="/login" className="text-sm text-amber-200 underline hover:text-white">
+        Set up accounts
+      </Link>
+    );
+  }
+
+  const choose = (id: string) => {
+    saveSelectedLocation(id);
+    onLocationChange(id);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <select
+        value={locationId}
+        onChange={(e) => choose(e.target.value)}
+        aria-label="Location"
+        className="rounded-md border border-white/20 bg-white/10 px-2 py-1 text-white outline-none [&>option]:text-black"
+      >
+        <option value="">{me.allowedLocationIds ? "All my locations" : "All locations"}</option>
+        {selectableLocations(me).map((l) => (
+          <option key={l.id} value={l.id}>
+            {KIND_INDENT[l.kind]}
+            {l.name}
+          </option>
+        ))}
+      </select>
+      <span className="text-white/75">
+        {me.user?.displayName || me.user?.username} · {me.user?.role}
+        {me.org && ` · ${me.org.name}`}
+      </span>
+      {me.user?.role === "admin" && (
+        <Link href="/admin" className="text-white/75 underline hover:text-white">
+          Admin
+        </Link>
+      )}
+      <button
+        type="button"
+        className="text-white/75 underline hover:text-white"
+        onClick={() => void signOut().then(() => router.replace("/login"))}
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import type { OutboxEntry } from "@/lib/offline/types";
+
+const FIELD_LABELS: Record<string, string> = { product: "Product", expiryDate: "Expiry", category: "Category" };
+
+/**
+ * Edits made here that clash with changes from another device, one per item,
+ * showing both values so the user can keep theirs or the other device's.
+ */
+export function ConflictDialog({
+  entries,
+  onResolve,
+  onClose,
+}: {
+  entries: OutboxEntry[];
+  onResolve(seq: number, keep: "mine" | "theirs"): void;
+  onClose(): void;
+}) {
+  const conflicts = entries.filter((e) => e.conflict);
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" role="dialog" aria-modal="true">
+      <div className="flex max-h-[95vh] w-full max-w-3xl flex-col gap-4 overflow-y-auto rounded-2xl border border-white/20 bg-slate-900/95 p-6 text-white shadow-2xl">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold">Edited on two devices</h3>
+          <button type="button" onClick={onClose} className="rounded-md bg-white/15 px-3 py-1.5 text-sm hover:bg-white/25">
+            Close
+          </button>
+        </div>
+        <p className="text-sm text-white/75">
+          These items were changed elsewhere after you edited them here. Keep your values to overwrite the other change, or take the other device&apos;s.
+        </p>
+        {conflicts.length === 0 && <p className="text-sm text-white/70">No conflicts left.</p>}
+        {conflicts.map((entry) => (
+          <div key={entry.seq} className="rounded-lg border border-white/15 bg-white/5 p-3 text-sm">
+            <p className="mb-2 font-medium">
+              {entry.conflict!.server.product || entry.conflict!.server.imageName || "Item"}
+              <span className="ml-2 text-xs font-normal text-white/60">changed {new Date(entry.conflict!.server.updatedAt).toLocaleString()}</span>
+            </p>
+            <table className="mb-3 min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-white/70">
+                  <th className="py-1 pr-4 font-medium">Field</th>
+                  <th className="py-1 pr-4 font-medium">Was</th>
+                  <th className="py-1 pr-4 font-medium">Yours</th>
+                  <th className="py-1 pr-4 font-medium">Other device</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entry.conflict!.fields.map((f) => (
+                  <tr key={f.field} className="border-t border-white/10">
+                    <td className="py-1 pr-4">{FIELD_LABELS[f.field] ?? f.field}</td>
+                    <td className="py-1 pr-4 text-white/60">{f.base || "—"}</td>
+                    <td className="py-1 pr-4">{f.mine || "—"}</td>
+                    <td className="py-1 pr-4">{f.theirs || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => onResolve(entry.seq, "mine")} className="rounded-md bg-white/20 px-3 py-1 text-xs font-medium hover:bg-white/30">
+                Keep mine
+              </button>
+              <button type="button" onClick={() => onResolve(entry.seq, "theirs")} className="rounded-md bg-white/10 px-3 py-1 text-xs font-medium hover:bg-white/20">
+                Keep other device&apos;s
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { AuditActor } from "@/lib/audit/types";
+import type { InventoryItem } from "@/lib/items/types";
+
+type DeletedRow = { item: InventoryItem; deletedAt: string; deletedBy: AuditActor };
+
+/**
+ * Items deleted from the results, newest first, with a way to put them back.
+ * Restoring needs the scanner role; viewers see the list only.
+ */
+export function DeletedItemsDialog({
+  canRestore,
+  onRestored,
+  onHistory,
+  onClose,
+}: {
+  canRestore: boolean;
+  onRestored(item: InventoryItem): void;
+  onHistory(item: InventoryItem): void;
+  onClose(): void;
+}) {
+  const [rows, setRows] = useState<DeletedRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/items/deleted", { cache: "no-store" })
+      .then(async (res) => {
+        const data = (await res.json()) as { deleted?: DeletedRow[]; error?: string };
+        if (cancelled) return;
+        if (!res.ok || !data.deleted) setError(data.error ?? `Loading failed (${res.status})`);
+        else setRows(data.deleted);
+      })
+      .catch(() => !cancelled && setError("Could not reach the server"));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function restore(id: string) {
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/items/${id}/restore`, { method: "POST" });
+      const data = (await res.json()) as { item?: InventoryItem; error?: string };
+      if (!res.ok || !data.item) {
+        setError(data.error ?? `Restoring failed (${res.status})`);
+        return;
+      }
+      setRows((prev) => prev?.filter((r) => r.item.id !== id) ?? null);
+      onRestored(data.item);
+    } catch {
+      setError("Could not reach the server");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" role="dialog" aria-modal="true">
+      <div className="flex max-h-[95vh] w-full max-w-3xl flex-col gap-4 overflow-y-auto rounded-2xl border border-white/20 bg-slate-900/95 p-6 text-white shadow-2xl">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold">Deleted items</h3>
+          <button type="button" onClick={onClose} className="rounded-md bg-white/15 px-3 py-1.5 text-sm hover:bg-white/25">
+            Close
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        {!rows && !error && <p className="text-sm text-white/70">Loading…</p>}
+        {rows?.length === 0 && <p className="text-sm text-white/70">Nothing has been deleted.</p>}
+        {rows && rows.length > 0 && (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-white/80">
+                <th className="py-2 pr-4 font-medium">Product</th>
+                <th className="py-2 pr-4 font-medium">Expiry</th>
+                <th className="py-2 pr-4 font-medium">Deleted</th>
+                <th className="py-2 pr-4 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ item, deletedAt, deletedBy }) => (
+                <tr key={item.id} className="border-t border-white/10">
+                  <td className="py-2 pr-4">{item.product || item.imageName || "—"}</td>
+                  <td className="py-2 pr-4">{item.expiryDate || "—"}</td>
+                  <td className="py-2 pr-4 text-xs text-white/70">
+                    {new Date(deletedAt).toLocaleString()} · {deletedBy.name}
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    <button type="button" onClick={() => onHistory(item)} className="mr-2 text-xs text-sky-200 underline hover:text-sky-100">
+                      History
+                    </button>
+                    {canRestore && (
+                      <button
+                        type="button"
+                        onClick={() => void restore(item.id)}
+                        disabled={busyId !== null}
+                        className="rounded-md bg-white/20 px-2 py-1 text-xs font-medium hover:bg-white/30 disabled:opacity-50"
+                      >
+                        Restore
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+/**
+ * A table cell input that commits on Enter or blur and cancels on Escape.
+ * The parent owns the draft value and decides whether a commit is valid.
+ */
+export function EditableCell({
+  value,
+  error,
+  placeholder,
+  className = "",
+  onChange,
+  onCommit,
+  onCancel,
+}: {
+  value: string;
+  error?: string;
+  placeholder?: string;
+  className?: string;
+  onChange(value: string): void;
+  onCommit(): void;
+  onCancel(): void;
+}) {
+  return (
+    <div>
+      <input
+        value={value}
+        placeholder={placeholder}
+        aria-invalid={Boolean(error)}
+        onChange={(e) => onChange(e.target.value)}
+        onBlur={onCommit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+          if (e.key === "Escape") onCancel();
+        }}
+        className={`w-full rounded-md border bg-white/10 px-2 py-1 text-white/95 outline-none backdrop-blur focus:ring-2 focus:ring-white/30 ${
+          error ? "border-red-400/70" : "border-white/20"
+        } ${className}`}
+      />
+      {error && <div className="mt-1 text-xs text-red-300">{error}</div>}
+    </div>
+  );
+}
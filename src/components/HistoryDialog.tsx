@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AUDIT_ACTION_LABELS, type AuditEntry } from "@/lib/audit/types";
+
+const FIELD_LABELS: Record<string, string> = {
+  product: "Product",
+  expiryDate: "Expiry date",
+  lot: "Lot",
+  ref: "REF",
+  gtin: "GTIN",
+  manufactureDate: "Mfg. date",
+  serial: "Serial",
+  category: "Category",
+  thresholds: "Thresholds",
+  locationId: "Location",
+  review: "Review",
+  analysisError: "Analysis error",
+};
+
+function show(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/** An item's audit trail, newest first: who changed what, and what the model answered for each analysis. */
+export function HistoryDialog({ itemId, title, onClose }: { itemId: string; title: string; onClose(): void }) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/items/${itemId}/audit`, { cache: "no-store" })
+      .then(async (res) => {
+        const data = (await res.json()) as { entries?: AuditEntry[]; error?: string };
+        if (cancelled) return;
+        if (!res.ok || !data.entries) setError(res.status === 404 ? "No history recorded for this item yet." : data.error ?? `Loading failed (${res.status})`);
+        else setEntries([...data.entries].reverse());
+      })
+      .catch(() => !cancelled && setError("Could not reach the server"));
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" role="dialog" aria-modal="true">
+      <div className="flex max-h-[95vh] w-full max-w-3xl flex-col gap-4 overflow-y-auto rounded-2xl border border-white/20 bg-slate-900/95 p-6 text-white shadow-2xl">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold">History · {title}</h3>
+          <button type="button" onClick={onClose} className="rounded-md bg-white/15 px-3 py-1.5 text-sm hover:bg-white/25">
+            Close
+          </button>
+        </div>
+        {error && <p className="text-sm text-white/70">{error}</p>}
+        {!entries && !error && <p className="text-sm text-white/70">Loading…</p>}
+        <ol className="flex flex-col gap-3">
+          {entries?.map((entry) => (
+            <li key={entry.id} className="rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <span className="font-medium">{AUDIT_ACTION_LABELS[entry.action]}</span>
+                <span className="text-xs text-white/60">
+                  {new Date(entry.at).toLocaleString()} · {entry.actor.name}
+                </span>
+              </div>
+              {entry.status && (
+                <div className="mt-1 text-xs text-white/80">
+                  {entry.status.before ?? "—"} → {entry.status.after}
+                </div>
+              )}
+              {entry.changes && (
+                <table className="mt-1 text-xs">
+                  <tbody>
+                    {entry.changes.map((change) => (
+                      <tr key={change.field}>
+                        <td className="pr-3 text-white/60">{FIELD_LABELS[change.field] ?? change.field}</td>
+                        <td className="pr-2 text-white/60 line-through">{show(change.before)}</td>
+                        <td>{show(change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {entry.error && <div className="mt-1 text-xs text-red-300">{entry.error}</div>}
+              {entry.analysis && (
+                <details className="mt-1 text-xs">
+                  <summary className="cursor-pointer text-white/70">
+                    {entry.analysis.provider} · {entry.analysis.model}
+                    {entry.analysis.cached ? " · cached" : ""}
+                  </summary>
+                  <pre className="mt-1 max-h-60 overflow-auto whitespace-pre-wrap rounded bg-black/40 p-2 text-[11px] text-white/80">
+                    {JSON.stringify(entry.analysis.raw, null, 2)}
+                  </pre>
+                </details>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import type { InventoryItem } from "@/lib/items/types";
+import { IMPORT_FIELD_LABELS, IMPORT_FIELDS, type ImportField, type ImportMapping, type ImportRow } from "@/lib/import";
+
+type Preview = {
+  columns: string[];
+  mapping: ImportMapping;
+  rows: ImportRow[];
+  summary: { total: number; valid: number; invalid: number };
+};
+
+/** Rows shown in the preview table; the counts still cover the whole file. */
+const PREVIEW_LIMIT = 200;
+
+const DATE_ORDERS = [
+  { value: "", label: "Server default" },
+  { value: "DMY", label: "Day first (31/01/2027)" },
+  { value: "MDY", label: "Month first (01/31/2027)" },
+];
+
+const INPUT = "rounded-md border border-white/20 bg-white/10 px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-white/30 [&>option]:text-black";
+
+/**
+ * Spreadsheet import: pick a CSV or JSON file, map its columns, check every
+ * row as the server will read it, then add the valid rows to the results.
+ */
+export function ImportDialog({
+  locationId,
+  onImported,
+  onClose,
+}: {
+  /** Where imported rows are filed; "" leaves that to the server. */
+  locationId: string;
+  onImported(items: InventoryItem[]): void;
+  onClose(): void;
+}) {
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [locale, setLocale] = useState("");
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function send(body: Record<string, unknown>) {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content, locale: locale || undefined, locationId: locationId || undefined, ...body }),
+      });
+      const data = await res.json();
+      if (!res.ok) setError(data.message ?? data.error ?? `Import failed (${res.status})`);
+      return res.ok ? data : null;
+    } catch {
+      setError("Could not reach the server");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function load(file: File | undefined) {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setPreview(null);
+    // State updates land after this call, so the new content goes in explicitly.
+    const format = file.name.toLowerCase().endsWith(".json") ? "json" : undefined;
+    const data = await send({ content: text, format, dryRun: true });
+    if (data) setPreview(data as Preview);
+  }
+
+  async function remap(mapping: ImportMapping, nextLocale = locale) {
+    const data = await send({ mapping, locale: nextLocale || undefined, dryRun: true });
+    if (data) setPreview(data as Preview);
+  }
+
+  async function importRows() {
+    if (!preview) return;
+    const data = await send({ mapping: preview.mapping });
+    if (!data) return;
+    onImported((data as { items: InventoryItem[] }).items);
+    onClose();
+  }
+
+  const setColumn = (field: ImportField, column: string) => {
+    if (!preview) return;
+    void remap({ ...preview.mapping, [field]: column || undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" role="dialog" aria-modal="true">
+      <div className="flex max-h-[95vh] w-full max-w-5xl flex-col gap-4 overflow-y-auto rounded-2xl border border-white/20 bg-slate-900/95 p-6 text-white shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Import inventory</h3>
+          {preview && (
+            <span className="text-sm text-white/70">
+              {preview.summary.valid} of {preview.summary.total} rows ready{preview.summary.invalid ? `, ${preview.summary.invalid} with errors` : ""}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="cursor-pointer rounded-md bg-white/20 px-4 py-2 font-medium shadow hover:bg-white/30">
+            {fileName ? "Choose another file" : "Choose CSV or JSON file"}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => void load(e.target.files?.[0])}
+            />
+          </label>
+          {fileName && <span className="text-white/80">{fileName}</span>}
+          <label className="flex items-center gap-2">
+            <span className="text-white/80">Numeric dates</span>
+            <select
+              value={locale}
+              onChange={(e) => {
+                setLocale(e.target.value);
+                if (preview) void remap(preview.mapping, e.target.value);
+              }}
+              className={INPUT}
+            >
+              {DATE_ORDERS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {preview && (
+          <div className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+            {IMPORT_FIELDS.map((field) => (
+              <label key={field} className="flex flex-col gap-1">
+                <span className="text-white/80">{IMPORT_FIELD_LABELS[field]}</span>
+                <select value={preview.mapping[field] ?? ""} onChange={(e) => setColumn(field, e.target.value)} className={INPUT}>
+                  <option value="">— not in file —</option>
+                  {preview.columns.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {preview && (
+          <div className="max-h-[45vh] overflow-auto rounded-lg border border-white/10">
+            <table className="min-w-full text-xs">
+              <thead className="sticky top-0 bg-slate-900">
+                <tr className="text-left text-white/80">
+                  <th className="px-2 py-2 font-medium">Row</th>
+                  <th className="px-2 py-2 font-medium">Product</th>
+                  <th className="px-2 py-2 font-medium">Expiry</th>
+                  <th className="px-2 py-2 font-medium">Lot</th>
+                  <th className="px-2 py-2 font-medium">GTIN</th>
+                  <th className="px-2 py-2 font-medium">Category</th>
+                  <th className="px-2 py-2 font-medium">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <tr key={row.line} className={`border-t border-white/10 ${row.errors.length ? "bg-red-500/10" : ""}`}>
+                    <td className="px-2 py-1 text-white/70">{row.line}</td>
+                    <td className="px-2 py-1">{row.fields.product}</td>
+                    <td className="px-2 py-1">
+                      {row.fields.expiryDate}
+                      {row.fields.expiryText && row.fields.expiryText !== row.fields.expiryDate && (
+                        <span className="ml-1 text-white/60">({row.fields.expiryText})</span>
+                      )}
+                    </td>
+                    <td className="px-2 py-1">{row.fields.lot}</td>
+                    <td className="px-2 py-1">{row.fields.gtin}</td>
+                    <td className="px-2 py-1">{row.fields.category}</td>
+                    <td className="px-2 py-1">
+                      {row.errors.map((e) => (
+                        <div key={e} className="text-red-300">✕ {e}</div>
+                      ))}
+                      {row.warnings.map((w) => (
+                        <div key={w} className="text-amber-200">⚠ {w}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {preview.rows.length > PREVIEW_LIMIT && (
+              <p className="px-2 py-2 text-xs text-white/60">Showing the first {PREVIEW_LIMIT} of {preview.rows.length} rows.</p>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="button"
+            onClick={() => void importRows()}
+            disabled={busy || !preview?.summary.valid || !preview.mapping.product}
+            className="rounded-md bg-emerald-500/80 px-4 py-2 text-sm font-medium shadow hover:bg-emerald-500 disabled:opacity-50"
+          >
+            {preview?.summary.invalid ? `Import ${preview.summary.valid} valid rows` : `Import ${preview?.summary.valid ?? 0} rows`}
+          </button>
+          <button type="button" onClick={onClose} className="rounded-md bg-white/10 px-4 py-2 text-sm font-medium shadow hover:bg-white/20">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_BURST } from "@/lib/sessions/commands";
+import type { MobileState, SessionCommand, SessionCommandInput, SessionCommandStatus } from "@/lib/sessions/client";
+
+const BUTTON = "rounded-md bg-white/15 px-3 py-1.5 text-xs font-medium text-white shadow hover:bg-white/25 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const STATUS_STYLES: Record<SessionCommandStatus, string> = {
+  pending: "text-white/60",
+  delivered: "text-sky-200",
+  acked: "text-green-300",
+  failed: "text-red-300",
+};
+
+const STATUS_LABELS: Record<SessionCommandStatus, string> = {
+  pending: "waiting for phone",
+  delivered: "received",
+  acked: "done",
+  failed: "failed",
+};
+
+function describeCommand(command: SessionCommandInput): string {
+  switch (command.type) {
+    case "open_camera":
+      return "Open camera";
+    case "capture_burst":
+      return `Capture ${command.count} photo${command.count === 1 ? "" : "s"}`;
+    case "toggle_flash":
+      return command.on === undefined ? "Toggle flash" : `Flash ${command.on ? "on" : "off"}`;
+    case "switch_camera":
+      return command.facing ? `Use ${command.facing} camera` : "Switch camera";
+    case "end_session":
+      return "End session on phone";
+    case "reshoot":
+      return `Re-shoot ${command.label || "item"}`;
+  }
+}
+
+function describeState(state: MobileState): string {
+  const parts = [state.cameraOpen ? "camera open" : "camera closed"];
+  if (state.batteryLevel !== undefined) parts.push(`battery ${Math.round(state.batteryLevel * 100)}%${state.charging ? " (charging)" : ""}`);
+  if (state.flashOn !== undefined) parts.push(`flash ${state.flashOn ? "on" : "off"}`);
+  if (state.facing) parts.push(`${state.facing} camera`);
+  if (state.appVersion) parts.push(`app ${state.appVersion}`);
+  return parts.join(" · ");
+}
+
+/**
+ * Remote controls for the paired phone, what it last reported about itself
+ * and how its recent commands went.
+ */
+export function PhoneControls({
+  connected,
+  state,
+  commands,
+  error,
+  onSend,
+}: {
+  connected: boolean;
+  state: MobileState | null;
+  commands: SessionCommand[];
+  error: string | null;
+  onSend(command: SessionCommandInput): void;
+}) {
+  const [burst, setBurst] = useState(3);
+  const recent = commands.slice(-5).reverse();
+  return (
+    <div className="mb-8 rounded-xl border border-white/25 bg-white/10 p-4 text-sm backdrop-blur">
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" className={BUTTON} disabled={!connected} onClick={() => onSend({ type: "open_camera" })}>
+          Open camera
+        </button>
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            max={MAX_BURST}
+            value={burst}
+            aria-label="Photos in burst"
+            onChange={(e) => setBurst(Math.min(MAX_BURST, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-14 rounded-md border border-white/20 bg-white/10 px-2 py-1 text-xs text-white outline-none"
+          />
+          <button type="button" className={BUTTON} disabled={!connected} onClick={() => onSend({ type: "capture_burst", count: burst })}>
+            Capture burst
+          </button>
+        </div>
+        <button type="button" className={BUTTON} disabled={!connected} onClick={() => onSend({ type: "toggle_flash" })}>
+          Flash
+        </button>
+        <button type="button" className={BUTTON} disabled={!connected} onClick={() => onSend({ type: "switch_camera" })}>
+          Switch camera
+        </button>
+        <button type="button" className={BUTTON} disabled={!connected} onClick={() => onSend({ type: "end_session" })}>
+          End on phone
+        </button>
+        {state && <span className="ml-auto text-xs text-white/70" title={`Reported ${new Date(state.reportedAt).toLocaleTimeString()}`}>{describeState(state)}</span>}
+      </div>
+      {error && <div className="mt-2 text-xs text-red-300">{error}</div>}
+      {recent.length > 0 && (
+        <ul className="mt-3 space-y-0.5 text-xs">
+          {recent.map((c) => (
+            <li key={c.id} className="flex gap-2">
+              <span className="text-white/50">{new Date(c.createdAt).toLocaleTimeString()}</span>
+              <span>{describeCommand(c)}</span>
+              <span className={STATUS_STYLES[c.status]} title={c.error}>
+                {STATUS_LABELS[c.status]}
+                {c.status === "failed" && c.error ? `: ${c.error}` : ""}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FieldConfidence, SourcedField } from "@/lib/extraction/types";
+import { REVIEW_CONFIDENCE_THRESHOLD, REVIEW_REASON_MESSAGES, type ReviewReason } from "@/lib/review";
+
+export type ReviewCandidate = {
+  id: string;
+  url: string;
+  product: string;
+  expiryDate: string;
+  confidence: Partial<Record<SourcedField, FieldConfidence>>;
+  reasons: ReviewReason[];
+};
+
+function editableProduct(product: string): string {
+  return /^product_\d+$/.test(product) ? "" : product;
+}
+
+const FIELD_LABELS: Partial<Record<SourcedField, string>> = {
+  product: "Product",
+  expiryDate: "Expiry date",
+  lot: "Lot",
+  gtin: "GTIN",
+  manufactureDate: "Mfg. date",
+};
+
+/**
+ * One queued item at a time: the photo large enough to read, what was
+ * extracted and from which text, and inputs to correct product and expiry
+ * before signing off.
+ */
+export function ReviewDialog({
+  item,
+  position,
+  total,
+  onApprove,
+  onSkip,
+  onClose,
+}: {
+  item: ReviewCandidate;
+  position: number;
+  total: number;
+  onApprove(edits: { product: string; expiryDate: string }): Promise<string | null>;
+  onSkip(): void;
+  onClose(): void;
+}) {
+  const [product, setProduct] = useState(editableProduct(item.product));
+  const [expiryDate, setExpiryDate] = useState(item.expiryDate);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setProduct(editableProduct(item.product));
+    setExpiryDate(item.expiryDate);
+    setError(null);
+  }, [item]);
+
+  const approve = async () => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(expiryDate)) {
+      setError("Enter the expiry date printed on the label");
+      return;
+    }
+    setSaving(true);
+    setError(await onApprove({ product: product.trim(), expiryDate }));
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4" role="dialog" aria-modal="true">
+      <div className="flex max-h-[95vh] w-full max-w-5xl flex-col gap-6 overflow-y-auto rounded-2xl border border-white/20 bg-slate-900/95 p-6 text-white shadow-2xl md:flex-row">
+        <div className="md:w-3/5">
+          {item.url ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={item.url} alt={item.product} className="max-h-[75vh] w-full rounded-lg bg-black object-contain" />
+          ) : (
+            <div className="flex h-64 items-center justify-center rounded-lg bg-black/40 text-sm text-white/60">No photo; this item was imported</div>
+          )}
+        </div>
+        <div className="flex flex-col gap-4 md:w-2/5">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Needs review</h3>
+            <span className="text-sm text-white/70">{position} of {total}</span>
+          </div>
+          <ul className="space-y-1 text-sm text-amber-200">
+            {item.reasons.map((r) => (
+              <li key={r}>⚠ {REVIEW_REASON_MESSAGES[r]}</li>
+            ))}
+          </ul>
+          <dl className="space-y-2 text-sm">
+            {(Object.keys(FIELD_LABELS) as SourcedField[]).map((field) => {
+              const read = item.confidence[field];
+              if (!read) return null;
+              const low = read.score < REVIEW_CONFIDENCE_THRESHOLD;
+              return (
+                <div key={field}>
+                  <dt className="text-white/70">
+                    {FIELD_LABELS[field]}{" "}
+                    <span className={low ? "text-red-300" : "text-green-300"}>{Math.round(read.score * 100)}%</span>
+                  </dt>
+                  <dd className="font-mono text-xs text-white/90">{read.evidence || "—"}</dd>
+                </div>
+              );
+            })}
+          </dl>
+          <label className="text-sm">
+            <span className="text-white/80">Product</span>
+            <input
+              value={product}
+              onChange={(e) => setProduct(e.target.value)}
+              className="mt-1 w-full rounded-md border border-white/20 bg-white/10 px-3 py-2 outline-none focus:ring-2 focus:ring-white/30"
+            />
+          </label>
+          <label className="text-sm">
+            <span className="text-white/80">Expiry date</span>
+            <input
+              type="date"
+              value={expiryDate}
+              onChange={(e) => setExpiryDate(e.target.value)}
+              className="mt-1 w-full rounded-md border border-white/20 bg-white/10 px-3 py-2 outline-none focus:ring-2 focus:ring-white/30"
+            />
+          </label>
+          {error && <p className="text-sm text-red-300">{error}</p>}
+          <div className="mt-auto flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={() => void approve()}
+              disabled={saving}
+              className="rounded-md bg-emerald-500/80 px-4 py-2 text-sm font-medium shadow hover:bg-emerald-500 disabled:opacity-50"
+            >
+              Confirm
+            </button>
+            <button
+              type="button"
+              onClick={onSkip}
+              disabled={total < 2}
+              className="rounded-md bg-white/20 px-4 py-2 text-sm font-medium shadow hover:bg-white/30 disabled:opacity-50"
+            >
+              Skip
+            </button>
+            <button type="button" onClick={onClose} className="rounded-md bg-white/10 px-4 py-2 text-sm font-medium shadow hover:bg-white/20">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * Registers the offline service worker. Left out in development, where it
+ * would serve stale bundles over hot reloads.
+ */
+export function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch((err) => console.error("Service worker registration failed", err));
+  }, []);
+  return null;
+}
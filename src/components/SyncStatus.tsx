@@ -0,0 +1,39 @@
+"use client";
+
+import type { SyncState } from "@/lib/offline/types";
+
+/**
+ * Whether the dashboard is online and how many changes are waiting to reach
+ * the server. Conflicts are counted separately and open the conflict dialog.
+ */
+export function SyncStatus({ state, onShowConflicts, onRetry }: { state: SyncState; onShowConflicts(): void; onRetry(): void }) {
+  const conflicts = state.entries.filter((e) => e.conflict).length;
+  const waiting = state.entries.length - conflicts;
+  const dot = !state.online ? "bg-amber-400" : conflicts || state.error ? "bg-red-400" : waiting || state.syncing ? "bg-sky-400" : "bg-emerald-400";
+  const text = !state.online
+    ? waiting
+      ? `Offline · ${waiting} change${waiting === 1 ? "" : "s"} waiting`
+      : "Offline"
+    : state.syncing && waiting
+      ? `Syncing ${waiting} change${waiting === 1 ? "" : "s"}…`
+      : waiting
+        ? `${waiting} change${waiting === 1 ? "" : "s"} waiting`
+        : "Synced";
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-white/85" role="status" title={state.error ?? undefined}>
+      <span className={`inline-block size-2.5 rounded-full ${dot}`} />
+      <span>{text}</span>
+      {state.online && waiting > 0 && !state.syncing && (
+        <button type="button" onClick={onRetry} className="text-xs underline hover:text-white">
+          Retry now
+        </button>
+      )}
+      {conflicts > 0 && (
+        <button type="button" onClick={onShowConflicts} className="text-xs text-red-200 underline hover:text-red-100">
+          {conflicts} conflict{conflicts === 1 ? "" : "s"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+export async function register() {
+  // The scheduler needs Node timers and the data directory; written this way so the edge build drops the import.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startAlertScheduler } = await import("@/lib/alerts/scheduler");
+    const { startStatusWatch } = await import("@/lib/items/status-watch");
+    startAlertScheduler();
+    startStatusWatch();
+  }
+}
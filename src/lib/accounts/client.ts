@@ -0,0 +1,104 @@
+// Browser side of accounts: who is signed in and the location picked on the dashboard; keep this file free of Node imports.
+
+import { sortedTree } from "./locations";
+import type { Organization, PublicUser, StorageLocation } from "./types";
+
+export type Me = {
+  /** No account exists yet; the app is open until someone sets one up at /login. */
+  setupRequired: boolean;
+  user: PublicUser | null;
+  org: Organization | null;
+  locations: StorageLocation[];
+  /** Locations the user may see, subtrees included; null for all of them. */
+  allowedLocationIds: string[] | null;
+};
+
+const LOCATION_KEY = "expiry-location";
+const ME_KEY = "expiry-me";
+/** Prefix of the service worker's item photo caches (public/sw.js). */
+const PHOTO_CACHE_PREFIX = "expiry-photos-";
+
+/**
+ * The signed-in user, or null when the browser is not signed in (401).
+ * Without a connection it is the account last seen here, so the dashboard
+ * still opens offline.
+ */
+export async function fetchMe(): Promise<Me | null> {
+  let res: Response;
+  try {
+    res = await fetch("/api/auth/me", { cache: "no-store" });
+  } catch (err) {
+    const cached = readCachedMe();
+    if (cached) return cached;
+    throw err;
+  }
+  if (res.status === 401) {
+    forgetMe();
+    void forgetPhotos();
+    return null;
+  }
+  if (!res.ok) throw new Error(`Loading the account failed (${res.status})`);
+  const me = (await res.json()) as Me;
+  try {
+    localStorage.setItem(ME_KEY, JSON.stringify(me));
+  } catch {
+    // storage unavailable; offline starts need a connection
+  }
+  return me;
+}
+
+function readCachedMe(): Me | null {
+  try {
+    const raw = localStorage.getItem(ME_KEY);
+    return raw ? (JSON.parse(raw) as Me) : null;
+  } catch {
+    return null;
+  }
+}
+
+function forgetMe() {
+  try {
+    localStorage.removeItem(ME_KEY);
+  } catch {
+    // nothing stored
+  }
+}
+
+/** Item photos the service worker kept offline belong to whoever was signed in. */
+async function forgetPhotos() {
+  try {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter((k) => k.startsWith(PHOTO_CACHE_PREFIX)).map((k) => caches.delete(k)));
+  } catch {
+    // no cache storage (e.g. not a secure context); nothing was kept
+  }
+}
+
+export async function signOut(): Promise<void> {
+  forgetMe();
+  await forgetPhotos();
+  await fetch("/api/auth/logout", { method: "POST" });
+}
+
+/** Locations the user can pick, sites first with their rooms and shelves under them. */
+export function selectableLocations(me: Me): StorageLocation[] {
+  const allowed = me.allowedLocationIds;
+  return sortedTree(me.locations).filter((l) => !allowed || allowed.includes(l.id));
+}
+
+export function loadSelectedLocation(): string {
+  try {
+    return localStorage.getItem(LOCATION_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveSelectedLocation(id: string) {
+  try {
+    if (id) localStorage.setItem(LOCATION_KEY, id);
+    else localStorage.removeItem(LOCATION_KEY);
+  } catch {
+    // storage unavailable; the choice lasts until reload
+  }
+}
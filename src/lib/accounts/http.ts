@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { accessFor, type Access } from "./index";
+import { AUTH_COOKIE } from "./tokens";
+import { AccountError, type PublicUser, type Role } from "./types";
+
+/**
+ * What the signed-in caller may do, or the 401/403 response to return when
+ * they lack `role`. Routes call this first:
+ * `const access = await authorize(req, "scanner"); if (access instanceof Response) return access;`
+ */
+export async function authorize(req: NextRequest, role: Role): Promise<Access | Response> {
+  try {
+    return await accessFor(req.cookies.get(AUTH_COOKIE)?.value ?? null, role);
+  } catch (err) {
+    return accountErrorResponse(err);
+  }
+}
+
+/** Like `authorize`, for routes that only make sense once accounts are set up, e.g. managing users. */
+export async function authorizeMember(req: NextRequest, role: Role): Promise<(Access & { user: PublicUser; orgId: string }) | Response> {
+  const access = await authorize(req, role);
+  if (access instanceof Response) return access;
+  if (!access.user || !access.orgId) return Response.json({ error: "setup_required", message: "Set up accounts first" }, { status: 409 });
+  return { ...access, user: access.user, orgId: access.orgId };
+}
+
+/** Maps AccountError to its status; anything else is rethrown. */
+export function accountErrorResponse(err: unknown): Response {
+  if (err instanceof AccountError) return Response.json({ error: err.code, message: err.message }, { status: err.status });
+  throw err;
+}
+
+export function setAuthCookie(req: NextRequest, res: NextResponse, token: string, expiresAt: string) {
+  res.cookies.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: req.nextUrl.protocol === "https:",
+    path: "/",
+    expires: new Date(expiresAt),
+  });
+}
+
+export function clearAuthCookie(res: NextResponse) {
+  res.cookies.set(AUTH_COOKIE, "", { httpOnly: true, sameSite: "lax", path: "/", maxAge: 0 });
+}
@@ -0,0 +1,350 @@
+import { randomUUID } from "crypto";
+import { claimUnownedSubscriptions } from "@/lib/alerts";
+import { ANONYMOUS_ACTOR, type AuditActor } from "@/lib/audit";
+import { claimUnownedItems, getItem, type InventoryItem } from "@/lib/items";
+import { createJsonFile } from "@/lib/store/json-file";
+import { subtreeIds } from "./locations";
+import { hashPassword, verifyPassword } from "./passwords";
+import { issueAuthToken, verifyAuthToken } from "./tokens";
+import {
+  AccountError,
+  hasRole,
+  LOCATION_KINDS,
+  MIN_PASSWORD_LENGTH,
+  ROLES,
+  type AccountsData,
+  type Organization,
+  type PublicUser,
+  type Role,
+  type StorageLocation,
+  type User,
+} from "./types";
+
+export { AccountError, hasRole, LOCATION_KINDS, ROLES } from "./types";
+export type { LocationKind, Organization, PublicUser, Role, StorageLocation, User } from "./types";
+
+const file = createJsonFile<AccountsData>("accounts.json", () => ({ orgs: [], users: [], locations: [] }));
+
+const USERNAME = /^[a-z0-9][a-z0-9._@-]{1,63}$/;
+const MAX_NAME_LENGTH = 80;
+const MAX_PASSWORD_LENGTH = 200;
+const MAX_LOCATIONS = 1000;
+
+/**
+ * Who is calling and what they may see. Until the first account is set up
+ * the deployment stays open: `user` is null and everything is visible, as
+ * it was before accounts existed.
+ */
+export type Access = {
+  user: PublicUser | null;
+  orgId: string | null;
+  role: Role;
+  /** The organization's locations. */
+  locations: StorageLocation[];
+  /** Locations the user may see, with everything under them; null for all of them. */
+  allowed: string[] | null;
+  /** Set instead of `user` when an integration calls /api/v1 with an API key. */
+  apiKey?: { id: string; name: string; locationIds: string[] };
+};
+
+const OPEN_ACCESS: Access = { user: null, orgId: null, role: "admin", locations: [], allowed: null };
+
+export function toPublicUser(user: User): PublicUser {
+  const view: Partial<User> = { ...user };
+  delete view.passwordHash;
+  delete view.tokenVersion;
+  return view as PublicUser;
+}
+
+function findUsername(data: AccountsData, username: string): User | undefined {
+  return data.users.find((u) => u.username === username.trim().toLowerCase());
+}
+
+function readName(value: unknown, label: string): string {
+  const name = typeof value === "string" ? value.trim().replace(/\s+/g, " ") : "";
+  if (!name || name.length > MAX_NAME_LENGTH) throw new AccountError(400, "invalid_input", `${label} must be 1 to ${MAX_NAME_LENGTH} characters`);
+  return name;
+}
+
+function readUsername(value: unknown): string {
+  const username = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (!USERNAME.test(username)) {
+    throw new AccountError(400, "invalid_input", "username must be 2 to 64 letters, digits or . _ @ -, starting with a letter or digit");
+  }
+  return username;
+}
+
+async function readPassword(value: unknown): Promise<string> {
+  if (typeof value !== "string" || value.length < MIN_PASSWORD_LENGTH || value.length > MAX_PASSWORD_LENGTH) {
+    throw new AccountError(400, "invalid_input", `password must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`);
+  }
+  return hashPassword(value);
+}
+
+function readRole(value: unknown): Role {
+  if (!(ROLES as unknown[]).includes(value)) throw new AccountError(400, "invalid_input", `role must be one of ${ROLES.join(", ")}`);
+  return value as Role;
+}
+
+function readLocationIds(data: AccountsData, orgId: string, value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((id) => typeof id !== "string")) {
+    throw new AccountError(400, "invalid_input", "locationIds must be a list of location ids");
+  }
+  for (const id of value as string[]) {
+    if (!data.locations.some((l) => l.id === id && l.orgId === orgId)) throw new AccountError(400, "invalid_input", `unknown location ${id}`);
+  }
+  return [...new Set(value as string[])];
+}
+
+async function newUser(data: AccountsData, orgId: string, body: Record<string, unknown>): Promise<User> {
+  const username = readUsername(body.username);
+  if (findUsername(data, username)) throw new AccountError(409, "username_taken", `${username} is taken`);
+  const now = new Date().toISOString();
+  const displayName = body.displayName === undefined || body.displayName === "" ? undefined : readName(body.displayName, "displayName");
+  return {
+    id: randomUUID(),
+    orgId,
+    username,
+    ...(displayName ? { displayName } : {}),
+    passwordHash: await readPassword(body.password),
+    role: body.role === undefined ? "scanner" : readRole(body.role),
+    locationIds: body.locationIds === undefined ? [] : readLocationIds(data, orgId, body.locationIds),
+    tokenVersion: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function hasAccounts(): Promise<boolean> {
+  return (await file.read()).users.length > 0;
+}
+
+/**
+ * Creates the first organization and its admin, who becomes the owner, and
+ * hands every item and alert subscription stored so far to that
+ * organization. Works once.
+ */
+export async function setupAccounts(body: Record<string, unknown>): Promise<User> {
+  const user = await file.update(async (data) => {
+    if (data.users.length) throw new AccountError(409, "setup_done", "Accounts are already set up; sign in instead");
+    const org: Organization = { id: randomUUID(), name: readName(body.orgName, "orgName"), createdAt: new Date().toISOString() };
+    const admin = { ...(await newUser(data, org.id, { ...body, role: "admin", locationIds: [] })), owner: true };
+    data.orgs.push(org);
+    data.users.push(admin);
+    return admin;
+  });
+  await Promise.all([claimUnownedItems(user.orgId), claimUnownedSubscriptions(user.orgId)]);
+  return user;
+}
+
+/** Checks a username and password; disabled accounts cannot sign in. */
+export async function signIn(username: unknown, password: unknown): Promise<{ user: User; token: string; expiresAt: string }> {
+  const data = await file.read();
+  const user = typeof username === "string" ? findUsername(data, username) : undefined;
+  const valid = user && !user.disabled && typeof password === "string" && (await verifyPassword(password, user.passwordHash));
+  if (!user || !valid) throw new AccountError(401, "unauthorized", "Wrong username or password");
+  await file.update((d) => {
+    const stored = d.users.find((u) => u.id === user.id);
+    if (stored) stored.lastLoginAt = new Date().toISOString();
+  });
+  return { user, ...issueAuthToken(user.id, user.tokenVersion) };
+}
+
+/**
+ * Resolves the sign-in cookie to what the caller may do. Throws 401 when
+ * accounts exist and the token is missing, expired or revoked, and 403 when
+ * the user's role is below `role`.
+ */
+export async function accessFor(token: string | null, role: Role): Promise<Access> {
+  const data = await file.read();
+  if (!data.users.length) return OPEN_ACCESS;
+  const claims = token ? verifyAuthToken(token) : null;
+  const user = claims ? data.users.find((u) => u.id === claims.uid) : undefined;
+  if (!claims || !user || user.disabled || user.tokenVersion !== claims.v) {
+    throw new AccountError(401, "unauthorized", "Sign in to continue");
+  }
+  if (!hasRole(user.role, role)) throw new AccountError(403, "forbidden", `This needs the ${role} role`);
+  const locations = data.locations.filter((l) => l.orgId === user.orgId);
+  const allowed = user.locationIds.length ? [...new Set(user.locationIds.flatMap((id) => subtreeIds(locations, id)))] : null;
+  return { user: toPublicUser(user), orgId: user.orgId, role: user.role, locations, allowed };
+}
+
+/** What an API key may do: the same as a user with the key's role and locations in its organization. */
+export async function accessForKey(key: { id: string; name: string; orgId: string; role: Role; locationIds: string[] }): Promise<Access> {
+  const data = await file.read();
+  const locations = data.locations.filter((l) => l.orgId === key.orgId);
+  const locationIds = key.locationIds.filter((id) => locations.some((l) => l.id === id));
+  const allowed = locationIds.length ? [...new Set(locationIds.flatMap((id) => subtreeIds(locations, id)))] : null;
+  return { user: null, orgId: key.orgId, role: key.role, locations, allowed, apiKey: { id: key.id, name: key.name, locationIds } };
+}
+
+/** The caller as the audit log names them. */
+export function actorOf(access: Access): AuditActor {
+  if (access.apiKey) return { apiKeyId: access.apiKey.id, name: `api:${access.apiKey.name}` };
+  return access.user ? { userId: access.user.id, name: access.user.username } : ANONYMOUS_ACTOR;
+}
+
+/** Whether a job, subscription or the like stored with `orgId` belongs to the caller's organization. */
+export function inOrg(access: Access, orgId: string | null | undefined): boolean {
+  return !access.orgId || orgId === access.orgId;
+}
+
+/** Whether the caller may see `item` (or an audit entry about it): same organization, and a location they work in when they are limited to some. */
+export function canSee(access: Access, item: Pick<InventoryItem, "orgId" | "locationId">): boolean {
+  if (!inOrg(access, item.orgId)) return false;
+  return !access.allowed || (item.locationId !== undefined && access.allowed.includes(item.locationId));
+}
+
+/** The item, when it exists and the caller may see it; per-item routes answer 404 otherwise. */
+export async function getVisibleItem(access: Access, id: string): Promise<InventoryItem | null> {
+  const item = await getItem(id);
+  return item && canSee(access, item) ? item : null;
+}
+
+/** The items the caller may see, narrowed to `locationId` and everything under it when given. */
+export function scopeItems(access: Access, items: InventoryItem[], locationId?: string | null): InventoryItem[] {
+  const visible = items.filter((item) => canSee(access, item));
+  if (!locationId) return visible;
+  if (!access.locations.some((l) => l.id === locationId)) throw new AccountError(404, "location_not_found", `Location ${locationId} not found`);
+  const ids = subtreeIds(access.locations, locationId);
+  return visible.filter((item) => item.locationId !== undefined && ids.includes(item.locationId));
+}
+
+/**
+ * The location new items and sessions are filed under. Users limited to
+ * some locations must name one of them, unless they have only one.
+ */
+export function resolveLocation(access: Access, requested: unknown): string | undefined {
+  if (!access.orgId) return undefined;
+  if (requested === undefined || requested === null || requested === "") {
+    if (!access.allowed) return undefined;
+    const assigned = access.user?.locationIds ?? access.apiKey?.locationIds ?? [];
+    if (assigned.length === 1) return assigned[0];
+    throw new AccountError(400, "invalid_input", "locationId is required: choose where these items are kept");
+  }
+  if (typeof requested !== "string" || !access.locations.some((l) => l.id === requested)) {
+    throw new AccountError(404, "location_not_found", `Location ${String(requested)} not found`);
+  }
+  if (access.allowed && !access.allowed.includes(requested)) throw new AccountError(403, "forbidden", "You do not work at that location");
+  return requested;
+}
+
+export async function getOrganization(id: string): Promise<Organization | null> {
+  return (await file.read()).orgs.find((o) => o.id === id) ?? null;
+}
+
+export async function listOrganizations(): Promise<Organization[]> {
+  return (await file.read()).orgs;
+}
+
+/** Adds an organization with its first admin; only the owner may. */
+export async function createOrganization(body: Record<string, unknown>): Promise<{ org: Organization; admin: User }> {
+  return file.update(async (data) => {
+    const org: Organization = { id: randomUUID(), name: readName(body.name, "name"), createdAt: new Date().toISOString() };
+    const admin = await newUser(data, org.id, { ...(body.admin as Record<string, unknown> | undefined), role: "admin", locationIds: [] });
+    data.orgs.push(org);
+    data.users.push(admin);
+    return { org, admin };
+  });
+}
+
+export async function listUsers(orgId: string): Promise<User[]> {
+  return (await file.read()).users.filter((u) => u.orgId === orgId);
+}
+
+export async function createUser(orgId: string, body: Record<string, unknown>): Promise<User> {
+  return file.update(async (data) => {
+    const user = await newUser(data, orgId, body);
+    data.users.push(user);
+    return user;
+  });
+}
+
+/** An organization must keep one admin who can sign in. */
+function assertAdminRemains(data: AccountsData, orgId: string) {
+  if (!data.users.some((u) => u.orgId === orgId && u.role === "admin" && !u.disabled)) {
+    throw new AccountError(409, "last_admin", "The organization needs at least one active admin");
+  }
+}
+
+/** Applies `{ displayName?, password?, role?, locationIds?, disabled? }`. */
+export async function updateUser(orgId: string, id: string, body: Record<string, unknown>): Promise<User> {
+  return file.update(async (data) => {
+    const user = data.users.find((u) => u.id === id && u.orgId === orgId);
+    if (!user) throw new AccountError(404, "user_not_found", `User ${id} not found`);
+    if (body.displayName !== undefined) {
+      if (body.displayName === "" || body.displayName === null) delete user.displayName;
+      else user.displayName = readName(body.displayName, "displayName");
+    }
+    if (body.role !== undefined) user.role = readRole(body.role);
+    if (body.locationIds !== undefined) user.locationIds = readLocationIds(data, orgId, body.locationIds);
+    if (body.password !== undefined) {
+      user.passwordHash = await readPassword(body.password);
+      user.tokenVersion++;
+    }
+    if (body.disabled !== undefined) {
+      if (typeof body.disabled !== "boolean") throw new AccountError(400, "invalid_input", "disabled must be true or false");
+      if (body.disabled && !user.disabled) user.tokenVersion++;
+      if (body.disabled) user.disabled = true;
+      else delete user.disabled;
+    }
+    assertAdminRemains(data, orgId);
+    user.updatedAt = new Date().toISOString();
+    return user;
+  });
+}
+
+export async function deleteUser(orgId: string, id: string): Promise<boolean> {
+  return file.update((data) => {
+    const idx = data.users.findIndex((u) => u.id === id && u.orgId === orgId);
+    if (idx < 0) return false;
+    data.users.splice(idx, 1);
+    assertAdminRemains(data, orgId);
+    return true;
+  });
+}
+
+export async function listLocations(orgId: string): Promise<StorageLocation[]> {
+  return (await file.read()).locations.filter((l) => l.orgId === orgId);
+}
+
+/** `{ name, parentId? }`: no parent makes a site, a site's child a room and a room's child a shelf. */
+export async function createLocation(orgId: string, body: Record<string, unknown>): Promise<StorageLocation> {
+  return file.update((data) => {
+    const name = readName(body.name, "name");
+    const parentId = typeof body.parentId === "string" && body.parentId ? body.parentId : null;
+    const parent = parentId ? data.locations.find((l) => l.id === parentId && l.orgId === orgId) : null;
+    if (parentId && !parent) throw new AccountError(404, "location_not_found", `Location ${parentId} not found`);
+    const kind = parent ? LOCATION_KINDS[LOCATION_KINDS.indexOf(parent.kind) + 1] : "site";
+    if (!kind) throw new AccountError(400, "invalid_input", "Shelves cannot hold further locations");
+    if (data.locations.filter((l) => l.orgId === orgId).length >= MAX_LOCATIONS) {
+      throw new AccountError(400, "invalid_input", `at most ${MAX_LOCATIONS} locations per organization`);
+    }
+    if (data.locations.some((l) => l.orgId === orgId && l.parentId === parentId && l.name.toLowerCase() === name.toLowerCase())) {
+      throw new AccountError(409, "location_in_use", `${name} already exists there`);
+    }
+    const location: StorageLocation = { id: randomUUID(), orgId, parentId, name, kind, createdAt: new Date().toISOString() };
+    data.locations.push(location);
+    return location;
+  });
+}
+
+export async function renameLocation(orgId: string, id: string, name: unknown): Promise<StorageLocation> {
+  return file.update((data) => {
+    const location = data.locations.find((l) => l.id === id && l.orgId === orgId);
+    if (!location) throw new AccountError(404, "location_not_found", `Location ${id} not found`);
+    location.name = readName(name, "name");
+    return location;
+  });
+}
+
+/** Only empty locations go: no locations under them and no users limited to them. Callers check items first. */
+export async function deleteLocation(orgId: string, id: string): Promise<void> {
+  await file.update((data) => {
+    const idx = data.locations.findIndex((l) => l.id === id && l.orgId === orgId);
+    if (idx < 0) throw new AccountError(404, "location_not_found", `Location ${id} not found`);
+    if (data.locations.some((l) => l.parentId === id)) throw new AccountError(409, "location_in_use", "Remove the locations under it first");
+    if (data.users.some((u) => u.locationIds.includes(id))) throw new AccountError(409, "location_in_use", "Some users are limited to this location");
+    data.locations.splice(idx, 1);
+  });
+}
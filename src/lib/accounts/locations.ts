@@ -0,0 +1,37 @@
+// Location tree helpers shared by the API and the dashboard; no Node imports here.
+
+import type { StorageLocation } from "./types";
+
+/** `id` and every location under it. */
+export function subtreeIds(locations: StorageLocation[], id: string): string[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const l of locations) if (l.parentId === ids[i]) ids.push(l.id);
+  }
+  return ids;
+}
+
+/** "Main hospital › Ward 3 › Shelf B"; "" for an unknown id. */
+export function locationPath(locations: StorageLocation[], id: string | null | undefined): string {
+  const names: string[] = [];
+  let current = locations.find((l) => l.id === id);
+  while (current && names.length < 3) {
+    names.unshift(current.name);
+    const parentId = current.parentId;
+    current = locations.find((l) => l.id === parentId);
+  }
+  return names.join(" › ");
+}
+
+/** Sites, each followed by its rooms and their shelves, as a select lists them. */
+export function sortedTree(locations: StorageLocation[]): StorageLocation[] {
+  const sorted: StorageLocation[] = [];
+  const visit = (parentId: string | null) => {
+    for (const l of locations.filter((l) => l.parentId === parentId).sort((a, b) => a.name.localeCompare(b.name))) {
+      sorted.push(l);
+      visit(l.id);
+    }
+  };
+  visit(null);
+  return sorted;
+}
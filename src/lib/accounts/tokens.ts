@@ -0,0 +1,52 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/** The httpOnly cookie that keeps a browser signed in. */
+export const AUTH_COOKIE = "expiry_auth";
+
+export type AuthClaims = {
+  uid: string;
+  /** The user's tokenVersion when signing in. */
+  v: number;
+  exp: number;
+};
+
+const globalForAuth = globalThis as typeof globalThis & { authTokenSecret?: Buffer };
+
+function secret(): Buffer {
+  if (process.env.AUTH_SECRET) return Buffer.from(process.env.AUTH_SECRET, "utf8");
+  if (!globalForAuth.authTokenSecret) {
+    console.warn("AUTH_SECRET not set; sign-ins will not survive a restart or work across instances");
+    globalForAuth.authTokenSecret = randomBytes(32);
+  }
+  return globalForAuth.authTokenSecret;
+}
+
+export function authTtlMs(): number {
+  const hours = Number(process.env.AUTH_SESSION_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 12) * 60 * 60 * 1000;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+export function issueAuthToken(uid: string, version: number): { token: string; expiresAt: string } {
+  const claims: AuthClaims = { uid, v: version, exp: Date.now() + authTtlMs() };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(claims.exp).toISOString() };
+}
+
+/** Claims of a well-signed, unexpired token; null otherwise. */
+export function verifyAuthToken(token: string): AuthClaims | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as AuthClaims;
+    return claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
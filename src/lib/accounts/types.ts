@@ -0,0 +1,84 @@
+// Account, organization and location types shared by the API and the dashboard; no Node imports here.
+
+/** viewer reads, scanner also captures and edits, admin also manages users, locations and settings. */
+export type Role = "viewer" | "scanner" | "admin";
+
+export const ROLES: Role[] = ["viewer", "scanner", "admin"];
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** A location's kind follows from its depth: sites hold rooms, rooms hold shelves. */
+export type LocationKind = "site" | "room" | "shelf";
+
+export const LOCATION_KINDS: LocationKind[] = ["site", "room", "shelf"];
+
+export type Organization = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
+
+export type StorageLocation = {
+  id: string;
+  orgId: string;
+  /** null for a site. */
+  parentId: string | null;
+  name: string;
+  kind: LocationKind;
+  createdAt: string;
+};
+
+export type User = {
+  id: string;
+  orgId: string;
+  username: string;
+  /** Shown instead of the username when set. */
+  displayName?: string;
+  /** scrypt$<salt>$<hash>, both base64url. */
+  passwordHash: string;
+  role: Role;
+  /** Locations (with everything under them) the user works in; empty means the whole organization. */
+  locationIds: string[];
+  disabled?: boolean;
+  /** The account created at setup: it may also add organizations. */
+  owner?: boolean;
+  /** Bumped on password changes and when the account is disabled, so signed-in browsers are signed out. */
+  tokenVersion: number;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+};
+
+/** A user as the API returns it. */
+export type PublicUser = Omit<User, "passwordHash" | "tokenVersion">;
+
+export type AccountsData = {
+  orgs: Organization[];
+  users: User[];
+  locations: StorageLocation[];
+};
+
+export class AccountError extends Error {
+  constructor(
+    readonly status: 400 | 401 | 403 | 404 | 409,
+    readonly code:
+      | "invalid_input"
+      | "unauthorized"
+      | "forbidden"
+      | "setup_done"
+      | "username_taken"
+      | "user_not_found"
+      | "location_not_found"
+      | "location_in_use"
+      | "last_admin"
+      | "api_key_not_found",
+    message: string
+  ) {
+    super(message);
+    this.name = "AccountError";
+  }
+}
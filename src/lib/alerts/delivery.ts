@@ -0,0 +1,80 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import nodemailer from "nodemailer";
+import { digestHtml, digestSubject, digestText } from "./digest";
+import type { AlertDigest, AlertSubscription } from "./types";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export class DeliveryError extends Error {}
+
+/** Loopback, private, link-local (cloud metadata lives at 169.254.169.254) and other non-public ranges. */
+const PRIVATE_RANGES = new BlockList();
+for (const [net, prefix] of [["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12], ["192.168.0.0", 16]] as const) {
+  PRIVATE_RANGES.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10]] as const) {
+  PRIVATE_RANGES.addSubnet(net, prefix, "ipv6");
+}
+
+/** IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges too. */
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Webhooks only go to public hosts, so a subscription cannot make the server
+ * call into its own network. ALERT_WEBHOOK_ALLOW_PRIVATE=1 lifts this, e.g.
+ * for a receiver on the same machine.
+ */
+async function checkWebhookTarget(target: string) {
+  if (process.env.ALERT_WEBHOOK_ALLOW_PRIVATE === "1") return;
+  const host = new URL(target).hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true }).catch(() => [])).map((a) => a.address);
+  if (!addresses.length) throw new DeliveryError(`webhook host ${host} could not be resolved`);
+  if (addresses.some(isPrivateAddress)) throw new DeliveryError(`webhook host ${host} is on a private network`);
+}
+
+/** Hex HMAC-SHA256 of "<timestamp>.<body>"; receivers recompute it to check the sender and reject replays by timestamp. */
+export function webhookSignature(secret: string, timestamp: string, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+async function sendEmail(subscription: AlertSubscription, digest: AlertDigest) {
+  const url = process.env.SMTP_URL;
+  if (!url) throw new DeliveryError("SMTP_URL is not set");
+  const transport = nodemailer.createTransport(url);
+  await transport.sendMail({
+    from: process.env.ALERT_EMAIL_FROM || "expiry-alerts@localhost",
+    to: subscription.target,
+    subject: digestSubject(digest),
+    text: digestText(digest),
+    html: digestHtml(digest),
+  });
+}
+
+async function sendWebhook(subscription: AlertSubscription, digest: AlertDigest) {
+  await checkWebhookTarget(subscription.target);
+  const body = JSON.stringify({ type: "expiry.digest", ...digest });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const res = await fetch(subscription.target, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Expiry-Timestamp": timestamp,
+      "X-Expiry-Signature": `sha256=${webhookSignature(subscription.secret ?? "", timestamp, body)}`,
+    },
+    body,
+    // A redirect could point somewhere checkWebhookTarget never saw.
+    redirect: "manual",
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new DeliveryError(`webhook answered ${res.status}`);
+}
+
+/** Sends one digest; throws with a message fit to show next to the subscription. */
+export async function deliverDigest(subscription: AlertSubscription, digest: AlertDigest): Promise<void> {
+  if (subscription.channel === "email") await sendEmail(subscription, digest);
+  else await sendWebhook(subscription, digest);
+}
@@ -0,0 +1,112 @@
+// Pure alert selection and digest rendering, also used by the alerts page; no Node imports here.
+
+import type { InventoryItem } from "@/lib/items/types";
+import { daysBetween, normalizeExpiry } from "@/lib/status";
+import type { AlertDigest, AlertSubscription, DigestEntry, NotificationRecord } from "./types";
+
+export const DEFAULT_ALERT_THRESHOLDS = [30, 7, 0];
+
+/**
+ * The most urgent threshold `days` has reached: with 30/7/0, 5 days left is
+ * the 7-day alert and anything past expiry is the 0-day one. Null when no
+ * threshold is reached yet.
+ */
+export function crossedThreshold(days: number, thresholds: number[]): number | null {
+  const reached = thresholds.filter((t) => days <= t);
+  return reached.length ? Math.min(...reached) : null;
+}
+
+/** True when the item has not been alerted at this threshold or a more urgent one for its current expiry. */
+export function isDue(threshold: number, expiryDate: string, record: NotificationRecord | undefined): boolean {
+  return !record || record.expiryDate !== expiryDate || threshold < record.threshold;
+}
+
+export function watches(subscription: AlertSubscription, item: InventoryItem): boolean {
+  if (subscription.orgId && item.orgId !== subscription.orgId) return false;
+  return !subscription.categories.length || subscription.categories.includes(item.category.trim().toLowerCase());
+}
+
+/** Items that newly crossed one of the subscription's thresholds today. */
+export function dueEntries(
+  subscription: AlertSubscription,
+  items: InventoryItem[],
+  today: string,
+  notified: Record<string, Record<string, NotificationRecord>>
+): DigestEntry[] {
+  const entries: DigestEntry[] = [];
+  for (const item of items) {
+    const expiry = normalizeExpiry(item.expiryDate);
+    if (!expiry || !watches(subscription, item)) continue;
+    const days = daysBetween(today, expiry);
+    const threshold = crossedThreshold(days, subscription.thresholds);
+    if (threshold === null || !isDue(threshold, item.expiryDate, notified[item.id]?.[subscription.id])) continue;
+    entries.push({
+      itemId: item.id,
+      product: item.product,
+      category: item.category,
+      expiryDate: item.expiryDate,
+      days,
+      threshold,
+      status: item.status,
+      lot: item.lot,
+      gtin: item.gtin,
+    });
+  }
+  return entries.sort((a, b) => a.days - b.days);
+}
+
+export function describeDays(days: number): string {
+  if (days < 0) return `expired ${-days} day${days === -1 ? "" : "s"} ago`;
+  if (days === 0) return "expires today";
+  return `expires in ${days} day${days === 1 ? "" : "s"}`;
+}
+
+function groupTitle(threshold: number): string {
+  return threshold === 0 ? "Expired or expiring today" : `Within ${threshold} days`;
+}
+
+/** Entries by the threshold they crossed, most urgent group first. */
+function groups(digest: AlertDigest): [string, DigestEntry[]][] {
+  const thresholds = [...new Set(digest.entries.map((e) => e.threshold))].sort((a, b) => a - b);
+  return thresholds.map((t) => [groupTitle(t), digest.entries.filter((e) => e.threshold === t)]);
+}
+
+export function digestSubject(digest: AlertDigest): string {
+  const counts = groups(digest).map(([title, entries]) => `${entries.length} ${title.toLowerCase()}`);
+  const total = digest.entries.length;
+  return `Expiry alert: ${total} item${total === 1 ? "" : "s"} (${counts.join(", ")})`;
+}
+
+function entryLine(e: DigestEntry): string {
+  const details = [e.category, e.lot && `lot ${e.lot}`, e.gtin && `GTIN ${e.gtin}`].filter(Boolean).join(", ");
+  return `${e.product || "Unnamed item"} — ${e.expiryDate}, ${describeDays(e.days)}${details ? ` (${details})` : ""}`;
+}
+
+export function digestText(digest: AlertDigest): string {
+  const lines = [`Expiry alerts for ${digest.date} (${digest.subscription.name})`, ""];
+  for (const [title, entries] of groups(digest)) {
+    lines.push(`${title}:`, ...entries.map((e) => `  - ${entryLine(e)}`), "");
+  }
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+export function digestHtml(digest: AlertDigest): string {
+  const sections = groups(digest).map(([title, entries]) => {
+    const rows = entries
+      .map(
+        (e) =>
+          `<tr><td>${escapeHtml(e.product || "Unnamed item")}</td><td>${escapeHtml(e.category)}</td><td>${e.expiryDate}</td>` +
+          `<td>${describeDays(e.days)}</td><td>${escapeHtml(e.lot)}</td><td>${escapeHtml(e.gtin)}</td></tr>`
+      )
+      .join("");
+    return (
+      `<h3>${escapeHtml(title)}</h3><table cellpadding="4" border="1" style="border-collapse:collapse">` +
+      `<tr><th>Product</th><th>Category</th><th>Expiry</th><th></th><th>Lot</th><th>GTIN</th></tr>${rows}</table>`
+    );
+  });
+  return `<p>Expiry alerts for ${digest.date} (${escapeHtml(digest.subscription.name)})</p>${sections.join("")}`;
+}
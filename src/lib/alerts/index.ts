@@ -0,0 +1,223 @@
+import { randomBytes, randomUUID } from "crypto";
+import { listItems } from "@/lib/items";
+import { getStatusRules, statusRulesLookup } from "@/lib/settings";
+import { createJsonFile } from "@/lib/store/json-file";
+import { todayIn } from "@/lib/status";
+import { deliverDigest } from "./delivery";
+import { DEFAULT_ALERT_THRESHOLDS, dueEntries } from "./digest";
+import type {
+  AlertDigest,
+  AlertRunResult,
+  AlertSubscription,
+  DeliveryResult,
+  NotificationRecord,
+  SubscriptionInput,
+} from "./types";
+
+export { DEFAULT_ALERT_THRESHOLDS } from "./digest";
+export type { AlertChannel, AlertRunResult, AlertSubscription, SubscriptionInput } from "./types";
+
+type AlertState = {
+  subscriptions: AlertSubscription[];
+  /** itemId → subscriptionId → last alert sent. */
+  notified: Record<string, Record<string, NotificationRecord>>;
+  /** Calendar date of the last scheduled run, on the status rules' time zone. */
+  lastRunDate: string | null;
+};
+
+const file = createJsonFile<AlertState>("alerts.json", () => ({ subscriptions: [], notified: {}, lastRunDate: null }));
+
+const MAX_THRESHOLDS = 10;
+const MAX_DAYS = 3650;
+const EMAIL = /^[^\s@]+@[^\s@]+$/;
+
+function newSecret(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/** Checks a create or update body; `existing` fills in whatever an update leaves out. */
+export function validateSubscription(value: unknown, existing?: AlertSubscription): { input: SubscriptionInput } | { error: string } {
+  if (!value || typeof value !== "object") return { error: "subscription must be an object" };
+  const raw = value as Record<string, unknown>;
+  const name = typeof raw.name === "string" ? raw.name.trim().slice(0, 80) : existing?.name ?? "";
+  if (!name) return { error: "name required" };
+  const channel = raw.channel ?? existing?.channel;
+  if (channel !== "email" && channel !== "webhook") return { error: "channel must be email or webhook" };
+  const target = typeof raw.target === "string" ? raw.target.trim() : existing?.target ?? "";
+  if (channel === "email" && !EMAIL.test(target)) return { error: "target must be an email address" };
+  if (channel === "webhook") {
+    let url: URL | null = null;
+    try {
+      url = new URL(target);
+    } catch {
+      // Reported below.
+    }
+    if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) return { error: "target must be an http(s) URL" };
+  }
+  const thresholds = raw.thresholds === undefined ? existing?.thresholds ?? DEFAULT_ALERT_THRESHOLDS : raw.thresholds;
+  if (
+    !Array.isArray(thresholds) ||
+    !thresholds.length ||
+    thresholds.length > MAX_THRESHOLDS ||
+    !thresholds.every((t) => Number.isInteger(t) && t >= 0 && t <= MAX_DAYS)
+  ) {
+    return { error: `thresholds must be 1–${MAX_THRESHOLDS} whole day counts (0–${MAX_DAYS})` };
+  }
+  const categories = raw.categories === undefined ? existing?.categories ?? [] : raw.categories;
+  if (!Array.isArray(categories) || !categories.every((c) => typeof c === "string")) {
+    return { error: "categories must be a list of names" };
+  }
+  const enabled = typeof raw.enabled === "boolean" ? raw.enabled : existing?.enabled ?? true;
+  return {
+    input: {
+      name,
+      channel,
+      target,
+      thresholds: [...new Set(thresholds as number[])].sort((a, b) => b - a),
+      categories: [...new Set((categories as string[]).map((c) => c.trim().toLowerCase()).filter(Boolean))],
+      enabled,
+    },
+  };
+}
+
+export async function getAlertState(): Promise<Pick<AlertState, "subscriptions" | "lastRunDate">> {
+  const { subscriptions, lastRunDate } = await file.read();
+  return { subscriptions, lastRunDate };
+}
+
+export async function createSubscription(input: SubscriptionInput, orgId?: string): Promise<AlertSubscription> {
+  const now = new Date().toISOString();
+  const subscription: AlertSubscription = {
+    id: randomUUID(),
+    ...input,
+    ...(orgId ? { orgId } : {}),
+    ...(input.channel === "webhook" ? { secret: newSecret() } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+  return file.update((data) => {
+    data.subscriptions.push(subscription);
+    return subscription;
+  });
+}
+
+export async function getSubscription(id: string): Promise<AlertSubscription | null> {
+  const { subscriptions } = await file.read();
+  return subscriptions.find((s) => s.id === id) ?? null;
+}
+
+/** `rotateSecret` issues a new webhook secret; switching a subscription to webhook issues one too. */
+export async function updateSubscription(
+  id: string,
+  input: SubscriptionInput,
+  options: { rotateSecret?: boolean } = {}
+): Promise<AlertSubscription | null> {
+  return file.update((data) => {
+    const subscription = data.subscriptions.find((s) => s.id === id);
+    if (!subscription) return null;
+    Object.assign(subscription, input, { updatedAt: new Date().toISOString() });
+    if (input.channel === "webhook" && (options.rotateSecret || !subscription.secret)) subscription.secret = newSecret();
+    if (input.channel === "email") delete subscription.secret;
+    return { ...subscription };
+  });
+}
+
+export async function deleteSubscription(id: string): Promise<boolean> {
+  return file.update((data) => {
+    const before = data.subscriptions.length;
+    data.subscriptions = data.subscriptions.filter((s) => s.id !== id);
+    for (const records of Object.values(data.notified)) delete records[id];
+    return data.subscriptions.length < before;
+  });
+}
+
+/** Gives subscriptions made before accounts existed to the organization created at setup. */
+export async function claimUnownedSubscriptions(orgId: string): Promise<void> {
+  await file.update((data) => {
+    for (const subscription of data.subscriptions) subscription.orgId ??= orgId;
+  });
+}
+
+async function deliver(subscription: AlertSubscription, digest: AlertDigest): Promise<DeliveryResult> {
+  const result = { subscriptionId: subscription.id, name: subscription.name, channel: subscription.channel, items: digest.entries.length };
+  try {
+    await deliverDigest(subscription, digest);
+    return { ...result, sent: true };
+  } catch (err) {
+    return { ...result, sent: false, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+const globalForAlerts = globalThis as typeof globalThis & { alertRun?: Promise<AlertRunResult> | null };
+
+async function run(dryRun: boolean, now: Date): Promise<AlertRunResult> {
+  const [items, rulesFor, state] = await Promise.all([listItems(), statusRulesLookup(), file.read()]);
+  const date = todayIn(rulesFor().timeZone, now);
+  const generatedAt = now.toISOString();
+  const digests: AlertDigest[] = [];
+  const deliveries: DeliveryResult[] = [];
+  for (const subscription of state.subscriptions.filter((s) => s.enabled)) {
+    // Each organization's "today" is on its own time zone.
+    const today = todayIn(rulesFor(subscription.orgId).timeZone, now);
+    const entries = dueEntries(subscription, items, today, state.notified);
+    if (!entries.length) continue;
+    const digest = { subscription: { id: subscription.id, name: subscription.name }, generatedAt, date: today, entries };
+    digests.push(digest);
+    if (!dryRun) deliveries.push(await deliver(subscription, digest));
+  }
+  if (dryRun) return { date, dryRun, deliveries, digests };
+
+  await file.update((data) => {
+    const itemIds = new Set(items.map((i) => i.id));
+    for (const id of Object.keys(data.notified)) if (!itemIds.has(id)) delete data.notified[id];
+    for (const delivery of deliveries) {
+      const subscription = data.subscriptions.find((s) => s.id === delivery.subscriptionId);
+      if (!subscription) continue;
+      if (!delivery.sent) {
+        // Not recorded as notified, so the same items go out with the next run.
+        subscription.lastError = delivery.error;
+        continue;
+      }
+      subscription.lastSentAt = generatedAt;
+      delete subscription.lastError;
+      const digest = digests.find((d) => d.subscription.id === subscription.id)!;
+      for (const entry of digest.entries) {
+        data.notified[entry.itemId] = {
+          ...data.notified[entry.itemId],
+          [subscription.id]: { threshold: entry.threshold, expiryDate: entry.expiryDate, sentAt: generatedAt },
+        };
+      }
+    }
+    data.lastRunDate = date;
+  });
+  return { date, dryRun, deliveries, digests: digests.filter((d) => deliveries.find((r) => r.subscriptionId === d.subscription.id)?.sent) };
+}
+
+/**
+ * Checks every enabled subscription and sends one digest each for items that
+ * crossed a threshold since they were last alerted. Runs never overlap; a
+ * second call while one is in progress gets the first one's result.
+ */
+export async function runAlerts({ dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}): Promise<AlertRunResult> {
+  if (dryRun) return run(true, now);
+  if (!globalForAlerts.alertRun) {
+    globalForAlerts.alertRun = run(false, now).finally(() => {
+      globalForAlerts.alertRun = null;
+    });
+  }
+  return globalForAlerts.alertRun;
+}
+
+/** A sample digest so a new subscription can be checked end to end; records nothing. */
+export async function sendTestDigest(subscription: AlertSubscription): Promise<DeliveryResult> {
+  const rules = await getStatusRules(subscription.orgId);
+  const digest: AlertDigest = {
+    subscription: { id: subscription.id, name: subscription.name },
+    generatedAt: new Date().toISOString(),
+    date: todayIn(rules.timeZone),
+    entries: [
+      { itemId: "test", product: "Test item", category: "", expiryDate: todayIn(rules.timeZone), days: 0, threshold: 0, status: "Expires Today", lot: "TEST", gtin: "" },
+    ],
+  };
+  return deliver(subscription, digest);
+}
@@ -0,0 +1,43 @@
+import { getStatusRules } from "@/lib/settings";
+import { todayIn } from "@/lib/status";
+import { getAlertState, runAlerts } from "./index";
+
+const TICK_MS = 15 * 60 * 1000;
+
+const globalForScheduler = globalThis as typeof globalThis & { alertTimer?: ReturnType<typeof setInterval> };
+
+export function schedulerEnabled(): boolean {
+  return process.env.ALERTS_SCHEDULER !== "off";
+}
+
+/** Hour of day (0–23, on the deployment-wide status rules' time zone) after which the daily run happens. */
+export function alertHour(): number {
+  const hour = Number(process.env.ALERT_HOUR);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 8;
+}
+
+function hourIn(timeZone: string, now: Date): number {
+  return Number(new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", hourCycle: "h23" }).format(now));
+}
+
+async function tick() {
+  try {
+    const now = new Date();
+    const [rules, { lastRunDate }] = await Promise.all([getStatusRules(), getAlertState()]);
+    if (lastRunDate === todayIn(rules.timeZone, now) || hourIn(rules.timeZone, now) < alertHour()) return;
+    await runAlerts({ now });
+  } catch (err) {
+    console.error("expiry alert run failed", err);
+  }
+}
+
+/**
+ * Checks every 15 minutes whether today's run is due, so a server that was
+ * down at the alert hour catches up when it starts. Safe to call repeatedly.
+ */
+export function startAlertScheduler() {
+  if (!schedulerEnabled() || globalForScheduler.alertTimer) return;
+  globalForScheduler.alertTimer = setInterval(() => void tick(), TICK_MS);
+  globalForScheduler.alertTimer.unref?.();
+  void tick();
+}
@@ -0,0 +1,73 @@
+import type { ExpiryStatus } from "@/lib/status";
+
+export type AlertChannel = "email" | "webhook";
+
+export type AlertSubscription = {
+  id: string;
+  name: string;
+  channel: AlertChannel;
+  /** Email address or webhook URL. */
+  target: string;
+  /** HMAC key for webhook signatures; receivers verify with it. */
+  secret?: string;
+  /** Days before expiry that trigger an alert, most distant first; 0 means on the day and after. */
+  thresholds: number[];
+  /** Lower-cased categories to watch; empty watches every item. */
+  categories: string[];
+  enabled: boolean;
+  /** Organization whose items it watches; unset before accounts are set up, when it watches all of them. */
+  orgId?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastSentAt?: string;
+  /** Why the last delivery failed; cleared by the next one that succeeds. */
+  lastError?: string;
+};
+
+export type SubscriptionInput = Pick<AlertSubscription, "name" | "channel" | "target" | "thresholds" | "categories" | "enabled">;
+
+/** The most urgent threshold an item was last alerted at, per subscription. */
+export type NotificationRecord = {
+  threshold: number;
+  /** The expiry it was alerted for; a changed date starts the item over. */
+  expiryDate: string;
+  sentAt: string;
+};
+
+export type DigestEntry = {
+  itemId: string;
+  product: string;
+  category: string;
+  expiryDate: string;
+  /** Days from today; negative once expired. */
+  days: number;
+  threshold: number;
+  status: ExpiryStatus;
+  lot: string;
+  gtin: string;
+};
+
+export type AlertDigest = {
+  subscription: Pick<AlertSubscription, "id" | "name">;
+  generatedAt: string;
+  /** The calendar date the digest is for, on the status rules' time zone. */
+  date: string;
+  entries: DigestEntry[];
+};
+
+export type DeliveryResult = {
+  subscriptionId: string;
+  name: string;
+  channel: AlertChannel;
+  items: number;
+  sent: boolean;
+  error?: string;
+};
+
+export type AlertRunResult = {
+  date: string;
+  dryRun: boolean;
+  deliveries: DeliveryResult[];
+  /** Digests that were (or with `dryRun` would have been) sent. */
+  digests: AlertDigest[];
+};
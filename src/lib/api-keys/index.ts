@@ -0,0 +1,94 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { accessForKey, AccountError, hasRole, listLocations, type Access, type Role } from "@/lib/accounts";
+import { createJsonFile } from "@/lib/store/json-file";
+import { API_KEY_PREFIX, API_KEY_ROLES, type ApiKey, type ApiKeyRole, type PublicApiKey } from "./types";
+
+export { API_KEY_PREFIX, API_KEY_ROLES } from "./types";
+export type { ApiKey, ApiKeyRole, PublicApiKey } from "./types";
+
+const file = createJsonFile<{ keys: ApiKey[] }>("api-keys.json", () => ({ keys: [] }));
+
+const MAX_NAME_LENGTH = 80;
+const MAX_RATE_LIMIT = 10_000;
+/** lastUsedAt is only written this often, so a busy key does not rewrite the file on every request. */
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+function hashKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function toPublicApiKey(key: ApiKey): PublicApiKey {
+  const view: Partial<ApiKey> = { ...key };
+  delete view.hash;
+  return view as PublicApiKey;
+}
+
+export async function listApiKeys(orgId: string): Promise<ApiKey[]> {
+  return (await file.read()).keys.filter((k) => k.orgId === orgId);
+}
+
+/** Issues a key for an integration. Returns the key itself, which is not stored and cannot be shown again. */
+export async function createApiKey(orgId: string, createdBy: string, body: Record<string, unknown>): Promise<{ key: ApiKey; secret: string }> {
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) throw new AccountError(400, "invalid_input", `name is required (at most ${MAX_NAME_LENGTH} characters)`);
+  const role = body.role ?? "viewer";
+  if (!API_KEY_ROLES.includes(role as ApiKeyRole)) throw new AccountError(400, "invalid_input", `role must be one of ${API_KEY_ROLES.join(", ")}`);
+  const locationIds = body.locationIds ?? [];
+  if (!Array.isArray(locationIds) || !locationIds.every((id) => typeof id === "string")) {
+    throw new AccountError(400, "invalid_input", "locationIds must be a list of location ids");
+  }
+  const locations = await listLocations(orgId);
+  for (const id of locationIds as string[]) {
+    if (!locations.some((l) => l.id === id)) throw new AccountError(400, "invalid_input", `unknown location ${id}`);
+  }
+  const rateLimit = body.rateLimit === undefined || body.rateLimit === null ? null : Number(body.rateLimit);
+  if (rateLimit !== null && (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_RATE_LIMIT)) {
+    throw new AccountError(400, "invalid_input", `rateLimit must be a whole number of requests per minute (1–${MAX_RATE_LIMIT})`);
+  }
+
+  const secret = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const key: ApiKey = {
+    id: randomUUID(),
+    orgId,
+    name,
+    hash: hashKey(secret),
+    hint: secret.slice(0, API_KEY_PREFIX.length + 4),
+    role: role as ApiKeyRole,
+    locationIds: [...new Set(locationIds as string[])],
+    rateLimit,
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  await file.update((data) => {
+    data.keys.push(key);
+  });
+  return { key, secret };
+}
+
+/** Stops a key working at once. It stays listed as revoked. */
+export async function revokeApiKey(orgId: string, id: string): Promise<ApiKey> {
+  return file.update((data) => {
+    const key = data.keys.find((k) => k.id === id && k.orgId === orgId);
+    if (!key) throw new AccountError(404, "api_key_not_found", `API key ${id} not found`);
+    key.revokedAt ??= new Date().toISOString();
+    return key;
+  });
+}
+
+/**
+ * Resolves an API key to the key and what it may do. Throws 401 for an
+ * unknown or revoked key and 403 when its role is below `role`.
+ */
+export async function accessForApiKey(secret: string | null, role: Role): Promise<{ key: ApiKey; access: Access }> {
+  const hash = secret?.startsWith(API_KEY_PREFIX) ? hashKey(secret) : null;
+  const key = hash ? (await file.read()).keys.find((k) => k.hash === hash) : undefined;
+  if (!key || key.revokedAt) throw new AccountError(401, "unauthorized", "A valid API key is required");
+  if (!hasRole(key.role, role)) throw new AccountError(403, "forbidden", `This needs a key with the ${role} role`);
+  if (!key.lastUsedAt || Date.now() - Date.parse(key.lastUsedAt) > TOUCH_INTERVAL_MS) {
+    await file.update((data) => {
+      const stored = data.keys.find((k) => k.id === key.id);
+      if (stored) stored.lastUsedAt = new Date().toISOString();
+    });
+  }
+  return { key, access: await accessForKey(key) };
+}
@@ -0,0 +1,34 @@
+// API key types shared by the admin API and the dashboard; no Node imports here.
+
+import type { Role } from "@/lib/accounts/types";
+
+/** Keys act for an integration, never as an admin. */
+export type ApiKeyRole = Exclude<Role, "admin">;
+
+export const API_KEY_ROLES: ApiKeyRole[] = ["viewer", "scanner"];
+
+/** Every key starts with this, so a leaked one is easy to spot in logs and secret scanners. */
+export const API_KEY_PREFIX = "exk_";
+
+export type ApiKey = {
+  id: string;
+  orgId: string;
+  /** Which integration uses it, e.g. "SAP EWM". */
+  name: string;
+  /** SHA-256 of the whole key; the key itself is shown once, when it is created. */
+  hash: string;
+  /** The key's first characters, to tell keys apart in the list. */
+  hint: string;
+  role: ApiKeyRole;
+  /** Locations (with everything under them) the key works in; empty means the whole organization. */
+  locationIds: string[];
+  /** Requests allowed per minute; null uses API_RATE_LIMIT_PER_MINUTE. */
+  rateLimit: number | null;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+};
+
+/** A key as the admin API returns it. */
+export type PublicApiKey = Omit<ApiKey, "hash">;
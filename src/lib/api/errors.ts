@@ -0,0 +1,101 @@
+import { AccountError } from "@/lib/accounts/types";
+import { classifyError } from "@/lib/jobs/errors";
+
+/** Every code a /api/v1 error may carry; integrators switch on these rather than on messages. */
+export const API_ERROR_CODES = [
+  "invalid_request",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "payload_too_large",
+  "unsupported_media_type",
+  "rate_limited",
+  "provider_unavailable",
+  "provider_error",
+  "network_error",
+  "analysis_failed",
+  "internal_error",
+] as const;
+
+export type ApiErrorCode = (typeof API_ERROR_CODES)[number];
+
+/**
+ * The body of every /api/v1 error. `retryable` says whether sending the same
+ * request again may succeed; `retryAfterSeconds`, when set, says how long to
+ * wait first. `requestId` matches the X-Request-Id header and the server log.
+ */
+export type ApiErrorBody = {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    status: number;
+    requestId: string;
+    retryable: boolean;
+    retryAfterSeconds?: number;
+    details?: Record<string, unknown>;
+  };
+};
+
+/** Thrown by /api/v1 handlers to answer with a specific error. */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly extra: { retryable?: boolean; retryAfterSeconds?: number; details?: Record<string, unknown> } = {}
+  ) {
+    super(message);
+  }
+}
+
+const ACCOUNT_CODES: Record<number, ApiErrorCode> = { 400: "invalid_request", 401: "unauthorized", 403: "forbidden", 404: "not_found" };
+
+const ANALYSIS_STATUSES: Record<string, number> = {
+  rate_limited: 503,
+  provider_error: 502,
+  network_error: 502,
+  provider_unavailable: 503,
+  unsupported_media_type: 415,
+  analysis_failed: 502,
+};
+
+/** An error from reading a label, sorted as the job queue sorts them; the provider's own rate limit is a 503. */
+export function analysisApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  const classified = classifyError(err);
+  return new ApiError(ANALYSIS_STATUSES[classified.code] ?? 502, classified.code as ApiErrorCode, classified.message, {
+    retryable: classified.retryable,
+    retryAfterSeconds: classified.retryAfterMs === undefined ? undefined : Math.ceil(classified.retryAfterMs / 1000),
+  });
+}
+
+/**
+ * Turns anything a handler threw into an ApiError: AccountErrors keep their
+ * status, provider and image errors are sorted as the job queue sorts them,
+ * and anything else is a 500 whose message stays in the server log.
+ */
+export function toApiError(err: unknown): ApiError {
+  if (err instanceof ApiError) return err;
+  if (err instanceof AccountError) {
+    const code = ACCOUNT_CODES[err.status] ?? "invalid_request";
+    return new ApiError(err.status, code, err.message, err.code === code ? {} : { details: { reason: err.code } });
+  }
+  if (classifyError(err).code !== "analysis_failed") return analysisApiError(err);
+  return new ApiError(500, "internal_error", "Something went wrong on our side; quote the requestId if it keeps happening", { retryable: true });
+}
+
+export function apiErrorResponse(err: ApiError, requestId: string, headers: HeadersInit = {}): Response {
+  const body: ApiErrorBody = {
+    error: {
+      code: err.code,
+      message: err.message,
+      status: err.status,
+      requestId,
+      retryable: err.extra.retryable ?? false,
+      ...(err.extra.retryAfterSeconds !== undefined ? { retryAfterSeconds: err.extra.retryAfterSeconds } : {}),
+      ...(err.extra.details ? { details: err.extra.details } : {}),
+    },
+  };
+  const extra: Record<string, string> = err.extra.retryAfterSeconds !== undefined ? { "Retry-After": String(err.extra.retryAfterSeconds) } : {};
+  return Response.json(body, { status: err.status, headers: { ...headers, ...extra } });
+}
@@ -0,0 +1,44 @@
+import { randomUUID } from "crypto";
+import type { NextRequest } from "next/server";
+import type { Access, Role } from "@/lib/accounts";
+import { accessForApiKey, type ApiKey } from "@/lib/api-keys";
+import { ApiError, apiErrorResponse, toApiError } from "./errors";
+import { defaultRateLimit, rateLimitHeaders, takeRequest } from "./rate-limit";
+
+export type ApiCall = { access: Access; key: ApiKey; requestId: string };
+
+const REQUEST_ID = /^[\w.:-]{1,100}$/;
+
+/** The key from `Authorization: Bearer <key>` or `X-API-Key: <key>`. */
+function readApiKey(req: NextRequest): string | null {
+  const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return bearer?.[1] ?? req.headers.get("x-api-key")?.trim() ?? null;
+}
+
+/**
+ * Runs a /api/v1 handler: checks the API key has `role`, counts the request
+ * against the key's rate limit and answers anything thrown with the v1 error
+ * object. Every response carries X-Request-Id (the caller's, when it sent a
+ * usable one) and, once the key is known, the X-RateLimit-* headers.
+ */
+export async function handleApiRequest(req: NextRequest, role: Role, handler: (call: ApiCall) => Promise<Response>): Promise<Response> {
+  const sent = req.headers.get("x-request-id");
+  const requestId = sent && REQUEST_ID.test(sent) ? sent : randomUUID();
+  const headers: Record<string, string> = { "X-Request-Id": requestId };
+  try {
+    const { key, access } = await accessForApiKey(readApiKey(req), role);
+    const limit = takeRequest(key.id, key.rateLimit ?? defaultRateLimit());
+    Object.assign(headers, rateLimitHeaders(limit));
+    if (!limit.allowed) {
+      const wait = Math.max(1, limit.reset - Math.floor(Date.now() / 1000));
+      throw new ApiError(429, "rate_limited", `This key may make ${limit.limit} requests a minute`, { retryable: true, retryAfterSeconds: wait });
+    }
+    const res = await handler({ access, key, requestId });
+    for (const [name, value] of Object.entries(headers)) res.headers.set(name, value);
+    return res;
+  } catch (err) {
+    const apiError = toApiError(err);
+    if (apiError.status >= 500) console.error(`/api/v1 ${requestId}`, err instanceof Error ? err.message : String(err));
+    return apiErrorResponse(apiError, requestId, headers);
+  }
+}
@@ -0,0 +1,56 @@
+import type { InventoryItem } from "@/lib/items/types";
+import { ApiError } from "./errors";
+
+/** An item as /api/v1 returns it: without the dashboard's bookkeeping, with a link to its photo. */
+export type ApiItem = Omit<InventoryItem, "perceptualHash" | "possibleDuplicates" | "sessionId" | "sessionImageId"> & { imageUrl: string | null };
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+export function toApiItem(item: InventoryItem, origin: string): ApiItem {
+  const view: Partial<InventoryItem> = { ...item };
+  delete view.perceptualHash;
+  delete view.possibleDuplicates;
+  delete view.sessionId;
+  delete view.sessionImageId;
+  return { ...(view as InventoryItem), imageUrl: item.imageId ? `${origin}/api/v1/items/${item.id}/image` : null };
+}
+
+function encodeCursor(item: InventoryItem): string {
+  return Buffer.from(`${item.updatedAt}|${item.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { updatedAt: string; id: string } {
+  const [updatedAt, id] = Buffer.from(cursor, "base64url").toString("utf8").split("|");
+  if (!id || Number.isNaN(Date.parse(updatedAt))) throw new ApiError(400, "invalid_request", "cursor is not one this API returned");
+  return { updatedAt, id };
+}
+
+/**
+ * Items oldest change first, from after `cursor`, at most `limit`. Pass
+ * `nextCursor` back to get the next page; once `hasMore` is false, keep it
+ * to fetch only what changed on the next sync.
+ */
+export function pageItems(
+  items: InventoryItem[],
+  params: URLSearchParams
+): { items: InventoryItem[]; nextCursor: string | null; hasMore: boolean } {
+  const limitParam = params.get("limit");
+  const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, "invalid_request", `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  const updatedSince = params.get("updatedSince");
+  if (updatedSince !== null && Number.isNaN(Date.parse(updatedSince))) {
+    throw new ApiError(400, "invalid_request", "updatedSince must be an ISO 8601 timestamp");
+  }
+  const cursor = params.get("cursor");
+  const after = cursor ? decodeCursor(cursor) : null;
+
+  const sorted = items
+    .filter((i) => updatedSince === null || Date.parse(i.updatedAt) >= Date.parse(updatedSince))
+    .filter((i) => !after || i.updatedAt > after.updatedAt || (i.updatedAt === after.updatedAt && i.id > after.id))
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt) || a.id.localeCompare(b.id));
+  const page = sorted.slice(0, limit);
+  return { items: page, nextCursor: page.length ? encodeCursor(page[page.length - 1]) : cursor, hasMore: sorted.length > limit };
+}
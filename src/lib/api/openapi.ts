@@ -0,0 +1,290 @@
+import { API_KEY_PREFIX } from "@/lib/api-keys/types";
+import { EXPORT_FORMATS } from "@/lib/export/filters";
+import { ITEM_FIELDS, MAX_ITEM_PHOTOS } from "@/lib/items/types";
+import { EXPIRY_STATUSES } from "@/lib/status";
+import { API_ERROR_CODES } from "./errors";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./items";
+
+type Schema = Record<string, unknown>;
+
+const string: Schema = { type: "string" };
+const date: Schema = { type: "string", description: "YYYY-MM-DD, or empty when the label has none" };
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+function errorResponses(...statuses: number[]): Record<string, Schema> {
+  const descriptions: Record<number, string> = {
+    400: "The request is invalid; `details.field` names the offending field when there is one",
+    401: "No API key, or an unknown or revoked one",
+    403: "The key's role does not allow this",
+    404: "Not found, or not visible to this key",
+    413: "Too many images",
+    415: "An image is not a format the server reads",
+    429: "The key's rate limit is used up; wait `retryAfterSeconds`",
+    502: "The extraction provider failed",
+    503: "The extraction provider is not configured or is rate limiting the server",
+  };
+  return Object.fromEntries(
+    statuses.map((status) => [String(status), { description: descriptions[status], content: { "application/json": { schema: ref("Error") } } }])
+  );
+}
+
+const rateLimitHeaders = {
+  "X-RateLimit-Limit": { description: "Requests the key may make per minute", schema: { type: "integer" } },
+  "X-RateLimit-Remaining": { description: "Requests left in the current minute", schema: { type: "integer" } },
+  "X-RateLimit-Reset": { description: "When the current minute ends, in epoch seconds", schema: { type: "integer" } },
+  "X-Request-Id": { description: "Echoes the caller's X-Request-Id or a generated one; quote it when reporting a problem", schema: string },
+};
+
+const locationParam = { name: "location", in: "query", description: "Only items at this location and everything under it", schema: string };
+
+const filterParams = [
+  {
+    name: "status",
+    in: "query",
+    description: "Comma-separated or repeated; any spelling of the status names works",
+    schema: { type: "array", items: { type: "string", enum: EXPIRY_STATUSES } },
+    style: "form",
+    explode: false,
+  },
+  { name: "from", in: "query", description: "Inclusive lower bound on `dateField`", schema: { type: "string", format: "date" } },
+  { name: "to", in: "query", description: "Inclusive upper bound on `dateField`", schema: { type: "string", format: "date" } },
+  { name: "dateField", in: "query", schema: { type: "string", enum: ["expiryDate", "createdAt"], default: "expiryDate" } },
+  { name: "search", in: "query", description: "Case-insensitive match on the product and label identifiers", schema: string },
+  locationParam,
+];
+
+/** The OpenAPI 3.1 description of /api/v1, built from the same constants the routes check against. */
+export function openApiDocument(origin: string): Schema {
+  const itemFields = Object.fromEntries(ITEM_FIELDS.map((f) => [f, f === "expiryDate" || f === "manufactureDate" ? date : string]));
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Mobile Expiry Date API",
+      version: "1.0.0",
+      description:
+        "Read expiry labels and sync inventory items into other systems. Authenticate with an API key issued on the admin page, " +
+        `sent as \`Authorization: Bearer ${API_KEY_PREFIX}...\` or \`X-API-Key\`. Every error has the same shape; switch on \`error.code\` ` +
+        "and retry only when `error.retryable` is true.",
+    },
+    servers: [{ url: `${origin}/api/v1` }],
+    security: [{ bearer: [] }, { apiKeyHeader: [] }],
+    paths: {
+      "/analyze": {
+        post: {
+          summary: "Read a label without storing anything",
+          description: `Scanner keys only. Several \`image\` fields (at most ${MAX_ITEM_PHOTOS}) are read as sides of the same package.`,
+          requestBody: {
+            required: true,
+            content: {
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  required: ["image"],
+                  properties: {
+                    image: { type: "array", items: { type: "string", format: "binary" }, maxItems: MAX_ITEM_PHOTOS },
+                    locale: { type: "string", description: "BCP 47 locale deciding whether 03/04 is the 3rd of April or March 4th" },
+                    manualProduct: string,
+                    manualDate: { type: "string", format: "date" },
+                    provider: { type: "string", description: "Extraction provider; the server default when left out" },
+                  },
+                },
+              },
+            },
+          },
+          responses: {
+            "200": { description: "What the label says", headers: rateLimitHeaders, content: { "application/json": { schema: { type: "object", properties: { result: ref("Analysis") } } } } },
+            ...errorResponses(400, 401, 403, 413, 415, 429, 502, 503),
+          },
+        },
+      },
+      "/items": {
+        get: {
+          summary: "List items, oldest change first",
+          description: "Page with `limit` and `cursor`. Once `hasMore` is false, keep `nextCursor` and send it next time to get only what changed since.",
+          parameters: [
+            ...filterParams,
+            { name: "updatedSince", in: "query", schema: { type: "string", format: "date-time" } },
+            { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE } },
+            { name: "cursor", in: "query", schema: string },
+          ],
+          responses: {
+            "200": {
+              description: "A page of items",
+              headers: rateLimitHeaders,
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: { items: { type: "array", items: ref("Item") }, nextCursor: { type: ["string", "null"] }, hasMore: { type: "boolean" } },
+                  },
+                },
+              },
+            },
+            ...errorResponses(400, 401, 403),
+          },
+        },
+        post: {
+          summary: "Store an item",
+          description:
+            "Scanner keys only. With an image the label is read in the background: the reply is 202 with the job to poll at /jobs/{id}. " +
+            "Without one, or with `analyze=false`, the item is stored as given (201).",
+          requestBody: {
+            required: true,
+            content: {
+              "multipart/form-data": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    image: { type: "string", format: "binary" },
+                    analyze: { type: "boolean", default: true },
+                    locale: string,
+                    provider: string,
+                    ...itemFields,
+                    category: string,
+                    locationId: string,
+                  },
+                },
+              },
+              "application/json": { schema: { type: "object", properties: { ...itemFields, category: string, locationId: string } } },
+            },
+          },
+          responses: {
+            "201": { description: "Stored", headers: rateLimitHeaders, content: { "application/json": { schema: { type: "object", properties: { item: ref("Item") } } } } },
+            "202": {
+              description: "Stored; the label is being read",
+              headers: rateLimitHeaders,
+              content: { "application/json": { schema: { type: "object", properties: { item: ref("Item"), job: ref("Job") } } } },
+            },
+            ...errorResponses(400, 401, 403, 415, 429, 503),
+          },
+        },
+      },
+      "/items/{id}": {
+        get: {
+          summary: "Get one item",
+          parameters: [{ name: "id", in: "path", required: true, schema: string }],
+          responses: {
+            "200": { description: "The item", headers: rateLimitHeaders, content: { "application/json": { schema: { type: "object", properties: { item: ref("Item") } } } } },
+            ...errorResponses(401, 403, 404, 429),
+          },
+        },
+      },
+      "/items/{id}/image": {
+        get: {
+          summary: "Get an item's photo",
+          parameters: [
+            { name: "id", in: "path", required: true, schema: string },
+            { name: "photo", in: "query", description: "Another of the item's photos, by image id; the main one when left out", schema: string },
+          ],
+          responses: {
+            "200": { description: "The photo as stored", headers: rateLimitHeaders, content: { "image/*": { schema: { type: "string", format: "binary" } } } },
+            ...errorResponses(401, 403, 404, 429),
+          },
+        },
+      },
+      "/jobs/{id}": {
+        get: {
+          summary: "Follow the analysis started by POST /items",
+          description: "Finished jobs are kept for an hour.",
+          parameters: [{ name: "id", in: "path", required: true, schema: string }],
+          responses: {
+            "200": {
+              description: "The job",
+              headers: rateLimitHeaders,
+              content: { "application/json": { schema: { type: "object", properties: { job: ref("Job"), counts: { type: "object", additionalProperties: { type: "integer" } } } } } },
+            },
+            ...errorResponses(401, 403, 404, 429),
+          },
+        },
+      },
+      "/export": {
+        get: {
+          summary: "Download items as a file",
+          parameters: [{ name: "format", in: "query", schema: { type: "string", enum: EXPORT_FORMATS, default: "csv" } }, ...filterParams],
+          responses: {
+            "200": { description: "The file, as an attachment", headers: rateLimitHeaders },
+            ...errorResponses(400, 401, 403, 429),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearer: { type: "http", scheme: "bearer", description: `An API key, starting with ${API_KEY_PREFIX}` },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: {
+              type: "object",
+              required: ["code", "message", "status", "requestId", "retryable"],
+              properties: {
+                code: { type: "string", enum: API_ERROR_CODES },
+                message: { type: "string", description: "For people; may change without notice" },
+                status: { type: "integer" },
+                requestId: string,
+                retryable: { type: "boolean", description: "Whether the same request may succeed if sent again" },
+                retryAfterSeconds: { type: "integer", description: "How long to wait before retrying, when known" },
+                details: { type: "object", description: "More about the error, e.g. `field` for invalid input" },
+              },
+            },
+          },
+        },
+        Analysis: {
+          type: "object",
+          properties: {
+            ...itemFields,
+            expiryText: string,
+            expiryAmbiguous: { type: "boolean" },
+            fieldSources: { type: "object", additionalProperties: { type: "string", enum: ["barcode", "label", "manual"] } },
+            confidence: { type: "object", additionalProperties: { type: "string" } },
+            reviewReasons: { type: "array", items: string },
+            warnings: { type: "array", items: { type: "object" } },
+            cached: { type: "boolean" },
+          },
+        },
+        Item: {
+          type: "object",
+          properties: {
+            id: string,
+            ...itemFields,
+            category: string,
+            status: { type: "string", enum: EXPIRY_STATUSES },
+            review: { type: "object", properties: { status: { type: "string", enum: ["pending", "cleared", "approved"] }, reasons: { type: "array", items: string } } },
+            analysisError: { type: "string", description: "Set when the last analysis failed" },
+            imageUrl: { type: ["string", "null"], description: "The main photo; fetch it with the same API key" },
+            locationId: string,
+            source: { type: "string", enum: ["upload", "mobile", "import"] },
+            createdAt: { type: "string", format: "date-time" },
+            updatedAt: { type: "string", format: "date-time" },
+          },
+        },
+        Job: {
+          type: "object",
+          properties: {
+            id: string,
+            status: { type: "string", enum: ["running", "completed", "cancelled"] },
+            items: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  itemId: string,
+                  status: { type: "string", enum: ["queued", "running", "retrying", "done", "failed", "cancelled"] },
+                  attempts: { type: "integer" },
+                  errorCode: string,
+                  error: string,
+                },
+              },
+            },
+            createdAt: { type: "string", format: "date-time" },
+            finishedAt: { type: "string", format: "date-time" },
+          },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,47 @@
+/** Requests a key may make per minute unless it has its own limit. */
+export function defaultRateLimit(): number {
+  const n = Number(process.env.API_RATE_LIMIT_PER_MINUTE);
+  return Number.isInteger(n) && n >= 1 ? n : 60;
+}
+
+const WINDOW_MS = 60 * 1000;
+
+export type RateLimitState = {
+  limit: number;
+  remaining: number;
+  /** When the current window ends, in epoch seconds. */
+  reset: number;
+  allowed: boolean;
+};
+
+// Counted per process in fixed one-minute windows, on globalThis so every
+// route bundle shares them. A restart forgets the counts.
+const globalForLimits = globalThis as typeof globalThis & {
+  apiRateWindows?: Map<string, { start: number; count: number }>;
+};
+
+function windows(): Map<string, { start: number; count: number }> {
+  globalForLimits.apiRateWindows ??= new Map();
+  return globalForLimits.apiRateWindows;
+}
+
+/** Counts one request for `keyId` and says whether it is within `limit`. */
+export function takeRequest(keyId: string, limit: number, now = Date.now()): RateLimitState {
+  const start = now - (now % WINDOW_MS);
+  let window = windows().get(keyId);
+  if (!window || window.start !== start) {
+    window = { start, count: 0 };
+    windows().set(keyId, window);
+  }
+  const allowed = window.count < limit;
+  if (allowed) window.count++;
+  return { limit, remaining: limit - window.count, reset: Math.ceil((start + WINDOW_MS) / 1000), allowed };
+}
+
+export function rateLimitHeaders(state: RateLimitState): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(state.limit),
+    "X-RateLimit-Remaining": String(state.remaining),
+    "X-RateLimit-Reset": String(state.reset),
+  };
+}
@@ -0,0 +1,45 @@
+import { csvTable } from "@/lib/export/csv";
+import { AUDIT_ACTION_LABELS, type AuditEntry } from "./types";
+
+export const AUDIT_EXPORT_FORMATS = ["csv", "json", "jsonl"] as const;
+
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+export function isAuditExportFormat(value: string): value is AuditExportFormat {
+  return (AUDIT_EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+function text(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function details(entry: AuditEntry): string {
+  const parts: string[] = [];
+  if (entry.status) parts.push(`${entry.status.before ?? "none"} → ${entry.status.after}`);
+  if (entry.analysis) parts.push(`${entry.analysis.provider} / ${entry.analysis.model}${entry.analysis.cached ? " (cached)" : ""}`);
+  if (entry.error) parts.push(entry.error);
+  if (entry.relatedIds?.length) parts.push(`related: ${entry.relatedIds.join(" ")}`);
+  return parts.join("; ");
+}
+
+/** One row per changed field, and one for entries that changed none, e.g. a deletion. */
+export function auditCsv(entries: AuditEntry[]): string {
+  const header = ["Seq", "Time", "Action", "Item", "Product", "Actor", "Field", "Before", "After", "Details", "Raw response", "Hash"];
+  const rows = entries.flatMap((entry) => {
+    const base = [String(entry.seq), entry.at, AUDIT_ACTION_LABELS[entry.action], entry.itemId, entry.product ?? "", entry.actor.name];
+    const tail = [details(entry), entry.analysis ? JSON.stringify(entry.analysis.raw) : "", entry.hash];
+    const changes = entry.changes?.length ? entry.changes : [null];
+    return changes.map((change) => [...base, change?.field ?? "", text(change?.before), text(change?.after), ...tail]);
+  });
+  return csvTable(header, rows);
+}
+
+export function exportAudit(format: AuditExportFormat, entries: AuditEntry[]): { body: string; contentType: string; filename: string } {
+  const stamp = new Date().toISOString().slice(0, 10);
+  if (format === "csv") return { body: auditCsv(entries), contentType: "text/csv; charset=utf-8", filename: `audit-${stamp}.csv` };
+  if (format === "jsonl") {
+    return { body: entries.map((e) => `${JSON.stringify(e)}\n`).join(""), contentType: "application/x-ndjson", filename: `audit-${stamp}.jsonl` };
+  }
+  return { body: JSON.stringify({ entries }, null, 2), contentType: "application/json", filename: `audit-${stamp}.json` };
+}
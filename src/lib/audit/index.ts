@@ -0,0 +1,118 @@
+import { createHash, randomUUID } from "crypto";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import path from "path";
+import { dataDir } from "@/lib/store/json-file";
+import { AUDIT_ACTIONS, type AuditAction, type AuditEntry, type AuditFilter, type AuditInput } from "./types";
+
+export { ANONYMOUS_ACTOR, AUDIT_ACTION_LABELS, AUDIT_ACTIONS, SYSTEM_ACTOR } from "./types";
+export type { AnalysisRecord, AuditAction, AuditActor, AuditEntry, AuditFilter, AuditInput, DeletedItem, FieldChange } from "./types";
+
+const GENESIS = "0".repeat(64);
+
+/**
+ * Appends are queued and the chain's tail kept here, on globalThis so every
+ * route bundle writes through the same queue.
+ */
+const globalForAudit = globalThis as unknown as {
+  auditQueue?: Promise<unknown>;
+  auditTail?: { file: string; seq: number; hash: string };
+};
+
+function logFile(): string {
+  return path.join(dataDir(), "audit.jsonl");
+}
+
+function hashEntry(entry: Omit<AuditEntry, "hash">): string {
+  return createHash("sha256").update(JSON.stringify(entry)).digest("hex");
+}
+
+async function readEntries(): Promise<AuditEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(logFile(), "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as AuditEntry);
+}
+
+async function tail(): Promise<{ seq: number; hash: string }> {
+  const file = logFile();
+  if (globalForAudit.auditTail?.file === file) return globalForAudit.auditTail;
+  const last = (await readEntries()).at(-1);
+  return { seq: last?.seq ?? 0, hash: last?.hash ?? GENESIS };
+}
+
+/**
+ * Appends entries to DATA_DIR/audit.jsonl. The log is never rewritten: each
+ * entry is one line carrying the hash of the one before it.
+ */
+export function recordAudit(inputs: AuditInput[]): Promise<AuditEntry[]> {
+  const run = (globalForAudit.auditQueue ?? Promise.resolve()).then(async () => {
+    if (!inputs.length) return [];
+    let { seq, hash } = await tail();
+    const at = new Date().toISOString();
+    const entries = inputs.map((input) => {
+      const entry: Omit<AuditEntry, "hash"> = { seq: ++seq, id: randomUUID(), at, ...input, prevHash: hash };
+      hash = hashEntry(entry);
+      return { ...entry, hash };
+    });
+    const file = logFile();
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, entries.map((e) => `${JSON.stringify(e)}\n`).join(""));
+    globalForAudit.auditTail = { file, seq, hash };
+    return entries;
+  });
+  globalForAudit.auditQueue = run.catch(() => undefined);
+  return run;
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  if (filter.itemId && entry.itemId !== filter.itemId) return false;
+  if (filter.action && entry.action !== filter.action) return false;
+  if (filter.from && entry.at < filter.from) return false;
+  // A bare date includes the whole day.
+  if (filter.to && entry.at.slice(0, filter.to.length) > filter.to) return false;
+  return true;
+}
+
+/** Reads `itemId`, `action`, `from` and `to` from query parameters. */
+export function parseAuditFilter(params: URLSearchParams): AuditFilter | { error: string } {
+  const filter: AuditFilter = {};
+  const itemId = params.get("itemId");
+  if (itemId) filter.itemId = itemId;
+  const action = params.get("action");
+  if (action) {
+    if (!AUDIT_ACTIONS.includes(action as AuditAction)) return { error: `action must be one of ${AUDIT_ACTIONS.join(", ")}` };
+    filter.action = action as AuditAction;
+  }
+  for (const key of ["from", "to"] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(Date.parse(value))) return { error: `${key} must be a date (YYYY-MM-DD) or ISO timestamp` };
+    filter[key] = value;
+  }
+  return filter;
+}
+
+/** Entries oldest first, waiting for appends already queued. */
+export async function readAudit(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  await globalForAudit.auditQueue;
+  return (await readEntries()).filter((entry) => matches(entry, filter));
+}
+
+/** Checks every entry's hash and link to the one before; `brokenAt` is the first sequence number that does not match. */
+export async function verifyAudit(): Promise<{ ok: boolean; entries: number; brokenAt?: number }> {
+  const entries = await readAudit();
+  let prev = GENESIS;
+  for (const entry of entries) {
+    const { hash, ...rest } = entry;
+    if (entry.prevHash !== prev || hashEntry(rest) !== hash) return { ok: false, entries: entries.length, brokenAt: entry.seq };
+    prev = hash;
+  }
+  return { ok: true, entries: entries.length };
+}
@@ -0,0 +1,116 @@
+// Audit log entries as stored and as the dashboard shows them; no Node imports here.
+
+import type { ExtractionResult } from "@/lib/extraction/types";
+import type { InventoryItem } from "@/lib/items/types";
+import type { ExpiryStatus } from "@/lib/status";
+
+export type AuditAction =
+  | "created"
+  | "imported"
+  | "analyzed"
+  | "analysis_failed"
+  | "edited"
+  | "approved"
+  | "status_changed"
+  | "merged"
+  | "grouped"
+  | "ungrouped"
+  | "deleted"
+  | "restored";
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "created",
+  "imported",
+  "analyzed",
+  "analysis_failed",
+  "edited",
+  "approved",
+  "status_changed",
+  "merged",
+  "grouped",
+  "ungrouped",
+  "deleted",
+  "restored",
+];
+
+/**
+ * Who made a change: a signed-in user, an integration's API key, "anonymous"
+ * before accounts were set up, or "system" for changes nobody made, such as
+ * an item expiring.
+ */
+export type AuditActor = { userId?: string; apiKeyId?: string; name: string };
+
+export const ANONYMOUS_ACTOR: AuditActor = { name: "anonymous" };
+
+export const SYSTEM_ACTOR: AuditActor = { name: "system" };
+
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+/** One provider read of an item's photos: what the model answered and what was stored from it. */
+export type AnalysisRecord = {
+  provider: string;
+  model: string;
+  /** True when the answer came from the analysis cache rather than a new call. */
+  cached: boolean;
+  /** The provider's answer before dates were normalized and barcodes applied. */
+  raw: ExtractionResult;
+  /** The fields as stored on the item. */
+  result: Pick<InventoryItem, "product" | "expiryDate" | "lot" | "ref" | "gtin" | "manufactureDate" | "serial" | "fieldSources" | "confidence">;
+};
+
+export type AuditEntry = {
+  /** Position in the log, from 1. */
+  seq: number;
+  id: string;
+  at: string;
+  action: AuditAction;
+  itemId: string;
+  /** The item's product name at the time, so exports read without a lookup. */
+  product?: string;
+  /** The item's organization and location when the entry was written, so access follows the item. */
+  orgId?: string;
+  locationId?: string;
+  actor: AuditActor;
+  changes?: FieldChange[];
+  status?: { before: ExpiryStatus | null; after: ExpiryStatus };
+  analysis?: AnalysisRecord;
+  /** Why an analysis failed. */
+  error?: string;
+  /** The item as it was when it was deleted or folded into another one; restore puts it back from here. */
+  snapshot?: InventoryItem;
+  /** The item this one was merged or grouped into, or the items that were folded into or split off from it. */
+  relatedIds?: string[];
+  /** SHA-256 of the previous entry's line, so edits to the file after the fact can be detected. */
+  prevHash: string;
+  hash: string;
+};
+
+/** What callers supply; the log fills in sequence, id, time and hashes. */
+export type AuditInput = Omit<AuditEntry, "seq" | "id" | "at" | "prevHash" | "hash">;
+
+export type AuditFilter = {
+  itemId?: string;
+  action?: AuditAction;
+  /** Inclusive ISO timestamps or dates. */
+  from?: string;
+  to?: string;
+};
+
+/** A deleted item that can be put back. */
+export type DeletedItem = { entry: AuditEntry; item: InventoryItem };
+
+/** Human-readable action names for the history dialog and the CSV export. */
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  created: "Created",
+  imported: "Imported",
+  analyzed: "Analyzed",
+  analysis_failed: "Analysis failed",
+  edited: "Edited",
+  approved: "Approved",
+  status_changed: "Status changed",
+  merged: "Merged",
+  grouped: "Grouped",
+  ungrouped: "Ungrouped",
+  deleted: "Deleted",
+  restored: "Restored",
+};
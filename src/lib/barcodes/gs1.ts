@@ -0,0 +1,123 @@
+// Pure GS1 element-string parsing; no Node imports here.
+
+import type { DatePrecision } from "@/lib/dates";
+
+/** `raw` is the YYMMDD value as encoded. */
+export type Gs1Date = { raw: string; iso: string; precision: DatePrecision };
+
+/** The application identifiers this app reads; everything else is kept in `elements` only. */
+export type Gs1Data = {
+  /** AI (01), 14 digits. */
+  gtin: string;
+  /** AI (17). */
+  expiry: Gs1Date | null;
+  /** AI (11). */
+  production: Gs1Date | null;
+  /** AI (10). */
+  lot: string;
+  /** AI (21). */
+  serial: string;
+  elements: Record<string, string>;
+};
+
+/** Group separator, which ends variable-length fields (FNC1 in the symbol). */
+const GS = "\x1d";
+
+/** Symbology identifiers that announce GS1 data: DataMatrix, GS1-128, QR, DataBar. */
+const GS1_SYMBOLOGY = /^\](?:d2|C1|Q3|e0)/;
+
+/** Data length of AIs whose length is fixed by the standard, keyed by their first two digits. */
+const FIXED_LENGTH: Record<string, number> = {
+  "00": 18, "01": 14, "02": 14, "03": 14, "04": 16,
+  "11": 6, "12": 6, "13": 6, "14": 6, "15": 6, "16": 6, "17": 6, "18": 6, "19": 6,
+  "20": 2, "31": 6, "32": 6, "33": 6, "34": 6, "35": 6, "36": 6, "41": 13,
+};
+
+function aiLength(prefix: string): number {
+  if (/^(?:23|24|25|40|41|42|43)$/.test(prefix)) return 3;
+  if (/^(?:31|32|33|34|35|36|39|7\d|8\d)$/.test(prefix)) return 4;
+  return 2;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * YYMMDD as GS1 writes it. The century is the one that puts the year within
+ * -49..+50 of the current year, and day "00" means the last day of the month.
+ */
+export function parseGs1Date(value: string, today = new Date()): Gs1Date | null {
+  const m = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  if (!m) return null;
+  const current = today.getUTCFullYear();
+  const yy = Number(m[1]);
+  const diff = yy - (current % 100);
+  const century = Math.floor(current / 100) + (diff >= 51 ? -1 : diff <= -50 ? 1 : 0);
+  const year = century * 100 + yy;
+  const month = Number(m[2]);
+  const day = Number(m[3]);
+  if (month < 1 || month > 12) return null;
+  const last = daysInMonth(year, month);
+  if (day > last) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return { raw: value, iso: `${year}-${pad(month)}-${pad(day || last)}`, precision: day === 0 ? "month" : "day" };
+}
+
+function parseBracketed(text: string): Record<string, string> | null {
+  const elements: Record<string, string> = {};
+  const re = /\((\d{2,4})\)([^(]*)/g;
+  let m: RegExpExecArray | null;
+  let consumed = 0;
+  while ((m = re.exec(text))) {
+    if (m.index !== consumed) return null;
+    elements[m[1]] = m[2].trim();
+    consumed = re.lastIndex;
+  }
+  return consumed === text.length && consumed > 0 ? elements : null;
+}
+
+function parseRaw(text: string): Record<string, string> | null {
+  const elements: Record<string, string> = {};
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === GS) {
+      i++;
+      continue;
+    }
+    const prefix = text.slice(i, i + 2);
+    if (!/^\d{2}$/.test(prefix)) return null;
+    const ai = text.slice(i, i + aiLength(prefix));
+    if (!/^\d+$/.test(ai)) return null;
+    i += ai.length;
+    const fixed = FIXED_LENGTH[prefix];
+    const end = fixed !== undefined ? i + fixed : text.indexOf(GS, i) < 0 ? text.length : text.indexOf(GS, i);
+    if (end > text.length) return null;
+    elements[ai] = text.slice(i, end);
+    i = end;
+  }
+  return Object.keys(elements).length ? elements : null;
+}
+
+/**
+ * Parses a GS1 element string in either human-readable "(01)…(17)…" form or
+ * the raw form with group separators. Returns null when the text is not GS1
+ * data; callers decide what a plain EAN/UPC value means.
+ */
+export function parseGs1(text: string, today = new Date()): Gs1Data | null {
+  const trimmed = text.trim();
+  const hasSymbology = GS1_SYMBOLOGY.test(trimmed);
+  const body = trimmed.replace(GS1_SYMBOLOGY, "").replace(/^\x1d/, "");
+  let elements = body.startsWith("(") ? parseBracketed(body) : null;
+  if (!elements && (hasSymbology || body.includes(GS) || /^01\d{14}/.test(body))) elements = parseRaw(body);
+  if (!elements) return null;
+  const gtin = /^\d{14}$/.test(elements["01"] ?? "") ? elements["01"] : "";
+  return {
+    gtin,
+    expiry: elements["17"] ? parseGs1Date(elements["17"], today) : null,
+    production: elements["11"] ? parseGs1Date(elements["11"], today) : null,
+    lot: (elements["10"] ?? "").slice(0, 20),
+    serial: (elements["21"] ?? "").slice(0, 20),
+    elements,
+  };
+}
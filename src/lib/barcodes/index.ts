@@ -0,0 +1,97 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { prepareZXingModule, readBarcodes, type ReadInputBarcodeFormat } from "zxing-wasm/reader";
+import { parseGs1, type Gs1Date } from "./gs1";
+
+export { parseGs1, parseGs1Date } from "./gs1";
+export type { Gs1Data, Gs1Date } from "./gs1";
+
+export type DecodedBarcode = { format: string; text: string };
+
+/** Label fields read from barcodes; empty strings and nulls mean no barcode carried them. */
+export type BarcodeFields = {
+  gtin: string;
+  expiry: Gs1Date | null;
+  production: Gs1Date | null;
+  lot: string;
+  serial: string;
+  barcodes: DecodedBarcode[];
+};
+
+/** GS1-128 is reported as Code128 and told apart by its content. */
+const FORMATS: ReadInputBarcodeFormat[] = ["DataMatrix", "Code128", "QRCode", "DataBar", "DataBarExpanded", "EAN-13", "EAN-8", "UPC-A", "UPC-E"];
+
+/** Retail linear codes carry nothing but a GTIN. */
+const GTIN_ONLY_FORMATS = new Set(["EAN-13", "EAN-8", "UPC-A", "UPC-E"]);
+
+let modulePromise: Promise<unknown> | null = null;
+
+/** Loads the reader wasm from node_modules (or BARCODE_WASM_PATH) instead of the default CDN. */
+function loadReader(): Promise<unknown> {
+  if (!modulePromise) {
+    const wasmPath =
+      process.env.BARCODE_WASM_PATH || path.join(process.cwd(), "node_modules", "zxing-wasm", "dist", "reader", "zxing_reader.wasm");
+    modulePromise = readFile(wasmPath)
+      .then((bytes) =>
+        prepareZXingModule({
+          overrides: { wasmBinary: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) },
+          fireImmediately: true,
+        })
+      )
+      .catch((err) => {
+        modulePromise = null;
+        throw err;
+      });
+  }
+  return modulePromise;
+}
+
+export function barcodeDecodingEnabled(): boolean {
+  return process.env.BARCODE_DECODING !== "off";
+}
+
+/** Decodes every supported symbol in an encoded image (JPEG, PNG, ...). */
+export async function decodeBarcodes(buffer: Buffer): Promise<DecodedBarcode[]> {
+  await loadReader();
+  const results = await readBarcodes(new Uint8Array(buffer), {
+    formats: FORMATS,
+    textMode: "HRI",
+    tryHarder: true,
+    maxNumberOfSymbols: 8,
+  });
+  return results.filter((r) => r.isValid && r.text).map((r) => ({ format: r.format, text: r.text }));
+}
+
+/** Merges decoded symbols into label fields; the first symbol to carry a field wins. */
+export function fieldsFromBarcodes(barcodes: DecodedBarcode[], today = new Date()): BarcodeFields {
+  const fields: BarcodeFields = { gtin: "", expiry: null, production: null, lot: "", serial: "", barcodes };
+  for (const { format, text } of barcodes) {
+    if (GTIN_ONLY_FORMATS.has(format)) {
+      if (!fields.gtin && /^\d{8,14}$/.test(text)) fields.gtin = text;
+      continue;
+    }
+    const data = parseGs1(text, today);
+    if (!data) continue;
+    fields.gtin ||= data.gtin;
+    fields.expiry ??= data.expiry;
+    fields.production ??= data.production;
+    fields.lot ||= data.lot;
+    fields.serial ||= data.serial;
+  }
+  return fields;
+}
+
+/**
+ * Reads label fields from the barcodes in a photo. Decoding problems are
+ * logged and treated as "no barcode" so analysis can still rely on the label
+ * text.
+ */
+export async function readBarcodeFields(buffer: Buffer): Promise<BarcodeFields> {
+  if (!barcodeDecodingEnabled()) return fieldsFromBarcodes([]);
+  try {
+    return fieldsFromBarcodes(await decodeBarcodes(buffer));
+  } catch (err) {
+    console.warn("Barcode decoding failed", err);
+    return fieldsFromBarcodes([]);
+  }
+}
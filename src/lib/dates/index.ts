@@ -0,0 +1,201 @@
+import { monthFromName, stripAccents } from "./months";
+
+export type DatePrecision = "day" | "month";
+export type DateOrder = "DMY" | "MDY";
+export type MonthOnlyRule = "start" | "end";
+
+export type ParsedExpiry = {
+  /** Text as it was handed in. */
+  original: string;
+  /** YYYY-MM-DD, or "" when nothing usable was found. */
+  iso: string;
+  precision: DatePrecision | null;
+  /** True when day and month could have been read either way and the locale decided. */
+  ambiguous: boolean;
+  error?: "empty" | "unrecognized" | "invalid_date";
+};
+
+export type ParseExpiryOptions = {
+  /** BCP 47 tag ("en-GB", "en-US") or an explicit "DMY" / "MDY" order. */
+  locale?: string;
+  /** Day used for month-only dates such as "10/2029". */
+  monthOnly?: MonthOnlyRule;
+  /** Two-digit years below this are 20YY, the rest 19YY. */
+  twoDigitYearPivot?: number;
+};
+
+/** Regions that write numeric dates month-first. */
+const MDY_REGIONS = new Set(["US", "PH", "FM", "MH", "PW", "AS", "GU", "MP", "PR", "UM", "VI"]);
+
+export function dateOrderForLocale(locale?: string): DateOrder {
+  const tag = (locale || "").trim();
+  if (tag.toUpperCase() === "MDY") return "MDY";
+  if (tag.toUpperCase() === "DMY" || !tag) return "DMY";
+  const region = tag.split(/[-_]/).slice(1).find((part) => /^[A-Za-z]{2}$/.test(part));
+  return region && MDY_REGIONS.has(region.toUpperCase()) ? "MDY" : "DMY";
+}
+
+export function defaultParseOptions(): ParseExpiryOptions {
+  return {
+    locale: process.env.EXPIRY_DATE_LOCALE || "en-GB",
+    monthOnly: process.env.EXPIRY_MONTH_ONLY === "start" ? "start" : "end",
+  };
+}
+
+/**
+ * Date-looking runs inside longer text, tried when the whole string does not
+ * parse. Each starts at a token boundary, so the tail of a longer number
+ * ("-06-30" of "2027-06-30") is never read as a date of its own.
+ */
+const DATE_CANDIDATES =
+  /(?<!\d[\/\-.]?)(?:\d{4}[\/\-.]\d{1,2}(?:[\/\-.]\d{1,2})?|\d{1,2}[\/\-.](?:\d{4}|\d{1,2})(?:[\/\-.](?:\d{4}|\d{2}))?)(?!\d)|(?<![\dA-Za-z])(?:\d{1,2}[\s\-.\/]*)?[A-Za-z]{3,9}(?![A-Za-z])\.?[\s\-.\/,]*(?:\d{1,2},?\s+)?\d{2,4}(?!\d)|\b\d{8}\b/g;
+
+/** Leading day digits and the word of a month-name candidate, to rescan past when the word is no month ("EXP 2027"). */
+const CANDIDATE_WORD = /^(?:\d{1,2}[\s\-.\/]*)?[A-Za-z]+/;
+
+const PRODUCTION_SEGMENT = /\b(?:p|prod\.?|mfg\.?|mfd\.?|production\s*date|manufactured)\s*[:.]\s*\S+/gi;
+
+const LABEL_PREFIX = /^(?:expiry\s*date|expiration\s*date|expiry|expires|exp\.?\s*date|exp|use\s*by|use\s*before|best\s*before\s*end|best\s*before|bbe|bb|e|ed|date\s*de\s*peremption|mhd|cad|scad(?:enza)?|val)\b\s*[:.]?\s*/i;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function expandYear(y: string, pivot: number): number {
+  const n = Number(y);
+  if (y.length === 4) return n;
+  return n < pivot ? 2000 + n : 1900 + n;
+}
+
+type Parts = { year: number; month: number; day: number | null; ambiguous?: boolean; compact?: boolean };
+
+function build(original: string, parts: Parts, rule: MonthOnlyRule): ParsedExpiry {
+  const { year, month, day } = parts;
+  const invalid: ParsedExpiry = { original, iso: "", precision: null, ambiguous: false, error: "invalid_date" };
+  if (year < 1970 || year > 2199 || month < 1 || month > 12) return invalid;
+  if (day === null) {
+    const d = rule === "end" ? daysInMonth(year, month) : 1;
+    return { original, iso: `${year}-${pad(month)}-${pad(d)}`, precision: "month", ambiguous: false };
+  }
+  if (day < 1 || day > daysInMonth(year, month)) return invalid;
+  return { original, iso: `${year}-${pad(month)}-${pad(day)}`, precision: "day", ambiguous: Boolean(parts.ambiguous) };
+}
+
+function fromJulian(year: number, dayOfYear: number): Parts | null {
+  const leap = daysInMonth(year, 2) === 29;
+  if (dayOfYear < 1 || dayOfYear > (leap ? 366 : 365)) return null;
+  const date = new Date(Date.UTC(year, 0, dayOfYear));
+  return { year, month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function numericDayMonth(a: number, b: number, order: DateOrder): { day: number; month: number; ambiguous: boolean } {
+  if (a > 12 && b <= 12) return { day: a, month: b, ambiguous: false };
+  if (b > 12 && a <= 12) return { day: b, month: a, ambiguous: false };
+  const ambiguous = a !== b;
+  return order === "DMY" ? { day: a, month: b, ambiguous } : { day: b, month: a, ambiguous };
+}
+
+/**
+ * Every date found inside `text`, best first: full dates, then month-only
+ * ones, then bare digit runs (which are as often lot numbers as dates).
+ * Earlier text wins between equals.
+ */
+function candidateParts(text: string, order: DateOrder, pivot: number): Parts | null | "invalid" {
+  const found: Parts[] = [];
+  let invalid = false;
+  const re = new RegExp(DATE_CANDIDATES.source, "g");
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const candidate = m[0].trim().replace(/[.,;]$/, "");
+    const parts = matchParts(candidate, order, pivot);
+    if (parts === "invalid") invalid = true;
+    else if (parts) found.push(parts);
+    else if (/[A-Za-z]/.test(candidate)) re.lastIndex = m.index + CANDIDATE_WORD.exec(m[0])![0].length;
+  }
+  const rank = (p: Parts) => (p.compact ? 2 : p.day === null ? 1 : 0);
+  const best = found.sort((a, b) => rank(a) - rank(b))[0];
+  return best ?? (invalid ? "invalid" : null);
+}
+
+function matchParts(text: string, order: DateOrder, pivot: number): Parts | null | "invalid" {
+  let m: RegExpMatchArray | null;
+
+  // 2027-01-31, 2027/01/31, 2027.01.31
+  if ((m = text.match(/^(\d{4})[\/\-. ](\d{1,2})[\/\-. ](\d{1,2})$/))) {
+    return { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]) };
+  }
+  // 31/01/2027, 01/31/2027, 31.01.27
+  if ((m = text.match(/^(\d{1,2})[\/\-. ](\d{1,2})[\/\-. ](\d{4}|\d{2})$/))) {
+    const { day, month, ambiguous } = numericDayMonth(Number(m[1]), Number(m[2]), order);
+    return { year: expandYear(m[3], pivot), month, day, ambiguous };
+  }
+  // 2027-01, 2027/01
+  if ((m = text.match(/^(\d{4})[\/\-. ](\d{1,2})$/))) {
+    return { year: Number(m[1]), month: Number(m[2]), day: null };
+  }
+  // 01/2027, 1-2027, 06/29, 10-29
+  if ((m = text.match(/^(\d{1,2})[\/\-. ](\d{4}|\d{2})$/))) {
+    return { year: expandYear(m[2], pivot), month: Number(m[1]), day: null };
+  }
+  // 20270131
+  if ((m = text.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+    return { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]), compact: true };
+  }
+  // Julian YYDDD / YYYYDDD
+  if ((m = text.match(/^(\d{2}|\d{4})(\d{3})$/))) {
+    const parts = fromJulian(expandYear(m[1], pivot), Number(m[2]));
+    return parts ? { ...parts, compact: true } : "invalid";
+  }
+
+  // Month names: "Jul-2027", "June 2029", "15 Jul 2027", "Jul 15, 2027", "2027 JUL 15", "15-JUL-27"
+  const tokens = text.split(/[\s\/\-.,]+/).filter(Boolean);
+  const monthIdx = tokens.findIndex((t) => /^[a-z]+$/i.test(t) && monthFromName(t) !== null);
+  if (monthIdx < 0 || tokens.length < 2 || tokens.length > 3) return null;
+  const month = monthFromName(tokens[monthIdx])!;
+  const nums = tokens.filter((_, i) => i !== monthIdx);
+  if (!nums.every((t) => /^\d{1,4}$/.test(t))) return null;
+  if (nums.length === 1) {
+    if (nums[0].length !== 4 && nums[0].length !== 2) return null;
+    return { year: expandYear(nums[0], pivot), month, day: null };
+  }
+  const yearIdx = nums.findIndex((t) => t.length === 4);
+  if (yearIdx >= 0) {
+    return { year: Number(nums[yearIdx]), month, day: Number(nums[1 - yearIdx]) };
+  }
+  // "15-JUL-27": day first, two-digit year last.
+  return { year: expandYear(nums[1], pivot), month, day: Number(nums[0]) };
+}
+
+/**
+ * Normalizes an expiry date as printed on a label. Label prefixes ("EXP",
+ * "E:", "Best before") are ignored; month-only dates resolve to the start or
+ * end of the month; impossible calendar dates are rejected rather than passed
+ * through.
+ */
+export function parseExpiryDate(input: string, options: ParseExpiryOptions = {}): ParsedExpiry {
+  const original = input;
+  const order = dateOrderForLocale(options.locale);
+  const rule = options.monthOnly ?? "end";
+  const pivot = options.twoDigitYearPivot ?? 70;
+
+  let text = stripAccents(input).replace(/[⌛⏳]/g, " ").replace(/\s+/g, " ").trim();
+  if (!text) return { original, iso: "", precision: null, ambiguous: false, error: "empty" };
+  for (let i = 0; i < 2 && LABEL_PREFIX.test(text); i++) text = text.replace(LABEL_PREFIX, "").trim();
+  text = text.replace(/^[:\-]\s*/, "").replace(/[.,;]$/, "");
+
+  let parts = matchParts(text, order, pivot);
+  if (parts === null) parts = candidateParts(text.replace(PRODUCTION_SEGMENT, " "), order, pivot);
+  if (parts === "invalid") return { original, iso: "", precision: null, ambiguous: false, error: "invalid_date" };
+  if (!parts) return { original, iso: "", precision: null, ambiguous: false, error: "unrecognized" };
+  return build(original, parts, rule);
+}
+
+/** True for "" and for a YYYY-MM-DD date that exists on the calendar, so not 2027-02-31. */
+export function isIsoDateOrEmpty(value: string): boolean {
+  const text = value.trim();
+  return !text || (/^\d{4}-\d{2}-\d{2}$/.test(text) && parseExpiryDate(text).iso === text);
+}
@@ -0,0 +1,34 @@
+/**
+ * Month names and common label abbreviations, accent-stripped and lowercased.
+ * Index 0 is January.
+ */
+const MONTH_NAMES: string[][] = [
+  // en, fr, de, es, it, pt, nl, tr
+  ["january", "jan", "janvier", "janv", "januar", "enero", "ene", "gennaio", "gen", "janeiro", "januari", "ocak", "oca"],
+  ["february", "feb", "fevrier", "fev", "fevr", "februar", "febrero", "febbraio", "fevereiro", "februari", "subat", "sub"],
+  ["march", "mar", "mars", "marz", "mrz", "marzo", "marco", "maart", "mart"],
+  ["april", "apr", "avril", "avr", "abril", "abr", "aprile", "nisan", "nis"],
+  ["may", "mai", "mayo", "maggio", "mag", "maio", "mei", "mayis"],
+  ["june", "jun", "juin", "juni", "junio", "giugno", "giu", "junho", "haziran", "haz"],
+  ["july", "jul", "juillet", "juil", "juli", "julio", "luglio", "lug", "julho", "temmuz", "tem"],
+  ["august", "aug", "aout", "agosto", "ago", "augustus", "agustos", "agu"],
+  ["september", "sep", "sept", "septembre", "septiembre", "set", "settembre", "setembro", "eylul", "eyl"],
+  ["october", "oct", "octobre", "oktober", "okt", "octubre", "ottobre", "ott", "outubro", "out", "ekim", "eki"],
+  ["november", "nov", "novembre", "noviembre", "novembro", "kasim", "kas"],
+  ["december", "dec", "decembre", "dezember", "dez", "diciembre", "dic", "dicembre", "dezembro", "aralik", "ara"],
+];
+
+const LOOKUP = new Map<string, number>();
+MONTH_NAMES.forEach((names, idx) => names.forEach((n) => {
+  if (!LOOKUP.has(n)) LOOKUP.set(n, idx + 1);
+}));
+
+export function stripAccents(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/** 1-12 for a recognised month word (any case, accents optional, trailing dot allowed), else null. */
+export function monthFromName(word: string): number | null {
+  const key = stripAccents(word).toLowerCase().replace(/\.$/, "");
+  return LOOKUP.get(key) ?? null;
+}
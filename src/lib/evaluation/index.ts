@@ -0,0 +1,102 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { analyzeImages, type ExtractionProvider } from "@/lib/extraction";
+import type { RecordedReplies } from "@/lib/extraction/recorded";
+import { preprocessImage, preprocessOptions } from "@/lib/images/preprocess";
+import { dataDir } from "@/lib/store/json-file";
+import { scoreCases } from "./metrics";
+import { EVAL_FIELDS, type EvalCase, type EvalField, type EvalRun, type ExpectedLabel } from "./types";
+
+export { diffRuns, formatReport, scoreCases } from "./metrics";
+export type { EvalCase, EvalMetrics, EvalRun, ExpectedLabel, RunDiff } from "./types";
+
+/**
+ * A directory of label photos with `expected.json` mapping each file name to
+ * what it should read as, and optionally `replies.json` with a live model's
+ * recorded answers for the recorded provider.
+ */
+export type Dataset = {
+  dir: string;
+  name: string;
+  expected: Record<string, ExpectedLabel>;
+};
+
+export const DEFAULT_DATASET = path.join("fixtures", "eval");
+
+export async function loadDataset(dir: string): Promise<Dataset> {
+  const resolved = path.resolve(dir);
+  const expected = JSON.parse(await readFile(path.join(resolved, "expected.json"), "utf8")) as Record<string, ExpectedLabel>;
+  return { dir: resolved, name: path.basename(resolved), expected };
+}
+
+export function repliesPath(dataset: Dataset): string {
+  return path.join(dataset.dir, "replies.json");
+}
+
+/** Where the last run over a dataset is kept, to diff the next one against. */
+export function lastRunPath(dataset: Dataset): string {
+  return path.join(dataDir(), "eval", `${dataset.name}.json`);
+}
+
+async function readCase(dataset: Dataset, file: string, provider: ExtractionProvider, locale: string | undefined): Promise<EvalCase> {
+  const expected = dataset.expected[file];
+  const empty = Object.fromEntries(EVAL_FIELDS.map((f) => [f, ""])) as Record<EvalField, string>;
+  try {
+    // Read as an upload would be: preprocessed, then the full pipeline with barcodes and date parsing.
+    const image = await preprocessImage(await readFile(path.join(dataset.dir, file)), preprocessOptions());
+    const result = await analyzeImages(provider, [{ buffer: image.buffer, mimeType: image.mimeType, fileName: file }], { locale }, { refresh: true });
+    const actual = { ...empty };
+    for (const field of EVAL_FIELDS) actual[field] = result[field];
+    return { file, expected, actual, rawText: result.raw.rawText };
+  } catch (err) {
+    return { file, expected, actual: empty, rawText: "", error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Reads every image in the dataset, one at a time so live providers are not rate limited. */
+export async function runEvaluation(
+  dataset: Dataset,
+  provider: ExtractionProvider,
+  options: { locale?: string; onCase?(c: EvalCase): void } = {}
+): Promise<EvalRun> {
+  const startedAt = new Date().toISOString();
+  const cases: EvalCase[] = [];
+  for (const file of Object.keys(dataset.expected).sort()) {
+    const c = await readCase(dataset, file, provider, options.locale);
+    cases.push(c);
+    options.onCase?.(c);
+  }
+  return {
+    dataset: dataset.name,
+    provider: provider.name,
+    model: provider.model,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    cases,
+    metrics: scoreCases(cases),
+  };
+}
+
+export async function loadRun(file: string): Promise<EvalRun | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as EvalRun;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+export async function saveRun(file: string, run: EvalRun): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(run, null, 2));
+}
+
+/** Keeps a live run's replies so the recorded provider can replay them offline. Failed reads are left out. */
+export async function saveReplies(dataset: Dataset, run: EvalRun): Promise<RecordedReplies> {
+  const recorded: RecordedReplies = {
+    model: `${run.provider}/${run.model}`,
+    replies: Object.fromEntries(run.cases.filter((c) => !c.error).map((c) => [c.file, c.rawText])),
+  };
+  await writeFile(repliesPath(dataset), `${JSON.stringify(recorded, null, 2)}\n`);
+  return recorded;
+}
@@ -0,0 +1,175 @@
+import {
+  DATE_FIELDS,
+  EVAL_FIELDS,
+  type Confusion,
+  type ConfusionKind,
+  type DateErrorMetrics,
+  type EvalCase,
+  type EvalField,
+  type EvalMetrics,
+  type EvalRun,
+  type FieldMetrics,
+  type RunDiff,
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Case and spacing do not count against a product name; codes also ignore inner spaces. */
+function normalize(field: EvalField, value: string): string {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  if (field === "product") return trimmed.toUpperCase();
+  if (field === "gtin") return trimmed.replace(/\D/g, "");
+  if (DATE_FIELDS.includes(field)) return trimmed;
+  return trimmed.replace(/\s/g, "").toUpperCase();
+}
+
+export function fieldMatches(field: EvalField, expected: string, actual: string): boolean {
+  return normalize(field, expected) === normalize(field, actual);
+}
+
+function dateKind(expected: string, actual: string): ConfusionKind {
+  const [ey, em, ed] = expected.split("-");
+  const [ay, am, ad] = actual.split("-");
+  if (ey === ay && em === ad && ed === am) return "day_month_swapped";
+  if (ey !== ay && em === am && ed === ad) return "wrong_year";
+  if (em !== am) return "wrong_month";
+  return ey === ay ? "wrong_day" : "wrong";
+}
+
+function confusionKind(field: EvalField, expected: string, actual: string): ConfusionKind {
+  if (!actual.trim()) return "missing";
+  if (!expected.trim()) return "spurious";
+  return DATE_FIELDS.includes(field) ? dateKind(expected, actual) : "wrong";
+}
+
+function daysApart(a: string, b: string): number | null {
+  const diff = Date.parse(a) - Date.parse(b);
+  return Number.isNaN(diff) ? null : Math.round(Math.abs(diff) / DAY_MS);
+}
+
+function dateErrors(cases: EvalCase[], field: EvalField): DateErrorMetrics | undefined {
+  const errors = cases
+    .map((c) => (c.expected[field] && c.actual[field] ? daysApart(c.expected[field]!, c.actual[field]) : null))
+    .filter((d): d is number => d !== null)
+    .sort((a, b) => a - b);
+  if (!errors.length) return undefined;
+  const mid = Math.floor(errors.length / 2);
+  return {
+    compared: errors.length,
+    meanDays: Math.round((errors.reduce((sum, d) => sum + d, 0) / errors.length) * 10) / 10,
+    medianDays: errors.length % 2 ? errors[mid] : (errors[mid - 1] + errors[mid]) / 2,
+    maxDays: errors[errors.length - 1],
+    withinMonth: errors.filter((d) => d <= 31).length,
+  };
+}
+
+export function scoreCases(cases: EvalCase[]): EvalMetrics {
+  const fields: FieldMetrics[] = [];
+  const confusions: Confusion[] = [];
+  for (const field of EVAL_FIELDS) {
+    const metrics: FieldMetrics = { field, scored: 0, exact: 0, accuracy: 0, missing: 0, spurious: 0, wrong: 0 };
+    for (const c of cases) {
+      const expected = c.expected[field];
+      if (expected === undefined) continue;
+      metrics.scored++;
+      const actual = c.actual[field];
+      if (fieldMatches(field, expected, actual)) {
+        metrics.exact++;
+        continue;
+      }
+      const kind = confusionKind(field, expected, actual);
+      if (kind === "missing") metrics.missing++;
+      else if (kind === "spurious") metrics.spurious++;
+      else metrics.wrong++;
+      confusions.push({ file: c.file, field, kind, expected, actual });
+    }
+    metrics.accuracy = metrics.scored ? metrics.exact / metrics.scored : 0;
+    if (metrics.scored) fields.push(metrics);
+  }
+  const errors: EvalMetrics["dateErrors"] = {};
+  for (const field of DATE_FIELDS) {
+    const stats = dateErrors(cases, field);
+    if (stats) errors[field] = stats;
+  }
+  return { cases: cases.length, failed: cases.filter((c) => c.error).length, fields, dateErrors: errors, confusions };
+}
+
+function isRight(c: EvalCase | undefined, field: EvalField): boolean | null {
+  const expected = c?.expected[field];
+  if (!c || expected === undefined) return null;
+  return fieldMatches(field, expected, c.actual[field]);
+}
+
+/** Per-field accuracy changes and the image fields that flipped, matching images by file name. */
+export function diffRuns(previous: EvalRun, current: EvalRun): RunDiff {
+  const before = new Map(previous.cases.map((c) => [c.file, c]));
+  const diff: RunDiff = {
+    previousAt: previous.finishedAt,
+    previousProvider: previous.provider,
+    fields: current.metrics.fields.map((m) => ({
+      field: m.field,
+      before: previous.metrics.fields.find((p) => p.field === m.field)?.accuracy ?? null,
+      after: m.accuracy,
+    })),
+    fixed: [],
+    regressed: [],
+  };
+  for (const c of current.cases) {
+    const old = before.get(c.file);
+    for (const field of EVAL_FIELDS) {
+      const was = isRight(old, field);
+      const now = isRight(c, field);
+      if (was === false && now) diff.fixed.push({ file: c.file, field });
+      if (was && now === false) {
+        diff.regressed.push({ file: c.file, field, expected: c.expected[field] ?? "", before: old!.actual[field], after: c.actual[field] });
+      }
+    }
+  }
+  return diff;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function shown(value: string): string {
+  return value ? JSON.stringify(value) : "(empty)";
+}
+
+/** The run as plain text for the terminal. */
+export function formatReport(run: EvalRun, diff: RunDiff | null): string {
+  const lines = [
+    `Dataset ${run.dataset} · ${run.provider} (${run.model}) · ${run.metrics.cases} image(s)${run.metrics.failed ? `, ${run.metrics.failed} failed` : ""}`,
+    "",
+    "Field            Exact     Scored  Missing  Spurious  Wrong",
+  ];
+  for (const m of run.metrics.fields) {
+    lines.push(
+      `${m.field.padEnd(16)} ${percent(m.accuracy).padStart(6)}  ${String(m.scored).padStart(7)}  ${String(m.missing).padStart(7)}  ${String(m.spurious).padStart(8)}  ${String(m.wrong).padStart(5)}`
+    );
+  }
+  for (const [field, stats] of Object.entries(run.metrics.dateErrors)) {
+    lines.push(
+      "",
+      `${field} error over ${stats.compared} read date(s): mean ${stats.meanDays} d, median ${stats.medianDays} d, max ${stats.maxDays} d, ${stats.withinMonth} within a month`
+    );
+  }
+  if (run.metrics.confusions.length) {
+    lines.push("", "Confusions:");
+    for (const c of run.metrics.confusions) lines.push(`  ${c.file}  ${c.field}  ${c.kind}: expected ${shown(c.expected)}, read ${shown(c.actual)}`);
+  }
+  for (const c of run.cases.filter((c) => c.error)) lines.push(`  ${c.file}  failed: ${c.error}`);
+  if (!diff) {
+    lines.push("", "No previous run to compare with.");
+    return lines.join("\n");
+  }
+  lines.push("", `Compared with the run of ${diff.previousAt} (${diff.previousProvider}):`);
+  for (const f of diff.fields) {
+    if (f.before === null) lines.push(`  ${f.field}: ${percent(f.after)} (new)`);
+    else if (f.before !== f.after) lines.push(`  ${f.field}: ${percent(f.before)} → ${percent(f.after)}`);
+  }
+  for (const f of diff.fixed) lines.push(`  fixed      ${f.file}  ${f.field}`);
+  for (const r of diff.regressed) lines.push(`  regressed  ${r.file}  ${r.field}: was ${shown(r.before)}, now ${shown(r.after)} (expected ${shown(r.expected)})`);
+  if (!diff.fixed.length && !diff.regressed.length) lines.push("  no image changed");
+  return lines.join("\n");
+}
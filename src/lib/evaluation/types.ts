@@ -0,0 +1,79 @@
+/** Label fields an evaluation can score; dates are compared in their normalized YYYY-MM-DD form. */
+export const EVAL_FIELDS = ["product", "expiryDate", "lot", "ref", "gtin", "manufactureDate"] as const;
+
+export type EvalField = (typeof EVAL_FIELDS)[number];
+
+export const DATE_FIELDS: EvalField[] = ["expiryDate", "manufactureDate"];
+
+/** What a label should read as. Fields left out are not scored for that image; "" means the label has none. */
+export type ExpectedLabel = Partial<Record<EvalField, string>> & { note?: string };
+
+/** One image's read. */
+export type EvalCase = {
+  file: string;
+  expected: ExpectedLabel;
+  actual: Record<EvalField, string>;
+  /** The provider's reply as it came back, before parsing. */
+  rawText: string;
+  /** Set when the read failed outright; every scored field then counts as missing. */
+  error?: string;
+};
+
+export type FieldMetrics = {
+  field: EvalField;
+  /** Images whose expected answer includes this field. */
+  scored: number;
+  exact: number;
+  /** exact / scored, 0 when nothing was scored. */
+  accuracy: number;
+  /** Expected a value, read none. */
+  missing: number;
+  /** Expected none, read one. */
+  spurious: number;
+  /** Read a different value. */
+  wrong: number;
+};
+
+/** How far off wrong dates were, over images where both the expected and the read date are set. */
+export type DateErrorMetrics = {
+  compared: number;
+  meanDays: number;
+  medianDays: number;
+  maxDays: number;
+  /** Off by no more than 31 days, e.g. a month-only date resolved to the other end of the month. */
+  withinMonth: number;
+};
+
+export type ConfusionKind = "missing" | "spurious" | "wrong" | "day_month_swapped" | "wrong_year" | "wrong_month" | "wrong_day";
+
+export type Confusion = { file: string; field: EvalField; kind: ConfusionKind; expected: string; actual: string };
+
+export type EvalMetrics = {
+  cases: number;
+  /** Reads that threw. */
+  failed: number;
+  fields: FieldMetrics[];
+  dateErrors: Partial<Record<EvalField, DateErrorMetrics>>;
+  confusions: Confusion[];
+};
+
+export type EvalRun = {
+  dataset: string;
+  provider: string;
+  model: string;
+  startedAt: string;
+  finishedAt: string;
+  cases: EvalCase[];
+  metrics: EvalMetrics;
+};
+
+/** What changed since the previous run over the same dataset. */
+export type RunDiff = {
+  previousAt: string;
+  previousProvider: string;
+  fields: { field: EvalField; before: number | null; after: number }[];
+  /** Image fields that were wrong before and are right now. */
+  fixed: { file: string; field: EvalField }[];
+  /** Image fields that were right before and are wrong now. */
+  regressed: { file: string; field: EvalField; expected: string; before: string; after: string }[];
+};
@@ -0,0 +1,87 @@
+import { checkConsistency, WARNING_MESSAGES } from "@/lib/extraction/checks";
+import type { SourcedField } from "@/lib/extraction/types";
+import type { InventoryItem } from "@/lib/items/types";
+import { REVIEW_REASON_MESSAGES } from "@/lib/review";
+
+/** One exported item together with what is derived from it at export time. */
+export type ExportRow = {
+  item: InventoryItem;
+  /** Absolute link to the label photo, or "" when the item has none. */
+  imageUrl: string;
+};
+
+export type ExportColumn = {
+  header: string;
+  /** Character width for spreadsheet formats. */
+  width: number;
+  value: (row: ExportRow) => string;
+};
+
+function fieldsFrom(item: InventoryItem, source: "barcode" | "manual"): string {
+  return Object.entries(item.fieldSources ?? {})
+    .filter(([, s]) => s === source)
+    .map(([field]) => field)
+    .join("; ");
+}
+
+/** Phone captures are all uploaded as "mobile.jpg", so name them by session and capture instead. */
+export function imageLabel(item: InventoryItem): string {
+  if (!item.imageId) return "";
+  if (item.source !== "mobile") return item.imageName;
+  const capture = item.sessionImageId ?? item.id;
+  return item.sessionId ? `Phone capture ${capture} (session ${item.sessionId})` : `Phone capture ${capture}`;
+}
+
+/** Which photo each field was read from on items with several, e.g. "expiryDate: 2; lot: 2". Photo 1 is the main one. */
+function fieldPhotos(item: InventoryItem): string {
+  if (!item.extraPhotos?.length) return "";
+  const numbers = new Map([item.imageId, ...item.extraPhotos.map((p) => p.imageId)].map((id, i) => [id, i + 1]));
+  return Object.entries(item.fieldImages ?? {})
+    .filter(([, imageId]) => numbers.has(imageId))
+    .map(([field, imageId]) => `${field}: ${numbers.get(imageId)}`)
+    .join("; ");
+}
+
+export function reviewSummary(item: InventoryItem): string {
+  if (item.review.status === "approved") return `Signed off ${item.review.reviewedAt ?? ""}`.trim();
+  return item.review.reasons.map((r) => REVIEW_REASON_MESSAGES[r]).join("; ");
+}
+
+export function warningSummary(item: InventoryItem): string {
+  return checkConsistency(item).map((w) => WARNING_MESSAGES[w]).join("; ");
+}
+
+function confidence(item: InventoryItem, field: SourcedField): string {
+  const score = item.confidence?.[field]?.score;
+  return score === undefined ? "" : score.toFixed(2);
+}
+
+/** Every column the tabular formats carry, in order. */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { header: "Item ID", width: 38, value: ({ item }) => item.id },
+  { header: "Image", width: 30, value: ({ item }) => imageLabel(item) },
+  { header: "Image URL", width: 40, value: ({ imageUrl }) => imageUrl },
+  { header: "Photos", width: 7, value: ({ item }) => (item.imageId ? String(1 + (item.extraPhotos?.length ?? 0)) : "0") },
+  { header: "Field Photos", width: 24, value: ({ item }) => fieldPhotos(item) },
+  { header: "Source", width: 8, value: ({ item }) => item.source },
+  { header: "Product", width: 32, value: ({ item }) => item.product },
+  { header: "Category", width: 16, value: ({ item }) => item.category },
+  { header: "Expiry Date", width: 12, value: ({ item }) => item.expiryDate },
+  { header: "Expiry As Printed", width: 16, value: ({ item }) => item.expiryText ?? "" },
+  { header: "Status", width: 14, value: ({ item }) => item.status },
+  { header: "Review", width: 30, value: ({ item }) => reviewSummary(item) },
+  { header: "Lot", width: 14, value: ({ item }) => item.lot },
+  { header: "REF", width: 14, value: ({ item }) => item.ref },
+  { header: "GTIN", width: 16, value: ({ item }) => item.gtin },
+  { header: "Manufacture Date", width: 16, value: ({ item }) => item.manufactureDate },
+  { header: "Serial", width: 16, value: ({ item }) => item.serial },
+  { header: "Product Confidence", width: 10, value: ({ item }) => confidence(item, "product") },
+  { header: "Expiry Confidence", width: 10, value: ({ item }) => confidence(item, "expiryDate") },
+  { header: "Barcode Fields", width: 20, value: ({ item }) => fieldsFrom(item, "barcode") },
+  { header: "Manual Fields", width: 20, value: ({ item }) => fieldsFrom(item, "manual") },
+  { header: "Warnings", width: 30, value: ({ item }) => warningSummary(item) },
+  { header: "Analysis Error", width: 24, value: ({ item }) => item.analysisError ?? "" },
+  { header: "Session", width: 38, value: ({ item }) => item.sessionId ?? "" },
+  { header: "Created", width: 24, value: ({ item }) => item.createdAt },
+  { header: "Updated", width: 24, value: ({ item }) => item.updatedAt },
+];
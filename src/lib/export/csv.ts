@@ -0,0 +1,22 @@
+import { EXPORT_COLUMNS, type ExportRow } from "./columns";
+
+/** Spreadsheet apps run a cell starting with one of these as a formula. */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Quoted, and prefixed with `'` when a spreadsheet would otherwise read it as a formula. */
+function cell(value: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/** Quotes every cell, so values with commas, quotes or newlines survive. */
+export function csvTable(header: string[], rows: string[][]): string {
+  return [header, ...rows].map((line) => line.map(cell).join(",")).join("\n");
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  return csvTable(
+    EXPORT_COLUMNS.map((c) => c.header),
+    rows.map((row) => EXPORT_COLUMNS.map((c) => c.value(row)))
+  );
+}
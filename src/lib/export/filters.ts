@@ -0,0 +1,93 @@
+// Pure export filters shared by the export endpoint and the dashboard; no Node imports here.
+
+import type { InventoryItem } from "@/lib/items/types";
+import { EXPIRY_STATUSES, type ExpiryStatus } from "@/lib/status";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json", "pdf"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Which date `from` and `to` apply to: the label's expiry or when the item was captured. */
+export type ExportDateField = "expiryDate" | "createdAt";
+
+export type ExportFilters = {
+  /** Empty means every status. */
+  statuses: ExpiryStatus[];
+  /** Inclusive YYYY-MM-DD bounds. */
+  from?: string;
+  to?: string;
+  dateField: ExportDateField;
+  search: string;
+};
+
+export const EMPTY_EXPORT_FILTERS: ExportFilters = { statuses: [], dateField: "expiryDate", search: "" };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/** "expiring-soon", "Expiring Soon" and "expiring_soon" all name the same status. */
+function readStatus(value: string): ExpiryStatus | undefined {
+  const key = value.trim().toLowerCase().replace(/[-_]+/g, " ");
+  return EXPIRY_STATUSES.find((s) => s.toLowerCase() === key);
+}
+
+/**
+ * Reads `status` (repeated or comma-separated), `from`, `to`, `dateField`
+ * and `search` from a query string.
+ */
+export function parseExportFilters(params: URLSearchParams): { filters: ExportFilters } | { error: string } {
+  const statuses: ExpiryStatus[] = [];
+  for (const value of params.getAll("status").flatMap((v) => v.split(",")).filter((v) => v.trim())) {
+    const status = readStatus(value);
+    if (!status) return { error: `unknown status "${value}"; use one of ${EXPIRY_STATUSES.join(", ")}` };
+    if (!statuses.includes(status)) statuses.push(status);
+  }
+  const from = params.get("from")?.trim() || undefined;
+  const to = params.get("to")?.trim() || undefined;
+  for (const [name, value] of [["from", from], ["to", to]] as const) {
+    if (value && !ISO_DATE.test(value)) return { error: `${name} must be YYYY-MM-DD` };
+  }
+  if (from && to && from > to) return { error: "from must not be after to" };
+  const dateField = params.get("dateField") ?? "expiryDate";
+  if (dateField !== "expiryDate" && dateField !== "createdAt") return { error: "dateField must be expiryDate or createdAt" };
+  return { filters: { statuses, from, to, dateField, search: params.get("search")?.trim() ?? "" } };
+}
+
+/** Query string for `filters`, leaving out anything at its default. */
+export function exportQuery(format: ExportFormat, filters: Partial<ExportFilters>): string {
+  const params = new URLSearchParams({ format });
+  if (filters.statuses?.length) params.set("status", filters.statuses.join(","));
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.dateField && filters.dateField !== "expiryDate") params.set("dateField", filters.dateField);
+  if (filters.search?.trim()) params.set("search", filters.search.trim());
+  return params.toString();
+}
+
+type Searchable = Pick<InventoryItem, "product" | "expiryDate" | "lot" | "ref" | "gtin" | "serial" | "category">;
+
+/** Case-insensitive match on the product, expiry and the identifiers printed on the label. */
+export function matchesSearch(item: Searchable, term: string): boolean {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return true;
+  return [item.product, item.expiryDate, item.lot, item.ref, item.gtin, item.serial, item.category].some((value) =>
+    value?.toLowerCase().includes(needle)
+  );
+}
+
+export function filterItems<T extends InventoryItem>(items: T[], filters: ExportFilters): T[] {
+  return items.filter((item) => {
+    if (filters.statuses.length && !filters.statuses.includes(item.status)) return false;
+    if (filters.from || filters.to) {
+      // createdAt is an ISO timestamp; its UTC calendar date is what gets compared.
+      const date = filters.dateField === "createdAt" ? item.createdAt.slice(0, 10) : item.expiryDate;
+      if (!date) return false;
+      if (filters.from && date < filters.from) return false;
+      if (filters.to && date > filters.to) return false;
+    }
+    return matchesSearch(item, filters.search);
+  });
+}
@@ -0,0 +1,93 @@
+import { listItems, type InventoryItem } from "@/lib/items";
+import { getStatusRules } from "@/lib/settings";
+import { checkConsistency } from "@/lib/extraction/checks";
+import { imageLabel, type ExportRow } from "./columns";
+import { toCsv } from "./csv";
+import { filterItems, type ExportFilters, type ExportFormat } from "./filters";
+import { toPdf } from "./pdf";
+import { createReport, type ExportReport } from "./report";
+import { toXlsx } from "./xlsx";
+
+export { EXPORT_FORMATS, isExportFormat, parseExportFilters } from "./filters";
+export type { ExportFilters, ExportFormat } from "./filters";
+
+export type ExportFile = { body: Buffer | string; contentType: string; filename: string };
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+  pdf: "application/pdf",
+};
+
+/** Stable record for importers: every stored field, plus derived warnings and an absolute image link. */
+function jsonItem({ item, imageUrl }: ExportRow) {
+  return {
+    id: item.id,
+    product: item.product,
+    category: item.category,
+    expiryDate: item.expiryDate,
+    expiryText: item.expiryText ?? "",
+    status: item.status,
+    lot: item.lot,
+    ref: item.ref,
+    gtin: item.gtin,
+    manufactureDate: item.manufactureDate,
+    serial: item.serial,
+    thresholds: item.thresholds ?? null,
+    review: item.review,
+    fieldSources: item.fieldSources ?? {},
+    confidence: item.confidence ?? {},
+    barcodeConflicts: item.barcodeConflicts ?? [],
+    expiryAmbiguous: item.expiryAmbiguous ?? false,
+    warnings: checkConsistency(item),
+    analysisError: item.analysisError ?? "",
+    image: item.imageId ? { name: imageLabel(item), mimeType: item.imageMimeType, url: imageUrl } : null,
+    source: item.source,
+    sessionId: item.sessionId ?? null,
+    sessionImageId: item.sessionImageId ?? null,
+    locationId: item.locationId ?? null,
+    createdBy: item.createdBy ?? null,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+  };
+}
+
+function toJson(report: ExportReport): string {
+  return JSON.stringify(
+    {
+      generatedAt: report.generatedAt.toISOString(),
+      filters: report.filters,
+      counts: Object.fromEntries(report.counts.map((c) => [c.status, c.count])),
+      total: report.rows.length,
+      items: report.rows.map(jsonItem),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Renders the stored items, or `scope` when given, matching `filters`.
+ * `origin` makes the image links absolute so they still work once the file
+ * leaves this server; dates are stamped in `orgId`'s time zone.
+ */
+export async function exportItems(
+  format: ExportFormat,
+  filters: ExportFilters,
+  origin: string,
+  scope?: InventoryItem[],
+  orgId?: string | null
+): Promise<ExportFile> {
+  const [items, rules] = await Promise.all([scope ?? listItems(), getStatusRules(orgId)]);
+  const report = createReport(filterItems(items, filters), filters, { origin, timeZone: rules.timeZone });
+  const stamp = report.generatedLabel.slice(0, 10);
+  const filename = `expiry-results-${stamp}.${format}`;
+  const render: Record<ExportFormat, (r: ExportReport) => Promise<Buffer | string> | string> = {
+    csv: (r) => toCsv(r.rows),
+    xlsx: toXlsx,
+    json: toJson,
+    pdf: toPdf,
+  };
+  return { body: await render[format](report), contentType: CONTENT_TYPES[format], filename };
+}
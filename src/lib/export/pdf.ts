@@ -0,0 +1,155 @@
+import PDFDocument from "pdfkit";
+import { readBlob } from "@/lib/store/blobs";
+import type { ExpiryStatus } from "@/lib/status";
+import { reviewSummary, type ExportRow } from "./columns";
+import type { ExportReport } from "./report";
+
+const MARGIN = 36;
+const ROW_HEIGHT = 58;
+const THUMB_SIZE = 52;
+const HEADER_HEIGHT = 18;
+
+/** PDFKit embeds only these formats; anything else prints a placeholder. */
+const EMBEDDABLE = ["image/jpeg", "image/png"];
+
+const STATUS_COLORS: Record<ExpiryStatus, string> = {
+  Valid: "#15803d",
+  "Expiring Soon": "#b45309",
+  Critical: "#c2410c",
+  "Expires Today": "#b91c1c",
+  Expired: "#b91c1c",
+  "No Date": "#525252",
+  Unreadable: "#a21caf",
+  "Needs Review": "#0369a1",
+};
+
+type PdfColumn = { header: string; width: number; value: (row: ExportRow) => string };
+
+/** Thumbnail first, then the fields an auditor checks against the photo. */
+const PDF_COLUMNS: PdfColumn[] = [
+  { header: "Product", width: 150, value: ({ item }) => item.product },
+  { header: "Category", width: 70, value: ({ item }) => item.category },
+  { header: "Expiry", width: 64, value: ({ item }) => item.expiryDate || item.expiryText || "" },
+  { header: "Status", width: 80, value: ({ item }) => item.status },
+  { header: "Lot", width: 66, value: ({ item }) => item.lot },
+  { header: "REF", width: 66, value: ({ item }) => item.ref },
+  { header: "GTIN", width: 88, value: ({ item }) => item.gtin },
+  { header: "Serial", width: 66, value: ({ item }) => item.serial },
+  { header: "Review", width: 64, value: ({ item }) => reviewSummary(item) },
+];
+
+function collect(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+}
+
+function drawTableHeader(doc: PDFKit.PDFDocument, y: number) {
+  doc.font("Helvetica-Bold").fontSize(8).fillColor("#111111");
+  let x = MARGIN + THUMB_SIZE + 8;
+  doc.text("Photo", MARGIN, y, { width: THUMB_SIZE });
+  for (const column of PDF_COLUMNS) {
+    doc.text(column.header, x, y, { width: column.width - 6 });
+    x += column.width;
+  }
+  doc.moveTo(MARGIN, y + HEADER_HEIGHT - 4).lineTo(doc.page.width - MARGIN, y + HEADER_HEIGHT - 4).strokeColor("#999999").stroke();
+}
+
+async function drawThumbnail(doc: PDFKit.PDFDocument, row: ExportRow, y: number) {
+  const { item } = row;
+  const data = item.imageId && EMBEDDABLE.includes(item.imageMimeType) ? await readBlob(item.imageId) : null;
+  if (data) {
+    try {
+      doc.image(data, MARGIN, y, { fit: [THUMB_SIZE, THUMB_SIZE], align: "center", valign: "center" });
+      return;
+    } catch {
+      // Corrupt or mislabelled image: fall through to the placeholder.
+    }
+  }
+  doc.rect(MARGIN, y, THUMB_SIZE, THUMB_SIZE).strokeColor("#cccccc").stroke();
+  doc.font("Helvetica").fontSize(6).fillColor("#777777");
+  doc.text(item.imageId ? "No preview" : "No photo", MARGIN, y + THUMB_SIZE / 2 - 3, { width: THUMB_SIZE, align: "center" });
+}
+
+async function drawRow(doc: PDFKit.PDFDocument, row: ExportRow, y: number) {
+  await drawThumbnail(doc, row, y);
+  let x = MARGIN + THUMB_SIZE + 8;
+  for (const column of PDF_COLUMNS) {
+    const isStatus = column.header === "Status";
+    doc
+      .font(isStatus ? "Helvetica-Bold" : "Helvetica")
+      .fontSize(8)
+      .fillColor(isStatus ? STATUS_COLORS[row.item.status] : "#111111")
+      .text(column.value(row), x, y, { width: column.width - 6, height: THUMB_SIZE, ellipsis: true });
+    x += column.width;
+  }
+  doc.moveTo(MARGIN, y + ROW_HEIGHT - 3).lineTo(doc.page.width - MARGIN, y + ROW_HEIGHT - 3).strokeColor("#e5e5e5").stroke();
+}
+
+function drawSummary(doc: PDFKit.PDFDocument, report: ExportReport): number {
+  doc.font("Helvetica-Bold").fontSize(16).fillColor("#111111").text("Expiry date report", MARGIN, MARGIN);
+  doc.font("Helvetica").fontSize(9).fillColor("#333333");
+  doc.text(`Generated ${report.generatedLabel}`);
+  doc.text(`Filters: ${report.filterLabel}`);
+  doc.moveDown(0.8);
+
+  doc.font("Helvetica-Bold").fontSize(10).fillColor("#111111").text(`${report.rows.length} items`);
+  const top = doc.y + 4;
+  let x = MARGIN;
+  for (const { status, count } of report.counts) {
+    doc.roundedRect(x, top, 84, 30, 4).strokeColor(STATUS_COLORS[status]).stroke();
+    doc.font("Helvetica-Bold").fontSize(12).fillColor(STATUS_COLORS[status]).text(String(count), x, top + 4, { width: 84, align: "center" });
+    doc.font("Helvetica").fontSize(7).text(status, x, top + 19, { width: 84, align: "center" });
+    x += 92;
+  }
+  return top + 30 + 16;
+}
+
+/** Page numbers and the timestamp go on every page once the page count is known. */
+function drawFooters(doc: PDFKit.PDFDocument, report: ExportReport) {
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.margins.bottom;
+    // Writing inside the bottom margin would otherwise start a new page.
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(7)
+      .fillColor("#777777")
+      .text(`Generated ${report.generatedLabel} — page ${i + 1} of ${count}`, MARGIN, doc.page.height - MARGIN + 10, {
+        width: doc.page.width - MARGIN * 2,
+        align: "right",
+      });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+export async function toPdf(report: ExportReport): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", layout: "landscape", margin: MARGIN, bufferPages: true, info: { Title: "Expiry date report" } });
+  const done = collect(doc);
+
+  let y = drawSummary(doc, report);
+  drawTableHeader(doc, y);
+  y += HEADER_HEIGHT;
+  for (const row of report.rows) {
+    if (y + ROW_HEIGHT > doc.page.height - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+      drawTableHeader(doc, y);
+      y += HEADER_HEIGHT;
+    }
+    await drawRow(doc, row, y);
+    y += ROW_HEIGHT;
+  }
+  if (!report.rows.length) {
+    doc.font("Helvetica").fontSize(9).fillColor("#555555").text("No items match these filters.", MARGIN, y + 4);
+  }
+
+  drawFooters(doc, report);
+  doc.end();
+  return done;
+}
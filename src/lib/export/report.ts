@@ -0,0 +1,56 @@
+import type { InventoryItem } from "@/lib/items/types";
+import { EXPIRY_STATUSES, todayIn, type ExpiryStatus } from "@/lib/status";
+import type { ExportRow } from "./columns";
+import type { ExportFilters } from "./filters";
+
+/** Everything a format needs to render; built once per request. */
+export type ExportReport = {
+  rows: ExportRow[];
+  filters: ExportFilters;
+  generatedAt: Date;
+  /** `generatedAt` on the configured status calendar, e.g. "2026-10-19 16:02:11 Europe/London". */
+  generatedLabel: string;
+  /** Human-readable summary of `filters` for report headers. */
+  filterLabel: string;
+  /** Items per status, most urgent first, leaving out statuses with none. */
+  counts: { status: ExpiryStatus; count: number }[];
+};
+
+function describeFilters(filters: ExportFilters): string {
+  const parts: string[] = [];
+  if (filters.statuses.length) parts.push(`status ${filters.statuses.join(", ")}`);
+  if (filters.from || filters.to) {
+    const field = filters.dateField === "createdAt" ? "captured" : "expiry";
+    parts.push(`${field} ${filters.from ?? "…"} to ${filters.to ?? "…"}`);
+  }
+  if (filters.search) parts.push(`search "${filters.search}"`);
+  return parts.length ? parts.join("; ") : "All items";
+}
+
+export function generatedLabel(at: Date, timeZone: string): string {
+  const time = new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", second: "2-digit", hourCycle: "h23" }).format(at);
+  return `${todayIn(timeZone, at)} ${time} ${timeZone}`;
+}
+
+export function createReport(
+  items: InventoryItem[],
+  filters: ExportFilters,
+  options: { origin: string; timeZone: string; now?: Date }
+): ExportReport {
+  const generatedAt = options.now ?? new Date();
+  const rows = items.map((item) => ({
+    item,
+    imageUrl: item.imageId ? `${options.origin}/api/items/${item.id}/image` : "",
+  }));
+  const counts = EXPIRY_STATUSES.map((status) => ({ status, count: items.filter((i) => i.status === status).length })).filter(
+    (c) => c.count > 0
+  );
+  return {
+    rows,
+    filters,
+    generatedAt,
+    generatedLabel: generatedLabel(generatedAt, options.timeZone),
+    filterLabel: describeFilters(filters),
+    counts,
+  };
+}
@@ -0,0 +1,28 @@
+import ExcelJS from "exceljs";
+import { EXPORT_COLUMNS } from "./columns";
+import type { ExportReport } from "./report";
+
+export async function toXlsx(report: ExportReport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = report.generatedAt;
+
+  const sheet = workbook.addWorksheet("Items", { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = EXPORT_COLUMNS.map((c) => ({ header: c.header, key: c.header, width: c.width }));
+  sheet.getRow(1).font = { bold: true };
+  for (const row of report.rows) sheet.addRow(EXPORT_COLUMNS.map((c) => c.value(row)));
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: EXPORT_COLUMNS.length } };
+
+  const summary = workbook.addWorksheet("Summary");
+  summary.columns = [{ width: 20 }, { width: 40 }];
+  summary.addRows([
+    ["Generated", report.generatedLabel],
+    ["Filters", report.filterLabel],
+    ["Items", report.rows.length],
+    [],
+    ["Status", "Count"],
+    ...report.counts.map(({ status, count }) => [status, count]),
+  ]);
+  summary.getRow(5).font = { bold: true };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,51 @@
+import { createJsonFile } from "@/lib/store/json-file";
+import type { ExtractionProvider, ExtractionResult } from "./types";
+
+type CacheEntry = { result: ExtractionResult; storedAt: string };
+
+const file = createJsonFile<{ entries: Record<string, CacheEntry> }>("analysis-cache.json", () => ({ entries: {} }));
+
+/** Oldest entries go first once the cache holds this many reads. */
+const MAX_ENTRIES = 5000;
+
+/** How long a provider read is reused; ANALYSIS_CACHE_TTL_HOURS=0 turns the cache off. */
+export function cacheTtlMs(): number {
+  const hours = Number(process.env.ANALYSIS_CACHE_TTL_HOURS);
+  return (Number.isFinite(hours) && hours >= 0 ? hours : 24 * 7) * 60 * 60 * 1000;
+}
+
+/** A read depends on the exact bytes and on which provider and model read them. */
+function cacheKey(provider: ExtractionProvider, contentHash: string): string {
+  return `${provider.name}:${provider.model}:${contentHash}`;
+}
+
+function isFresh(entry: CacheEntry | undefined, now: number, ttl: number): entry is CacheEntry {
+  return Boolean(entry) && now - Date.parse(entry!.storedAt) < ttl;
+}
+
+export async function getCachedExtraction(provider: ExtractionProvider, contentHash: string): Promise<ExtractionResult | null> {
+  const ttl = cacheTtlMs();
+  if (!ttl) return null;
+  const { entries } = await file.read();
+  const entry = entries[cacheKey(provider, contentHash)];
+  return isFresh(entry, Date.now(), ttl) ? entry.result : null;
+}
+
+export async function putCachedExtraction(provider: ExtractionProvider, contentHash: string, result: ExtractionResult): Promise<void> {
+  const ttl = cacheTtlMs();
+  if (!ttl) return;
+  const now = Date.now();
+  await file.update((data) => {
+    for (const [key, entry] of Object.entries(data.entries)) {
+      if (!isFresh(entry, now, ttl)) delete data.entries[key];
+    }
+    data.entries[cacheKey(provider, contentHash)] = { result, storedAt: new Date(now).toISOString() };
+    const keys = Object.keys(data.entries);
+    if (keys.length > MAX_ENTRIES) {
+      keys
+        .sort((a, b) => data.entries[a].storedAt.localeCompare(data.entries[b].storedAt))
+        .slice(0, keys.length - MAX_ENTRIES)
+        .forEach((key) => delete data.entries[key]);
+    }
+  });
+}
@@ -0,0 +1,36 @@
+// Pure checks shared by the API and the dashboard; no Node imports here.
+
+export type LabelWarning = "expiry_before_manufacture" | "gtin_check_digit" | "barcode_mismatch";
+
+export const WARNING_MESSAGES: Record<LabelWarning, string> = {
+  expiry_before_manufacture: "Expiry date is earlier than the manufacture date",
+  gtin_check_digit: "GTIN check digit does not match",
+  barcode_mismatch: "Printed text disagrees with the barcode; the barcode value was kept",
+};
+
+/** GS1 mod-10 check for GTIN-8/12/13/14. */
+export function isValidGtin(gtin: string): boolean {
+  if (!/^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(gtin)) return false;
+  const digits = gtin.split("").map(Number);
+  const check = digits.pop()!;
+  const sum = digits
+    .reverse()
+    .reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+export function checkConsistency(fields: {
+  expiryDate: string;
+  manufactureDate: string;
+  gtin: string;
+  barcodeConflicts?: string[];
+}): LabelWarning[] {
+  const warnings: LabelWarning[] = [];
+  // ISO dates compare correctly as strings.
+  if (fields.expiryDate && fields.manufactureDate && fields.expiryDate < fields.manufactureDate) {
+    warnings.push("expiry_before_manufacture");
+  }
+  if (fields.gtin && !isValidGtin(fields.gtin)) warnings.push("gtin_check_digit");
+  if (fields.barcodeConflicts?.length) warnings.push("barcode_mismatch");
+  return warnings;
+}
@@ -0,0 +1,87 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { parseModelReply } from "./parse";
+import { ProviderConfigError, type ExtractionInput, type ExtractionProvider } from "./types";
+
+const GEMINI_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"] as const;
+
+/** Uploads are converted before they get here; anything else would be sent to the model under the wrong type. */
+function getGeminiMimeType(mimeType: string): string {
+  const t = (mimeType || "").toLowerCase();
+  if (GEMINI_IMAGE_TYPES.includes(t as (typeof GEMINI_IMAGE_TYPES)[number])) return t;
+  throw new Error(`Gemini cannot read ${mimeType || "untyped"} images; preprocess the upload first`);
+}
+
+export const LABEL_PROMPT = `You are a product label reader. Read ALL text visible in the image and extract:
+
+1) product: The product name FROM THE TEXT in the image.
+- Prefer the value of labeled fields such as: "Product Description", "QR Item Description", "Item Description", "Product Name", "Product:", "Description:" (use the value after the colon).
+- Examples from such fields: "TOILET SEAT SANITIZING WIPES", "Refreshing Towel EY", "SHARPS CONTAINER 10L, 20 PCS PER BOX", "100% Natural Hair Remover", "CAFÉ NAJJAR RAQWA".
+- If there is no such field, use the main product name or title clearly visible on the label (brand + product as written). Do NOT use LOT, REF, batch, or barcode codes as the product name.
+- If the image only shows dates/lot/REF (e.g. LOT 20240715, REF LM240720, P: 11/2024, E: 10/2029) with no product description, return an empty string for product.
+
+2) expiryDate: The expiry / best before / use-by date FROM THE TEXT in the image only, copied exactly as printed.
+- Look for labels like: "Expiry Date", "Exp:", "E:", "Use by", "Best before", "EXPIRY DATE", hourglass symbol with date, etc.
+- Return only the date itself, without the label, in the format it is printed (e.g. "31.01.2027", "2027/01", "10/2029", "June 2029", "Jul-2027", "27045"). Do NOT reorder, convert or complete it.
+- If none or unreadable, return an empty string. Do NOT use manufacture/production date (P:, Prod., Production Date) as expiry.
+
+3) lot: The lot / batch number (after "LOT", "Lot No.", "Batch", "(10)" or the LOT symbol), exactly as printed. Empty string if none.
+
+4) ref: The REF / catalogue / article number (after "REF", "Cat. No.", "Art." or the REF symbol), exactly as printed. Empty string if none.
+
+5) gtin: The GTIN / EAN / UPC number (after "GTIN", "(01)" or under a barcode), digits only. Empty string if none.
+
+6) manufactureDate: The manufacture / production date (after "P:", "Prod.", "MFG", "MFD", "Production Date" or the factory symbol), copied exactly as printed like expiryDate. Empty string if none.
+
+7) confidence: For every field above, how sure you are of the value from 0.0 to 1.0. Use a low score when the text is blurred, cut off, partly hidden, or when you had to choose between several candidates. Use 0 for fields you left empty.
+
+8) evidence: For every non-empty field, the exact text on the label you took the value from, including its label (e.g. "EXP 10/2029", "LOT 20240715").
+
+Reply with ONLY a single-line JSON object, no markdown. Example:
+{"product":"SHARPS CONTAINER 10L","expiryDate":"2027/01","lot":"20240715","ref":"LM240720","gtin":"","manufactureDate":"11/2024","confidence":{"product":0.95,"expiryDate":0.9,"lot":0.9,"ref":0.85,"gtin":0,"manufactureDate":0.8},"evidence":{"product":"SHARPS CONTAINER 10L","expiryDate":"E: 2027/01","lot":"LOT 20240715","ref":"REF LM240720","manufactureDate":"P: 11/2024"}}`;
+
+/** Appended to the prompt when several photos of one package are sent together. */
+function multiImageNote(count: number): string {
+  return `
+
+The ${count} images are different sides of the SAME package. Combine them into one answer: take each field from whichever image shows it most clearly.
+Also add "images": for every non-empty field, the number (1 to ${count}, in the order the images were given) of the image you took it from, e.g. "images":{"product":1,"expiryDate":2}.`;
+}
+
+export function createGeminiProvider(): ExtractionProvider {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new ProviderConfigError("GEMINI_API_KEY not configured");
+  const modelName = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({
+    model: modelName,
+    generationConfig: { temperature: 0.2 },
+  });
+
+  const read = async (inputs: ExtractionInput[]) => {
+    const prompt = inputs.length > 1 ? LABEL_PROMPT + multiImageNote(inputs.length) : LABEL_PROMPT;
+    const result = await model.generateContent({
+      contents: [
+        { role: "user", parts: [
+          { text: prompt },
+          ...inputs.map(({ buffer, mimeType }) => ({ inlineData: { data: buffer.toString("base64"), mimeType: getGeminiMimeType(mimeType) } })),
+        ]},
+      ],
+    });
+
+    let rawText: string;
+    try {
+      rawText = result.response.text() ?? "";
+    } catch {
+      rawText = "";
+    }
+    return parseModelReply(rawText, inputs.length);
+  };
+
+  return {
+    name: "gemini",
+    model: modelName,
+    extract: (input) => read([input]),
+    extractMany: read,
+  };
+}
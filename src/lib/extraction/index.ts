@@ -0,0 +1,290 @@
+import { readBarcodeFields, type BarcodeFields, type Gs1Date } from "@/lib/barcodes";
+import { MANUAL_EVIDENCE, reviewReasons, reviewThreshold } from "@/lib/review";
+import { defaultParseOptions, parseExpiryDate, type ParseExpiryOptions, type ParsedExpiry } from "@/lib/dates";
+import { contentHash, hashImage } from "@/lib/images/hash";
+import { getCachedExtraction, putCachedExtraction } from "./cache";
+import { checkConsistency } from "./checks";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOcrProvider } from "./ocr";
+import { createRecordedProvider } from "./recorded";
+import {
+  ProviderConfigError,
+  type AnalyzeResponse,
+  type ExtractionInput,
+  type ExtractionProvider,
+  type ExtractionResult,
+  type LabelField,
+  type SourcedField,
+} from "./types";
+
+export { ProviderConfigError } from "./types";
+export type {
+  AnalyzeResponse,
+  ExtractionInput,
+  ExtractionProvider,
+  ExtractionResult,
+  FieldConfidence,
+  FieldSource,
+  FieldSources,
+  SourcedField,
+} from "./types";
+export type { LabelWarning } from "./checks";
+
+const PROVIDERS: Record<string, () => ExtractionProvider> = {
+  gemini: createGeminiProvider,
+  ocr: createOcrProvider,
+  mock: createMockProvider,
+  recorded: createRecordedProvider,
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS);
+
+/**
+ * Resolves the provider for a request: explicit name, then EXTRACTION_PROVIDER,
+ * then Gemini when a key is configured and local OCR otherwise.
+ */
+export function getExtractionProvider(requested?: string | null): ExtractionProvider {
+  const name = (requested || process.env.EXTRACTION_PROVIDER || (process.env.GEMINI_API_KEY ? "gemini" : "ocr"))
+    .trim()
+    .toLowerCase();
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new ProviderConfigError(`Unknown extraction provider "${name}" (expected one of: ${PROVIDER_NAMES.join(", ")})`);
+  }
+  return factory();
+}
+
+export type AnalyzeOverrides = {
+  manualProduct?: string | null;
+  manualDate?: string | null;
+  /** Overrides EXPIRY_DATE_LOCALE for DD/MM vs MM/DD resolution. */
+  locale?: string | null;
+};
+
+function withExpiry(response: AnalyzeResponse, parsed: ParsedExpiry): AnalyzeResponse {
+  return {
+    ...response,
+    expiryDate: parsed.iso,
+    expiryText: parsed.original.trim(),
+    expiryPrecision: parsed.precision,
+    expiryAmbiguous: parsed.ambiguous,
+  };
+}
+
+const LABEL_FIELDS: LabelField[] = ["product", "expiryDate", "lot", "ref", "gtin", "manufactureDate"];
+
+/** Score for a value the provider returned without rating it. */
+const UNSCORED = 0.5;
+
+function cleanCode(value: string): string {
+  return value.trim().replace(/\s+/g, " ").slice(0, 64);
+}
+
+function sameCode(a: string, b: string): boolean {
+  const norm = (v: string) => v.toUpperCase().replace(/[^0-9A-Z]/g, "");
+  return norm(a) === norm(b);
+}
+
+/** A month-precision date on either side only has to agree on the month. */
+function sameDate(labelIso: string, labelPrecision: ParsedExpiry["precision"] | undefined, barcode: Gs1Date): boolean {
+  if (labelPrecision === "month" || barcode.precision === "month") return labelIso.slice(0, 7) === barcode.iso.slice(0, 7);
+  return labelIso === barcode.iso;
+}
+
+/**
+ * Barcode values replace what the provider read from the printed text; where
+ * both exist and disagree the field is listed in `barcodeConflicts` so it can
+ * be reviewed.
+ */
+function applyBarcode(
+  response: AnalyzeResponse,
+  barcode: BarcodeFields,
+  manufacturePrecision: ParsedExpiry["precision"]
+): AnalyzeResponse {
+  const result = { ...response, fieldSources: { ...response.fieldSources }, barcodeConflicts: [...response.barcodeConflicts] };
+  result.confidence = { ...response.confidence };
+  // Check digits and structure make a decoded value as good as certain.
+  const take = (field: SourcedField, value: string, agrees: boolean, evidence: string) => {
+    if (result[field] && !agrees) result.barcodeConflicts.push(field);
+    result[field] = value;
+    result.fieldSources[field] = "barcode";
+    result.confidence[field] = { score: 1, evidence };
+  };
+  if (barcode.gtin) {
+    take("gtin", barcode.gtin, result.gtin.padStart(14, "0") === barcode.gtin.padStart(14, "0"), `(01)${barcode.gtin}`);
+  }
+  if (barcode.lot) take("lot", barcode.lot, sameCode(result.lot, barcode.lot), `(10)${barcode.lot}`);
+  if (barcode.serial) take("serial", barcode.serial, sameCode(result.serial, barcode.serial), `(21)${barcode.serial}`);
+  if (barcode.production) {
+    const agrees = sameDate(result.manufactureDate, manufacturePrecision, barcode.production);
+    take("manufactureDate", barcode.production.iso, agrees, `(11)${barcode.production.raw}`);
+  }
+  if (barcode.expiry) {
+    const evidence = `(17)${barcode.expiry.raw}`;
+    take("expiryDate", barcode.expiry.iso, sameDate(result.expiryDate, result.expiryPrecision, barcode.expiry), evidence);
+    result.expiryText = evidence;
+    result.expiryPrecision = barcode.expiry.precision;
+    result.expiryAmbiguous = false;
+  }
+  return result;
+}
+
+/** The provider's read for `key`, from the cache when it has one and `refresh` is not set. */
+async function cachedRead(provider: ExtractionProvider, key: string, refresh: boolean, read: () => Promise<ExtractionResult>) {
+  if (provider.cacheable === false) return { raw: await read(), cached: false };
+  const hit = refresh ? null : await getCachedExtraction(provider, key);
+  if (hit) return { raw: hit, cached: true };
+  const raw = await read();
+  await putCachedExtraction(provider, key, raw);
+  return { raw, cached: false };
+}
+
+/** The best-scored value of each field across separate reads, and the photo it came from. */
+function combineReads(reads: ExtractionResult[]): ExtractionResult {
+  const combined: ExtractionResult = {
+    product: "",
+    expiryDate: "",
+    lot: "",
+    ref: "",
+    gtin: "",
+    manufactureDate: "",
+    rawText: reads.map((r, i) => `[${i + 1}] ${r.rawText}`).join("\n"),
+    confidence: {},
+    fieldImages: {},
+  };
+  for (const field of LABEL_FIELDS) {
+    let best = -1;
+    let bestScore = -1;
+    reads.forEach((read, i) => {
+      const score = read.confidence?.[field]?.score ?? UNSCORED;
+      if (read[field].trim() && score > bestScore) [best, bestScore] = [i, score];
+    });
+    if (best < 0) continue;
+    combined[field] = reads[best][field];
+    const read = reads[best].confidence?.[field];
+    if (read) combined.confidence![field] = read;
+    combined.fieldImages![field] = best;
+  }
+  return combined;
+}
+
+/**
+ * One read for all photos: a single call where the provider can take them
+ * together (cached under the photos' hashes in order), otherwise each photo
+ * on its own, combined field by field.
+ */
+async function extract(provider: ExtractionProvider, inputs: ExtractionInput[], hashes: string[], refresh: boolean) {
+  if (inputs.length === 1) return cachedRead(provider, hashes[0], refresh, () => provider.extract(inputs[0]));
+  const extractMany = provider.extractMany;
+  if (extractMany) {
+    return cachedRead(provider, contentHash(Buffer.from(hashes.join(","))), refresh, () => extractMany(inputs));
+  }
+  const reads = await Promise.all(inputs.map((input, i) => cachedRead(provider, hashes[i], refresh, () => provider.extract(input))));
+  return { raw: combineReads(reads.map((r) => r.raw)), cached: reads.every((r) => r.cached) };
+}
+
+const BARCODE_FIELDS: [keyof BarcodeFields, SourcedField][] = [
+  ["gtin", "gtin"],
+  ["lot", "lot"],
+  ["serial", "serial"],
+  ["production", "manufactureDate"],
+  ["expiry", "expiryDate"],
+];
+
+/** Each barcode value from the first photo that has one, and which photo that was. */
+function combineBarcodes(reads: BarcodeFields[]): { barcode: BarcodeFields; images: Partial<Record<SourcedField, number>> } {
+  const barcode: BarcodeFields = { ...reads[0], barcodes: reads.flatMap((r) => r.barcodes) };
+  const images: Partial<Record<SourcedField, number>> = {};
+  for (const [key, field] of BARCODE_FIELDS) {
+    const index = reads.findIndex((r) => r[key]);
+    if (index < 0) continue;
+    Object.assign(barcode, { [key]: reads[index][key] });
+    images[field] = index;
+  }
+  return { barcode, images };
+}
+
+/**
+ * Reads one package from one or more photos (e.g. front and back label).
+ * With several, `fieldImages` says which photo each value came from; the
+ * hashes in the response are the first photo's.
+ */
+export async function analyzeImages(
+  provider: ExtractionProvider,
+  inputs: ExtractionInput[],
+  overrides: AnalyzeOverrides = {},
+  options: { refresh?: boolean } = {}
+): Promise<AnalyzeResponse> {
+  const dateOptions: ParseExpiryOptions = {
+    ...defaultParseOptions(),
+    ...(overrides.locale?.trim() ? { locale: overrides.locale.trim() } : {}),
+  };
+  const allHashes = await Promise.all(inputs.map((input) => hashImage(input.buffer)));
+  const hashes = allHashes[0];
+  const [{ raw, cached }, barcodes] = await Promise.all([
+    extract(provider, inputs, allHashes.map((h) => h.contentHash), options.refresh ?? false),
+    Promise.all(inputs.map((input) => readBarcodeFields(input.buffer))),
+  ]);
+  const { barcode, images: barcodeImages } = combineBarcodes(barcodes);
+  // A month-only manufacture date means the start of that month, whatever the expiry rule.
+  const manufacture = raw.manufactureDate.trim()
+    ? parseExpiryDate(raw.manufactureDate, { ...dateOptions, monthOnly: "start" })
+    : null;
+  let extracted: AnalyzeResponse = {
+    product: raw.product.trim().slice(0, 120),
+    expiryDate: "",
+    lot: cleanCode(raw.lot),
+    ref: cleanCode(raw.ref),
+    gtin: raw.gtin.replace(/\D/g, ""),
+    manufactureDate: manufacture?.iso ?? "",
+    serial: "",
+    warnings: [],
+    fieldSources: {},
+    barcodeConflicts: [],
+    confidence: {},
+    reviewReasons: [],
+    ...hashes,
+    cached,
+    provider: provider.name,
+    model: provider.model,
+    raw,
+  };
+  if (raw.expiryDate.trim()) {
+    extracted = withExpiry(extracted, parseExpiryDate(raw.expiryDate, dateOptions));
+  }
+  for (const field of LABEL_FIELDS) {
+    const read = raw.confidence?.[field];
+    if (extracted[field]) extracted.fieldSources[field] = "label";
+    // Values the provider did not score count as uncertain rather than certain.
+    if (extracted[field] || read) extracted.confidence[field] = read ?? { score: UNSCORED, evidence: raw[field] };
+  }
+  // An unread product is as much a reason to look as a badly read one.
+  if (!extracted.product) extracted.confidence.product = { score: 0, evidence: "" };
+  extracted = applyBarcode(extracted, barcode, manufacture?.precision ?? null);
+  if (inputs.length > 1) {
+    const fieldImages: Partial<Record<SourcedField, number>> = {};
+    for (const [field, source] of Object.entries(extracted.fieldSources) as [SourcedField, string][]) {
+      const index = source === "barcode" ? barcodeImages[field] : raw.fieldImages?.[field as LabelField];
+      if (index !== undefined) fieldImages[field] = index;
+    }
+    extracted.fieldImages = fieldImages;
+  }
+
+  const manual = overrides.manualProduct?.trim() ?? "";
+  if (manual && !/^product_\d+$/.test(manual)) {
+    extracted.product = manual.slice(0, 120);
+    extracted.fieldSources.product = "manual";
+    delete extracted.fieldImages?.product;
+    extracted.confidence.product = { score: 1, evidence: MANUAL_EVIDENCE };
+  }
+  if (overrides.manualDate?.trim()) {
+    extracted = withExpiry(extracted, parseExpiryDate(overrides.manualDate, dateOptions));
+    extracted.fieldSources.expiryDate = "manual";
+    delete extracted.fieldImages?.expiryDate;
+    extracted.confidence.expiryDate = { score: 1, evidence: MANUAL_EVIDENCE };
+  }
+  extracted.warnings = checkConsistency(extracted);
+  extracted.reviewReasons = reviewReasons(extracted, reviewThreshold());
+  return extracted;
+}
@@ -0,0 +1,57 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import type { ExtractionProvider, ExtractionResult, FieldConfidence, LabelField } from "./types";
+
+type Fixture = Partial<Omit<ExtractionResult, "rawText" | "confidence">> & {
+  rawText?: string;
+  /** Per-field scores; unscored non-empty fields get DEFAULT_SCORE. */
+  confidence?: Partial<Record<LabelField, number>>;
+};
+
+const DEFAULT_SCORE = 0.95;
+
+const DEFAULT_FIXTURES = path.join(process.cwd(), "fixtures", "mock-extraction.json");
+
+async function loadFixtures(): Promise<Record<string, Fixture>> {
+  const file = process.env.MOCK_EXTRACTION_FIXTURES || DEFAULT_FIXTURES;
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as Record<string, Fixture>;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw err;
+  }
+}
+
+/**
+ * Answers from a fixture file keyed by the image's sha256 or file name, with
+ * `"*"` as the fallback entry. Same image in, same answer out.
+ */
+export function createMockProvider(): ExtractionProvider {
+  return {
+    name: "mock",
+    model: "fixtures",
+    // Fixtures can be keyed by file name, so the same bytes may get different answers.
+    cacheable: false,
+    async extract({ buffer, fileName }) {
+      const fixtures = await loadFixtures();
+      const hash = createHash("sha256").update(buffer).digest("hex");
+      const hit = fixtures[hash] ?? fixtures[fileName] ?? fixtures["*"] ?? {};
+      const fields = {
+        product: hit.product ?? "",
+        expiryDate: hit.expiryDate ?? "",
+        lot: hit.lot ?? "",
+        ref: hit.ref ?? "",
+        gtin: hit.gtin ?? "",
+        manufactureDate: hit.manufactureDate ?? "",
+      };
+      const confidence: Partial<Record<LabelField, FieldConfidence>> = {};
+      for (const [field, value] of Object.entries(fields) as [LabelField, string][]) {
+        const score = hit.confidence?.[field];
+        if (value || score !== undefined) confidence[field] = { score: score ?? DEFAULT_SCORE, evidence: value };
+      }
+      const result: ExtractionResult = { ...fields, rawText: hit.rawText ?? JSON.stringify(fields), confidence };
+      return result;
+    },
+  };
+}
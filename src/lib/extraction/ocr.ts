@@ -0,0 +1,124 @@
+import { createWorker, type Worker } from "tesseract.js";
+import type { ExtractionProvider, ExtractionResult, FieldConfidence, LabelField } from "./types";
+
+const PRODUCT_LABELS = /^(?:qr\s+)?(?:product\s+description|item\s+description|product\s+name|product|description)\s*[:\-]\s*(.+)$/i;
+const EXPIRY_LABELS = /\b(?:expiry\s+date|expiry|exp|use\s+by|best\s+before(?:\s+end)?|bbe?)\b\s*[:.]?\s*(.+)$|\bE\s*:\s*(.+)$/i;
+const PRODUCTION_LABELS = /^\s*(?:p|prod\.?|production\s+date|mfg\.?|mfd\.?|manufactured)\s*[:.]/i;
+const CODE_LINE = /^\s*(?:lot|ref|batch|sn|s\/n|gtin|\(\d{2}\))\b/i;
+const LOT_LABEL = /\b(?:lot(?:\s*no\.?)?|batch(?:\s*no\.?)?|\(10\))\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-\/.]*)/i;
+const REF_LABEL = /\b(?:ref|cat\.?\s*no\.?|art\.?\s*no\.?)\s*[:#.]?\s*([A-Z0-9][A-Z0-9\-\/.]*)/i;
+const GTIN_LABEL = /(?:\bgtin|\bean|\(01\))\s*[:#.]?\s*(\d{14}|\d{13}|\d{12}|\d{8})\b/i;
+const PRODUCTION_DATE = /(?:^|\s)(?:p|prod\.?|production\s+date|mfg\.?|mfd\.?|manufactured)\s*[:.]\s*(.+)$/i;
+const DATE_TOKEN = /(\d{1,4}[\/\-.]\d{1,2}(?:[\/\-.]\d{2,4})?|[A-Za-z]{3,9}[\s\-]\d{4})/;
+
+/** Values found next to a printed label are trusted more than a guessed product line. */
+const LABELED_SCORE = 0.9;
+const GUESSED_SCORE = 0.5;
+
+/**
+ * Picks label fields out of raw OCR text using the same label cues the LLM
+ * prompt lists. Each value's evidence is the line it was found on.
+ */
+export function extractFieldsFromText(text: string): ExtractionResult {
+  const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  let product = "";
+  let expiryDate = "";
+  let lot = "";
+  let ref = "";
+  let gtin = "";
+  let manufactureDate = "";
+  const confidence: Partial<Record<LabelField, FieldConfidence>> = {};
+  const found = (field: LabelField, line: string, score = LABELED_SCORE) => {
+    confidence[field] = { score, evidence: line.slice(0, 200) };
+  };
+
+  for (const line of lines) {
+    if (!product) {
+      const m = line.match(PRODUCT_LABELS);
+      if (m) {
+        product = m[1].trim();
+        found("product", line);
+      }
+    }
+    if (!expiryDate) {
+      const m = line.match(EXPIRY_LABELS);
+      const date = (m?.[1] ?? m?.[2])?.match(DATE_TOKEN);
+      if (date) {
+        expiryDate = date[1];
+        found("expiryDate", line);
+      }
+    }
+    if (!manufactureDate) {
+      const date = line.match(PRODUCTION_DATE)?.[1].match(DATE_TOKEN);
+      if (date) {
+        manufactureDate = date[1];
+        found("manufactureDate", line);
+      }
+    }
+    if (!lot) {
+      lot = line.match(LOT_LABEL)?.[1] ?? "";
+      if (lot) found("lot", line);
+    }
+    if (!ref) {
+      ref = line.match(REF_LABEL)?.[1] ?? "";
+      if (ref) found("ref", line);
+    }
+    if (!gtin) {
+      gtin = line.match(GTIN_LABEL)?.[1] ?? "";
+      if (gtin) found("gtin", line);
+    }
+  }
+
+  if (!product) {
+    // No labeled field: use the first line that reads like words rather than codes or dates.
+    const candidate = lines.find((line) =>
+      !CODE_LINE.test(line) &&
+      !PRODUCTION_LABELS.test(line) &&
+      !EXPIRY_LABELS.test(line) &&
+      (line.match(/[A-Za-z]/g)?.length ?? 0) >= 4
+    );
+    if (candidate) {
+      product = candidate;
+      found("product", candidate, GUESSED_SCORE);
+    }
+  }
+
+  return { product, expiryDate, lot, ref, gtin, manufactureDate, rawText: text, confidence };
+}
+
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    const langPath = process.env.OCR_LANG_PATH;
+    const langs = (process.env.OCR_LANGS || "eng").split("+");
+    workerPromise = createWorker(langs, undefined, {
+      ...(langPath ? { langPath, cachePath: langPath } : {}),
+    }).catch((err: unknown) => {
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * Tesseract running in-process. Set OCR_LANG_PATH to a directory holding
+ * `<lang>.traineddata` for air-gapped installs; otherwise the language data is
+ * fetched once and cached.
+ */
+export function createOcrProvider(): ExtractionProvider {
+  return {
+    name: "ocr",
+    model: `tesseract:${process.env.OCR_LANGS || "eng"}`,
+    async extract({ buffer }) {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(buffer);
+      const result = extractFieldsFromText(data.text ?? "");
+      // Scale the cue-based scores by how well Tesseract could read the page at all.
+      const pageScore = Math.min(1, Math.max(0, (data.confidence ?? 0) / 100));
+      for (const read of Object.values(result.confidence ?? {})) read.score = Math.round(read.score * pageScore * 100) / 100;
+      return result;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import type { ExtractionResult, FieldConfidence, LabelField } from "./types";
+
+const FIELDS: LabelField[] = ["product", "expiryDate", "lot", "ref", "gtin", "manufactureDate"];
+
+/** Score for values recovered from a reply that was not valid JSON. */
+const FALLBACK_SCORE = 0.5;
+
+function readConfidence(parsed: Record<string, unknown>, extracted: ExtractionResult): Partial<Record<LabelField, FieldConfidence>> {
+  const scores = (parsed.confidence ?? {}) as Record<string, unknown>;
+  const evidence = (parsed.evidence ?? {}) as Record<string, unknown>;
+  const result: Partial<Record<LabelField, FieldConfidence>> = {};
+  for (const field of FIELDS) {
+    const score = Number(scores[field]);
+    if (!extracted[field] && !Number.isFinite(score)) continue;
+    result[field] = {
+      score: Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : FALLBACK_SCORE,
+      evidence: String(evidence[field] ?? extracted[field]).trim().slice(0, 200),
+    };
+  }
+  return result;
+}
+
+/** The model numbers photos from 1; anything that is not one of them is dropped. */
+function readImages(parsed: Record<string, unknown>, extracted: ExtractionResult, imageCount: number): Partial<Record<LabelField, number>> {
+  const images = (parsed.images ?? {}) as Record<string, unknown>;
+  const result: Partial<Record<LabelField, number>> = {};
+  for (const field of FIELDS) {
+    const index = Number(images[field]);
+    if (extracted[field] && Number.isInteger(index) && index >= 1 && index <= imageCount) result[field] = index - 1;
+  }
+  return result;
+}
+
+/**
+ * Pulls the label fields out of an LLM reply. Models sometimes wrap the
+ * JSON in prose or markdown, or return JSON that does not parse, so fall back
+ * to matching the individual fields.
+ */
+export function parseModelReply(rawText: string, imageCount = 1): ExtractionResult {
+  const extracted: ExtractionResult = { product: "", expiryDate: "", lot: "", ref: "", gtin: "", manufactureDate: "", rawText };
+  const jsonStart = rawText.indexOf("{");
+  const jsonEnd = rawText.lastIndexOf("}");
+  const raw = jsonStart >= 0 && jsonEnd >= 0 ? rawText.slice(jsonStart, jsonEnd + 1) : rawText;
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    extracted.product = String(parsed.product ?? "").trim();
+    const rawExpiry = parsed.expiryDate ?? parsed.expiry ?? parsed.date ?? "";
+    if (rawExpiry) extracted.expiryDate = String(rawExpiry);
+    extracted.lot = String(parsed.lot ?? parsed.batch ?? "").trim();
+    extracted.ref = String(parsed.ref ?? "").trim();
+    extracted.gtin = String(parsed.gtin ?? "").trim();
+    extracted.manufactureDate = String(parsed.manufactureDate ?? "").trim();
+    extracted.confidence = readConfidence(parsed, extracted);
+    if (imageCount > 1) extracted.fieldImages = readImages(parsed, extracted, imageCount);
+  } catch {
+    extracted.confidence = {};
+    for (const field of FIELDS) {
+      const m = rawText.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`));
+      if (m) {
+        extracted[field] = m[1].replace(/\\"/g, '"');
+        extracted.confidence[field] = { score: FALLBACK_SCORE, evidence: extracted[field] };
+      }
+    }
+  }
+  return extracted;
+}
@@ -0,0 +1,45 @@
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import path from "path";
+import { parseModelReply } from "./parse";
+import type { ExtractionProvider } from "./types";
+
+/** Model replies saved from a live provider, keyed by the image's sha256 or file name. */
+export type RecordedReplies = {
+  /** The model that gave the replies. */
+  model: string;
+  replies: Record<string, string>;
+};
+
+const DEFAULT_REPLIES = path.join(process.cwd(), "fixtures", "eval", "replies.json");
+
+export function repliesFile(): string {
+  return process.env.RECORDED_REPLIES_FILE || DEFAULT_REPLIES;
+}
+
+export async function loadRecordedReplies(file = repliesFile()): Promise<RecordedReplies> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as RecordedReplies;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return { model: "", replies: {} };
+    throw err;
+  }
+}
+
+/**
+ * Replays recorded model replies through the same parser as the live
+ * provider, fallbacks for malformed JSON included, so a prompt's answers can
+ * be re-scored offline. An image with no recorded reply reads as empty.
+ */
+export function createRecordedProvider(): ExtractionProvider {
+  return {
+    name: "recorded",
+    model: "replies",
+    cacheable: false,
+    async extract({ buffer, fileName }) {
+      const { replies } = await loadRecordedReplies();
+      const hash = createHash("sha256").update(buffer).digest("hex");
+      return parseModelReply(replies[hash] ?? replies[fileName] ?? "");
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import type { DatePrecision } from "@/lib/dates";
+import type { PreprocessStep } from "@/lib/images/preprocess";
+import type { ReviewReason } from "@/lib/review";
+import type { LabelWarning } from "./checks";
+
+export type AnalyzeResponse = {
+  product: string;
+  expiryDate: string; // YYYY-MM-DD or ""
+  /** Expiry as read from the label or override, before normalization. */
+  expiryText?: string;
+  expiryPrecision?: DatePrecision | null;
+  expiryAmbiguous?: boolean;
+  lot: string;
+  /** REF / catalogue number. */
+  ref: string;
+  /** Digits only, as printed (GTIN-8/12/13/14). */
+  gtin: string;
+  manufactureDate: string; // YYYY-MM-DD or ""
+  /** Serial number, AI (21); only barcodes carry it. */
+  serial: string;
+  warnings: LabelWarning[];
+  fieldSources: FieldSources;
+  /** Fields where the printed text and the barcode disagreed; the barcode value was kept. */
+  barcodeConflicts: SourcedField[];
+  confidence: Partial<Record<SourcedField, FieldConfidence>>;
+  /** Why the item needs a person to look at it; empty when the read can be trusted as is. */
+  reviewReasons: ReviewReason[];
+  /** SHA-256 of the image bytes. */
+  contentHash: string;
+  /** dHash of the image for near-duplicate checks; null when it could not be decoded. */
+  perceptualHash: string | null;
+  /** True when the provider's read came from the analysis cache instead of a new call. */
+  cached: boolean;
+  /** Index of the photo each field came from, when several photos of one package were read together. */
+  fieldImages?: Partial<Record<SourcedField, number>>;
+  /** What /api/analyze did to the upload before reading it (conversion, rotation, downscaling, ...). */
+  preprocessing?: PreprocessStep[];
+  /** The provider and model that read the label, and their answer before any clean-up, for the audit log. */
+  provider: string;
+  model: string;
+  raw: ExtractionResult;
+};
+
+/** How sure the reader was (0–1) and the text the value was taken from. */
+export type FieldConfidence = { score: number; evidence: string };
+
+/** Where a value came from: a decoded barcode, the label text read by the provider, or a user override. */
+export type FieldSource = "barcode" | "label" | "manual";
+
+export type SourcedField = "product" | "expiryDate" | "lot" | "ref" | "gtin" | "serial" | "manufactureDate";
+
+export type FieldSources = Partial<Record<SourcedField, FieldSource>>;
+
+export type ExtractionInput = {
+  buffer: Buffer;
+  mimeType: string;
+  fileName: string;
+};
+
+/** Fields as the provider read them; dates are not normalized yet. */
+export type ExtractionResult = {
+  product: string;
+  expiryDate: string;
+  lot: string;
+  ref: string;
+  gtin: string;
+  manufactureDate: string;
+  rawText: string;
+  /** Per-field scores from the provider; fields it did not score are treated as uncertain. */
+  confidence?: Partial<Record<LabelField, FieldConfidence>>;
+  /** For a read of several photos, the index of the one each field was taken from. */
+  fieldImages?: Partial<Record<LabelField, number>>;
+};
+
+export type LabelField = "product" | "expiryDate" | "lot" | "ref" | "gtin" | "manufactureDate";
+
+export type ExtractionProvider = {
+  name: string;
+  model: string;
+  /** False for providers whose answer depends on more than the image bytes; their reads are never cached. */
+  cacheable?: boolean;
+  extract(input: ExtractionInput): Promise<ExtractionResult>;
+  /**
+   * Reads several photos of the same package in one call. Providers without
+   * it read each photo on its own and the best-scored value per field wins.
+   */
+  extractMany?(inputs: ExtractionInput[]): Promise<ExtractionResult>;
+};
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
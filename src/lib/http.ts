@@ -0,0 +1,17 @@
+/**
+ * The request's JSON body when it is an object, or the 400 response to send
+ * back when it is not JSON or is `null`, an array or a bare value. `init`
+ * carries extra headers, e.g. CORS, onto that response.
+ */
+export async function readJsonObject(req: Request, init?: ResponseInit): Promise<Record<string, unknown> | Response> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "invalid JSON body" }, { ...init, status: 400 });
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return Response.json({ error: "body must be a JSON object" }, { ...init, status: 400 });
+  }
+  return body as Record<string, unknown>;
+}
@@ -0,0 +1,50 @@
+/** Raw RGB pixels in the shape sharp's `raw` input expects. */
+export type RawImage = { data: Buffer; width: number; height: number; channels: 3 };
+
+export function isBmp(buffer: Buffer): boolean {
+  return buffer.length > 54 && buffer.toString("ascii", 0, 2) === "BM";
+}
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+/** Same ceiling sharp puts on decoded images by default. */
+const MAX_PIXELS = 0x3fff * 0x3fff;
+
+/**
+ * The prebuilt libvips has no BMP loader, so uncompressed Windows bitmaps
+ * (8-bit palette, 24-bit and 32-bit) are unpacked here. The fourth byte of
+ * 32-bit pixels is usually padding rather than alpha, so it is dropped.
+ * Returns null for RLE-compressed or otherwise unusual files.
+ */
+export function decodeBmp(buffer: Buffer): RawImage | null {
+  if (!isBmp(buffer)) return null;
+  const pixelOffset = buffer.readUInt32LE(10);
+  const headerSize = buffer.readUInt32LE(14);
+  const width = buffer.readInt32LE(18);
+  const rawHeight = buffer.readInt32LE(22);
+  const bits = buffer.readUInt16LE(28);
+  const compression = buffer.readUInt32LE(30);
+  // Rows are stored bottom-up unless the height is negative.
+  const height = Math.abs(rawHeight);
+  const bottomUp = rawHeight > 0;
+  if (width <= 0 || height === 0 || width * height > MAX_PIXELS || headerSize < 40) return null;
+  if (compression !== BI_RGB && !(compression === BI_BITFIELDS && bits === 32)) return null;
+  if (bits !== 8 && bits !== 24 && bits !== 32) return null;
+
+  const stride = Math.ceil((width * bits) / 32) * 4;
+  if (pixelOffset + stride * height > buffer.length) return null;
+  const paletteOffset = 14 + headerSize;
+  const channels = 3;
+  const data = Buffer.alloc(width * height * channels);
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (bottomUp ? height - 1 - y : y) * stride;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * channels;
+      const at = bits === 8 ? paletteOffset + buffer[row + x] * 4 : row + x * (bits / 8);
+      data[out] = buffer[at + 2];
+      data[out + 1] = buffer[at + 1];
+      data[out + 2] = buffer[at];
+    }
+  }
+  return { data, width, height, channels };
+}
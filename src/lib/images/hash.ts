@@ -0,0 +1,54 @@
+import { createHash } from "crypto";
+import sharp from "sharp";
+
+export type ImageHashes = {
+  /** SHA-256 of the bytes: identical files only. */
+  contentHash: string;
+  /** 64-bit difference hash as 16 hex digits; null when the image could not be decoded. */
+  perceptualHash: string | null;
+};
+
+export function contentHash(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * dHash: shrink to 9×8 greyscale and record whether each pixel is brighter
+ * than its right neighbour. Re-encoding, resizing and small exposure changes
+ * leave most bits alone, so two photos of the same label land a few bits apart.
+ */
+export async function perceptualHash(buffer: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(buffer).rotate().greyscale().resize(9, 8, { fit: "fill" }).raw().toBuffer();
+    let hash = 0n;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        hash = (hash << 1n) | (pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1n : 0n);
+      }
+    }
+    return hash.toString(16).padStart(16, "0");
+  } catch {
+    return null;
+  }
+}
+
+export async function hashImage(buffer: Buffer): Promise<ImageHashes> {
+  return { contentHash: contentHash(buffer), perceptualHash: await perceptualHash(buffer) };
+}
+
+/** Number of differing bits between two perceptual hashes. */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/** Hashes at most this many bits apart count as the same label; DUPLICATE_HASH_DISTANCE overrides it. */
+export function duplicateDistance(): number {
+  const value = Number(process.env.DUPLICATE_HASH_DISTANCE);
+  return Number.isInteger(value) && value >= 0 && value <= 64 ? value : 6;
+}
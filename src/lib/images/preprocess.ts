@@ -0,0 +1,159 @@
+import convertHeic from "heic-convert";
+import sharp, { type Sharp } from "sharp";
+import { decodeBmp, isBmp } from "./bmp";
+
+export type PreprocessOptions = {
+  /** Longest side after downscaling; 0 keeps the original size. */
+  maxDimension: number;
+  /** Stretch the histogram so faded or dim print reads better. */
+  enhanceContrast: boolean;
+  /** Trim the uniform background around the label. */
+  cropToLabel: boolean;
+};
+
+export type PreprocessStep = "converted" | "rotated" | "cropped" | "resized" | "enhanced";
+
+export type PreprocessedImage = {
+  buffer: Buffer;
+  /** Always JPEG, PNG or WebP, which every provider accepts. */
+  mimeType: string;
+  width: number;
+  height: number;
+  /** What was done to the upload; empty when its bytes are passed through unchanged. */
+  steps: PreprocessStep[];
+};
+
+export class UnsupportedImageError extends Error {
+  readonly status = 415;
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedImageError";
+  }
+}
+
+const PASS_THROUGH: Record<string, string> = { jpeg: "image/jpeg", png: "image/png", webp: "image/webp" };
+
+/** Containers sharp can read in this build; SVG is left out so uploads are never rendered as documents. */
+const DECODABLE = new Set(["jpeg", "png", "webp", "gif", "tiff", "heif"]);
+
+/** ISO-BMFF brands of HEVC-coded HEIF, which the prebuilt libvips cannot decode (it only has AV1 for AVIF). */
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "hevm", "hevs"]);
+
+function isHeic(buffer: Buffer): boolean {
+  return buffer.length > 12 && buffer.toString("ascii", 4, 8) === "ftyp" && HEIC_BRANDS.has(buffer.toString("ascii", 8, 12));
+}
+
+function envFlag(name: string): boolean {
+  return ["1", "on", "true", "yes"].includes((process.env[name] ?? "").trim().toLowerCase());
+}
+
+/** Server defaults: IMAGE_MAX_DIMENSION (2048), IMAGE_ENHANCE_CONTRAST and IMAGE_CROP_LABEL (both off). */
+export function preprocessOptions(overrides: Partial<PreprocessOptions> = {}): PreprocessOptions {
+  const max = Number(process.env.IMAGE_MAX_DIMENSION);
+  return {
+    maxDimension: Number.isInteger(max) && max >= 0 ? max : 2048,
+    enhanceContrast: envFlag("IMAGE_ENHANCE_CONTRAST"),
+    cropToLabel: envFlag("IMAGE_CROP_LABEL"),
+    ...overrides,
+  };
+}
+
+/** Per-request `enhance` / `crop` form fields ("1" or "0") over the server defaults. */
+export function preprocessOptionsFrom(form: FormData): PreprocessOptions {
+  const flag = (name: string) => {
+    const value = form.get(name);
+    return value === "1" ? true : value === "0" ? false : undefined;
+  };
+  const overrides: Partial<PreprocessOptions> = {};
+  const enhance = flag("enhance");
+  const crop = flag("crop");
+  if (enhance !== undefined) overrides.enhanceContrast = enhance;
+  if (crop !== undefined) overrides.cropToLabel = crop;
+  return preprocessOptions(overrides);
+}
+
+/** Opens the upload with sharp, converting what sharp cannot read itself. */
+async function open(buffer: Buffer): Promise<{ image: Sharp; format: string; converted: boolean }> {
+  if (isHeic(buffer)) {
+    try {
+      const jpeg = Buffer.from(await convertHeic({ buffer, format: "JPEG", quality: 0.92 }));
+      return { image: sharp(jpeg), format: "jpeg", converted: true };
+    } catch {
+      throw new UnsupportedImageError("The HEIC image could not be decoded");
+    }
+  }
+  if (isBmp(buffer)) {
+    const raw = decodeBmp(buffer);
+    if (!raw) throw new UnsupportedImageError("Only uncompressed 8, 24 and 32-bit BMP images are supported");
+    const { data, ...info } = raw;
+    return { image: sharp(data, { raw: info }), format: "bmp", converted: true };
+  }
+  let format: string | undefined;
+  try {
+    ({ format } = await sharp(buffer).metadata());
+  } catch {
+    format = undefined;
+  }
+  if (!format || !DECODABLE.has(format)) {
+    throw new UnsupportedImageError(format ? `Unsupported image format: ${format}` : "The upload is not an image");
+  }
+  return { image: sharp(buffer, { animated: false }), format, converted: !PASS_THROUGH[format] };
+}
+
+/**
+ * Normalizes an upload before it is stored or read: decodes HEIC, BMP, TIFF
+ * and the like, applies the EXIF orientation, optionally trims to the label
+ * and stretches contrast, and downscales to `maxDimension`. Formats the
+ * providers accept that need none of that are returned byte for byte, so
+ * hashes of untouched photos stay stable. Throws UnsupportedImageError for
+ * anything that does not decode as an image.
+ */
+export async function preprocessImage(buffer: Buffer, options: PreprocessOptions = preprocessOptions()): Promise<PreprocessedImage> {
+  const { image, format, converted } = await open(buffer);
+  let meta;
+  try {
+    meta = await image.metadata();
+  } catch {
+    throw new UnsupportedImageError("The image could not be decoded");
+  }
+  const steps: PreprocessStep[] = converted ? ["converted"] : [];
+  // Orientations 5-8 swap width and height.
+  const rotated = (meta.orientation ?? 1) > 1;
+  const upright = (meta.orientation ?? 1) >= 5 ? { width: meta.height ?? 0, height: meta.width ?? 0 } : { width: meta.width ?? 0, height: meta.height ?? 0 };
+  if (rotated) steps.push("rotated");
+
+  let pipeline = image.rotate();
+  let size = upright;
+  if (options.cropToLabel) {
+    try {
+      const { data, info } = await pipeline.clone().trim({ threshold: 30 }).raw().toBuffer({ resolveWithObject: true });
+      if (info.width < size.width || info.height < size.height) {
+        pipeline = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+        size = { width: info.width, height: info.height };
+        steps.push("cropped");
+      }
+    } catch {
+      // A featureless image has nothing to trim to; read it whole.
+    }
+  }
+  if (options.maxDimension > 0 && Math.max(size.width, size.height) > options.maxDimension) {
+    pipeline = pipeline.resize({ width: options.maxDimension, height: options.maxDimension, fit: "inside" });
+    steps.push("resized");
+  }
+  if (options.enhanceContrast) {
+    pipeline = pipeline.normalise();
+    steps.push("enhanced");
+  }
+
+  if (!steps.length && PASS_THROUGH[format]) {
+    return { buffer, mimeType: PASS_THROUGH[format], width: size.width, height: size.height, steps };
+  }
+  // Lossless sources stay lossless so barcodes keep their edges; photos become JPEG.
+  const lossless = format === "png" || format === "gif" || format === "bmp";
+  try {
+    const { data, info } = await (lossless ? pipeline.png() : pipeline.jpeg({ quality: 90 })).toBuffer({ resolveWithObject: true });
+    return { buffer: data, mimeType: lossless ? "image/png" : "image/jpeg", width: info.width, height: info.height, steps };
+  } catch {
+    throw new UnsupportedImageError("The image could not be decoded");
+  }
+}
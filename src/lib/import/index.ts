@@ -0,0 +1,181 @@
+// Pure import parsing and validation shared by the import API and its dialog; no Node imports here.
+
+import { isValidGtin } from "@/lib/extraction/checks";
+import { parseExpiryDate, type ParseExpiryOptions } from "@/lib/dates";
+import { parseCsv } from "./csv";
+
+export type ImportFormat = "csv" | "json";
+
+/** Item fields a column can be mapped to. */
+export const IMPORT_FIELDS = ["product", "expiryDate", "lot", "ref", "gtin", "manufactureDate", "serial", "category"] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Source column for each item field; unmapped fields are left empty. */
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  product: "Product",
+  expiryDate: "Expiry date",
+  lot: "Lot",
+  ref: "REF",
+  gtin: "GTIN",
+  manufactureDate: "Manufacture date",
+  serial: "Serial",
+  category: "Category",
+};
+
+/** Larger inventories should be split; the preview has to fit in one response. */
+export const MAX_IMPORT_ROWS = 5000;
+
+export type ImportTable = {
+  columns: string[];
+  /** One record per data row; `line` is where it starts in the file, or its position in a JSON array. */
+  records: { line: number; values: Record<string, string> }[];
+};
+
+export type ImportedFields = Record<ImportField, string> & { expiryText: string; expiryAmbiguous: boolean };
+
+export type ImportRow = {
+  line: number;
+  fields: ImportedFields;
+  /** Rows with errors are not imported. */
+  errors: string[];
+  warnings: string[];
+};
+
+/** Header spellings recognized without the user mapping them, compared lower-cased without punctuation. */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  product: ["product", "productname", "name", "item", "itemname", "description", "article"],
+  expiryDate: ["expiry", "expirydate", "expiration", "expirationdate", "exp", "expdate", "useby", "bestbefore", "bbe"],
+  lot: ["lot", "lotnumber", "lotno", "batch", "batchnumber", "batchno"],
+  ref: ["ref", "reference", "catalognumber", "catalogueno", "catno", "partnumber"],
+  gtin: ["gtin", "ean", "upc", "barcode"],
+  manufactureDate: ["manufacturedate", "manufacturingdate", "mfgdate", "mfg", "mfd", "productiondate", "produced"],
+  serial: ["serial", "serialnumber", "serialno", "sn"],
+  category: ["category", "type", "group", "productcategory"],
+};
+
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function suggestMapping(columns: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const column = columns.find((c) => HEADER_ALIASES[field].includes(headerKey(c)));
+    if (column) mapping[field] = column;
+  }
+  return mapping;
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function tooMany(count: number): string {
+  return `the file has ${count} rows; import at most ${MAX_IMPORT_ROWS} at a time`;
+}
+
+function readCsvTable(text: string): ImportTable | { error: string } {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((c) => c.trim());
+  if (!columns.some(Boolean)) return { error: "the CSV has no header row" };
+  if (rows.length > MAX_IMPORT_ROWS) return { error: tooMany(rows.length) };
+  const records = rows.map((cells, i) => ({
+    // Quoted line breaks make this approximate, but it is right for every ordinary sheet.
+    line: i + 2,
+    values: Object.fromEntries(columns.map((c, j) => [c, cells[j] ?? ""])),
+  }));
+  return { columns: columns.filter(Boolean), records };
+}
+
+function readJsonTable(text: string): ImportTable | { error: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: "the file is not valid JSON" };
+  }
+  // Accept a bare array or the `items` array our own JSON export writes.
+  const list = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown } | null)?.items;
+  if (!Array.isArray(list)) return { error: "JSON must be an array of objects or an object with an items array" };
+  if (list.length > MAX_IMPORT_ROWS) return { error: tooMany(list.length) };
+  const columns: string[] = [];
+  const records = list.map((entry, i) => {
+    const values: Record<string, string> = {};
+    if (entry && typeof entry === "object" && !Array.isArray(entry)) {
+      for (const [key, value] of Object.entries(entry)) {
+        if (!columns.includes(key)) columns.push(key);
+        values[key] = cellText(value);
+      }
+    }
+    return { line: i + 1, values };
+  });
+  return { columns, records };
+}
+
+export function detectImportFormat(text: string): ImportFormat {
+  return /^\s*[[{]/.test(text) ? "json" : "csv";
+}
+
+export function readImportTable(text: string, format: ImportFormat = detectImportFormat(text)): ImportTable | { error: string } {
+  if (!text.trim()) return { error: "the file is empty" };
+  return format === "json" ? readJsonTable(text) : readCsvTable(text);
+}
+
+/** Runs a cell through the label date parser, so "03/2027" or "15 MAR 27" import the same way they scan. */
+function coerceDate(
+  label: string,
+  text: string,
+  options: ParseExpiryOptions,
+  errors: string[]
+): { iso: string; ambiguous: boolean } {
+  if (!text) return { iso: "", ambiguous: false };
+  const parsed = parseExpiryDate(text, options);
+  if (parsed.error === "invalid_date") errors.push(`${label} "${text}" is not a real calendar date`);
+  else if (parsed.error) errors.push(`${label} "${text}" is not a recognizable date`);
+  return { iso: parsed.iso, ambiguous: parsed.ambiguous };
+}
+
+/**
+ * Maps and validates every record. Dates go through the same parser and
+ * options as `/api/analyze`; `dateOptions` should come from the server.
+ */
+export function validateImport(table: ImportTable, mapping: ImportMapping, dateOptions: ParseExpiryOptions): ImportRow[] {
+  const rows: ImportRow[] = [];
+  for (const { line, values } of table.records) {
+    const raw = Object.fromEntries(
+      IMPORT_FIELDS.map((f) => [f, mapping[f] ? (values[mapping[f]!] ?? "").trim() : ""])
+    ) as Record<ImportField, string>;
+    // Blank lines and trailing empty rows are not worth an error.
+    if (IMPORT_FIELDS.every((f) => !raw[f])) continue;
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    if (!raw.product) errors.push("No product name");
+    const expiry = coerceDate("Expiry", raw.expiryDate, dateOptions, errors);
+    const manufacture = coerceDate("Manufacture date", raw.manufactureDate, { ...dateOptions, monthOnly: "start" }, errors);
+    if (!raw.expiryDate) warnings.push("No expiry date; the item will need review");
+    if (expiry.ambiguous) warnings.push(`Day and month could be read either way; read as ${expiry.iso}`);
+    if (expiry.iso && manufacture.iso && expiry.iso < manufacture.iso) warnings.push("Expiry is earlier than the manufacture date");
+    const gtin = raw.gtin.replace(/\D/g, "");
+    if (gtin && !isValidGtin(gtin)) warnings.push("GTIN check digit does not match");
+
+    rows.push({
+      line,
+      fields: {
+        ...raw,
+        gtin,
+        expiryDate: expiry.iso,
+        manufactureDate: manufacture.iso,
+        expiryText: raw.expiryDate,
+        expiryAmbiguous: expiry.ambiguous,
+      },
+      errors,
+      warnings,
+    });
+  }
+  return rows;
+}
@@ -0,0 +1,639 @@
+import { randomUUID } from "crypto";
+import { ANONYMOUS_ACTOR, readAudit, recordAudit, SYSTEM_ACTOR, type AnalysisRecord, type AuditAction, type AuditActor, type AuditInput, type DeletedItem, type FieldChange } from "@/lib/audit";
+import { deleteBlob, saveBlob, type StoredBlob } from "@/lib/store/blobs";
+import { createJsonFile } from "@/lib/store/json-file";
+import type { FieldConfidence, FieldSource, FieldSources, SourcedField } from "@/lib/extraction/types";
+import { MANUAL_EVIDENCE, reviewReasons, reviewThreshold, type ReviewState } from "@/lib/review";
+import { statusRulesLookup, type StatusRulesLookup } from "@/lib/settings";
+import { itemStatus } from "@/lib/status";
+import { duplicateDistance, hammingDistance, hashImage, type ImageHashes } from "@/lib/images/hash";
+import {
+  ITEM_FIELDS,
+  type DuplicateMatch,
+  type InventoryItem,
+  type ItemAnalysisPatch,
+  type ItemPatch,
+  type ItemPhoto,
+  type NewItem,
+} from "./types";
+
+export { ITEM_FIELDS, MAX_ITEM_PHOTOS } from "./types";
+export type { DuplicateMatch, InventoryItem, ItemAnalysisPatch, ItemPatch, ItemPhoto, ItemSource, NewItem } from "./types";
+
+const file = createJsonFile<{ items: InventoryItem[] }>("items.json", () => ({ items: [] }));
+
+/** Who is making a change and, for a provider read, what it answered; both go to the audit log. */
+export type ChangeContext = {
+  /** Unset before accounts are set up. */
+  actor?: AuditActor;
+  analysis?: Omit<AnalysisRecord, "result">;
+};
+
+/** An edit made against an older copy of the item: someone else changed it since. Carries the item as it is now. */
+export class EditConflictError extends Error {
+  constructor(readonly item: InventoryItem) {
+    super(`Item ${item.id} was changed at ${item.updatedAt} by someone else`);
+    this.name = "EditConflictError";
+  }
+}
+
+const MAX_LENGTHS: Record<(typeof ITEM_FIELDS)[number], number> = {
+  product: 120,
+  expiryDate: 10,
+  lot: 64,
+  ref: 64,
+  gtin: 14,
+  manufactureDate: 10,
+  serial: 20,
+};
+
+const MAX_CATEGORY_LENGTH = 64;
+
+const FIELD_SOURCES: FieldSource[] = ["barcode", "label", "manual"];
+
+/** Keeps only known field names, sources and scores from client-supplied analysis metadata. */
+export function sanitizeProvenance(body: Record<string, unknown>): ItemAnalysisPatch {
+  const result: ItemAnalysisPatch = {};
+  const isField = (f: unknown): f is SourcedField => (ITEM_FIELDS as readonly unknown[]).includes(f);
+  if (body.fieldSources && typeof body.fieldSources === "object") {
+    const sources: FieldSources = {};
+    for (const [field, source] of Object.entries(body.fieldSources)) {
+      if (isField(field) && FIELD_SOURCES.includes(source as FieldSource)) sources[field] = source as FieldSource;
+    }
+    result.fieldSources = sources;
+  }
+  if (Array.isArray(body.barcodeConflicts)) result.barcodeConflicts = body.barcodeConflicts.filter(isField);
+  if (body.confidence && typeof body.confidence === "object") {
+    const confidence: Partial<Record<SourcedField, FieldConfidence>> = {};
+    for (const [field, read] of Object.entries(body.confidence as Record<string, Partial<FieldConfidence>>)) {
+      const score = Number(read?.score);
+      if (!isField(field) || !Number.isFinite(score)) continue;
+      confidence[field] = { score: Math.min(1, Math.max(0, score)), evidence: String(read.evidence ?? "").slice(0, 200) };
+    }
+    result.confidence = confidence;
+  }
+  if (typeof body.expiryAmbiguous === "boolean") result.expiryAmbiguous = body.expiryAmbiguous;
+  if (typeof body.expiryText === "string") result.expiryText = body.expiryText.slice(0, 64);
+  if (typeof body.analysisError === "string") result.analysisError = body.analysisError.slice(0, 200);
+  if (body.fieldImages && typeof body.fieldImages === "object") {
+    const images: Partial<Record<SourcedField, string>> = {};
+    for (const [field, imageId] of Object.entries(body.fieldImages)) {
+      if (isField(field) && typeof imageId === "string" && /^[\w.-]+$/.test(imageId)) images[field] = imageId;
+    }
+    result.fieldImages = images;
+  }
+  return result;
+}
+
+function assessReview(item: InventoryItem): ReviewState {
+  const reasons = reviewReasons(item, reviewThreshold());
+  return { status: reasons.length ? "pending" : "cleared", reasons };
+}
+
+/** A person typed these values: they replace machine reads and settle any barcode conflict. */
+function markManual(item: InventoryItem, fields: SourcedField[]) {
+  if (!fields.length) return;
+  item.fieldSources = { ...item.fieldSources };
+  item.confidence = { ...item.confidence };
+  for (const field of fields) {
+    item.fieldSources[field] = "manual";
+    item.confidence[field] = { score: 1, evidence: MANUAL_EVIDENCE };
+  }
+  item.barcodeConflicts = item.barcodeConflicts?.filter((f) => !fields.includes(f));
+  if (fields.includes("expiryDate")) item.expiryAmbiguous = false;
+  if (item.fieldImages) fields.forEach((field) => delete item.fieldImages![field]);
+}
+
+/** The main photo followed by any further sides of the package. */
+export function itemPhotos(item: InventoryItem): ItemPhoto[] {
+  const main: ItemPhoto[] = item.imageId
+    ? [{
+        imageId: item.imageId,
+        imageName: item.imageName,
+        imageMimeType: item.imageMimeType,
+        ...(item.contentHash ? { contentHash: item.contentHash } : {}),
+        ...(item.sessionImageId ? { sessionImageId: item.sessionImageId } : {}),
+      }]
+    : [];
+  return [...main, ...(item.extraPhotos ?? [])];
+}
+
+/** Writes the patch's fields and returns the ones whose value changed. */
+function applyFields(item: InventoryItem, patch: ItemPatch): SourcedField[] {
+  const changed: SourcedField[] = [];
+  for (const field of ITEM_FIELDS) {
+    const value = patch[field];
+    if (typeof value !== "string") continue;
+    const next = value.trim().slice(0, MAX_LENGTHS[field]);
+    if (next !== item[field]) changed.push(field);
+    item[field] = next;
+  }
+  return changed;
+}
+
+/** Fills fields that items saved by earlier versions do not have. */
+const FIELD_DEFAULTS: Pick<InventoryItem, "lot" | "ref" | "gtin" | "manufactureDate" | "serial" | "category"> = {
+  lot: "",
+  ref: "",
+  gtin: "",
+  manufactureDate: "",
+  serial: "",
+  category: "",
+};
+
+/** Status depends on today's date and the current rules, so it is refreshed on every read rather than trusted from disk. */
+function withStatus(item: InventoryItem, rules: StatusRulesLookup): InventoryItem {
+  const full = { ...FIELD_DEFAULTS, ...item };
+  const review = item.review ?? assessReview(full);
+  return { ...full, review, status: itemStatus({ ...full, review }, rules(item.orgId)) };
+}
+
+/** The values the audit log tracks, as they appear in its before/after pairs. */
+function auditedValues(item: InventoryItem): Record<string, unknown> {
+  return {
+    ...Object.fromEntries(ITEM_FIELDS.map((field) => [field, item[field]])),
+    category: item.category,
+    thresholds: item.thresholds ?? null,
+    locationId: item.locationId ?? null,
+    review: item.review?.status ?? null,
+    analysisError: item.analysisError || null,
+  };
+}
+
+function fieldChanges(before: InventoryItem, after: InventoryItem): FieldChange[] {
+  const old = auditedValues(before);
+  const next = auditedValues(after);
+  return Object.keys(next)
+    .filter((field) => JSON.stringify(old[field]) !== JSON.stringify(next[field]))
+    .map((field) => ({ field, before: old[field], after: next[field] }));
+}
+
+function auditEntry(item: InventoryItem, action: AuditAction, actor: AuditActor, details: Partial<AuditInput> = {}): AuditInput {
+  return {
+    action,
+    itemId: item.id,
+    ...(item.product ? { product: item.product } : {}),
+    ...(item.orgId ? { orgId: item.orgId } : {}),
+    ...(item.locationId ? { locationId: item.locationId } : {}),
+    actor,
+    ...details,
+  };
+}
+
+/**
+ * The item as it stands before a change, with its status as of now. A status
+ * that moved since the last write (a date passed a threshold, or the rules
+ * changed) is logged first, as nobody's doing.
+ */
+function beforeChange(item: InventoryItem, rules: StatusRulesLookup, log: AuditInput[]): InventoryItem {
+  const before = withStatus(structuredClone(item), rules);
+  if (item.status && item.status !== before.status) {
+    log.push(auditEntry(before, "status_changed", SYSTEM_ACTOR, { status: { before: item.status, after: before.status } }));
+  }
+  return before;
+}
+
+/**
+ * Logs a change to `item` (edited in place) and stores its new status. The
+ * entry is skipped when no tracked value changed, unless `always`; a status
+ * the change moved gets an entry of its own.
+ */
+function afterChange(
+  item: InventoryItem,
+  before: InventoryItem,
+  rules: StatusRulesLookup,
+  log: AuditInput[],
+  action: AuditAction,
+  actor: AuditActor,
+  details: Partial<AuditInput> = {},
+  always = false
+): InventoryItem {
+  const after = withStatus({ ...item }, rules);
+  item.status = after.status;
+  const changes = fieldChanges(before, after);
+  if (changes.length || always) log.push(auditEntry(after, action, actor, { ...(changes.length ? { changes } : {}), ...details }));
+  if (before.status !== after.status) log.push(auditEntry(after, "status_changed", actor, { status: { before: before.status, after: after.status } }));
+  return after;
+}
+
+export async function listItems(): Promise<InventoryItem[]> {
+  const [{ items }, rules] = await Promise.all([file.read(), statusRulesLookup()]);
+  return items.map((item) => withStatus(item, rules));
+}
+
+export async function getItem(id: string): Promise<InventoryItem | null> {
+  const [{ items }, rules] = await Promise.all([file.read(), statusRulesLookup()]);
+  const item = items.find((i) => i.id === id);
+  return item ? withStatus(item, rules) : null;
+}
+
+/** Items already stored whose photo is the same file or looks the same. */
+function findDuplicates(items: InventoryItem[], hashes: ImageHashes): DuplicateMatch[] {
+  const limit = duplicateDistance();
+  const matches: DuplicateMatch[] = [];
+  for (const other of items) {
+    if (other.contentHash === hashes.contentHash) {
+      matches.push({ itemId: other.id, distance: 0, exact: true });
+    } else if (hashes.perceptualHash && other.perceptualHash) {
+      const distance = hammingDistance(hashes.perceptualHash, other.perceptualHash);
+      if (distance <= limit) matches.push({ itemId: other.id, distance, exact: false });
+    }
+  }
+  return matches.sort((a, b) => a.distance - b.distance).slice(0, 5);
+}
+
+function buildItem(input: NewItem, blob: StoredBlob | null, rules: StatusRulesLookup): InventoryItem {
+  const now = new Date().toISOString();
+  const item: InventoryItem = {
+    id: randomUUID(),
+    imageId: blob?.id ?? null,
+    imageName: input.image?.name ?? "",
+    imageMimeType: input.image?.mimeType ?? "",
+    product: input.product?.trim().slice(0, MAX_LENGTHS.product) ?? "",
+    expiryDate: input.expiryDate?.trim() ?? "",
+    lot: input.lot?.trim().slice(0, MAX_LENGTHS.lot) ?? "",
+    ref: input.ref?.trim().slice(0, MAX_LENGTHS.ref) ?? "",
+    gtin: input.gtin?.trim().slice(0, MAX_LENGTHS.gtin) ?? "",
+    manufactureDate: input.manufactureDate?.trim() ?? "",
+    serial: input.serial?.trim().slice(0, MAX_LENGTHS.serial) ?? "",
+    category: input.category?.trim().slice(0, MAX_CATEGORY_LENGTH) ?? "",
+    ...(input.expiryText ? { expiryText: input.expiryText.slice(0, 64) } : {}),
+    ...(input.expiryAmbiguous ? { expiryAmbiguous: true } : {}),
+    review: { status: "cleared", reasons: [] },
+    status: "Needs Review",
+    source: input.source ?? "upload",
+    ...(input.sessionId ? { sessionId: input.sessionId } : {}),
+    ...(input.sessionImageId ? { sessionImageId: input.sessionImageId } : {}),
+    ...(input.orgId ? { orgId: input.orgId } : {}),
+    ...(input.locationId ? { locationId: input.locationId } : {}),
+    ...(input.createdBy ? { createdBy: input.createdBy } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+  item.review = assessReview(item);
+  item.status = itemStatus(item, rules(item.orgId));
+  return item;
+}
+
+export async function createItem(input: NewItem, context: ChangeContext = {}): Promise<InventoryItem> {
+  const blob = input.image ? await saveBlob(input.image.buffer, input.image.mimeType) : null;
+  const hashes = input.image ? await hashImage(input.image.buffer) : null;
+  const item = buildItem(input, blob, await statusRulesLookup());
+  if (hashes) {
+    item.contentHash = hashes.contentHash;
+    if (hashes.perceptualHash) item.perceptualHash = hashes.perceptualHash;
+  }
+  await file.update((data) => {
+    const duplicates = hashes ? findDuplicates(data.items, hashes) : [];
+    if (duplicates.length) item.possibleDuplicates = duplicates;
+    data.items.push(item);
+  });
+  await recordAudit([auditEntry(item, "created", context.actor ?? ANONYMOUS_ACTOR)]);
+  return item;
+}
+
+/** Adds many image-less items in one write, e.g. from a spreadsheet import. */
+export async function createItems(inputs: Omit<NewItem, "image">[], context: ChangeContext = {}): Promise<InventoryItem[]> {
+  const rules = await statusRulesLookup();
+  const items = inputs.map((input) => buildItem(input, null, rules));
+  await file.update((data) => {
+    data.items.push(...items);
+  });
+  await recordAudit(items.map((item) => auditEntry(item, "imported", context.actor ?? ANONYMOUS_ACTOR)));
+  return items;
+}
+
+/**
+ * Applies a person's edit, or with `context.analysis` a provider read, and
+ * logs it with the values it changed. Returns null when the item does not
+ * exist. With `baseUpdatedAt`, the edit is refused with EditConflictError
+ * unless the item is still as the editor last saw it.
+ */
+export async function updateItem(id: string, patch: ItemPatch, context: ChangeContext = {}, baseUpdatedAt?: string): Promise<InventoryItem | null> {
+  const rules = await statusRulesLookup();
+  const log: AuditInput[] = [];
+  const updated = await file.update((data) => {
+    const item = data.items.find((i) => i.id === id);
+    if (!item) return null;
+    if (baseUpdatedAt && item.updatedAt !== baseUpdatedAt) throw new EditConflictError(item);
+    const before = beforeChange(item, rules, log);
+    const changed = applyFields(item, patch);
+    if (typeof patch.category === "string") item.category = patch.category.trim().slice(0, MAX_CATEGORY_LENGTH);
+    if (patch.thresholds === null) delete item.thresholds;
+    else if (patch.thresholds) item.thresholds = patch.thresholds;
+    if (patch.locationId === null) delete item.locationId;
+    else if (patch.locationId) item.locationId = patch.locationId;
+    const isAnalysis = patch.confidence !== undefined || patch.analysisError !== undefined;
+    if (isAnalysis) {
+      for (const key of ["fieldSources", "barcodeConflicts", "confidence", "expiryAmbiguous", "expiryText", "analysisError"] as const) {
+        if (patch[key] !== undefined) Object.assign(item, { [key]: patch[key] });
+      }
+      // Single-photo reads carry no per-field photos.
+      if (patch.fieldImages && Object.keys(patch.fieldImages).length) item.fieldImages = patch.fieldImages;
+      else if (patch.fieldImages) delete item.fieldImages;
+    } else {
+      markManual(item, changed);
+    }
+    // A sign-off stands until the item is read again or an edit raises a new reason to look.
+    if (isAnalysis || changed.length || !item.review) {
+      const next = assessReview(item);
+      const keepSignOff = !isAnalysis && item.review?.status === "approved" && next.status === "cleared";
+      if (!keepSignOff) item.review = next;
+    }
+    item.updatedAt = new Date().toISOString();
+    const actor = context.actor ?? ANONYMOUS_ACTOR;
+    if (!isAnalysis) return afterChange(item, before, rules, log, "edited", actor);
+    if (patch.analysisError) return afterChange(item, before, rules, log, "analysis_failed", actor, { error: patch.analysisError }, true);
+    const analysis = context.analysis && {
+      ...context.analysis,
+      result: {
+        product: item.product,
+        expiryDate: item.expiryDate,
+        lot: item.lot,
+        ref: item.ref,
+        gtin: item.gtin,
+        manufactureDate: item.manufactureDate,
+        serial: item.serial,
+        fieldSources: item.fieldSources,
+        confidence: item.confidence,
+      },
+    };
+    return afterChange(item, before, rules, log, "analyzed", actor, analysis ? { analysis } : {}, true);
+  });
+  await recordAudit(log);
+  return updated;
+}
+
+/**
+ * Records a reviewer's sign-off, applying their corrections first. Returns
+ * null when the item does not exist; callers check that an expiry date is set.
+ */
+export async function approveItem(id: string, edits: ItemPatch, context: ChangeContext = {}): Promise<InventoryItem | null> {
+  const rules = await statusRulesLookup();
+  const log: AuditInput[] = [];
+  const approved = await file.update((data) => {
+    const item = data.items.find((i) => i.id === id);
+    if (!item) return null;
+    const before = beforeChange(item, rules, log);
+    // Keep the reasons the item was queued for next to the sign-off.
+    const reasons = item.review?.reasons ?? [];
+    markManual(item, applyFields(item, edits));
+    const now = new Date().toISOString();
+    item.review = { status: "approved", reasons, reviewedAt: now };
+    item.updatedAt = now;
+    return afterChange(item, before, rules, log, "approved", context.actor ?? ANONYMOUS_ACTOR, {}, true);
+  });
+  await recordAudit(log);
+  return approved;
+}
+
+/** Drops references to a removed item from everyone's duplicate list. */
+function forgetDuplicate(items: InventoryItem[], removedId: string) {
+  for (const item of items) {
+    if (!item.possibleDuplicates?.some((d) => d.itemId === removedId)) continue;
+    item.possibleDuplicates = item.possibleDuplicates.filter((d) => d.itemId !== removedId);
+    if (!item.possibleDuplicates.length) delete item.possibleDuplicates;
+  }
+}
+
+/** "Keep both": the user says the photos are of different cartons. */
+export async function keepDuplicates(id: string): Promise<InventoryItem | null> {
+  const rules = await statusRulesLookup();
+  return file.update((data) => {
+    const item = data.items.find((i) => i.id === id);
+    if (!item) return null;
+    delete item.possibleDuplicates;
+    item.updatedAt = new Date().toISOString();
+    return withStatus({ ...item }, rules);
+  });
+}
+
+/**
+ * Copies fields `target` lacks from `source`, with their sources and scores,
+ * and with the photo they were read from when `photosMove`. Returns the ones filled.
+ */
+function fillFrom(target: InventoryItem, source: InventoryItem, photosMove: boolean): SourcedField[] {
+  const filled: SourcedField[] = [];
+  for (const field of ITEM_FIELDS) {
+    if (target[field] || !source[field]) continue;
+    target[field] = source[field];
+    filled.push(field);
+    if (source.fieldSources?.[field]) target.fieldSources = { ...target.fieldSources, [field]: source.fieldSources[field] };
+    if (source.confidence?.[field]) target.confidence = { ...target.confidence, [field]: source.confidence[field] };
+    const photo = source.fieldImages?.[field] ?? (source.fieldSources?.[field] !== "manual" ? source.imageId : null);
+    if (photosMove && photo) target.fieldImages = { ...target.fieldImages, [field]: photo };
+  }
+  if (!target.category) target.category = source.category;
+  if (!target.expiryText && source.expiryText) target.expiryText = source.expiryText;
+  return filled;
+}
+
+/**
+ * Folds `id` into `intoId` and deletes it. The kept item's values win; fields
+ * it lacks are filled from the duplicate along with their sources and scores.
+ * Returns null when either item does not exist.
+ */
+export async function mergeDuplicate(id: string, intoId: string, context: ChangeContext = {}): Promise<InventoryItem | null> {
+  const rules = await statusRulesLookup();
+  const actor = context.actor ?? ANONYMOUS_ACTOR;
+  const log: AuditInput[] = [];
+  const removed = await file.update((data) => {
+    const source = data.items.find((i) => i.id === id);
+    const target = data.items.find((i) => i.id === intoId);
+    if (!source || !target || source === target) return null;
+    const snapshot = beforeChange(source, rules, log);
+    const before = beforeChange(target, rules, log);
+    const filled = fillFrom(target, source, false);
+    target.mergedFrom = [...(target.mergedFrom ?? []), ...(source.mergedFrom ?? []), source.id];
+    // Filled-in values can settle or raise review reasons; otherwise a sign-off stands.
+    if (filled.length) target.review = assessReview(target);
+    target.updatedAt = new Date().toISOString();
+    data.items = data.items.filter((i) => i !== source);
+    forgetDuplicate(data.items, source.id);
+    log.push(auditEntry(snapshot, "merged", actor, { snapshot, relatedIds: [target.id] }));
+    afterChange(target, before, rules, log, "merged", actor, { relatedIds: [source.id] }, true);
+    return source;
+  });
+  if (!removed) return null;
+  await recordAudit(log);
+  await Promise.all(itemPhotos(removed).map((p) => deleteBlob(p.imageId)));
+  return getItem(intoId);
+}
+
+/**
+ * Makes `otherIds` further photos of `id`: their photos move over, fields the
+ * item lacks are filled from them, and they are removed as separate rows.
+ * Callers check the photo count against MAX_ITEM_PHOTOS and re-read the item
+ * so all sides are read together. Returns null when any item does not exist.
+ */
+export async function groupItems(id: string, otherIds: string[], context: ChangeContext = {}): Promise<InventoryItem | null> {
+  const rules = await statusRulesLookup();
+  const actor = context.actor ?? ANONYMOUS_ACTOR;
+  const log: AuditInput[] = [];
+  const grouped = await file.update((data) => {
+    const target = data.items.find((i) => i.id === id);
+    const others = otherIds.map((otherId) => data.items.find((i) => i.id === otherId));
+    if (!target || !others.every((o): o is InventoryItem => Boolean(o) && o !== target)) return null;
+    const before = beforeChange(target, rules, log);
+    // Values the item already has were read from its own photo.
+    if (target.imageId) {
+      for (const field of ITEM_FIELDS) {
+        if (target[field] && target.fieldSources?.[field] !== "manual") target.fieldImages = { [field]: target.imageId, ...target.fieldImages };
+      }
+    }
+    let filled = false;
+    for (const other of others) {
+      const snapshot = beforeChange(other, rules, log);
+      log.push(auditEntry(snapshot, "grouped", actor, { snapshot, relatedIds: [target.id] }));
+      target.extraPhotos = [...(target.extraPhotos ?? []), ...itemPhotos(other)];
+      filled = fillFrom(target, other, true).length > 0 || filled;
+      data.items = data.items.filter((i) => i !== other);
+      forgetDuplicate(data.items, other.id);
+    }
+    if (filled) target.review = assessReview(target);
+    target.updatedAt = new Date().toISOString();
+    return afterChange(target, before, rules, log, "grouped", actor, { relatedIds: otherIds }, true);
+  });
+  await recordAudit(log);
+  return grouped;
+}
+
+/**
+ * Splits an item's further photos back into items of their own. Values read
+ * from those photos go with them and are cleared here. Returns the item
+ * followed by the new ones, or null when it does not exist.
+ */
+export async function ungroupItem(id: string, context: ChangeContext = {}): Promise<InventoryItem[] | null> {
+  const rules = await statusRulesLookup();
+  const actor = context.actor ?? ANONYMOUS_ACTOR;
+  const log: AuditInput[] = [];
+  const items = await file.update((data) => {
+    const item = data.items.find((i) => i.id === id);
+    if (!item) return null;
+    const before = beforeChange(item, rules, log);
+    const photos = item.extraPhotos ?? [];
+    const split = photos.map((photo) => {
+      const created = buildItem(
+        { source: item.source, sessionId: item.sessionId, sessionImageId: photo.sessionImageId, orgId: item.orgId },
+        { id: photo.imageId, mimeType: photo.imageMimeType },
+        rules
+      );
+      created.imageName = photo.imageName;
+      if (item.locationId) created.locationId = item.locationId;
+      created.imageMimeType = photo.imageMimeType;
+      if (photo.contentHash) created.contentHash = photo.contentHash;
+      return created;
+    });
+    const moved = new Set(photos.map((p) => p.imageId));
+    const cleared = ITEM_FIELDS.filter((field) => {
+      const from = item.fieldImages?.[field];
+      return from !== undefined && moved.has(from);
+    });
+    for (const field of cleared) {
+      item[field] = "";
+      delete item.fieldSources?.[field];
+      delete item.confidence?.[field];
+    }
+    if (cleared.includes("expiryDate")) {
+      delete item.expiryText;
+      item.expiryAmbiguous = false;
+    }
+    delete item.extraPhotos;
+    delete item.fieldImages;
+    if (cleared.length) item.review = assessReview(item);
+    item.updatedAt = new Date().toISOString();
+    data.items.push(...split);
+    const kept = afterChange(item, before, rules, log, "ungrouped", actor, { relatedIds: split.map((i) => i.id) }, true);
+    log.push(...split.map((i) => auditEntry(i, "ungrouped", actor, { relatedIds: [item.id] })));
+    return [kept, ...split.map((i) => withStatus(i, rules))];
+  });
+  await recordAudit(log);
+  return items;
+}
+
+/** Gives items stored before accounts existed to the organization created at setup. */
+export async function claimUnownedItems(orgId: string): Promise<number> {
+  return file.update((data) => {
+    const unowned = data.items.filter((i) => !i.orgId);
+    for (const item of unowned) item.orgId = orgId;
+    return unowned.length;
+  });
+}
+
+/**
+ * Removes an item and logs it whole, so it can be restored. Its photos are
+ * kept for the same reason.
+ */
+export async function deleteItem(id: string, context: ChangeContext = {}): Promise<boolean> {
+  const rules = await statusRulesLookup();
+  const log: AuditInput[] = [];
+  const removed = await file.update((data) => {
+    const idx = data.items.findIndex((i) => i.id === id);
+    if (idx < 0) return null;
+    const snapshot = beforeChange(data.items[idx], rules, log);
+    const [item] = data.items.splice(idx, 1);
+    forgetDuplicate(data.items, item.id);
+    log.push(auditEntry(snapshot, "deleted", context.actor ?? ANONYMOUS_ACTOR, { snapshot }));
+    return item;
+  });
+  if (!removed) return false;
+  await recordAudit(log);
+  return true;
+}
+
+/** Deleted items that have not been restored since, most recently deleted first. */
+export async function listDeletedItems(): Promise<DeletedItem[]> {
+  const [deletions, { items }] = await Promise.all([readAudit({ action: "deleted" }), file.read()]);
+  const gone = new Set<string>();
+  const present = new Set(items.map((i) => i.id));
+  return deletions
+    .reverse()
+    .filter((entry) => entry.snapshot && !present.has(entry.itemId) && !gone.has(entry.itemId) && gone.add(entry.itemId))
+    .map((entry) => ({ entry, item: entry.snapshot! }));
+}
+
+/**
+ * Puts a deleted item back as it was when it was deleted. Returns null when
+ * it was never deleted or has been restored already.
+ */
+export async function restoreItem(id: string, context: ChangeContext = {}): Promise<InventoryItem | null> {
+  const deleted = (await listDeletedItems()).find((d) => d.item.id === id);
+  if (!deleted) return null;
+  const rules = await statusRulesLookup();
+  const restored = await file.update((data) => {
+    if (data.items.some((i) => i.id === id)) return null;
+    const item: InventoryItem = { ...deleted.item, updatedAt: new Date().toISOString() };
+    // Other items may have gone since; keep only the duplicates still there.
+    item.possibleDuplicates = item.possibleDuplicates?.filter((d) => data.items.some((i) => i.id === d.itemId));
+    if (!item.possibleDuplicates?.length) delete item.possibleDuplicates;
+    item.status = itemStatus(item, rules(item.orgId));
+    data.items.push(item);
+    return withStatus({ ...item }, rules);
+  });
+  if (!restored) return null;
+  await recordAudit([auditEntry(restored, "restored", context.actor ?? ANONYMOUS_ACTOR)]);
+  return restored;
+}
+
+/**
+ * Logs status moves nobody made since the last write: a date passing a
+ * threshold, or new status rules (then `actor` is whoever changed them and
+ * `orgId` limits it to their organization's items, the ones the rules cover).
+ * Returns the number of items whose status moved.
+ */
+export async function recordStatusChanges(actor: AuditActor = SYSTEM_ACTOR, orgId?: string | null): Promise<number> {
+  const rules = await statusRulesLookup();
+  const moved = (items: InventoryItem[]) =>
+    items.filter((item) => (!orgId || item.orgId === orgId) && item.status && item.status !== withStatus(item, rules).status);
+  if (!moved((await file.read()).items).length) return 0;
+  const log: AuditInput[] = [];
+  await file.update((data) => {
+    for (const item of moved(data.items)) {
+      const now = withStatus(item, rules);
+      log.push(auditEntry(now, "status_changed", actor, { status: { before: item.status, after: now.status } }));
+      item.status = now.status;
+    }
+  });
+  await recordAudit(log);
+  return log.length;
+}
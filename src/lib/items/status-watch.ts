@@ -0,0 +1,25 @@
+import { recordStatusChanges } from "./index";
+
+const TICK_MS = 60 * 60 * 1000;
+
+const globalForWatch = globalThis as typeof globalThis & { statusWatchTimer?: ReturnType<typeof setInterval> };
+
+async function tick() {
+  try {
+    const moved = await recordStatusChanges();
+    if (moved) console.log(`status watch: ${moved} item(s) changed status`);
+  } catch (err) {
+    console.error("status watch failed", err);
+  }
+}
+
+/**
+ * Logs items whose status moved because a date passed, checking every hour
+ * and once at start-up. Safe to call repeatedly.
+ */
+export function startStatusWatch() {
+  if (globalForWatch.statusWatchTimer) return;
+  globalForWatch.statusWatchTimer = setInterval(() => void tick(), TICK_MS);
+  globalForWatch.statusWatchTimer.unref?.();
+  void tick();
+}
@@ -0,0 +1,116 @@
+import type { FieldConfidence, FieldSources, SourcedField } from "@/lib/extraction/types";
+import type { ReviewState } from "@/lib/review";
+import type { ExpiryStatus, StatusThresholds } from "@/lib/status";
+
+/** `import` rows came from a spreadsheet and have no photo. */
+export type ItemSource = "upload" | "mobile" | "import";
+
+/** Another item whose photo looks like this one's; `distance` is 0 for an identical file. */
+export type DuplicateMatch = { itemId: string; distance: number; exact: boolean };
+
+/** A further photo of the same package, e.g. the back label with the expiry date. */
+export type ItemPhoto = {
+  imageId: string;
+  imageName: string;
+  imageMimeType: string;
+  contentHash?: string;
+  sessionImageId?: string;
+};
+
+/** Photos one item may hold, its main one included. */
+export const MAX_ITEM_PHOTOS = 6;
+
+export type InventoryItem = {
+  id: string;
+  /** Blob id of the label photo; fetch it from /api/items/:id/image. */
+  imageId: string | null;
+  imageName: string;
+  imageMimeType: string;
+  /** SHA-256 of the photo. */
+  contentHash?: string;
+  /** dHash of the photo, compared against other items to spot the same label photographed twice. */
+  perceptualHash?: string;
+  /** Earlier items this one may duplicate; cleared once the user merges or keeps both. */
+  possibleDuplicates?: DuplicateMatch[];
+  /** Ids of duplicates merged into this item. */
+  mergedFrom?: string[];
+  /** Other sides of the same package, read together with the main photo; fetch them from /api/items/:id/image?photo=<imageId>. */
+  extraPhotos?: ItemPhoto[];
+  /** For items with several photos, the blob id of the photo each field was read from. */
+  fieldImages?: Partial<Record<SourcedField, string>>;
+  product: string;
+  expiryDate: string; // YYYY-MM-DD or ""
+  lot: string;
+  ref: string;
+  gtin: string;
+  manufactureDate: string; // YYYY-MM-DD or ""
+  serial: string;
+  /** Product category; selects the status thresholds configured for it. */
+  category: string;
+  /** Overrides the category or default thresholds for this item only. */
+  thresholds?: Partial<StatusThresholds>;
+  /** Expiry as printed, kept so an unparseable date shows as "Unreadable" rather than missing. */
+  expiryText?: string;
+  /** Which fields came from a barcode, the printed text or a person. */
+  fieldSources?: FieldSources;
+  barcodeConflicts?: SourcedField[];
+  confidence?: Partial<Record<SourcedField, FieldConfidence>>;
+  expiryAmbiguous?: boolean;
+  /** Set when the last analysis failed; cleared by the next successful one. */
+  analysisError?: string;
+  review: ReviewState;
+  status: ExpiryStatus;
+  source: ItemSource;
+  sessionId?: string;
+  /** Id the capture had in the mobile session, so a reload does not import it twice. */
+  sessionImageId?: string;
+  /** Organization the item belongs to; unset until accounts are set up. */
+  orgId?: string;
+  /** Storage location (site, room or shelf) the item is kept at. */
+  locationId?: string;
+  /** User who captured or imported it. */
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NewItem = {
+  image?: { buffer: Buffer; mimeType: string; name: string };
+  product?: string;
+  expiryDate?: string;
+  lot?: string;
+  ref?: string;
+  gtin?: string;
+  manufactureDate?: string;
+  serial?: string;
+  category?: string;
+  /** Expiry as written, for rows whose date was read from text rather than typed as a date. */
+  expiryText?: string;
+  expiryAmbiguous?: boolean;
+  source?: ItemSource;
+  sessionId?: string;
+  sessionImageId?: string;
+  orgId?: string;
+  locationId?: string;
+  createdBy?: string;
+};
+
+/** Free-text label fields a client may set; dates are validated by the routes. */
+export const ITEM_FIELDS = ["product", "expiryDate", "lot", "ref", "gtin", "manufactureDate", "serial"] as const;
+
+/** Analysis metadata a client may store along with the fields it read. */
+export type ItemAnalysisPatch = Partial<
+  Pick<InventoryItem, "fieldSources" | "barcodeConflicts" | "confidence" | "expiryAmbiguous" | "expiryText" | "analysisError" | "fieldImages">
+>;
+
+/**
+ * A patch that carries `confidence` records an analysis; one without it is a
+ * person editing, and every field it changes becomes a manual value.
+ */
+export type ItemPatch = Partial<Pick<InventoryItem, (typeof ITEM_FIELDS)[number] | "category">> &
+  ItemAnalysisPatch & {
+    /** null removes the item's own thresholds. */
+    thresholds?: Partial<StatusThresholds> | null;
+    /** Moves the item; null clears its location. Routes check the caller may use it. */
+    locationId?: string | null;
+  };
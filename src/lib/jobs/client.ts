@@ -0,0 +1,53 @@
+// Browser side of the analysis job stream; keep this file free of Node imports.
+
+import type { AnalysisJob, JobCounts, JobEvent } from "./types";
+
+export type JobStreamHandlers = {
+  /** Sent on every (re)connect with the whole job; items that finished while disconnected show up here. */
+  onSnapshot(job: AnalysisJob, counts: JobCounts): void;
+  onEvent(event: JobEvent): void;
+  /** The job finished, was cancelled, or no longer exists on the server. The stream stops after this. */
+  onEnded(): void;
+};
+
+/**
+ * Follows /api/jobs/:id/events until the job is no longer running. The
+ * browser reconnects dropped streams by itself and every connection begins
+ * with a snapshot, so nothing is lost in between. Returns a function that
+ * stops following without cancelling the job.
+ */
+export function followJob(jobId: string, handlers: JobStreamHandlers): () => void {
+  let stopped = false;
+  const source = new EventSource(`/api/jobs/${jobId}/events`);
+  const stop = () => {
+    stopped = true;
+    source.close();
+  };
+  const end = () => {
+    if (stopped) return;
+    stop();
+    handlers.onEnded();
+  };
+
+  source.addEventListener("snapshot", (e) => {
+    const { job, counts } = JSON.parse((e as MessageEvent<string>).data) as { job: AnalysisJob; counts: JobCounts };
+    handlers.onSnapshot(job, counts);
+    if (job.status !== "running") end();
+  });
+  for (const type of ["item", "job"] as const) {
+    source.addEventListener(type, (e) => {
+      const event = JSON.parse((e as MessageEvent<string>).data) as JobEvent;
+      handlers.onEvent(event);
+      if (event.type === "job" && event.status !== "running") end();
+    });
+  }
+  // EventSource retries on its own; a job that is gone after a server restart would retry forever.
+  source.onerror = () => {
+    void fetch(`/api/jobs/${jobId}`)
+      .then((res) => {
+        if (res.status === 404) end();
+      })
+      .catch(() => undefined);
+  };
+  return stop;
+}
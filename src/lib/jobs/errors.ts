@@ -0,0 +1,52 @@
+import { ProviderConfigError } from "@/lib/extraction/types";
+import { UnsupportedImageError } from "@/lib/images/preprocess";
+import type { JobErrorCode } from "./types";
+
+export type ClassifiedError = {
+  code: JobErrorCode;
+  message: string;
+  retryable: boolean;
+  /** Delay the provider asked for, when it said. */
+  retryAfterMs?: number;
+};
+
+const TRANSIENT_STATUSES = new Set([408, 500, 502, 503, 504]);
+
+const NETWORK_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "ENOTFOUND", "UND_ERR_CONNECT_TIMEOUT", "UND_ERR_SOCKET"]);
+
+/** Gemini reports the wait it wants as a google.rpc.RetryInfo detail, e.g. `{ retryDelay: "31s" }`. */
+function retryInfoMs(details: unknown): number | undefined {
+  if (!Array.isArray(details)) return undefined;
+  for (const detail of details as Record<string, unknown>[]) {
+    const delay = typeof detail?.retryDelay === "string" ? detail.retryDelay.match(/^(\d+(?:\.\d+)?)s$/) : null;
+    if (delay) return Math.round(Number(delay[1]) * 1000);
+  }
+  return undefined;
+}
+
+function networkCode(err: unknown): string | undefined {
+  const cause = (err as { cause?: { code?: unknown } })?.cause;
+  const code = (err as { code?: unknown })?.code ?? cause?.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/**
+ * Sorts a failed analysis into something worth retrying (rate limits, 5xx,
+ * dropped connections) or not (bad configuration, an unreadable image). HTTP
+ * statuses are read from the error's `status`, as the Gemini SDK sets it.
+ */
+export function classifyError(err: unknown): ClassifiedError {
+  const message = (err instanceof Error ? err.message : String(err)).slice(0, 200);
+  if (err instanceof ProviderConfigError) return { code: "provider_unavailable", message, retryable: false };
+  if (err instanceof UnsupportedImageError) return { code: "unsupported_media_type", message, retryable: false };
+  const status = (err as { status?: unknown })?.status;
+  if (status === 429) {
+    return { code: "rate_limited", message, retryable: true, retryAfterMs: retryInfoMs((err as { errorDetails?: unknown }).errorDetails) };
+  }
+  if (typeof status === "number" && TRANSIENT_STATUSES.has(status)) return { code: "provider_error", message, retryable: true };
+  const code = networkCode(err);
+  if ((code && NETWORK_CODES.has(code)) || /fetch failed|network|socket hang up/i.test(message)) {
+    return { code: "network_error", message, retryable: true };
+  }
+  return { code: "analysis_failed", message, retryable: false };
+}
@@ -0,0 +1,296 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { analyzeImages, getExtractionProvider, type AnalyzeResponse, type SourcedField } from "@/lib/extraction";
+import { preprocessImage, preprocessOptions } from "@/lib/images/preprocess";
+import { getItem, itemPhotos, updateItem, type InventoryItem, type ItemPatch, type ItemPhoto } from "@/lib/items";
+import { readBlob } from "@/lib/store/blobs";
+import { classifyError, type ClassifiedError } from "./errors";
+import type { AnalysisJob, JobCounts, JobEvent, JobItem, JobItemStatus, NewJob } from "./types";
+
+export type { AnalysisJob, JobCounts, JobErrorCode, JobEvent, JobItem, JobItemStatus, JobStatus, NewJob, NewJobItem } from "./types";
+
+export const MAX_JOB_ITEMS = 500;
+
+/** Finished jobs stay readable this long, so a dashboard that reconnects can still see the outcome. */
+const RETENTION_MS = 60 * 60 * 1000;
+
+const MAX_BACKOFF_MS = 60_000;
+
+function envInt(name: string, fallback: number, min: number): number {
+  const n = Number(process.env[name]);
+  return Number.isInteger(n) && n >= min ? n : fallback;
+}
+
+/** ANALYSIS_CONCURRENCY provider calls at once across all jobs; ANALYSIS_MAX_ATTEMPTS per item; ANALYSIS_RETRY_BASE_MS doubles per retry. */
+export function jobLimits() {
+  return {
+    concurrency: envInt("ANALYSIS_CONCURRENCY", 3, 1),
+    maxAttempts: envInt("ANALYSIS_MAX_ATTEMPTS", 5, 1),
+    retryBaseMs: envInt("ANALYSIS_RETRY_BASE_MS", 1000, 0),
+  };
+}
+
+// Jobs are submitted, streamed and cancelled from different route bundles, so the
+// queue lives on globalThis like the session store. It is not persisted: a restart
+// drops unfinished jobs and their items keep whatever they were last analyzed as.
+const globalForJobs = globalThis as typeof globalThis & {
+  analysisJobs?: Map<string, AnalysisJob>;
+  analysisJobEvents?: EventEmitter;
+  analysisJobWorker?: { active: number; timer: ReturnType<typeof setTimeout> | null };
+};
+
+function jobs(): Map<string, AnalysisJob> {
+  globalForJobs.analysisJobs ??= new Map();
+  return globalForJobs.analysisJobs;
+}
+
+function emitter(): EventEmitter {
+  if (!globalForJobs.analysisJobEvents) {
+    globalForJobs.analysisJobEvents = new EventEmitter();
+    globalForJobs.analysisJobEvents.setMaxListeners(0);
+  }
+  return globalForJobs.analysisJobEvents;
+}
+
+function worker() {
+  globalForJobs.analysisJobWorker ??= { active: 0, timer: null };
+  return globalForJobs.analysisJobWorker;
+}
+
+/** Live progress for one job in this process; returns an unsubscribe function. */
+export function subscribeToJob(jobId: string, listener: (event: JobEvent) => void): () => void {
+  emitter().on(jobId, listener);
+  return () => {
+    emitter().off(jobId, listener);
+  };
+}
+
+export function jobCounts(job: AnalysisJob): JobCounts {
+  const counts: JobCounts = { queued: 0, running: 0, retrying: 0, done: 0, failed: 0, cancelled: 0, total: job.items.length };
+  for (const item of job.items) counts[item.status]++;
+  return counts;
+}
+
+const PENDING: JobItemStatus[] = ["queued", "running", "retrying"];
+
+/**
+ * A job is running while any item is still to be read; after that it is
+ * cancelled if any item was. Returns whether the status changed.
+ */
+function settle(job: AnalysisJob): boolean {
+  const previous = job.status;
+  const pending = job.items.some((i) => PENDING.includes(i.status));
+  job.status = pending ? "running" : job.items.some((i) => i.status === "cancelled") ? "cancelled" : "completed";
+  job.updatedAt = new Date().toISOString();
+  if (job.status === "running") delete job.finishedAt;
+  else job.finishedAt ??= job.updatedAt;
+  return job.status !== previous;
+}
+
+/** The item event goes first: streams end at a finished job's `job` event. */
+function publishItem(job: AnalysisJob, item: JobItem, inventoryItem?: InventoryItem) {
+  const changed = settle(job);
+  emitter().emit(job.id, { type: "item", jobId: job.id, item: { ...item }, inventoryItem, counts: jobCounts(job) });
+  if (changed) emitter().emit(job.id, { type: "job", jobId: job.id, status: job.status, counts: jobCounts(job) });
+}
+
+function prune() {
+  const cutoff = Date.now() - RETENTION_MS;
+  for (const [id, job] of jobs()) {
+    if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) jobs().delete(id);
+  }
+}
+
+/** The fields a read writes to an item, as the dashboard used to send them itself. */
+function analysisPatch(data: AnalyzeResponse, photos: ItemPhoto[]): ItemPatch {
+  const fieldImages: Partial<Record<SourcedField, string>> = {};
+  for (const [field, index] of Object.entries(data.fieldImages ?? {}) as [SourcedField, number][]) {
+    if (photos[index]) fieldImages[field] = photos[index].imageId;
+  }
+  return {
+    product: data.product.trim(),
+    expiryDate: data.expiryDate.trim(),
+    lot: data.lot,
+    ref: data.ref,
+    gtin: data.gtin,
+    manufactureDate: data.manufactureDate,
+    serial: data.serial,
+    fieldSources: data.fieldSources,
+    barcodeConflicts: data.barcodeConflicts,
+    confidence: data.confidence,
+    expiryAmbiguous: data.expiryAmbiguous ?? false,
+    expiryText: data.expiryText ?? "",
+    analysisError: "",
+    fieldImages,
+  };
+}
+
+/** Items that were in flight when their job was cancelled: their call finishes, but they are not retried. */
+const cancelling = new WeakSet<JobItem>();
+
+class JobItemError extends Error {
+  constructor(readonly classified: ClassifiedError) {
+    super(classified.message);
+  }
+}
+
+async function analyzeItem(job: AnalysisJob, entry: JobItem): Promise<InventoryItem> {
+  const notFound = () => new JobItemError({ code: "item_not_found", message: `Item ${entry.itemId} no longer exists`, retryable: false });
+  const stored = await getItem(entry.itemId);
+  if (!stored) throw notFound();
+  // Photos whose blob has gone missing are skipped rather than failing the read.
+  const photos = itemPhotos(stored);
+  const blobs = await Promise.all(photos.map((p) => readBlob(p.imageId)));
+  const found = photos.filter((_, i) => blobs[i]);
+  if (!found.length) throw new JobItemError({ code: "no_image", message: "This item has no photo to analyze", retryable: false });
+
+  const provider = getExtractionProvider(job.provider);
+  const options = preprocessOptions();
+  const images = await Promise.all(blobs.filter((b): b is Buffer => Boolean(b)).map((blob) => preprocessImage(blob, options)));
+  const result = await analyzeImages(
+    provider,
+    images.map((image, i) => ({ buffer: image.buffer, mimeType: image.mimeType, fileName: found[i].imageName })),
+    { manualProduct: entry.manualProduct, manualDate: entry.manualDate, locale: job.locale },
+    { refresh: job.refresh }
+  );
+  const updated = await updateItem(entry.itemId, analysisPatch(result, found), {
+    actor: job.actor,
+    analysis: { provider: result.provider, model: result.model, cached: result.cached, raw: result.raw },
+  });
+  if (!updated) throw notFound();
+  return updated;
+}
+
+/** Exponential backoff with jitter, never shorter than what the provider asked for. */
+function backoffMs(attempt: number, hint: number | undefined): number {
+  const base = jobLimits().retryBaseMs * 2 ** (attempt - 1);
+  const jittered = Math.min(MAX_BACKOFF_MS, base) * (0.5 + Math.random() / 2);
+  return Math.max(Math.round(jittered), hint ?? 0);
+}
+
+async function run(job: AnalysisJob, entry: JobItem) {
+  entry.status = "running";
+  entry.attempts++;
+  delete entry.nextAttemptAt;
+  publishItem(job, entry);
+  try {
+    const updated = await analyzeItem(job, entry);
+    entry.status = "done";
+    delete entry.errorCode;
+    delete entry.error;
+    publishItem(job, entry, updated);
+  } catch (err) {
+    const failure = err instanceof JobItemError ? err.classified : classifyError(err);
+    entry.errorCode = failure.code;
+    entry.error = failure.message;
+    if (failure.retryable && entry.attempts < jobLimits().maxAttempts && !cancelling.has(entry)) {
+      entry.status = "retrying";
+      entry.nextAttemptAt = new Date(Date.now() + backoffMs(entry.attempts, failure.retryAfterMs)).toISOString();
+      publishItem(job, entry);
+      return;
+    }
+    entry.status = cancelling.has(entry) ? "cancelled" : "failed";
+    // Stored on the item too, so it lands in the review queue instead of looking read.
+    const updated = failure.code === "item_not_found" ? null : await updateItem(entry.itemId, { analysisError: failure.message }, { actor: job.actor }).catch(() => null);
+    publishItem(job, entry, updated ?? undefined);
+  }
+}
+
+/** The oldest job's next item that may run now, and when the earliest backed-off item becomes due otherwise. */
+function nextEligible(now: number): { job: AnalysisJob; entry: JobItem } | { wakeAt: number | null } {
+  let wakeAt: number | null = null;
+  for (const job of jobs().values()) {
+    for (const entry of job.items) {
+      if (entry.status === "queued") return { job, entry };
+      if (entry.status !== "retrying") continue;
+      const due = Date.parse(entry.nextAttemptAt ?? "");
+      if (!(due > now)) return { job, entry };
+      wakeAt = wakeAt === null ? due : Math.min(wakeAt, due);
+    }
+  }
+  return { wakeAt };
+}
+
+/** Starts items until the concurrency limit is reached, and arms a timer for the next backed-off one. */
+function pump() {
+  const state = worker();
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+  const { concurrency } = jobLimits();
+  while (state.active < concurrency) {
+    const next = nextEligible(Date.now());
+    if (!("job" in next)) {
+      if (next.wakeAt !== null) state.timer = setTimeout(pump, Math.max(0, next.wakeAt - Date.now()));
+      break;
+    }
+    state.active++;
+    void run(next.job, next.entry).finally(() => {
+      state.active--;
+      pump();
+    });
+  }
+}
+
+export function createJob(input: NewJob): AnalysisJob {
+  prune();
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    status: "running",
+    provider: input.provider?.trim() || null,
+    locale: input.locale?.trim() || null,
+    refresh: input.refresh ?? false,
+    orgId: input.orgId ?? null,
+    ...(input.actor ? { actor: input.actor } : {}),
+    items: input.items.map((i) => ({ ...i, status: "queued", attempts: 0 })),
+    createdAt: now,
+    updatedAt: now,
+  };
+  jobs().set(job.id, job);
+  pump();
+  return job;
+}
+
+export function getJob(id: string): AnalysisJob | null {
+  return jobs().get(id) ?? null;
+}
+
+export function listJobs(): AnalysisJob[] {
+  prune();
+  return [...jobs().values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Drops queued and backed-off items; calls already in flight finish and are saved. */
+export function cancelJob(id: string): AnalysisJob | null {
+  const job = getJob(id);
+  if (!job) return null;
+  for (const entry of job.items) {
+    if (entry.status === "running") cancelling.add(entry);
+    if (entry.status !== "queued" && entry.status !== "retrying") continue;
+    entry.status = "cancelled";
+    delete entry.nextAttemptAt;
+    publishItem(job, entry);
+  }
+  pump();
+  return job;
+}
+
+/** Queues failed and cancelled items again (or just `itemIds` among them) with a fresh attempt budget. */
+export function retryJob(id: string, itemIds?: string[]): AnalysisJob | null {
+  const job = getJob(id);
+  if (!job) return null;
+  for (const entry of job.items) {
+    if (entry.status !== "failed" && entry.status !== "cancelled") continue;
+    if (itemIds && !itemIds.includes(entry.itemId)) continue;
+    cancelling.delete(entry);
+    entry.status = "queued";
+    entry.attempts = 0;
+    delete entry.errorCode;
+    delete entry.error;
+    publishItem(job, entry);
+  }
+  pump();
+  return job;
+}
@@ -0,0 +1,68 @@
+import type { AuditActor } from "@/lib/audit/types";
+import type { InventoryItem } from "@/lib/items/types";
+
+export type JobItemStatus = "queued" | "running" | "retrying" | "done" | "failed" | "cancelled";
+
+export type JobErrorCode =
+  | "rate_limited"
+  | "provider_error"
+  | "network_error"
+  | "provider_unavailable"
+  | "unsupported_media_type"
+  | "no_image"
+  | "item_not_found"
+  | "analysis_failed";
+
+export type JobItem = {
+  itemId: string;
+  status: JobItemStatus;
+  /** Provider calls made so far, including the one running. */
+  attempts: number;
+  errorCode?: JobErrorCode;
+  error?: string;
+  /** When a `retrying` item becomes eligible again. */
+  nextAttemptAt?: string;
+  manualProduct?: string;
+  manualDate?: string;
+};
+
+export type JobStatus = "running" | "completed" | "cancelled";
+
+export type AnalysisJob = {
+  id: string;
+  status: JobStatus;
+  /** Provider name as requested; null uses the server default. */
+  provider: string | null;
+  locale: string | null;
+  /** Skip the analysis cache, as re-analysis does. */
+  refresh: boolean;
+  /** Organization of the user who started it; null before accounts are set up. */
+  orgId: string | null;
+  /** Who started it; the analyses are logged as theirs. */
+  actor?: AuditActor;
+  items: JobItem[];
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type JobCounts = Record<JobItemStatus, number> & { total: number };
+
+export type NewJobItem = { itemId: string; manualProduct?: string; manualDate?: string };
+
+export type NewJob = {
+  items: NewJobItem[];
+  provider?: string | null;
+  locale?: string | null;
+  refresh?: boolean;
+  orgId?: string | null;
+  actor?: AuditActor;
+};
+
+/**
+ * Progress as streamed to the dashboard. `item` events for finished items
+ * carry the stored inventory row so the table can update without a refetch.
+ */
+export type JobEvent =
+  | { type: "item"; jobId: string; item: JobItem; inventoryItem?: InventoryItem; counts: JobCounts }
+  | { type: "job"; jobId: string; status: JobStatus; counts: JobCounts };
@@ -0,0 +1,88 @@
+// IndexedDB storage for the offline dashboard: the last item list seen and the changes waiting to sync. Browser only.
+
+import type { InventoryItem } from "@/lib/items/types";
+import type { OutboxEntry, QueuedChange } from "./types";
+
+const DB_NAME = "expiry-offline";
+const DB_VERSION = 1;
+const ITEMS = "items";
+const OUTBOX = "outbox";
+
+let opening: Promise<IDBDatabase> | null = null;
+
+function open(): Promise<IDBDatabase> {
+  opening ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(ITEMS)) db.createObjectStore(ITEMS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: "seq", autoIncrement: true });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      opening = null;
+      reject(req.error);
+    };
+  });
+  return opening;
+}
+
+/** Runs `fn` in one transaction and resolves with its request's result once the transaction commits. */
+async function run<T>(store: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> {
+  const db = await open();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function readCachedItems(): Promise<InventoryItem[]> {
+  return run<InventoryItem[]>(ITEMS, "readonly", (s) => s.getAll());
+}
+
+/** Replaces the cached list with the items the dashboard just loaded. */
+export function cacheItems(items: InventoryItem[]): Promise<void> {
+  return run<void>(ITEMS, "readwrite", (s) => {
+    s.clear();
+    items.forEach((item) => s.put(item));
+  });
+}
+
+export function cacheItem(item: InventoryItem): Promise<void> {
+  return run<void>(ITEMS, "readwrite", (s) => {
+    s.put(item);
+  });
+}
+
+export function uncacheItem(id: string): Promise<void> {
+  return run<void>(ITEMS, "readwrite", (s) => {
+    s.delete(id);
+  });
+}
+
+/** Queued changes, oldest first. */
+export function readOutbox(): Promise<OutboxEntry[]> {
+  return run<OutboxEntry[]>(OUTBOX, "readonly", (s) => s.getAll());
+}
+
+/** Queues changes in one transaction, so a sync running meanwhile sees all of them or none. */
+export function addToOutbox(changes: QueuedChange[]): Promise<void> {
+  return run<void>(OUTBOX, "readwrite", (s) => {
+    changes.forEach((change) => s.add({ ...change, attempts: 0 }));
+  });
+}
+
+export function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  return run<void>(OUTBOX, "readwrite", (s) => {
+    s.put(entry);
+  });
+}
+
+export function removeFromOutbox(seqs: number[]): Promise<void> {
+  return run<void>(OUTBOX, "readwrite", (s) => {
+    seqs.forEach((seq) => s.delete(seq));
+  });
+}
@@ -0,0 +1,286 @@
+// Sends the dashboard's queued changes once the server can be reached; browser only.
+
+import type { InventoryItem } from "@/lib/items/types";
+import { addToOutbox, cacheItem, putOutboxEntry, readOutbox, removeFromOutbox, uncacheItem } from "./db";
+import { entryItemIds, isLocalId, LOCAL_ID_PREFIX, type ConflictField, type OutboxEntry, type QueuedChange, type SyncState } from "./types";
+
+export { isLocalId, LOCAL_ID_PREFIX } from "./types";
+export type { ConflictField, EditConflict, OutboxEntry, QueuedChange, SyncState } from "./types";
+
+export const INITIAL_SYNC_STATE: SyncState = { online: true, syncing: false, entries: [], error: null, lastSyncedAt: null };
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60_000;
+
+export type SyncHandlers = {
+  onState(state: SyncState): void;
+  /** An item captured offline was uploaded; rows holding `localId` should take the server's item. */
+  onCreated(localId: string, item: InventoryItem): void;
+  /** The server's copy of an item after a queued edit, or after the user kept the other device's values. */
+  onItem(item: InventoryItem): void;
+  /** A queued analysis was accepted; follow the job as any other. */
+  onJob(jobId: string, itemIds: string[]): void;
+  /** The server refused a change for good (e.g. the item was deleted); it is dropped from the queue. */
+  onDropped(entry: OutboxEntry, message: string): void;
+};
+
+export type OutboxSync = {
+  /** Queues changes that belong together, e.g. an offline capture and its analysis. */
+  enqueue(...changes: QueuedChange[]): Promise<void>;
+  /** Forgets every queued change about an item, e.g. one deleted before it was uploaded. */
+  discard(itemId: string): Promise<void>;
+  /** "mine" sends the queued edit over the other device's; "theirs" drops it and takes the server's item. */
+  resolveConflict(seq: number, keep: "mine" | "theirs"): Promise<void>;
+  flush(): void;
+  stop(): void;
+};
+
+/** fetch rejects with a TypeError when the request never reached a server. */
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError;
+}
+
+export function newLocalId(): string {
+  return `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+type Outcome = "done" | "retry" | "blocked";
+
+function conflictingFields(entry: Extract<OutboxEntry, { kind: "edit" }>, server: InventoryItem): ConflictField[] {
+  const theirs = server as unknown as Record<string, unknown>;
+  return Object.entries(entry.patch)
+    .map(([field, mine]) => ({ field, base: entry.base[field] ?? "", mine, theirs: String(theirs[field] ?? "") }))
+    .filter((f) => f.theirs !== f.base && f.theirs !== f.mine);
+}
+
+async function errorMessage(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => ({}))) as { error?: unknown; message?: unknown };
+  const message = typeof body.message === "string" ? body.message : typeof body.error === "string" ? body.error : "";
+  return message || `The server refused the change (${res.status})`;
+}
+
+/**
+ * Sends queued changes in the order they were made, one at a time, whenever
+ * the browser is online: at start, on the `online` event, after `enqueue`,
+ * and with growing delays while the server cannot be reached. An edit to an
+ * item someone else changed since is re-sent when the fields do not overlap,
+ * and otherwise held as a conflict, along with later changes to that item,
+ * until the user picks a side. Returns controls for the queue.
+ */
+export function startOutboxSync(handlers: SyncHandlers): OutboxSync {
+  let stopped = false;
+  let running = false;
+  let again = false;
+  let failures = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let state: SyncState = { ...INITIAL_SYNC_STATE, online: typeof navigator === "undefined" || navigator.onLine };
+  /** Server items for uploaded captures, for changes queued under the local id after the upload. */
+  const adopted = new Map<string, InventoryItem>();
+
+  const publish = async (patch: Partial<SyncState> = {}) => {
+    const entries = await readOutbox().catch(() => state.entries);
+    state = { ...state, ...patch, entries };
+    if (!stopped) handlers.onState(state);
+  };
+
+  /** Points a change made under an offline capture's local id at the item the server created for it. */
+  const retarget = <T extends QueuedChange>(change: T, localId: string, item: InventoryItem): T => {
+    if (change.kind === "analyze") return { ...change, items: change.items.map((i) => (i.itemId === localId ? { ...i, itemId: item.id } : i)) };
+    if (change.kind === "create" || change.itemId !== localId) return change;
+    return { ...change, itemId: item.id, ...(change.kind === "edit" && change.baseUpdatedAt === null ? { baseUpdatedAt: item.updatedAt } : {}) };
+  };
+
+  const adopt = async (localId: string, item: InventoryItem) => {
+    adopted.set(localId, item);
+    for (const entry of await readOutbox()) {
+      if (entryItemIds(entry).includes(localId)) await putOutboxEntry(retarget(entry, localId, item));
+    }
+  };
+
+  const send = async (entry: OutboxEntry): Promise<Outcome> => {
+    let res: Response;
+    try {
+      if (entry.kind === "create") {
+        const form = new FormData();
+        form.append("image", new File([entry.file], entry.fileName, { type: entry.file.type }));
+        form.append("product", entry.product);
+        form.append("source", "upload");
+        if (entry.locationId) form.append("locationId", entry.locationId);
+        res = await fetch("/api/items", { method: "POST", body: form });
+      } else if (entry.kind === "edit") {
+        res = await fetch(`/api/items/${entry.itemId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...entry.patch, ...(entry.baseUpdatedAt ? { baseUpdatedAt: entry.baseUpdatedAt } : {}) }),
+        });
+      } else if (entry.kind === "delete") {
+        res = await fetch(`/api/items/${entry.itemId}`, { method: "DELETE" });
+      } else {
+        res = await fetch("/api/jobs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ items: entry.items, refresh: entry.refresh }),
+        });
+      }
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+      await putOutboxEntry({ ...entry, attempts: entry.attempts + 1, lastError: "The server could not be reached" });
+      return "retry";
+    }
+
+    if (res.status === 401) {
+      await putOutboxEntry({ ...entry, lastError: "Sign in again to sync" });
+      return "blocked";
+    }
+    if (res.status >= 500 || res.status === 429 || res.status === 408) {
+      await putOutboxEntry({ ...entry, attempts: entry.attempts + 1, lastError: await errorMessage(res) });
+      return "retry";
+    }
+    if (entry.kind === "edit" && res.status === 409) {
+      const { item } = (await res.json()) as { item: InventoryItem };
+      const fields = conflictingFields(entry, item);
+      // Someone changed other fields only: send ours again on top of theirs.
+      await putOutboxEntry(fields.length ? { ...entry, conflict: { server: item, fields } } : { ...entry, baseUpdatedAt: item.updatedAt });
+      return "done";
+    }
+    if (entry.kind === "delete" && res.status === 404) {
+      await removeFromOutbox([entry.seq]);
+      return "done";
+    }
+    if (!res.ok) {
+      await removeFromOutbox([entry.seq]);
+      handlers.onDropped(entry, await errorMessage(res));
+      return "done";
+    }
+
+    if (entry.kind === "create") {
+      const { item } = (await res.json()) as { item: InventoryItem };
+      await adopt(entry.itemId, item);
+      await cacheItem(item);
+      handlers.onCreated(entry.itemId, item);
+    } else if (entry.kind === "edit") {
+      const { item } = (await res.json()) as { item: InventoryItem };
+      await cacheItem(item);
+      handlers.onItem(item);
+    } else if (entry.kind === "delete") {
+      await uncacheItem(entry.itemId);
+    } else {
+      const { job } = (await res.json()) as { job: { id: string } };
+      handlers.onJob(job.id, entry.items.map((i) => i.itemId));
+    }
+    await removeFromOutbox([entry.seq]);
+    return "done";
+  };
+
+  const schedule = () => {
+    if (timer || stopped) return;
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, failures - 1));
+    timer = setTimeout(() => {
+      timer = null;
+      flush();
+    }, delay);
+  };
+
+  const drain = async () => {
+    for (;;) {
+      const entries = await readOutbox();
+      // Later changes to an item with an open conflict wait for it, and so does anything about an item not yet uploaded.
+      const held = new Set(entries.filter((e) => e.conflict || e.kind === "create").flatMap((e) => entryItemIds(e)));
+      const next = entries.find((e) => e.kind === "create" ? !e.conflict : !e.conflict && !entryItemIds(e).some((id) => held.has(id) || isLocalId(id)));
+      if (!next) {
+        failures = 0;
+        await publish({ error: null, lastSyncedAt: new Date().toISOString() });
+        return;
+      }
+      const outcome = await send(next);
+      if (outcome !== "done") {
+        if (outcome === "retry") {
+          failures++;
+          schedule();
+        }
+        await publish({ error: (await readOutbox()).find((e) => e.seq === next.seq)?.lastError ?? null });
+        return;
+      }
+      failures = 0;
+      await publish();
+    }
+  };
+
+  function flush() {
+    if (stopped) return;
+    if (running) {
+      again = true;
+      return;
+    }
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      void publish({ online: false });
+      return;
+    }
+    running = true;
+    void (async () => {
+      try {
+        do {
+          again = false;
+          await publish({ online: true, syncing: true });
+          await drain();
+        } while (again && !stopped);
+      } catch (err) {
+        await publish({ error: err instanceof Error ? err.message : String(err) });
+      } finally {
+        running = false;
+        await publish({ syncing: false });
+      }
+    })();
+  }
+
+  const goOnline = () => {
+    failures = 0;
+    flush();
+  };
+  const goOffline = () => void publish({ online: false });
+  window.addEventListener("online", goOnline);
+  window.addEventListener("offline", goOffline);
+  flush();
+
+  return {
+    async enqueue(...changes) {
+      const targeted = changes.map((change) =>
+        entryItemIds(change).reduce((c, id) => (adopted.has(id) ? retarget(c, id, adopted.get(id)!) : c), change)
+      );
+      await addToOutbox(targeted);
+      await publish();
+      flush();
+    },
+    async discard(itemId) {
+      for (const entry of await readOutbox()) {
+        if (!entryItemIds(entry).includes(itemId)) continue;
+        // An analysis of several items goes on for the others.
+        const rest = entry.kind === "analyze" ? entry.items.filter((i) => i.itemId !== itemId) : [];
+        if (entry.kind === "analyze" && rest.length) await putOutboxEntry({ ...entry, items: rest });
+        else await removeFromOutbox([entry.seq]);
+      }
+      await publish();
+    },
+    async resolveConflict(seq, keep) {
+      const entry = (await readOutbox()).find((e) => e.seq === seq);
+      if (entry?.kind !== "edit" || !entry.conflict) return;
+      const { server } = entry.conflict;
+      if (keep === "theirs") {
+        await removeFromOutbox([seq]);
+        await cacheItem(server);
+        handlers.onItem(server);
+      } else {
+        await putOutboxEntry({ ...entry, conflict: undefined, baseUpdatedAt: server.updatedAt });
+      }
+      await publish();
+      flush();
+    },
+    flush,
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    },
+  };
+}
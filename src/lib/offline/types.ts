@@ -0,0 +1,64 @@
+// Offline queue types shared by the dashboard and its sync code; no Node imports here.
+
+import type { InventoryItem } from "@/lib/items/types";
+
+/** Prefix of ids given to items captured offline, until the server assigns the real one. */
+export const LOCAL_ID_PREFIX = "local-";
+
+/** A photo captured while offline, uploaded as a new item once the server can be reached. */
+export type QueuedCreate = { kind: "create"; itemId: string; file: Blob; fileName: string; product: string; locationId?: string; queuedAt: string };
+
+/** A typed edit; `base` holds the values the edit replaced, to tell a real conflict from an unrelated change. */
+export type QueuedEdit = {
+  kind: "edit";
+  itemId: string;
+  patch: Record<string, string>;
+  base: Record<string, string>;
+  /** The item's updatedAt when it was edited; null for an item still waiting to be uploaded. */
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+};
+
+export type QueuedDelete = { kind: "delete"; itemId: string; queuedAt: string };
+
+export type QueuedAnalysis = {
+  kind: "analyze";
+  items: { itemId: string; manualProduct?: string; manualDate?: string }[];
+  refresh: boolean;
+  queuedAt: string;
+};
+
+export type QueuedChange = QueuedCreate | QueuedEdit | QueuedDelete | QueuedAnalysis;
+
+/** A field both this device and someone else changed. */
+export type ConflictField = { field: string; base: string; mine: string; theirs: string };
+
+/** An edit the server refused because the item changed since; waits for the user to pick a side. */
+export type EditConflict = { server: InventoryItem; fields: ConflictField[] };
+
+/** A queued change as stored, in the order it was made. */
+export type OutboxEntry = QueuedChange & {
+  seq: number;
+  attempts: number;
+  lastError?: string;
+  conflict?: EditConflict;
+};
+
+export type SyncState = {
+  online: boolean;
+  syncing: boolean;
+  /** Everything not yet on the server, conflicts included, oldest first. */
+  entries: OutboxEntry[];
+  /** Why the last attempt stopped, e.g. the server could not be reached. */
+  error: string | null;
+  lastSyncedAt: string | null;
+};
+
+export function isLocalId(id: string): boolean {
+  return id.startsWith(LOCAL_ID_PREFIX);
+}
+
+/** Items a queued change is about. */
+export function entryItemIds(change: QueuedChange): string[] {
+  return change.kind === "analyze" ? change.items.map((i) => i.itemId) : [change.itemId];
+}
@@ -0,0 +1,56 @@
+// Pure review rules shared by the API and the dashboard; no Node imports here.
+
+import type { FieldConfidence, SourcedField } from "@/lib/extraction/types";
+
+export type ReviewReason = "analysis_failed" | "no_expiry" | "ambiguous_date" | "low_confidence" | "barcode_mismatch";
+
+/**
+ * `pending` items wait in the review queue; `cleared` means every rule passed
+ * on a machine read; `approved` means a person signed the item off.
+ */
+export type ReviewState = {
+  status: "pending" | "cleared" | "approved";
+  reasons: ReviewReason[];
+  reviewedAt?: string;
+};
+
+export const REVIEW_REASON_MESSAGES: Record<ReviewReason, string> = {
+  analysis_failed: "The label could not be analyzed",
+  no_expiry: "No expiry date was read",
+  ambiguous_date: "Day and month could be read either way",
+  low_confidence: "Product or expiry was read with low confidence",
+  barcode_mismatch: "Printed text and barcode disagree",
+};
+
+/** Evidence recorded for values a person typed in. */
+export const MANUAL_EVIDENCE = "Entered manually";
+
+/** Scores below this send an item to review. */
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.8;
+
+export function reviewThreshold(): number {
+  const value = Number(process.env.REVIEW_CONFIDENCE_THRESHOLD);
+  return Number.isFinite(value) && value > 0 ? value : REVIEW_CONFIDENCE_THRESHOLD;
+}
+
+/** Fields whose confidence decides whether an item can be trusted without a person looking at it. */
+const CRITICAL_FIELDS: SourcedField[] = ["product", "expiryDate"];
+
+export function reviewReasons(
+  fields: {
+    expiryDate: string;
+    expiryAmbiguous?: boolean;
+    confidence?: Partial<Record<SourcedField, FieldConfidence>>;
+    barcodeConflicts?: SourcedField[];
+    analysisError?: string;
+  },
+  threshold = REVIEW_CONFIDENCE_THRESHOLD
+): ReviewReason[] {
+  const reasons: ReviewReason[] = [];
+  if (fields.analysisError) reasons.push("analysis_failed");
+  if (!fields.expiryDate) reasons.push("no_expiry");
+  if (fields.expiryAmbiguous) reasons.push("ambiguous_date");
+  if (CRITICAL_FIELDS.some((f) => (fields.confidence?.[f]?.score ?? 1) < threshold)) reasons.push("low_confidence");
+  if (fields.barcodeConflicts?.length) reasons.push("barcode_mismatch");
+  return reasons;
+}
@@ -0,0 +1,149 @@
+// Browser side of the session channel; keep this file free of Node imports.
+
+import type { MobileState, SessionCommand } from "./types";
+
+export type { MobileState, SessionCommand, SessionCommandInput, SessionCommandStatus } from "./types";
+
+/** `group` is set on captures taken in the phone's "same item" mode, `reshootOf` on ones answering a reshoot command. */
+export type ClientSessionImage = { id: string; url: string; group?: string; reshootOf?: string; product?: string; expiryDate?: string };
+
+type ClientSessionState = {
+  mobileConnected?: boolean;
+  images?: ClientSessionImage[];
+  commands?: SessionCommand[];
+  mobileState?: MobileState | null;
+};
+
+export type SessionChannelHandlers = {
+  onMobileConnected(connected: boolean): void;
+  /** Images the client may not have seen yet; callers de-duplicate by id. */
+  onImages(images: ClientSessionImage[]): void;
+  /** A command was queued or changed status; snapshots and polls repeat every command in the history. */
+  onCommand?(command: SessionCommand): void;
+  onMobileState?(state: MobileState | null): void;
+  onAnalysis?(result: { imageId: string; product: string; expiryDate: string }): void;
+  /** The session is gone (404), closed or expired (410), or the token was rejected. The channel stops after this. */
+  onEnded(message: string): void;
+};
+
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Follows a session over Server-Sent Events, resuming from the last event id
+ * after drops. `getToken` is read on every (re)connect so refreshed tokens are
+ * picked up. If the stream cannot be opened at all (e.g. a proxy that buffers
+ * responses) it falls back to polling GET /api/session/:id. Returns a function
+ * that disconnects.
+ */
+export function connectSessionChannel(
+  base: string,
+  sessionId: string,
+  getToken: () => string | null,
+  handlers: SessionChannelHandlers
+): () => void {
+  let stopped = false;
+  let source: EventSource | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let opened = false;
+  let lastEventId: string | null = null;
+
+  const stop = () => {
+    stopped = true;
+    source?.close();
+    if (pollTimer) clearInterval(pollTimer);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+  };
+
+  const applyState = (state: ClientSessionState) => {
+    handlers.onMobileConnected(Boolean(state.mobileConnected));
+    handlers.onImages(state.images ?? []);
+    state.commands?.forEach((c) => handlers.onCommand?.(c));
+    handlers.onMobileState?.(state.mobileState ?? null);
+  };
+
+  const poll = async () => {
+    try {
+      const token = getToken();
+      const res = await fetch(`${base}/api/session/${sessionId}`, {
+        headers: { "ngrok-skip-browser-warning": "true", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      });
+      if (res.status === 401 || res.status === 403 || res.status === 404 || res.status === 410) {
+        const body = (await res.json()) as { message?: string };
+        stop();
+        handlers.onEnded(body.message ?? "Session is no longer available");
+        return;
+      }
+      applyState((await res.json()) as ClientSessionState);
+    } catch {
+      // ignore
+    }
+  };
+
+  const startPolling = () => {
+    if (stopped || pollTimer) return;
+    void poll();
+    pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+  };
+
+  if (typeof EventSource === "undefined") {
+    startPolling();
+    return stop;
+  }
+
+  const open = () => {
+    const params = new URLSearchParams();
+    const token = getToken();
+    if (token) params.set("token", token);
+    // A new EventSource does not carry Last-Event-ID over, so pass it explicitly.
+    if (lastEventId) params.set("lastEventId", lastEventId);
+    const es = new EventSource(`${base}/api/session/${sessionId}/events?${params}`);
+    source = es;
+
+    const on = <T>(type: string, fn: (data: T) => void) =>
+      es.addEventListener(type, (e) => {
+        const message = e as MessageEvent<string>;
+        if (message.lastEventId) lastEventId = message.lastEventId;
+        fn(JSON.parse(message.data) as T);
+      });
+
+    es.onopen = () => {
+      opened = true;
+    };
+    es.onerror = () => {
+      // EventSource retries on its own while CONNECTING; CLOSED means the server refused the stream.
+      if (es.readyState !== EventSource.CLOSED || stopped) return;
+      source = null;
+      if (!opened) {
+        startPolling();
+        return;
+      }
+      // The stream worked before (the token may just have expired): check over plain HTTP, then reopen.
+      void poll().then(() => {
+        if (!stopped) reconnectTimer = setTimeout(open, 1000);
+      });
+    };
+
+    on<ClientSessionState>("snapshot", applyState);
+    on("mobile_connected", () => handlers.onMobileConnected(true));
+    on("mobile_disconnected", () => handlers.onMobileConnected(false));
+    on<{ image: ClientSessionImage }>("image_added", ({ image }) => handlers.onImages([image]));
+    on<{ command: SessionCommand }>("command", ({ command }) => handlers.onCommand?.(command));
+    on<{ command: SessionCommand }>("command_status", ({ command }) => handlers.onCommand?.(command));
+    on<{ state: MobileState }>("mobile_state", ({ state }) => handlers.onMobileState?.(state));
+    on<{ imageId: string; product: string; expiryDate: string }>("analysis_complete", (r) => handlers.onAnalysis?.(r));
+    // The server says why it ended the stream; a gone session ends the channel, anything else reconnects.
+    on<{ code: string; message: string }>("stream_error", ({ code, message }) => {
+      if (!["session_not_found", "session_closed", "session_expired"].includes(code)) return;
+      stop();
+      handlers.onEnded(message);
+    });
+    on<{ reason: string }>("session_closed", ({ reason }) => {
+      stop();
+      handlers.onEnded(reason === "expired" ? "Session expired after inactivity" : "Session was closed");
+    });
+  };
+
+  open();
+  return stop;
+}
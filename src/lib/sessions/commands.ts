@@ -0,0 +1,78 @@
+// Command and phone-state parsing shared by the session API and the dashboard; no Node imports here.
+
+import type { MobileState, SessionCommand, SessionCommandInput, SessionCommandStatus, SessionCommandType } from "./types";
+
+export const COMMAND_TYPES: SessionCommandType[] = ["open_camera", "capture_burst", "toggle_flash", "switch_camera", "end_session", "reshoot"];
+
+export const MAX_BURST = 20;
+
+/** Statuses a command can still leave. */
+export const OPEN_COMMAND_STATUSES: SessionCommandStatus[] = ["pending", "delivered"];
+
+export function isOpenCommand(command: SessionCommand): boolean {
+  return OPEN_COMMAND_STATUSES.includes(command.status);
+}
+
+function optionalString(value: unknown, max: number): string | undefined | null {
+  if (value === undefined) return undefined;
+  return typeof value === "string" && value.trim() && value.length <= max ? value.trim() : null;
+}
+
+/** Reads `{ type, ...parameters }` as posted by the dashboard. */
+export function parseCommand(value: unknown): { command: SessionCommandInput } | { error: string } {
+  const body = value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+  const type = body?.type;
+  if (!body || typeof type !== "string" || !(COMMAND_TYPES as string[]).includes(type)) {
+    return { error: `type must be one of ${COMMAND_TYPES.join(", ")}` };
+  }
+  switch (type as SessionCommandType) {
+    case "capture_burst": {
+      const count = Number(body.count);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_BURST) return { error: `count must be a whole number from 1 to ${MAX_BURST}` };
+      return { command: { type: "capture_burst", count } };
+    }
+    case "toggle_flash":
+      if (body.on !== undefined && typeof body.on !== "boolean") return { error: "on must be true or false" };
+      return { command: { type: "toggle_flash", ...(body.on !== undefined ? { on: body.on } : {}) } };
+    case "switch_camera":
+      if (body.facing !== undefined && body.facing !== "front" && body.facing !== "back") return { error: "facing must be front or back" };
+      return { command: { type: "switch_camera", ...(body.facing ? { facing: body.facing } : {}) } };
+    case "reshoot": {
+      const itemId = optionalString(body.itemId, 128);
+      const captureId = optionalString(body.captureId, 128);
+      const label = optionalString(body.label, 200);
+      if (!itemId) return { error: "itemId is required for reshoot" };
+      if (captureId === null || label === null) return { error: "captureId and label must be non-empty strings" };
+      return { command: { type: "reshoot", itemId, ...(captureId ? { captureId } : {}), ...(label ? { label } : {}) } };
+    }
+    default:
+      return { command: { type } as SessionCommandInput };
+  }
+}
+
+/** Reads a phone state report; fields left out keep their previous values. */
+export function parseMobileState(value: unknown): { state: Omit<MobileState, "reportedAt"> } | { error: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return { error: "state must be an object" };
+  const body = value as Record<string, unknown>;
+  const state: Omit<MobileState, "reportedAt"> = {};
+  for (const key of ["cameraOpen", "charging", "flashOn"] as const) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== "boolean") return { error: `${key} must be true or false` };
+    state[key] = body[key] as boolean;
+  }
+  if (body.batteryLevel !== undefined) {
+    const level = Number(body.batteryLevel);
+    if (typeof body.batteryLevel !== "number" || !(level >= 0 && level <= 1)) return { error: "batteryLevel must be a number from 0 to 1" };
+    state.batteryLevel = level;
+  }
+  if (body.facing !== undefined) {
+    if (body.facing !== "front" && body.facing !== "back") return { error: "facing must be front or back" };
+    state.facing = body.facing;
+  }
+  if (body.appVersion !== undefined) {
+    const version = optionalString(body.appVersion, 40);
+    if (!version) return { error: "appVersion must be a short string" };
+    state.appVersion = version;
+  }
+  return { state };
+}
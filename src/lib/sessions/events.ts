@@ -0,0 +1,46 @@
+import { EventEmitter } from "events";
+import type { SessionEvent, SessionEventInput, SessionRecord } from "./types";
+
+const EVENT_LOG_SIZE = 500;
+
+const globalForEvents = globalThis as typeof globalThis & { sessionEvents?: EventEmitter };
+
+function emitter(): EventEmitter {
+  if (!globalForEvents.sessionEvents) {
+    globalForEvents.sessionEvents = new EventEmitter();
+    globalForEvents.sessionEvents.setMaxListeners(0);
+  }
+  return globalForEvents.sessionEvents;
+}
+
+/**
+ * Appends an event to the record's log. Call this inside the session lock and
+ * publish the returned events only after the record has been saved.
+ */
+export function appendEvent(record: SessionRecord, input: SessionEventInput): SessionEvent {
+  const event = { ...input, id: record.eventSeq + 1, at: new Date().toISOString() } as SessionEvent;
+  record.eventSeq = event.id;
+  record.events.push(event);
+  if (record.events.length > EVENT_LOG_SIZE) record.events.splice(0, record.events.length - EVENT_LOG_SIZE);
+  return event;
+}
+
+export function publishEvents(sessionId: string, events: SessionEvent[]): void {
+  for (const event of events) emitter().emit(sessionId, event);
+}
+
+/** Live events for one session in this process; returns an unsubscribe function. */
+export function subscribe(sessionId: string, listener: (event: SessionEvent) => void): () => void {
+  emitter().on(sessionId, listener);
+  return () => {
+    emitter().off(sessionId, listener);
+  };
+}
+
+/** Events after `lastEventId`, or null when the log no longer reaches back that far. */
+export function eventsSince(record: SessionRecord, lastEventId: number): SessionEvent[] | null {
+  if (lastEventId >= record.eventSeq) return [];
+  const first = record.events[0];
+  if (!first || first.id > lastEventId + 1) return null;
+  return record.events.filter((e) => e.id > lastEventId);
+}
@@ -0,0 +1,70 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises";
+import path from "path";
+import { dataDir } from "@/lib/store/json-file";
+import type { SessionBackend, SessionRecord } from "./types";
+
+function safe(id: string): string {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid id: ${id}`);
+  return id;
+}
+
+async function readIfExists(file: string): Promise<Buffer | null> {
+  try {
+    return await readFile(file);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/**
+ * One JSON file per session plus a directory of image files under
+ * DATA_DIR/sessions, so sessions survive restarts and can be shared by
+ * several server instances on the same volume.
+ */
+export function createFileBackend(root = path.join(dataDir(), "sessions")): SessionBackend {
+  const recordPath = (id: string) => path.join(root, `${safe(id)}.json`);
+  const imageDir = (id: string) => path.join(root, safe(id));
+
+  return {
+    name: "file",
+    async get(id) {
+      const data = await readIfExists(recordPath(id));
+      return data ? (JSON.parse(data.toString("utf8")) as SessionRecord) : null;
+    },
+    async put(record) {
+      await mkdir(root, { recursive: true });
+      const target = recordPath(record.id);
+      const tmp = `${target}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(record));
+      await rename(tmp, target);
+    },
+    async delete(id) {
+      await rm(recordPath(id), { force: true });
+      await rm(imageDir(id), { recursive: true, force: true });
+    },
+    async list() {
+      let names: string[];
+      try {
+        names = await readdir(root);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+      const records = await Promise.all(
+        names.filter((n) => n.endsWith(".json")).map((n) => this.get(n.slice(0, -".json".length)))
+      );
+      return records.filter((r): r is SessionRecord => r !== null);
+    },
+    async putImage(sessionId, imageId, data) {
+      await mkdir(imageDir(sessionId), { recursive: true });
+      await writeFile(path.join(imageDir(sessionId), safe(imageId)), data);
+    },
+    async getImage(sessionId, imageId) {
+      return readIfExists(path.join(imageDir(sessionId), safe(imageId)));
+    },
+    async deleteImages(sessionId) {
+      await rm(imageDir(sessionId), { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { SessionError } from "./types";
+
+function allowedOrigins(): string[] {
+  return (process.env.SESSION_ALLOWED_ORIGINS ?? "")
+    .split(",")
+    .map((o) => o.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * CORS headers for session routes. Only origins listed in
+ * SESSION_ALLOWED_ORIGINS are echoed back; the native phone app does not send
+ * an Origin and is unaffected.
+ */
+export function corsHeaders(req: Request): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type, Last-Event-ID, ngrok-skip-browser-warning",
+    Vary: "Origin",
+  };
+  const origin = req.headers.get("origin");
+  if (origin && allowedOrigins().includes(origin)) headers["Access-Control-Allow-Origin"] = origin;
+  return headers;
+}
+
+/** Bearer token from the Authorization header, or `?token=` for EventSource, which cannot set headers. */
+export function tokenFrom(req: Request): string | null {
+  const auth = req.headers.get("authorization");
+  if (auth?.startsWith("Bearer ")) return auth.slice("Bearer ".length).trim();
+  return new URL(req.url).searchParams.get("token");
+}
+
+/** Maps SessionError to its status; anything else is logged and reported as a 500. */
+export function sessionErrorResponse(req: Request, err: unknown, context: string): NextResponse {
+  if (err instanceof SessionError) {
+    return NextResponse.json({ error: err.code, message: err.message }, { status: err.status, headers: corsHeaders(req) });
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(`${context} error`, message);
+  return NextResponse.json({ error: "session_failed", message }, { status: 500, headers: corsHeaders(req) });
+}
+
+export function dataUrlToBuffer(dataUrl: string): { data: Buffer; mimeType: string } | null {
+  const m = dataUrl.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+  if (!m) return null;
+  const data = m[2] ? Buffer.from(m[3], "base64") : Buffer.from(decodeURIComponent(m[3]), "utf8");
+  return { data, mimeType: m[1] || "image/jpeg" };
+}
+
+/** What the QR code encodes: the phone app POSTs to this URL to exchange the code for its token. */
+export function pairingUrl(req: Request, sessionId: string, code: string): string {
+  const base = (process.env.PUBLIC_BASE_URL || new URL(req.url).origin).replace(/\/$/, "");
+  return `${base}/api/session/${sessionId}/pair?code=${encodeURIComponent(code)}`;
+}
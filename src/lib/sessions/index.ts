@@ -0,0 +1,530 @@
+import { randomUUID } from "crypto";
+import { contentHash } from "@/lib/images/hash";
+import { preprocessImage, UnsupportedImageError } from "@/lib/images/preprocess";
+import { isOpenCommand } from "./commands";
+import { appendEvent, publishEvents } from "./events";
+import { createFileBackend } from "./file";
+import { createMemoryBackend } from "./memory";
+import { hashPairingCode, issueToken, newPairingCode, verifyToken, type SessionRole, type TokenClaims } from "./tokens";
+import {
+  SessionError,
+  type MobileState,
+  type SessionBackend,
+  type SessionCommand,
+  type SessionCommandInput,
+  type SessionEvent,
+  type SessionEventInput,
+  type SessionImage,
+  type SessionImageView,
+  type SessionOwner,
+  type SessionRecord,
+} from "./types";
+
+export { SessionError } from "./types";
+export type {
+  MobileState,
+  SessionBackend,
+  SessionCommand,
+  SessionCommandInput,
+  SessionCommandStatus,
+  SessionCommandType,
+  SessionEvent,
+  SessionImage,
+  SessionImageView,
+  SessionOwner,
+  SessionRecord,
+} from "./types";
+export type { SessionRole } from "./tokens";
+
+export type SessionLimits = {
+  idleTtlMs: number;
+  maxImages: number;
+  maxBytes: number;
+  maxImageBytes: number;
+};
+
+const TOMBSTONE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Settled commands kept for the dashboard's history. */
+const COMMAND_HISTORY = 50;
+
+/** Commands the phone has not settled yet; more are refused until it catches up. */
+const MAX_OPEN_COMMANDS = 20;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+function envNumber(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function sessionLimits(): SessionLimits {
+  return {
+    idleTtlMs: envNumber("SESSION_IDLE_TTL_MINUTES", 120) * 60 * 1000,
+    maxImages: envNumber("SESSION_MAX_IMAGES", 200),
+    maxBytes: envNumber("SESSION_MAX_BYTES", 100 * 1024 * 1024),
+    maxImageBytes: envNumber("SESSION_MAX_IMAGE_BYTES", 15 * 1024 * 1024),
+  };
+}
+
+// Route handlers are bundled separately, so the backend has to live on globalThis
+// for the memory store to be shared between them.
+const globalForSessions = globalThis as typeof globalThis & {
+  sessionBackend?: SessionBackend;
+  sessionLocks?: Map<string, Promise<unknown>>;
+  sessionLastSweep?: number;
+};
+
+function backend(): SessionBackend {
+  if (!globalForSessions.sessionBackend) {
+    globalForSessions.sessionBackend = process.env.SESSION_STORE === "file" ? createFileBackend() : createMemoryBackend();
+  }
+  return globalForSessions.sessionBackend;
+}
+
+/** Serializes read-modify-write cycles per session within this process. */
+function withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+  const locks = (globalForSessions.sessionLocks ??= new Map());
+  const prev = locks.get(id) ?? Promise.resolve();
+  const run = prev.then(fn);
+  const settled = run.catch(() => undefined);
+  locks.set(id, settled);
+  void settled.then(() => {
+    if (locks.get(id) === settled) locks.delete(id);
+  });
+  return run;
+}
+
+function isIdle(record: SessionRecord, now: number, limits: SessionLimits): boolean {
+  return now - Date.parse(record.lastActiveAt) > limits.idleTtlMs;
+}
+
+async function markClosed(record: SessionRecord, reason: "closed" | "expired"): Promise<SessionRecord> {
+  const event = appendEvent(record, { type: "session_closed", reason });
+  const closed: SessionRecord = {
+    ...record,
+    mobileConnected: false,
+    webConnected: false,
+    commands: record.commands.map((c) => (isOpenCommand(c) ? { ...c, status: "failed", settledAt: new Date().toISOString(), error: "Session ended" } : c)),
+    images: [],
+    totalBytes: 0,
+    closedAt: new Date().toISOString(),
+    closeReason: reason,
+  };
+  await backend().deleteImages(record.id);
+  await backend().put(closed);
+  publishEvents(record.id, [event]);
+  return closed;
+}
+
+/** Expires idle sessions and purges old tombstones; runs at most once a minute. */
+export async function sweepSessions(force = false): Promise<void> {
+  const now = Date.now();
+  if (!force && now - (globalForSessions.sessionLastSweep ?? 0) < SWEEP_INTERVAL_MS) return;
+  globalForSessions.sessionLastSweep = now;
+  const limits = sessionLimits();
+  for (const record of await backend().list()) {
+    await withLock(record.id, async () => {
+      const current = await backend().get(record.id);
+      if (!current) return;
+      if (current.closedAt) {
+        if (now - Date.parse(current.closedAt) > TOMBSTONE_TTL_MS) await backend().delete(current.id);
+      } else if (isIdle(current, now, limits)) {
+        await markClosed(current, "expired");
+      }
+    });
+  }
+}
+
+async function loadActive(id: string): Promise<SessionRecord> {
+  const record = await backend().get(id);
+  if (!record) throw new SessionError(404, "session_not_found", `Session ${id} does not exist`);
+  record.events ??= [];
+  record.eventSeq ??= 0;
+  record.tokenVersions ??= { web: 0, mobile: 0 };
+  // Records written before the command queue had a single `command` string.
+  record.commands ??= [];
+  if (!record.closedAt && isIdle(record, Date.now(), sessionLimits())) {
+    await markClosed(record, "expired");
+    throw new SessionError(410, "session_expired", `Session ${id} expired after inactivity`);
+  }
+  if (record.closedAt) {
+    throw record.closeReason === "expired"
+      ? new SessionError(410, "session_expired", `Session ${id} expired after inactivity`)
+      : new SessionError(410, "session_closed", `Session ${id} was closed`);
+  }
+  return record;
+}
+
+function newRecord(id: string, owner: SessionOwner): SessionRecord {
+  const now = new Date().toISOString();
+  return {
+    id,
+    ...owner,
+    mobileConnected: false,
+    webConnected: false,
+    commands: [],
+    images: [],
+    totalBytes: 0,
+    createdAt: now,
+    lastActiveAt: now,
+    eventSeq: 0,
+    events: [],
+    tokenVersions: { web: 1, mobile: 0 },
+  };
+}
+
+function pairingTtlMs(): number {
+  return envNumber("SESSION_PAIRING_TTL_MINUTES", 10) * 60 * 1000;
+}
+
+function startPairing(record: SessionRecord): { code: string; expiresAt: string } {
+  const code = newPairingCode();
+  const expiresAt = new Date(Date.now() + pairingTtlMs()).toISOString();
+  record.pairing = { codeHash: hashPairingCode(code), expiresAt };
+  return { code, expiresAt };
+}
+
+type Emit = (event: SessionEventInput) => void;
+
+function commandTtlMs(): number {
+  return envNumber("SESSION_COMMAND_TTL_SECONDS", 120) * 1000;
+}
+
+/** Fails commands the phone has sat on for longer than SESSION_COMMAND_TTL_SECONDS. */
+function expireCommands(record: SessionRecord, emit: Emit) {
+  const cutoff = Date.now() - commandTtlMs();
+  for (const command of record.commands) {
+    if (!isOpenCommand(command) || Date.parse(command.createdAt) > cutoff) continue;
+    command.status = "failed";
+    command.settledAt = new Date().toISOString();
+    command.error = command.deliveredAt ? "The phone did not report back in time" : "The phone did not pick it up in time";
+    emit({ type: "command_status", command: { ...command } });
+  }
+}
+
+/** Loads an open session under its lock, applies `fn`, marks it active and publishes what `fn` emitted. */
+async function mutate<T>(id: string, fn: (record: SessionRecord, emit: Emit) => T | Promise<T>): Promise<SessionRecord> {
+  const { record, events } = await withLock(id, async () => {
+    const record = await loadActive(id);
+    const events: SessionEvent[] = [];
+    const emit: Emit = (input) => events.push(appendEvent(record, input));
+    expireCommands(record, emit);
+    await fn(record, emit);
+    record.lastActiveAt = new Date().toISOString();
+    await backend().put(record);
+    return { record, events };
+  });
+  publishEvents(id, events);
+  return record;
+}
+
+export function isValidSessionId(id: string): boolean {
+  return /^[\w-]{1,128}$/.test(id);
+}
+
+export type CreatedSession = {
+  record: SessionRecord;
+  webToken: { token: string; expiresAt: string };
+  pairing: { code: string; expiresAt: string };
+};
+
+/** Creates a session for the dashboard, with its web token and a first pairing code for the phone. */
+export async function createSession(owner: SessionOwner = {}): Promise<CreatedSession> {
+  void sweepSessions();
+  const id = randomUUID();
+  return withLock(id, async () => {
+    if (await backend().get(id)) throw new SessionError(409, "session_exists", `Session ${id} already exists`);
+    const record = newRecord(id, owner);
+    const pairing = startPairing(record);
+    await backend().put(record);
+    return { record, webToken: issueToken(id, "web", record.tokenVersions.web), pairing };
+  });
+}
+
+/** Replaces the pairing code, e.g. when the QR code on screen has expired. */
+export async function renewPairing(id: string): Promise<{ code: string; expiresAt: string }> {
+  let pairing: { code: string; expiresAt: string } | null = null;
+  await mutate(id, (record) => {
+    pairing = startPairing(record);
+  });
+  return pairing!;
+}
+
+/**
+ * Exchanges a pairing code for a mobile token. The code works once; pairing
+ * again later invalidates the previous phone's token.
+ */
+export async function pairMobile(id: string, code: string): Promise<{ token: string; expiresAt: string }> {
+  let token: { token: string; expiresAt: string } | null = null;
+  await mutate(id, (record) => {
+    const pairing = record.pairing;
+    if (!pairing || Date.parse(pairing.expiresAt) < Date.now() || pairing.codeHash !== hashPairingCode(code)) {
+      throw new SessionError(403, "pairing_invalid", "Pairing code is invalid or has expired");
+    }
+    delete record.pairing;
+    record.tokenVersions.mobile += 1;
+    token = issueToken(id, "mobile", record.tokenVersions.mobile);
+  });
+  return token!;
+}
+
+/**
+ * Checks a bearer token against the session and the roles allowed for the
+ * operation. Token problems are 401s, a valid token for the wrong role is a 403.
+ */
+export async function authorize(id: string, token: string | null, roles: SessionRole[]): Promise<TokenClaims> {
+  const claims = token ? verifyToken(token) : null;
+  if (!claims || claims.sid !== id) {
+    throw new SessionError(401, "unauthorized", "A valid session token is required");
+  }
+  const record = await withLock(id, () => loadActive(id));
+  if (record.tokenVersions[claims.role] !== claims.v) {
+    throw new SessionError(401, "unauthorized", "Session token has been revoked");
+  }
+  if (!roles.includes(claims.role)) {
+    throw new SessionError(403, "forbidden", `The ${claims.role} role cannot do this`);
+  }
+  return claims;
+}
+
+/** Issues a fresh token for the same role; call before the current one expires. */
+export function refreshToken(claims: TokenClaims): { token: string; expiresAt: string } {
+  return issueToken(claims.sid, claims.role, claims.v);
+}
+
+export async function getSession(id: string): Promise<SessionRecord> {
+  void sweepSessions();
+  return mutate(id, () => undefined);
+}
+
+/** Reads a session without counting it as activity. */
+export async function peekSession(id: string): Promise<SessionRecord> {
+  return withLock(id, () => loadActive(id));
+}
+
+export type SessionUpdate = Partial<Pick<SessionRecord, "mobileConnected" | "webConnected">>;
+
+export async function updateSession(id: string, update: SessionUpdate): Promise<SessionRecord> {
+  return mutate(id, (record, emit) => {
+    if (update.mobileConnected !== undefined && update.mobileConnected !== record.mobileConnected) {
+      emit({ type: update.mobileConnected ? "mobile_connected" : "mobile_disconnected" });
+    }
+    if (update.webConnected !== undefined && update.webConnected !== record.webConnected) {
+      emit({ type: update.webConnected ? "web_connected" : "web_disconnected" });
+    }
+    Object.assign(record, update);
+  });
+}
+
+/** Queues a command for the phone; it sees it on its event stream or the next GET of /commands. */
+export async function queueCommand(id: string, input: SessionCommandInput): Promise<SessionCommand> {
+  let queued: SessionCommand | null = null;
+  await mutate(id, (record, emit) => {
+    if (record.commands.filter(isOpenCommand).length >= MAX_OPEN_COMMANDS) {
+      throw new SessionError(409, "command_conflict", `The phone already has ${MAX_OPEN_COMMANDS} commands waiting`);
+    }
+    const command: SessionCommand = { ...input, id: randomUUID(), status: "pending", createdAt: new Date().toISOString() };
+    record.commands.push(command);
+    // Keep every open command and the most recent settled ones.
+    const settled = record.commands.filter((c) => !isOpenCommand(c));
+    const drop = new Set(settled.slice(0, Math.max(0, settled.length - COMMAND_HISTORY)));
+    record.commands = record.commands.filter((c) => !drop.has(c));
+    emit({ type: "command", command: { ...command } });
+    queued = command;
+  });
+  return queued!;
+}
+
+/** The phone's poll: returns its pending commands, oldest first, and marks them delivered. */
+export async function takeCommands(id: string): Promise<SessionCommand[]> {
+  const taken: SessionCommand[] = [];
+  await mutate(id, (record, emit) => {
+    for (const command of record.commands) {
+      if (command.status !== "pending") continue;
+      command.status = "delivered";
+      command.deliveredAt = new Date().toISOString();
+      emit({ type: "command_status", command: { ...command } });
+      taken.push({ ...command });
+    }
+  });
+  return taken;
+}
+
+/**
+ * Moves a command along pending → delivered → acked or failed, as the phone
+ * reports it. Repeating the current status is a no-op so retried reports are
+ * harmless; anything else after a command settled is a conflict. An acked
+ * `end_session` closes the session.
+ */
+export async function updateCommand(
+  id: string,
+  commandId: string,
+  status: "delivered" | "acked" | "failed",
+  error?: string
+): Promise<SessionCommand> {
+  let updated: SessionCommand | null = null;
+  await mutate(id, (record, emit) => {
+    const command = record.commands.find((c) => c.id === commandId);
+    if (!command) throw new SessionError(404, "command_not_found", `Command ${commandId} is not part of session ${id}`);
+    updated = command;
+    if (command.status === status) return;
+    if (!isOpenCommand(command) || (status === "delivered" && command.status !== "pending")) {
+      throw new SessionError(409, "command_conflict", `Command ${commandId} is already ${command.status}`);
+    }
+    const now = new Date().toISOString();
+    command.status = status;
+    command.deliveredAt ??= now;
+    if (status !== "delivered") command.settledAt = now;
+    if (status === "failed") command.error = error?.slice(0, 200) || "The phone could not carry it out";
+    emit({ type: "command_status", command: { ...command } });
+  });
+  const command = updated! as SessionCommand;
+  if (command.type === "end_session" && command.status === "acked") await closeSession(id);
+  return { ...command };
+}
+
+/** Merges the phone's report of its camera, battery and app into what the dashboard shows. */
+export async function reportMobileState(id: string, state: Omit<MobileState, "reportedAt">): Promise<SessionRecord> {
+  return mutate(id, (record, emit) => {
+    record.mobileState = { ...record.mobileState, ...state, reportedAt: new Date().toISOString() };
+    emit({ type: "mobile_state", state: record.mobileState });
+  });
+}
+
+/** Stores the dashboard's reading of a captured image and tells the phone about it. */
+export async function recordAnalysis(
+  id: string,
+  imageId: string,
+  result: { product: string; expiryDate: string }
+): Promise<SessionRecord> {
+  return mutate(id, (record, emit) => {
+    const image = record.images.find((i) => i.id === imageId);
+    if (!image) throw new SessionError(404, "session_not_found", `Image ${imageId} is not part of session ${id}`);
+    image.product = result.product;
+    image.expiryDate = result.expiryDate;
+    emit({ type: "analysis_complete", imageId, product: result.product, expiryDate: result.expiryDate });
+  });
+}
+
+/** Capture groups are short client-chosen labels, e.g. "item-3". */
+const GROUP_PATTERN = /^[\w-]{1,64}$/;
+
+export type CaptureOptions = {
+  group?: string | null;
+  /** Id of the `reshoot` command the capture answers. */
+  commandId?: string | null;
+};
+
+/**
+ * Stores a phone capture after the same preprocessing /api/analyze applies,
+ * so the web app reads it as is. Captures given the same `group` become one
+ * item with several photos; one answering a `reshoot` command is added to
+ * the item it names.
+ */
+export async function addSessionImage(id: string, upload: Buffer, { group, commandId }: CaptureOptions = {}): Promise<SessionRecord> {
+  if (group && !GROUP_PATTERN.test(group)) {
+    throw new SessionError(400, "invalid_group", "group must be 1-64 letters, digits, _ or -");
+  }
+  const limits = sessionLimits();
+  if (upload.length > limits.maxImageBytes) {
+    throw new SessionError(413, "payload_too_large", `Image is ${upload.length} bytes; the limit is ${limits.maxImageBytes}`);
+  }
+  let processed;
+  try {
+    processed = await preprocessImage(upload);
+  } catch (err) {
+    if (err instanceof UnsupportedImageError) throw new SessionError(415, "unsupported_media_type", err.message);
+    throw err;
+  }
+  const { buffer: data, mimeType } = processed;
+  const hash = contentHash(data);
+  return mutate(id, async (record, emit) => {
+    // Phones retry uploads and users double-tap; the same bytes twice are one capture.
+    if (record.images.some((i) => i.contentHash === hash)) return;
+    if (record.images.length >= limits.maxImages) {
+      throw new SessionError(413, "payload_too_large", `Session already holds the maximum of ${limits.maxImages} images`);
+    }
+    if (record.totalBytes + data.length > limits.maxBytes) {
+      throw new SessionError(413, "payload_too_large", `Session storage limit of ${limits.maxBytes} bytes reached`);
+    }
+    const reshoot = commandId ? record.commands.find((c) => c.id === commandId) : undefined;
+    if (commandId && reshoot?.type !== "reshoot") {
+      throw new SessionError(404, "command_not_found", `Command ${commandId} is not a reshoot in session ${id}`);
+    }
+    const image: SessionImage = {
+      id: `mobile-${Date.now()}-${record.images.length}`,
+      mimeType,
+      bytes: data.length,
+      contentHash: hash,
+      ...(group ? { group } : {}),
+      ...(reshoot?.type === "reshoot" ? { reshootOf: reshoot.itemId } : {}),
+      product: "",
+      expiryDate: "",
+      createdAt: new Date().toISOString(),
+    };
+    await backend().putImage(id, image.id, data);
+    record.images.push(image);
+    record.totalBytes += data.length;
+    emit({ type: "image_added", image: toImageView(id, image) });
+  });
+}
+
+/** Under the session's lock, so a close or removal cannot free the image between the lookup and the read. */
+export async function getSessionImage(id: string, imageId: string): Promise<{ image: SessionImage; data: Buffer } | null> {
+  return withLock(id, async () => {
+    const record = await loadActive(id);
+    const image = record.images.find((i) => i.id === imageId);
+    if (!image) return null;
+    const data = await backend().getImage(id, imageId);
+    return data ? { image, data } : null;
+  });
+}
+
+/** Ends the session and frees its images; later requests get 410. */
+export async function closeSession(id: string): Promise<SessionRecord> {
+  return withLock(id, async () => markClosed(await loadActive(id), "closed"));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withLock(id, async () => {
+    if (!(await backend().get(id))) throw new SessionError(404, "session_not_found", `Session ${id} does not exist`);
+    await backend().delete(id);
+  });
+}
+
+function toImageView(sessionId: string, img: SessionImage): SessionImageView {
+  return {
+    id: img.id,
+    url: `/api/session/${sessionId}/images/${img.id}`,
+    mimeType: img.mimeType,
+    bytes: img.bytes,
+    group: img.group,
+    reshootOf: img.reshootOf,
+    product: img.product,
+    expiryDate: img.expiryDate,
+  };
+}
+
+/** Wire shape of a session: image bytes are served separately from /api/session/:id/images/:imageId. */
+export function toSessionState(record: SessionRecord) {
+  const limits = sessionLimits();
+  return {
+    id: record.id,
+    mobileConnected: record.mobileConnected,
+    webConnected: record.webConnected,
+    commands: record.commands,
+    mobileState: record.mobileState ?? null,
+    userId: record.userId ?? null,
+    locationId: record.locationId ?? null,
+    images: record.images.map((img) => toImageView(record.id, img)),
+    totalBytes: record.totalBytes,
+    lastEventId: record.eventSeq,
+    pairingExpiresAt: record.pairing?.expiresAt ?? null,
+    createdAt: record.createdAt,
+    lastActiveAt: record.lastActiveAt,
+    expiresAt: new Date(Date.parse(record.lastActiveAt) + limits.idleTtlMs).toISOString(),
+    limits: { maxImages: limits.maxImages, maxBytes: limits.maxBytes, maxImageBytes: limits.maxImageBytes },
+  };
+}
+
+export type SessionState = ReturnType<typeof toSessionState>;
@@ -0,0 +1,35 @@
+import type { SessionBackend, SessionRecord } from "./types";
+
+/** Process-local backend; sessions do not survive a restart or span server instances. */
+export function createMemoryBackend(): SessionBackend {
+  const records = new Map<string, SessionRecord>();
+  const images = new Map<string, Map<string, Buffer>>();
+
+  return {
+    name: "memory",
+    async get(id) {
+      const record = records.get(id);
+      return record ? structuredClone(record) : null;
+    },
+    async put(record) {
+      records.set(record.id, structuredClone(record));
+    },
+    async delete(id) {
+      records.delete(id);
+      images.delete(id);
+    },
+    async list() {
+      return [...records.values()].map((r) => structuredClone(r));
+    },
+    async putImage(sessionId, imageId, data) {
+      if (!images.has(sessionId)) images.set(sessionId, new Map());
+      images.get(sessionId)!.set(imageId, data);
+    },
+    async getImage(sessionId, imageId) {
+      return images.get(sessionId)?.get(imageId) ?? null;
+    },
+    async deleteImages(sessionId) {
+      images.delete(sessionId);
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+export type SessionRole = "web" | "mobile";
+
+export type TokenClaims = {
+  sid: string;
+  role: SessionRole;
+  /** Bumped when the role is re-paired, so earlier tokens stop working. */
+  v: number;
+  exp: number;
+};
+
+const globalForTokens = globalThis as typeof globalThis & { sessionTokenSecret?: Buffer };
+
+function secret(): Buffer {
+  if (process.env.SESSION_TOKEN_SECRET) return Buffer.from(process.env.SESSION_TOKEN_SECRET, "utf8");
+  if (!globalForTokens.sessionTokenSecret) {
+    console.warn("SESSION_TOKEN_SECRET not set; session tokens will not survive a restart or work across instances");
+    globalForTokens.sessionTokenSecret = randomBytes(32);
+  }
+  return globalForTokens.sessionTokenSecret;
+}
+
+export function tokenTtlMs(): number {
+  const minutes = Number(process.env.SESSION_TOKEN_TTL_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : 30) * 60 * 1000;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+export function issueToken(sid: string, role: SessionRole, version: number): { token: string; expiresAt: string } {
+  const claims: TokenClaims = { sid, role, v: version, exp: Date.now() + tokenTtlMs() };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(claims.exp).toISOString() };
+}
+
+/** Claims of a well-signed, unexpired token; null otherwise. */
+export function verifyToken(token: string): TokenClaims | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as TokenClaims;
+    return claims.exp > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+export function newPairingCode(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+export function hashPairingCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
@@ -0,0 +1,141 @@
+export type SessionImage = {
+  id: string;
+  mimeType: string;
+  bytes: number;
+  /** SHA-256 of the bytes; a capture identical to one already in the session is not stored again. */
+  contentHash?: string;
+  /** Set by the phone's "same item" mode: captures sharing it are sides of one package. */
+  group?: string;
+  /** Item this capture re-shoots, from a `reshoot` command. */
+  reshootOf?: string;
+  product?: string;
+  expiryDate?: string;
+  createdAt: string;
+};
+
+export type SessionImageView = {
+  id: string;
+  url: string;
+  mimeType: string;
+  bytes: number;
+  group?: string;
+  reshootOf?: string;
+  product?: string;
+  expiryDate?: string;
+};
+
+/** What the dashboard can ask the phone to do, with each command's parameters. */
+export type SessionCommandInput =
+  | { type: "open_camera" }
+  | { type: "capture_burst"; count: number }
+  | { type: "toggle_flash"; on?: boolean }
+  | { type: "switch_camera"; facing?: "front" | "back" }
+  | { type: "end_session" }
+  /** Photograph an item again; `captureId` is the session image it was taken from, when it came from the phone. */
+  | { type: "reshoot"; itemId: string; captureId?: string; label?: string };
+
+export type SessionCommandType = SessionCommandInput["type"];
+
+/**
+ * `pending` until the phone has received it, `delivered` until it reports
+ * the outcome. Commands the phone never settles fail after a timeout.
+ */
+export type SessionCommandStatus = "pending" | "delivered" | "acked" | "failed";
+
+export type SessionCommand = SessionCommandInput & {
+  id: string;
+  status: SessionCommandStatus;
+  createdAt: string;
+  deliveredAt?: string;
+  settledAt?: string;
+  /** Why the phone could not carry it out, or that it timed out. */
+  error?: string;
+};
+
+/** What the phone last reported about itself. */
+export type MobileState = {
+  cameraOpen?: boolean;
+  /** 0 to 1. */
+  batteryLevel?: number;
+  charging?: boolean;
+  flashOn?: boolean;
+  facing?: "front" | "back";
+  appVersion?: string;
+  reportedAt: string;
+};
+
+type SessionEventBody =
+  | { type: "mobile_connected" | "mobile_disconnected" | "web_connected" | "web_disconnected" }
+  | { type: "image_added"; image: SessionImageView }
+  | { type: "command"; command: SessionCommand }
+  | { type: "command_status"; command: SessionCommand }
+  | { type: "mobile_state"; state: MobileState }
+  | { type: "analysis_complete"; imageId: string; product: string; expiryDate: string }
+  | { type: "session_closed"; reason: "closed" | "expired" };
+
+/** A change to a session, numbered so a reconnecting client can resume with Last-Event-ID. */
+export type SessionEvent = SessionEventBody & { id: number; at: string };
+
+export type SessionEventInput = SessionEventBody;
+
+/** Who started a session and where its captures are filed; empty before accounts are set up. */
+export type SessionOwner = { userId?: string; orgId?: string; locationId?: string };
+
+export type SessionRecord = SessionOwner & {
+  id: string;
+  mobileConnected: boolean;
+  webConnected: boolean;
+  /** Newest last; settled ones are trimmed to a short history. */
+  commands: SessionCommand[];
+  mobileState?: MobileState;
+  images: SessionImage[];
+  totalBytes: number;
+  createdAt: string;
+  lastActiveAt: string;
+  /** Id of the latest event; events are kept in a bounded log for resuming streams. */
+  eventSeq: number;
+  events: SessionEvent[];
+  /** Outstanding QR pairing code for the phone; only its hash is stored and it works once. */
+  pairing?: { codeHash: string; expiresAt: string };
+  /** Current token generation per role; re-pairing the phone bumps `mobile`. */
+  tokenVersions: { web: number; mobile: number };
+  /** Set once the session is closed or has expired; the record stays as a tombstone so callers get 410. */
+  closedAt?: string;
+  closeReason?: "closed" | "expired";
+};
+
+/** Storage for session records and their image bytes. Policy (TTL, caps) lives in the session service. */
+export type SessionBackend = {
+  name: string;
+  get(id: string): Promise<SessionRecord | null>;
+  put(record: SessionRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<SessionRecord[]>;
+  putImage(sessionId: string, imageId: string, data: Buffer): Promise<void>;
+  getImage(sessionId: string, imageId: string): Promise<Buffer | null>;
+  deleteImages(sessionId: string): Promise<void>;
+};
+
+export class SessionError extends Error {
+  constructor(
+    readonly status: 400 | 401 | 403 | 404 | 409 | 410 | 413 | 415,
+    readonly code:
+      | "invalid_group"
+      | "invalid_command"
+      | "command_not_found"
+      | "command_conflict"
+      | "unauthorized"
+      | "forbidden"
+      | "pairing_invalid"
+      | "session_not_found"
+      | "session_exists"
+      | "session_closed"
+      | "session_expired"
+      | "payload_too_large"
+      | "unsupported_media_type",
+    message: string
+  ) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
@@ -0,0 +1,57 @@
+import { createJsonFile } from "@/lib/store/json-file";
+import { DEFAULT_STATUS_RULES, type StatusRules } from "@/lib/status";
+import type { ProductAliases } from "@/lib/stock/names";
+
+/** An organization's own settings; whatever it has not set comes from the deployment-wide ones. */
+type OrgSettings = { statusRules?: StatusRules; productAliases?: ProductAliases };
+
+/**
+ * The top-level values apply before accounts are set up and to items that
+ * belong to no organization; each organization's own are kept under `orgs`.
+ */
+type Settings = { statusRules: StatusRules; productAliases?: ProductAliases; orgs?: Record<string, OrgSettings> };
+
+const file = createJsonFile<Settings>("settings.json", () => ({ statusRules: DEFAULT_STATUS_RULES }));
+
+/** Status rules by organization, for working out the status of items from several at once. */
+export type StatusRulesLookup = (orgId?: string | null) => StatusRules;
+
+function rulesIn(data: Settings, orgId?: string | null): StatusRules {
+  return { ...DEFAULT_STATUS_RULES, ...((orgId && data.orgs?.[orgId]?.statusRules) || data.statusRules) };
+}
+
+function updateOrg(data: Settings, orgId: string, patch: OrgSettings) {
+  data.orgs = { ...data.orgs, [orgId]: { ...data.orgs?.[orgId], ...patch } };
+}
+
+export async function getStatusRules(orgId?: string | null): Promise<StatusRules> {
+  return rulesIn(await file.read(), orgId);
+}
+
+export async function statusRulesLookup(): Promise<StatusRulesLookup> {
+  const data = await file.read();
+  return (orgId) => rulesIn(data, orgId);
+}
+
+/** Callers validate with `validateStatusRules` first. Without `orgId`, sets the deployment-wide rules. */
+export async function saveStatusRules(rules: StatusRules, orgId?: string | null): Promise<StatusRules> {
+  return file.update((data) => {
+    if (orgId) updateOrg(data, orgId, { statusRules: rules });
+    else data.statusRules = rules;
+    return rules;
+  });
+}
+
+export async function getProductAliases(orgId?: string | null): Promise<ProductAliases> {
+  const data = await file.read();
+  return (orgId && data.orgs?.[orgId]?.productAliases) || data.productAliases || {};
+}
+
+/** Callers validate with `validateProductAliases` first. Without `orgId`, sets the deployment-wide aliases. */
+export async function saveProductAliases(aliases: ProductAliases, orgId?: string | null): Promise<ProductAliases> {
+  return file.update((data) => {
+    if (orgId) updateOrg(data, orgId, { productAliases: aliases });
+    else data.productAliases = aliases;
+    return aliases;
+  });
+}
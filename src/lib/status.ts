@@ -0,0 +1,177 @@
+// Status engine shared by the API and the dashboard; no Node imports here.
+
+import type { ReviewState } from "@/lib/review";
+
+export type ExpiryStatus =
+  | "Valid"
+  | "Expiring Soon"
+  | "Critical"
+  | "Expires Today"
+  | "Expired"
+  | "No Date"
+  | "Unreadable"
+  | "Needs Review";
+
+/** Every status, most urgent first; the order reports list them in. */
+export const EXPIRY_STATUSES: ExpiryStatus[] = [
+  "Expired",
+  "Expires Today",
+  "Critical",
+  "Expiring Soon",
+  "Valid",
+  "Needs Review",
+  "Unreadable",
+  "No Date",
+];
+
+export type StatusThresholds = {
+  /** Days left at or below which an item is "Expiring Soon". */
+  expiringSoonDays: number;
+  /** Days left at or below which it is "Critical"; never more than `expiringSoonDays`. */
+  criticalDays: number;
+};
+
+export type StatusRules = {
+  /** IANA zone whose calendar decides what "today" is, e.g. "Europe/London". */
+  timeZone: string;
+  defaults: StatusThresholds;
+  /** Per product category, keyed by the lower-cased category name. */
+  categories: Record<string, StatusThresholds>;
+};
+
+export const DEFAULT_STATUS_RULES: StatusRules = {
+  timeZone: "UTC",
+  defaults: { expiringSoonDays: 30, criticalDays: 7 },
+  categories: {},
+};
+
+/** What the engine needs to know about an item. */
+export type StatusInput = {
+  expiryDate: string;
+  /** Expiry text as read; set while `expiryDate` is empty means the date was there but could not be parsed. */
+  expiryText?: string;
+  category?: string;
+  /** Per-item overrides of the category or default thresholds. */
+  thresholds?: Partial<StatusThresholds>;
+};
+
+const MAX_DAYS = 3650;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The calendar date (YYYY-MM-DD) it is right now in `timeZone`. */
+export function todayIn(timeZone: string, now = new Date()): string {
+  // en-CA formats as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(now);
+}
+
+/**
+ * Resolves "YYYY-MM-DD", or "YYYY-MM" meaning the last day of that month, to
+ * a calendar date. Returns null for anything else, including impossible dates.
+ */
+export function normalizeExpiry(value: string): string | null {
+  const m = value.trim().match(/^(\d{4})-(\d{2})(?:-(\d{2}))?$/);
+  if (!m) return null;
+  const year = Number(m[1]);
+  const month = Number(m[2]);
+  if (month < 1 || month > 12) return null;
+  const last = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = m[3] ? Number(m[3]) : last;
+  if (day < 1 || day > last) return null;
+  return `${m[1]}-${m[2]}-${String(day).padStart(2, "0")}`;
+}
+
+/** Whole calendar days from `today` to `date`, both YYYY-MM-DD; no clock time or DST involved. */
+export function daysBetween(today: string, date: string): number {
+  const utc = (d: string) => Date.UTC(Number(d.slice(0, 4)), Number(d.slice(5, 7)) - 1, Number(d.slice(8, 10)));
+  return Math.round((utc(date) - utc(today)) / 86_400_000);
+}
+
+export function thresholdsFor(input: Pick<StatusInput, "category" | "thresholds">, rules: StatusRules): StatusThresholds {
+  const base = rules.categories[input.category?.trim().toLowerCase() ?? ""] ?? rules.defaults;
+  const merged = { ...base, ...input.thresholds };
+  return { ...merged, criticalDays: Math.min(merged.criticalDays, merged.expiringSoonDays) };
+}
+
+export function computeStatus(input: StatusInput, rules: StatusRules = DEFAULT_STATUS_RULES, now = new Date()): ExpiryStatus {
+  if (!input.expiryDate.trim()) return input.expiryText?.trim() ? "Unreadable" : "No Date";
+  const expiry = normalizeExpiry(input.expiryDate);
+  if (!expiry) return "Unreadable";
+  const days = daysBetween(todayIn(rules.timeZone, now), expiry);
+  const { expiringSoonDays, criticalDays } = thresholdsFor(input, rules);
+  if (days < 0) return "Expired";
+  if (days === 0) return "Expires Today";
+  if (days <= criticalDays) return "Critical";
+  if (days <= expiringSoonDays) return "Expiring Soon";
+  return "Valid";
+}
+
+/** States that would tell someone the item is fine to use. */
+const USABLE: ExpiryStatus[] = ["Valid", "Expiring Soon", "Critical", "Expires Today"];
+
+/**
+ * Status for display. An item waiting for review never shows as usable, but
+ * one that is already expired or has no date says so.
+ */
+export function itemStatus(
+  input: StatusInput & { review?: ReviewState },
+  rules: StatusRules = DEFAULT_STATUS_RULES,
+  now = new Date()
+): ExpiryStatus {
+  const status = computeStatus(input, rules, now);
+  if (input.review?.status === "pending" && USABLE.includes(status)) return "Needs Review";
+  return status;
+}
+
+export function statusLabel(status: ExpiryStatus, thresholds: StatusThresholds = DEFAULT_STATUS_RULES.defaults): string {
+  return status === "Critical" ? `Critical (≤${thresholds.criticalDays} days)` : status;
+}
+
+function readDays(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 && n <= MAX_DAYS ? n : undefined;
+}
+
+/** Accepts only whole day counts in range; returns null when nothing usable was given. */
+export function sanitizeThresholds(value: unknown): Partial<StatusThresholds> | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const result: Partial<StatusThresholds> = {};
+  const soon = readDays(raw.expiringSoonDays);
+  const critical = readDays(raw.criticalDays);
+  if (soon !== undefined) result.expiringSoonDays = soon;
+  if (critical !== undefined) result.criticalDays = critical;
+  return Object.keys(result).length ? result : null;
+}
+
+/** Validates a full rule set, e.g. from the settings screen. Returns an error message or the clean rules. */
+export function validateStatusRules(value: unknown): { rules: StatusRules } | { error: string } {
+  if (!value || typeof value !== "object") return { error: "rules must be an object" };
+  const raw = value as Record<string, unknown>;
+  const timeZone = typeof raw.timeZone === "string" ? raw.timeZone.trim() : "";
+  if (!timeZone || !isValidTimeZone(timeZone)) return { error: "timeZone must be an IANA time zone such as Europe/London" };
+  const full = (v: unknown): StatusThresholds | null => {
+    const t = sanitizeThresholds(v);
+    return t?.expiringSoonDays !== undefined && t.criticalDays !== undefined
+      ? { expiringSoonDays: t.expiringSoonDays, criticalDays: t.criticalDays }
+      : null;
+  };
+  const defaults = full(raw.defaults);
+  if (!defaults) return { error: `defaults need expiringSoonDays and criticalDays as whole days (0–${MAX_DAYS})` };
+  const categories: Record<string, StatusThresholds> = {};
+  for (const [name, thresholds] of Object.entries((raw.categories ?? {}) as Record<string, unknown>)) {
+    const key = name.trim().toLowerCase();
+    const parsed = full(thresholds);
+    if (!key) continue;
+    if (!parsed) return { error: `category "${name}" needs expiringSoonDays and criticalDays as whole days` };
+    categories[key] = parsed;
+  }
+  return { rules: { timeZone, defaults, categories } };
+}
@@ -0,0 +1,28 @@
+import { csvTable } from "@/lib/export/csv";
+import type { StockLine, StockView } from "./index";
+
+export const STOCK_LISTS = ["pick", "discard"] as const;
+
+export type StockList = (typeof STOCK_LISTS)[number];
+
+function lineRow(line: StockLine): string[] {
+  return [
+    line.product,
+    String(line.order),
+    line.expiryDate,
+    String(line.daysLeft),
+    line.lots.join("; "),
+    String(line.quantity),
+    line.unconfirmed ? "yes" : "",
+    line.itemIds.join("; "),
+  ];
+}
+
+/** The pick or discard list as printed in the stock room: one row per product and expiry date. */
+export function stockListCsv(view: StockView, list: StockList): string {
+  const lines = list === "pick" ? view.pickList : view.discardList;
+  return csvTable(
+    ["Product", list === "pick" ? "Pick Order" : "Line", "Expiry Date", list === "pick" ? "Days Left" : "Days", "Lots", "Quantity", "Unconfirmed", "Item IDs"],
+    lines.map(lineRow)
+  );
+}
@@ -0,0 +1,203 @@
+// Grouped stock, pick and discard lists shared by the stock API and the dashboard; no Node imports here.
+
+import type { InventoryItem } from "@/lib/items/types";
+import { daysBetween, normalizeExpiry } from "@/lib/status";
+import { normalizeProductName, productKey, type ProductAliases } from "./names";
+
+export { normalizeProductName, productKey, validateProductAliases, type ProductAliases } from "./names";
+
+/** Within a product, items are batched by their expiry date or by lot. */
+export type StockGrouping = "expiry" | "lot";
+
+export const STOCK_GROUPINGS: StockGrouping[] = ["expiry", "lot"];
+
+export type StockBatch = {
+  /** The expiry date or lot the batch is keyed by; "" for items without one. */
+  key: string;
+  /** Earliest expiry among the batch's items; "" when none has a date. */
+  expiryDate: string;
+  /** Lots in the batch, one when grouping by lot. */
+  lots: string[];
+  quantity: number;
+  itemIds: string[];
+  /** Days from today to `expiryDate`; negative once expired, null without a date. */
+  daysLeft: number | null;
+  /** Some items still wait for a person to confirm what was read. */
+  unconfirmed: boolean;
+};
+
+export type StockGroup = {
+  key: string;
+  /** The spelling most items use. */
+  product: string;
+  /** Every spelling that was counted under this product. */
+  names: string[];
+  gtins: string[];
+  quantity: number;
+  /** Earliest expiry over all batches, expired ones included. */
+  earliestExpiry: string;
+  /** Items with no readable expiry; they appear in neither list. */
+  undated: number;
+  /** Soonest to expire first, undated last. */
+  batches: StockBatch[];
+};
+
+/** One line of a pick or discard list. */
+export type StockLine = {
+  product: string;
+  productKey: string;
+  expiryDate: string;
+  lots: string[];
+  quantity: number;
+  itemIds: string[];
+  daysLeft: number;
+  unconfirmed: boolean;
+  /** Position within the product on the pick list: take 1 before 2. */
+  order: number;
+};
+
+export type StockView = {
+  today: string;
+  groupBy: StockGrouping;
+  products: StockGroup[];
+  /** Usable stock, First-Expired-First-Out: per product, the soonest to expire first. */
+  pickList: StockLine[];
+  /** Stock past its expiry date. */
+  discardList: StockLine[];
+};
+
+const UNNAMED = "Unnamed item";
+
+function expiryOf(item: InventoryItem): string {
+  return normalizeExpiry(item.expiryDate) ?? "";
+}
+
+/**
+ * Sorts items into products. Names that normalize the same are one product,
+ * and so are items sharing a GTIN whatever they are called, so a label read
+ * as "Acme Gauze" and its barcode-only twin end up together.
+ */
+function productsOf(items: InventoryItem[], aliases: ProductAliases): InventoryItem[][] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const first = new Map<string, number>();
+  items.forEach((item, i) => {
+    const name = productKey(item.product, aliases);
+    const gtin = item.gtin.trim();
+    // Unnamed items without a GTIN all share one group; with one, they go by it alone.
+    const keys = name || !gtin ? [`name:${name}`] : [];
+    if (gtin) keys.push(`gtin:${gtin}`);
+    for (const key of keys) {
+      const seen = first.get(key);
+      if (seen === undefined) first.set(key, i);
+      else parent[find(i)] = find(seen);
+    }
+  });
+  const groups = new Map<number, InventoryItem[]>();
+  items.forEach((item, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), item]));
+  return [...groups.values()];
+}
+
+/** Ties go to mixed-case spellings, which are more likely typed than shouted or lower-cased by a reader. */
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  const mixed = (v: string) => (v !== v.toUpperCase() && v !== v.toLowerCase() ? 1 : 0);
+  return [...counts].sort((a, b) => b[1] - a[1] || mixed(b[0]) - mixed(a[0]) || a[0].localeCompare(b[0]))[0]?.[0] ?? "";
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))].sort();
+}
+
+/** Dated before undated, then by date. */
+function byExpiry(a: { expiryDate: string }, b: { expiryDate: string }): number {
+  return (a.expiryDate ? 0 : 1) - (b.expiryDate ? 0 : 1) || a.expiryDate.localeCompare(b.expiryDate);
+}
+
+function batchesOf(items: InventoryItem[], groupBy: StockGrouping, today: string): StockBatch[] {
+  const batches = new Map<string, InventoryItem[]>();
+  for (const item of items) {
+    const key = groupBy === "lot" ? item.lot.trim() : expiryOf(item);
+    batches.set(key, [...(batches.get(key) ?? []), item]);
+  }
+  return [...batches]
+    .map(([key, batch]) => {
+      const expiryDate = batch.map(expiryOf).filter(Boolean).sort()[0] ?? "";
+      return {
+        key,
+        expiryDate,
+        lots: unique(batch.map((i) => i.lot.trim())),
+        quantity: batch.length,
+        itemIds: batch.map((i) => i.id),
+        daysLeft: expiryDate ? daysBetween(today, expiryDate) : null,
+        unconfirmed: batch.some((i) => i.review.status === "pending"),
+      };
+    })
+    .sort(byExpiry);
+}
+
+/** Lines for one product's dated stock on one side of today, batched by expiry date. */
+function linesOf(group: StockGroup, items: InventoryItem[], today: string, expired: boolean): StockLine[] {
+  const dated = items.filter((i) => {
+    const expiry = expiryOf(i);
+    return expiry && (daysBetween(today, expiry) < 0) === expired;
+  });
+  return batchesOf(dated, "expiry", today).map((batch, i) => ({
+    product: group.product,
+    productKey: group.key,
+    expiryDate: batch.expiryDate,
+    lots: batch.lots,
+    quantity: batch.quantity,
+    itemIds: batch.itemIds,
+    daysLeft: batch.daysLeft ?? 0,
+    unconfirmed: batch.unconfirmed,
+    order: i + 1,
+  }));
+}
+
+/**
+ * Groups stock by product and then by expiry date or lot, and derives the
+ * morning lists from it. Each item is one unit. `today` is a YYYY-MM-DD date
+ * on the status rules' calendar; items expiring today are still picked.
+ */
+export function buildStockView(
+  items: InventoryItem[],
+  options: { today: string; groupBy?: StockGrouping; aliases?: ProductAliases }
+): StockView {
+  const { today, groupBy = "expiry", aliases = {} } = options;
+  const products: StockGroup[] = [];
+  const pickList: StockLine[] = [];
+  const discardList: StockLine[] = [];
+  for (const members of productsOf(items, aliases)) {
+    const named = members.map((i) => i.product.trim().replace(/\s+/g, " ")).filter((name) => productKey(name, aliases));
+    const batches = batchesOf(members, groupBy, today);
+    // Aliased spellings count towards the name they were aliased to.
+    const product = mostCommon(named.map((name) => aliases[normalizeProductName(name)] ?? name));
+    const group: StockGroup = {
+      key: productKey(product, aliases) || (members[0].gtin.trim() ? `gtin:${members[0].gtin.trim()}` : ""),
+      product: product || UNNAMED,
+      names: unique(named),
+      gtins: unique(members.map((i) => i.gtin.trim())),
+      quantity: members.length,
+      earliestExpiry: members.map(expiryOf).filter(Boolean).sort()[0] ?? "",
+      undated: members.filter((i) => !expiryOf(i)).length,
+      batches,
+    };
+    products.push(group);
+    pickList.push(...linesOf(group, members, today, false));
+    discardList.push(...linesOf(group, members, today, true));
+  }
+  products.sort((a, b) => byExpiry({ expiryDate: a.earliestExpiry }, { expiryDate: b.earliestExpiry }) || a.product.localeCompare(b.product));
+  // Products whose next unit expires soonest come first; within one, the list's `order`.
+  const firstExpiry = new Map<string, string>();
+  for (const line of pickList) if (line.order === 1) firstExpiry.set(line.productKey, line.expiryDate);
+  pickList.sort(
+    (a, b) =>
+      (firstExpiry.get(a.productKey) ?? "").localeCompare(firstExpiry.get(b.productKey) ?? "") ||
+      a.product.localeCompare(b.product) ||
+      a.order - b.order
+  );
+  discardList.sort((a, b) => a.expiryDate.localeCompare(b.expiryDate) || a.product.localeCompare(b.product));
+  return { today, groupBy, products, pickList, discardList };
+}
@@ -0,0 +1,54 @@
+// Product name matching shared by the stock API and the dashboard; no Node imports here.
+
+/** Normalized variant → the name it should be counted under, e.g. "j and j" → "Johnson & Johnson". */
+export type ProductAliases = Record<string, string>;
+
+const MAX_ALIASES = 500;
+
+/** Placeholder names the dashboard gives photos before they are read. */
+const PLACEHOLDER = /^product_\d+$/;
+
+/**
+ * Case, accents, trademark signs, punctuation and spacing removed, so
+ * "ACME® Band-Aid", "Acme band aid" and "acme  BAND AID" read the same.
+ * "&" becomes "and". Returns "" for unnamed and placeholder items.
+ */
+export function normalizeProductName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed || PLACEHOLDER.test(trimmed)) return "";
+  // Signs go before NFKD, which would spell ™ out as "TM".
+  return trimmed
+    .replace(/[®™©℠]/g, "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * The key items are grouped under: the normalized name, swapped for its
+ * alias target when there is one, with spaces dropped so "band aid" and
+ * "bandaid" match.
+ */
+export function productKey(name: string, aliases: ProductAliases = {}): string {
+  const normalized = normalizeProductName(name);
+  const target = aliases[normalized];
+  return (target ? normalizeProductName(target) : normalized).replace(/ /g, "");
+}
+
+/** Accepts `{ variant: canonical }` in any spelling; keys are stored normalized. */
+export function validateProductAliases(value: unknown): { aliases: ProductAliases } | { error: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return { error: "aliases must be an object of variant: product name" };
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length > MAX_ALIASES) return { error: `at most ${MAX_ALIASES} aliases` };
+  const aliases: ProductAliases = {};
+  for (const [variant, target] of entries) {
+    const key = normalizeProductName(variant);
+    if (!key) return { error: `"${variant}" is not a product name` };
+    if (typeof target !== "string" || !normalizeProductName(target)) return { error: `alias for "${variant}" must be a product name` };
+    aliases[key] = target.trim();
+  }
+  return { aliases };
+}
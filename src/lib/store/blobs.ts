@@ -0,0 +1,38 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { dataDir } from "./json-file";
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+export type StoredBlob = { id: string; mimeType: string };
+
+function blobPath(id: string): string {
+  if (!/^[\w.-]+$/.test(id)) throw new Error(`Invalid blob id: ${id}`);
+  return path.join(dataDir(), "images", id);
+}
+
+export async function saveBlob(buffer: Buffer, mimeType: string): Promise<StoredBlob> {
+  const id = `${randomUUID()}.${EXTENSIONS[mimeType] ?? "bin"}`;
+  await mkdir(path.join(dataDir(), "images"), { recursive: true });
+  await writeFile(blobPath(id), buffer);
+  return { id, mimeType };
+}
+
+export async function readBlob(id: string): Promise<Buffer | null> {
+  try {
+    return await readFile(blobPath(id));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+export async function deleteBlob(id: string): Promise<void> {
+  await rm(blobPath(id), { force: true });
+}
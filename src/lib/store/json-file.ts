@@ -0,0 +1,67 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+export function dataDir(): string {
+  return path.resolve(process.env.DATA_DIR || path.join(process.cwd(), ".data"));
+}
+
+// Route handlers are bundled separately, so the write queues have to live on
+// globalThis for two modules opening the same file to share one.
+const globalForStore = globalThis as typeof globalThis & {
+  jsonFileQueues?: Map<string, Promise<unknown>>;
+};
+
+let tmpCounter = 0;
+
+export type JsonFile<T> = {
+  read(): Promise<T>;
+  /** Serialized read-modify-write; `fn` may mutate `data` in place. */
+  update<R>(fn: (data: T) => R | Promise<R>): Promise<R>;
+};
+
+/**
+ * A JSON document under DATA_DIR. Writes go through a temp file and rename so
+ * a crash never leaves half a file, and updates within this process are
+ * queued per file so concurrent requests cannot overwrite each other.
+ */
+export function createJsonFile<T>(name: string, initial: () => T): JsonFile<T> {
+  const file = () => path.join(dataDir(), name);
+  const queues = () => (globalForStore.jsonFileQueues ??= new Map());
+  const queue = () => queues().get(file()) ?? Promise.resolve();
+
+  async function read(): Promise<T> {
+    try {
+      return JSON.parse(await readFile(file(), "utf8")) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return initial();
+      throw err;
+    }
+  }
+
+  async function write(data: T): Promise<void> {
+    const target = file();
+    await mkdir(path.dirname(target), { recursive: true });
+    const tmp = `${target}.${process.pid}.${++tmpCounter}.tmp`;
+    await writeFile(tmp, JSON.stringify(data));
+    await rename(tmp, target);
+  }
+
+  return {
+    read: () => queue().then(read),
+    update<R>(fn: (data: T) => R | Promise<R>) {
+      const key = file();
+      const run = queue().then(async () => {
+        const data = await read();
+        const result = await fn(data);
+        await write(data);
+        return result;
+      });
+      const settled = run.catch(() => undefined);
+      queues().set(key, settled);
+      void settled.then(() => {
+        if (queues().get(key) === settled) queues().delete(key);
+      });
+      return run;
+    },
+  };
+}